@@ -0,0 +1,205 @@
+import { parseBuildManifests, parseVersionCatalog } from '../../src/core/build-manifests';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('build manifests', () => {
+  let repoDir: string;
+
+  const write = (file: string, content: string) => {
+    fs.mkdirSync(path.dirname(path.join(repoDir, file)), { recursive: true });
+    fs.writeFileSync(path.join(repoDir, file), content);
+  };
+  const coordinates = () => parseBuildManifests(repoDir).map(d => `${d.file} ${d.name}@${d.version}${d.dev ? ' (dev)' : ''}`).sort();
+
+  beforeEach(() => {
+    repoDir = fs.mkdtempSync(path.join(os.tmpdir(), 'build-manifests-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(repoDir, { recursive: true, force: true });
+  });
+
+  it('should resolve Maven properties and parent dependencyManagement', () => {
+    write('pom.xml', `
+      <project>
+        <groupId>com.acme</groupId>
+        <artifactId>parent</artifactId>
+        <version>1.0.0</version>
+        <packaging>pom</packaging>
+        <properties><jackson.version>2.9.8</jackson.version></properties>
+        <dependencyManagement>
+          <dependencies>
+            <dependency>
+              <groupId>com.fasterxml.jackson.core</groupId>
+              <artifactId>jackson-databind</artifactId>
+              <version>\${jackson.version}</version>
+            </dependency>
+            <dependency>
+              <groupId>org.springframework.boot</groupId>
+              <artifactId>spring-boot-dependencies</artifactId>
+              <version>2.7.0</version>
+              <type>pom</type>
+              <scope>import</scope>
+            </dependency>
+          </dependencies>
+        </dependencyManagement>
+      </project>`);
+    write('service/pom.xml', `
+      <project>
+        <parent>
+          <groupId>com.acme</groupId>
+          <artifactId>parent</artifactId>
+          <version>1.0.0</version>
+        </parent>
+        <artifactId>service</artifactId>
+        <!-- <dependency><groupId>commented</groupId><artifactId>out</artifactId><version>1</version></dependency> -->
+        <dependencies>
+          <dependency>
+            <groupId>com.fasterxml.jackson.core</groupId>
+            <artifactId>jackson-databind</artifactId>
+            <exclusions><exclusion><groupId>x</groupId><artifactId>y</artifactId></exclusion></exclusions>
+          </dependency>
+          <dependency>
+            <groupId>\${project.groupId}</groupId>
+            <artifactId>common</artifactId>
+            <version>\${project.version}</version>
+          </dependency>
+          <dependency>
+            <groupId>junit</groupId>
+            <artifactId>junit</artifactId>
+            <version>4.12</version>
+            <scope>test</scope>
+          </dependency>
+          <dependency>
+            <groupId>org.springframework.boot</groupId>
+            <artifactId>spring-boot-starter</artifactId>
+          </dependency>
+          <dependency>
+            <groupId>com.google.guava</groupId>
+            <artifactId>guava</artifactId>
+            <version>[30.0,)</version>
+          </dependency>
+        </dependencies>
+        <build><plugins><plugin><dependencies><dependency>
+          <groupId>plugin</groupId><artifactId>only</artifactId><version>1.0</version>
+        </dependency></dependencies></plugin></plugins></build>
+      </project>`);
+
+    expect(coordinates()).toEqual([
+      'service/pom.xml com.acme:common@1.0.0',
+      'service/pom.xml com.fasterxml.jackson.core:jackson-databind@2.9.8',
+      'service/pom.xml junit:junit@4.12 (dev)',
+    ]);
+  });
+
+  it('should read Gradle string, map and version catalog notations', () => {
+    write('gradle.properties', 'okhttpVersion=4.9.0\n');
+    write('gradle/libs.versions.toml', [
+      '[versions]',
+      'jackson = "2.13.0"',
+      '',
+      '[libraries]',
+      'jackson-databind = { module = "com.fasterxml.jackson.core:jackson-databind", version.ref = "jackson" }',
+      'commons_text = "org.apache.commons:commons-text:1.9"',
+      'log4j = { group = "org.apache.logging.log4j", name = "log4j-core", version = "2.14.1" }',
+      '',
+      '[bundles]',
+      'logging = [',
+      '  "log4j",',
+      ']',
+    ].join('\n'));
+    write('app/build.gradle.kts', [
+      'val snakeyamlVersion = "1.29"',
+      'dependencies {',
+      '    implementation("com.squareup.okhttp3:okhttp:$okhttpVersion")',
+      '    implementation("org.yaml:snakeyaml:${snakeyamlVersion}")',
+      '    implementation(libs.jackson.databind)',
+      '    implementation(libs.commons.text)',
+      '    runtimeOnly(libs.bundles.logging)',
+      '    testImplementation(group = "junit", name = "junit", version = "4.13")',
+      '    implementation("com.google.guava:guava:31.+")',
+      '    // implementation("commented:out:1.0")',
+      '}',
+    ].join('\n'));
+
+    expect(coordinates()).toEqual([
+      'app/build.gradle.kts com.fasterxml.jackson.core:jackson-databind@2.13.0',
+      'app/build.gradle.kts com.squareup.okhttp3:okhttp@4.9.0',
+      'app/build.gradle.kts junit:junit@4.13 (dev)',
+      'app/build.gradle.kts org.apache.commons:commons-text@1.9',
+      'app/build.gradle.kts org.apache.logging.log4j:log4j-core@2.14.1',
+      'app/build.gradle.kts org.yaml:snakeyaml@1.29',
+    ]);
+  });
+
+  it('should prefer gradle.lockfile over the build script in the same directory', () => {
+    write('build.gradle', "dependencies { implementation 'org.yaml:snakeyaml:1.+' }");
+    write('gradle.lockfile', [
+      '# This is a Gradle generated file for dependency locking.',
+      'org.yaml:snakeyaml:1.33=compileClasspath,runtimeClasspath',
+      'junit:junit:4.13.2=testCompileClasspath,testRuntimeClasspath',
+      'empty=annotationProcessor',
+    ].join('\n'));
+
+    expect(coordinates()).toEqual([
+      'gradle.lockfile junit:junit@4.13.2 (dev)',
+      'gradle.lockfile org.yaml:snakeyaml@1.33',
+    ]);
+  });
+
+  it('should read NuGet project files with central package management and lockfiles', () => {
+    write('Directory.Packages.props', `
+      <Project>
+        <PropertyGroup><SerilogVersion>2.10.0</SerilogVersion></PropertyGroup>
+        <ItemGroup>
+          <PackageVersion Include="Newtonsoft.Json" Version="12.0.1" />
+          <PackageVersion Include="Serilog" Version="$(SerilogVersion)" />
+        </ItemGroup>
+      </Project>`);
+    write('src/Api/Api.csproj', `
+      <Project Sdk="Microsoft.NET.Sdk.Web">
+        <ItemGroup>
+          <PackageReference Include="Newtonsoft.Json" />
+          <PackageReference Include="Serilog" VersionOverride="2.12.0" />
+          <PackageReference Include="Dapper">
+            <Version>2.0.123</Version>
+          </PackageReference>
+        </ItemGroup>
+      </Project>`);
+    write('src/Worker/Worker.csproj', '<Project><ItemGroup><PackageReference Include="Ignored" Version="1.0.0" /></ItemGroup></Project>');
+    write('src/Worker/packages.lock.json', JSON.stringify({
+      version: 1,
+      dependencies: {
+        'net6.0': {
+          'System.Text.Encodings.Web': { type: 'Transitive', resolved: '4.5.0' },
+          'Api': { type: 'Project' },
+        },
+      },
+    }));
+
+    expect(coordinates()).toEqual([
+      'src/Api/Api.csproj Dapper@2.0.123',
+      'src/Api/Api.csproj Newtonsoft.Json@12.0.1',
+      'src/Api/Api.csproj Serilog@2.12.0',
+      'src/Worker/packages.lock.json System.Text.Encodings.Web@4.5.0',
+    ]);
+  });
+
+  it('should skip build output directories', () => {
+    write('target/classes/META-INF/pom.xml', '<project><dependencies><dependency><groupId>a</groupId><artifactId>b</artifactId><version>1</version></dependency></dependencies></project>');
+    write('bin/Debug/App.csproj', '<Project><ItemGroup><PackageReference Include="X" Version="1.0.0" /></ItemGroup></Project>');
+
+    expect(coordinates()).toEqual([]);
+  });
+
+  it('should normalize version catalog aliases to accessor names', () => {
+    const catalog = parseVersionCatalog('[libraries]\nspring-boot_starter = "org.springframework.boot:spring-boot-starter:2.7.0"\n');
+
+    expect(catalog.libraries.get('spring.boot.starter')).toEqual({
+      group: 'org.springframework.boot',
+      name: 'spring-boot-starter',
+      version: '2.7.0',
+    });
+  });
+});
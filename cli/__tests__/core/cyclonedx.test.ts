@@ -0,0 +1,125 @@
+import { buildCycloneDxBom, validateCycloneDxBom, cycloneDxToXml } from '../../src/core/cyclonedx';
+import { buildDependencyTree } from '../../src/core/dependency-graph';
+import { LicenseFinding } from '../../src/core/license-scanner';
+
+const finding = (pkg: string, version: string, license: string): LicenseFinding => ({
+  package: pkg,
+  version,
+  license,
+  category: 'permissive',
+  risk: 'low',
+  description: '',
+  source: 'npm',
+});
+
+describe('CycloneDX SBOM', () => {
+  const lockfile = JSON.stringify({
+    name: 'app',
+    lockfileVersion: 3,
+    packages: {
+      '': { name: 'app', dependencies: { express: '^4.17.0' }, devDependencies: { '@types/node': '^20.0.0' } },
+      'node_modules/express': {
+        version: '4.17.1',
+        integrity: 'sha512-mHJ9O79RqluphRrcw2X/GTh3k9tVv8YcoyY4Kkh4WDMUYKRZUq0h1o0w2rrrxBqM7VoeUVqgb27xlEMXTnYt4g==',
+        dependencies: { qs: '6.7.0' },
+      },
+      'node_modules/qs': { version: '6.7.0', integrity: 'sha1-QdwaAV49WB8WIXdr4xr7KHapsbw=' },
+      'node_modules/@types/node': { version: '20.1.0', dev: true },
+    },
+  });
+
+  const build = (findings: LicenseFinding[] = []) => buildCycloneDxBom({
+    repoPath: '/nonexistent',
+    projectName: 'app',
+    findings,
+    trees: [buildDependencyTree('package-lock.json', lockfile, undefined, 'app')],
+    dependencies: [{ name: 'github.com/pkg/errors', version: 'v0.9.1', ecosystem: 'go', file: 'go.sum' }],
+  });
+
+  it('should build components with purls, hashes, scopes and licenses', () => {
+    const bom = build([finding('express', '4.17.1', 'MIT'), finding('qs', '6.7.0', 'BSD-3-Clause OR MIT'), finding('@types/node', '20.1.0', 'Custom License')]);
+
+    expect(bom.specVersion).toBe('1.5');
+    expect(bom.serialNumber).toMatch(/^urn:uuid:[0-9a-f-]{36}$/);
+    expect(bom.metadata.component).toEqual({ type: 'application', 'bom-ref': 'app', name: 'app' });
+    expect(bom.metadata.tools.components[0].name).toBe('guardscan');
+
+    const byRef = new Map(bom.components.map(component => [component['bom-ref'], component]));
+    expect(Array.from(byRef.keys())).toEqual([
+      'pkg:golang/github.com/pkg/errors@v0.9.1',
+      'pkg:npm/%40types/node@20.1.0',
+      'pkg:npm/express@4.17.1',
+      'pkg:npm/qs@6.7.0',
+    ]);
+    expect(byRef.get('pkg:npm/express@4.17.1')).toEqual({
+      type: 'library',
+      'bom-ref': 'pkg:npm/express@4.17.1',
+      name: 'express',
+      version: '4.17.1',
+      scope: 'required',
+      hashes: [{ alg: 'SHA-512', content: '98727d3bbf51aa5ba9851adcc365ff19387793db55bfc61ca326382a487858331460a45952ad21d68d30dabaebc41a8ced5a1e515aa06f6ef19443174e762de2' }],
+      licenses: [{ expression: 'MIT' }],
+      purl: 'pkg:npm/express@4.17.1',
+    });
+    expect(byRef.get('pkg:npm/qs@6.7.0')).toMatchObject({
+      hashes: [{ alg: 'SHA-1', content: '41dc1a015e3d581f1621776be31afb2876a9b1bc' }],
+      licenses: [{ expression: 'BSD-3-Clause OR MIT' }],
+    });
+    expect(byRef.get('pkg:npm/%40types/node@20.1.0')).toMatchObject({
+      group: '@types',
+      name: 'node',
+      scope: 'optional',
+      licenses: [{ license: { name: 'Custom License' } }],
+    });
+  });
+
+  it('should record the dependency tree from the lockfile', () => {
+    const bom = build();
+
+    expect(bom.dependencies).toEqual([
+      { ref: 'app', dependsOn: ['pkg:npm/%40types/node@20.1.0', 'pkg:npm/express@4.17.1'] },
+      { ref: 'pkg:npm/%40types/node@20.1.0', dependsOn: [] },
+      { ref: 'pkg:npm/express@4.17.1', dependsOn: ['pkg:npm/qs@6.7.0'] },
+      { ref: 'pkg:npm/qs@6.7.0', dependsOn: [] },
+    ]);
+    expect(validateCycloneDxBom(bom)).toEqual([]);
+  });
+
+  it('should report schema and reference violations', () => {
+    const bom: any = build();
+    bom.components[0].hashes = [{ alg: 'SHA-512', content: 'not-hex' }];
+    bom.components[1].type = 'widget';
+    bom.components[2].vendor = 'acme';
+    bom.components[2].licenses = [{ license: { id: 'Not-A-License' } }];
+    bom.dependencies.push({ ref: 'pkg:npm/missing@1.0.0' });
+
+    expect(validateCycloneDxBom(bom)).toEqual([
+      'components[0].hashes[0].content does not match ^([a-fA-F0-9]{32}|[a-fA-F0-9]{40}|[a-fA-F0-9]{64}|[a-fA-F0-9]{96}|[a-fA-F0-9]{128})$',
+      expect.stringMatching(/^components\[1\]\.type must be one of: application, /),
+      'Unknown key "components[2].vendor"',
+      // Not in the SPDX license list the schema references, so neither license nor expression matches
+      'components[2].licenses must match exactly one allowed shape (matched 0)',
+    ]);
+
+    delete bom.components[0].hashes;
+    delete bom.components[2].vendor;
+    delete bom.components[2].licenses;
+    bom.components[1].type = 'library';
+    expect(validateCycloneDxBom(bom)).toEqual(['dependencies reference unknown bom-ref "pkg:npm/missing@1.0.0"']);
+  });
+
+  it('should serialize to CycloneDX 1.5 XML', () => {
+    const xml = cycloneDxToXml(build([finding('express', '4.17.1', 'MIT')]));
+
+    expect(xml).toContain('<bom xmlns="http://cyclonedx.org/schema/bom/1.5" serialNumber="urn:uuid:');
+    expect(xml).toContain([
+      '    <component type="library" bom-ref="pkg:npm/express@4.17.1">',
+      '      <name>express</name>',
+      '      <version>4.17.1</version>',
+      '      <scope>required</scope>',
+      '      <hashes>',
+    ].join('\n'));
+    expect(xml).toContain('      <licenses>\n        <expression>MIT</expression>\n      </licenses>\n      <purl>pkg:npm/express@4.17.1</purl>');
+    expect(xml).toContain('    <dependency ref="pkg:npm/express@4.17.1">\n      <dependency ref="pkg:npm/qs@6.7.0"/>\n    </dependency>');
+  });
+});
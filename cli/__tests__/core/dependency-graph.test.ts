@@ -0,0 +1,146 @@
+import { buildDependencyTree, formatDependencyPath, recommendUpgrade, DependencyTree } from '../../src/core/dependency-graph';
+
+const chains = (tree: DependencyTree, name: string) =>
+  tree.find(name).flatMap(node => tree.paths(node.id).map(chain => formatDependencyPath(tree, chain)));
+
+describe('dependency graph', () => {
+  const packageLock = (packages: Record<string, object>) => JSON.stringify({ name: 'app', lockfileVersion: 3, packages });
+
+  it('should resolve package-lock.json dependencies through nested node_modules', () => {
+    const tree = buildDependencyTree('package-lock.json', packageLock({
+      '': { name: 'app', dependencies: { a: '^1.0.0', b: '^1.0.0' }, devDependencies: { jest: '^29.0.0' } },
+      'node_modules/a': { version: '1.0.0', dependencies: { vuln: '^2.0.0' } },
+      'node_modules/vuln': { version: '2.0.0' },
+      'node_modules/b': { version: '1.0.0', dependencies: { a: '^2.0.0' } },
+      'node_modules/b/node_modules/a': { version: '2.0.0', dependencies: { vuln: '^3.1.0' } },
+      'node_modules/b/node_modules/vuln': { version: '3.1.0' },
+      'node_modules/jest': { version: '29.0.0', dev: true },
+    }));
+
+    expect(tree.direct.map(edge => edge.id).sort()).toEqual(['a@1.0.0', 'b@1.0.0', 'jest@29.0.0']);
+    expect(chains(tree, 'vuln')).toEqual([
+      'app → a@1.0.0 → vuln@2.0.0',
+      'app → b@1.0.0 → a@2.0.0 → vuln@3.1.0',
+    ]);
+    expect(tree.find('jest')[0].dev).toBe(true);
+  });
+
+  it('should recommend a lockfile refresh when the declared range allows the fix', () => {
+    const tree = buildDependencyTree('package-lock.json', packageLock({
+      '': { dependencies: { a: '^1.0.0' } },
+      'node_modules/a': { version: '1.0.0', dependencies: { vuln: '^3.0.0' } },
+      'node_modules/vuln': { version: '3.0.0' },
+    }));
+
+    const [chain] = tree.paths('vuln@3.0.0');
+
+    expect(recommendUpgrade(tree, chain, ['3.0.5'])).toBe(
+      'Update vuln to 3.0.5; a@1.0.0 allows it (^3.0.0), so a lockfile refresh is enough'
+    );
+  });
+
+  it('should recommend the direct dependency upgrade that pulls in a fixed version', () => {
+    const tree = buildDependencyTree('package-lock.json', packageLock({
+      '': { dependencies: { a: '^1.0.0', b: '^1.0.0' } },
+      'node_modules/a': { version: '1.0.0', dependencies: { vuln: '^2.0.0' } },
+      'node_modules/vuln': { version: '2.0.0' },
+      'node_modules/b': { version: '1.0.0', dependencies: { a: '^2.0.0' } },
+      'node_modules/b/node_modules/a': { version: '2.0.0', dependencies: { vuln: '^3.1.0' } },
+      'node_modules/b/node_modules/vuln': { version: '3.1.0' },
+    }));
+
+    const [chain] = tree.paths('vuln@2.0.0');
+
+    expect(recommendUpgrade(tree, chain, ['3.0.5'])).toBe(
+      'Upgrade direct dependency a to 2.0.0 (pulls in a@2.0.0 → vuln@3.1.0)'
+    );
+    expect(recommendUpgrade(tree, chain, ['4.0.0'])).toBe(
+      'Update vuln to 4.0.0; no installed version of a pulls it in, so upgrade a or override vuln'
+    );
+  });
+
+  it('should read yarn Berry and pnpm graphs', () => {
+    const berry = [
+      '__metadata:',
+      '  version: 6',
+      '',
+      '"app@workspace:.":',
+      '  version: 0.0.0-use.local',
+      '  dependencies:',
+      '    express: ^4.17.0',
+      '',
+      '"express@npm:^4.17.0":',
+      '  version: 4.17.1',
+      '  dependencies:',
+      '    qs: "npm:6.7.0"',
+      '',
+      '"qs@npm:6.7.0":',
+      '  version: 6.7.0',
+    ].join('\n');
+    const pnpm = [
+      "lockfileVersion: '6.0'",
+      'importers:',
+      '  .:',
+      '    dependencies:',
+      '      express:',
+      '        specifier: ^4.17.0',
+      '        version: 4.17.1',
+      'packages:',
+      '  /express@4.17.1:',
+      '    dependencies:',
+      '      qs: 6.7.0',
+      '    dev: false',
+      '  /qs@6.7.0:',
+      '    dev: false',
+    ].join('\n');
+
+    for (const tree of [buildDependencyTree('yarn.lock', berry, undefined, 'app'), buildDependencyTree('pnpm-lock.yaml', pnpm, undefined, 'app')]) {
+      expect(chains(tree, 'qs')).toEqual(['app → express@4.17.1 → qs@6.7.0']);
+      expect(tree.declaredRange(null, 'express@4.17.1')).toBe('^4.17.0');
+    }
+  });
+
+  it('should read Gemfile.lock, Cargo.lock and composer.lock graphs', () => {
+    const gemfile = [
+      'GEM',
+      '  remote: https://rubygems.org/',
+      '  specs:',
+      '    nokogiri (1.13.10-x86_64-linux)',
+      '      racc (~> 1.4)',
+      '    racc (1.6.0)',
+      '',
+      'DEPENDENCIES',
+      '  nokogiri (~> 1.13)',
+    ].join('\n');
+    const cargo = [
+      '[[package]]',
+      'name = "app"',
+      'version = "0.1.0"',
+      'dependencies = [',
+      ' "hyper",',
+      ']',
+      '',
+      '[[package]]',
+      'name = "hyper"',
+      'version = "0.14.0"',
+      'source = "registry+https://github.com/rust-lang/crates.io-index"',
+      'dependencies = ["h2 0.3.0"]',
+      '',
+      '[[package]]',
+      'name = "h2"',
+      'version = "0.3.0"',
+      'source = "registry+https://github.com/rust-lang/crates.io-index"',
+    ].join('\n');
+    const composer = JSON.stringify({
+      packages: [
+        { name: 'guzzlehttp/guzzle', version: 'v7.4.0', require: { php: '^7.2', 'guzzlehttp/psr7': '^2.1' } },
+        { name: 'guzzlehttp/psr7', version: '2.1.0' },
+      ],
+    });
+
+    expect(chains(buildDependencyTree('Gemfile.lock', gemfile, undefined, 'app'), 'racc')).toEqual(['app → nokogiri@1.13.10 → racc@1.6.0']);
+    expect(chains(buildDependencyTree('Cargo.lock', cargo, undefined, 'app'), 'h2')).toEqual(['app → hyper@0.14.0 → h2@0.3.0']);
+    expect(chains(buildDependencyTree('composer.lock', composer, { require: { 'guzzlehttp/guzzle': '^7.0' } }, 'app'), 'guzzlehttp/psr7'))
+      .toEqual(['app → guzzlehttp/guzzle@7.4.0 → guzzlehttp/psr7@2.1.0']);
+  });
+});
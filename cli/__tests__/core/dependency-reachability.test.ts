@@ -0,0 +1,172 @@
+import { DependencyReachabilityAnalyzer, filterReachable } from '../../src/core/dependency-reachability';
+import { DependencyScanResult, DependencyVulnerability } from '../../src/core/dependency-scanner';
+import { configManager } from '../../src/core/config';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+const vuln = (ecosystem: 'npm' | 'pip', name: string, affectedFunctions?: string[]): DependencyVulnerability => ({
+  package: name,
+  version: '1.0.0',
+  severity: 'high',
+  title: `${name} advisory`,
+  recommendation: 'Update',
+  ecosystem,
+  ...(affectedFunctions ? { affectedFunctions } : {}),
+});
+
+const resultOf = (ecosystem: string, vulnerabilities: DependencyVulnerability[]): DependencyScanResult => ({
+  vulnerabilities,
+  totalVulnerabilities: vulnerabilities.length,
+  critical: 0,
+  high: vulnerabilities.length,
+  medium: 0,
+  low: 0,
+  ecosystem,
+});
+
+describe('dependency reachability', () => {
+  let repoDir: string;
+  let cacheDir: string;
+
+  const write = (file: string, content: string) => {
+    fs.mkdirSync(path.dirname(path.join(repoDir, file)), { recursive: true });
+    fs.writeFileSync(path.join(repoDir, file), content);
+  };
+
+  beforeEach(() => {
+    repoDir = fs.mkdtempSync(path.join(os.tmpdir(), 'reachability-repo-'));
+    cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'reachability-cache-'));
+    jest.spyOn(configManager, 'getCacheDir').mockReturnValue(cacheDir);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(repoDir, { recursive: true, force: true });
+    fs.rmSync(cacheDir, { recursive: true, force: true });
+  });
+
+  it('should tag npm packages from ES imports, require() and call references', async () => {
+    write('src/app.ts', [
+      "import _ from 'lodash';",
+      "import { parse } from '@scope/parser/lib';",
+      "import * as fs from 'fs';",
+      'export function run(input: string) {',
+      '  return _.merge({}, parse(input));',
+      '}',
+    ].join('\n'));
+    write('src/server.js', [
+      "const { json } = require('body-parser');",
+      'function start(app) {',
+      '  app.use(json());',
+      '}',
+      'module.exports = { start };',
+    ].join('\n'));
+
+    const lodash = vuln('npm', 'lodash', ['lodash.merge']);
+    const template = vuln('npm', 'lodash', ['template']);
+    const parser = vuln('npm', '@scope/parser');
+    const bodyParser = vuln('npm', 'body-parser', ['urlencoded']);
+    const minimist = vuln('npm', 'minimist', ['parse']);
+
+    await new DependencyReachabilityAnalyzer().analyze(repoDir, 'test-repo', [
+      resultOf('npm', [lodash, template, parser, bodyParser, minimist]),
+    ]);
+
+    expect(lodash.reachability).toBe('reachable');
+    expect(template.reachability).toBe('unreachable');
+    expect(parser.reachability).toBe('imported');
+    expect(bodyParser.reachability).toBe('unreachable');
+    expect(minimist.reachability).toBe('not-imported');
+  });
+
+  it('should see calls inside class methods and at module scope', async () => {
+    write('src/service.ts', [
+      "import { template } from 'lodash';",
+      'export class Renderer {',
+      '  render(source: string) {',
+      '    return template(source)();',
+      '  }',
+      '}',
+    ].join('\n'));
+    write('src/config.js', [
+      "const yargs = require('yargs-parser');",
+      'const argv = yargs.detailed(process.argv);',
+      'module.exports = argv;',
+    ].join('\n'));
+
+    const lodash = vuln('npm', 'lodash', ['template']);
+    const yargs = vuln('npm', 'yargs-parser', ['detailed']);
+
+    await new DependencyReachabilityAnalyzer().analyze(repoDir, 'test-repo', [
+      resultOf('npm', [lodash, yargs]),
+    ]);
+
+    expect(lodash.reachability).toBe('reachable');
+    expect(yargs.reachability).toBe('reachable');
+  });
+
+  it('should treat a module imported for an affected function as reachable', async () => {
+    write('src/render.js', [
+      "const tpl = require('lodash/template');",
+      "const pick = require('lodash.pick');",
+      'module.exports = (source, data) => pick(tpl(source)(data), ["html"]);',
+    ].join('\n'));
+
+    const lodash = vuln('npm', 'lodash', ['template']);
+    const merge = vuln('npm', 'lodash', ['merge']);
+    const lodashPick = vuln('npm', 'lodash.pick', ['pick']);
+
+    await new DependencyReachabilityAnalyzer().analyze(repoDir, 'test-repo', [
+      resultOf('npm', [lodash, merge, lodashPick]),
+    ]);
+
+    expect(lodash.reachability).toBe('reachable');
+    expect(merge.reachability).toBe('unreachable');
+    expect(lodashPick.reachability).toBe('reachable');
+    expect(filterReachable([resultOf('npm', [lodash, merge])])[0].vulnerabilities).toEqual([lodash]);
+  });
+
+  it('should tag pip packages from Python imports', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    write('app/views.py', [
+      'import yaml',
+      'from jinja2.utils import urlize',
+      'from . import models',
+      '',
+      'def render(text):',
+      '    return urlize(text)',
+    ].join('\n'));
+    write('.venv/lib/site.py', 'import requests\n');
+
+    const pyyaml = vuln('pip', 'PyYAML', ['yaml.load']);
+    const jinja = vuln('pip', 'Jinja2', ['jinja2.utils.urlize']);
+    const requests = vuln('pip', 'requests');
+
+    await new DependencyReachabilityAnalyzer().analyze(repoDir, 'test-repo', [resultOf('pip', [pyyaml, jinja, requests])]);
+
+    expect(pyyaml.reachability).toBe('unreachable');
+    expect(jinja.reachability).toBe('reachable');
+    expect(requests.reachability).toBe('not-imported');
+    warn.mockRestore();
+  });
+
+  it('should keep only potentially reachable vulnerabilities with --reachable-only', () => {
+    const results = [
+      resultOf('npm', [
+        { ...vuln('npm', 'a'), reachability: 'reachable' },
+        { ...vuln('npm', 'b'), reachability: 'imported' },
+        { ...vuln('npm', 'c'), reachability: 'unreachable' },
+        { ...vuln('npm', 'd'), reachability: 'not-imported' },
+      ]),
+      resultOf('go', [vuln('npm', 'e')]),
+      resultOf('pip', [{ ...vuln('pip', 'f'), reachability: 'not-imported' }]),
+    ];
+
+    const filtered = filterReachable(results);
+
+    expect(filtered.map(r => r.ecosystem)).toEqual(['npm', 'go']);
+    expect(filtered[0].vulnerabilities.map(v => v.package)).toEqual(['a', 'b']);
+    expect(filtered[0]).toMatchObject({ totalVulnerabilities: 2, high: 2 });
+  });
+});
@@ -0,0 +1,137 @@
+import { DiffScope, parseUnifiedDiff, resolveDiffScope } from '../../src/core/diff-scope';
+import { exitCodeForError, EXIT_CODES } from '../../src/utils/ci-gate';
+import { execSync } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('diff scope', () => {
+  describe('parseUnifiedDiff', () => {
+    it('should parse zero-context hunks, including single-line headers', () => {
+      const diffs = parseUnifiedDiff([
+        'diff --git a/src/app.ts b/src/app.ts',
+        'index 111..222 100644',
+        '--- a/src/app.ts',
+        '+++ b/src/app.ts',
+        '@@ -3 +3 @@',
+        '-const a = 1;',
+        '+const a = 2;',
+        '@@ -10,0 +11,2 @@',
+        '+one();',
+        '+two();',
+        'diff --git a/old.js b/old.js',
+        'deleted file mode 100644',
+        '--- a/old.js',
+        '+++ /dev/null',
+        '@@ -1 +0,0 @@',
+        '-gone();',
+      ].join('\n'));
+
+      expect(diffs).toHaveLength(2);
+      expect(diffs[0]).toMatchObject({ file: 'src/app.ts', status: 'modified', additions: 3, deletions: 1 });
+      expect(diffs[0].hunks[1].changes.map(c => c.lineNumber)).toEqual([11, 12]);
+      expect(diffs[1].status).toBe('deleted');
+    });
+  });
+
+  describe('DiffScope', () => {
+    const root = path.resolve('/repo');
+    const diffs = parseUnifiedDiff([
+      'diff --git a/src/app.ts b/src/app.ts',
+      '@@ -5,0 +6,1 @@',
+      '+eval(input);',
+      'diff --git a/src/new.ts b/src/new.ts',
+      'new file mode 100644',
+      '@@ -0,0 +1,1 @@',
+      '+export {};',
+    ].join('\n'));
+
+    it('should keep findings in changed files only', () => {
+      const scope = new DiffScope(root, diffs);
+      const findings = [
+        { file: path.join(root, 'src/app.ts'), line: 1 },
+        { file: path.join(root, 'src/other.ts'), line: 6 },
+      ];
+
+      expect(scope.filterFindings(findings)).toEqual([findings[0]]);
+    });
+
+    it('should keep only findings on added lines with --changed-lines-only', () => {
+      const scope = new DiffScope(root, diffs, true);
+      const findings = [
+        { file: path.join(root, 'src/app.ts'), line: 6 },
+        { file: path.join(root, 'src/app.ts'), line: 7 },
+        { file: path.join(root, 'src/app.ts') },
+        { file: path.join(root, 'src/new.ts') },
+      ];
+
+      expect(scope.filterFindings(findings)).toEqual([findings[0], findings[3]]);
+    });
+
+    it('should resolve relative paths against the repository root, not the working directory', () => {
+      const scope = new DiffScope(root, diffs, true);
+
+      expect(scope.includesFile('src/app.ts')).toBe(true);
+      expect(scope.isLineChanged('src/app.ts', 6)).toBe(true);
+      expect(scope.filterFindings([{ file: 'src/new.ts' }])).toEqual([{ file: 'src/new.ts' }]);
+    });
+  });
+
+  describe('resolveDiffScope', () => {
+    let repoDir: string;
+    const git = (command: string) =>
+      execSync(`git -c user.email=test@example.com -c user.name=Test ${command}`, { cwd: repoDir, stdio: 'pipe' });
+
+    beforeEach(() => {
+      repoDir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'diff-scope-test-')));
+      git('init -q');
+      fs.writeFileSync(path.join(repoDir, 'a.ts'), 'one();\ntwo();\n');
+      fs.writeFileSync(path.join(repoDir, 'b.ts'), 'three();\n');
+      git('add -A');
+      git('commit -q -m initial');
+    });
+
+    afterEach(() => {
+      fs.rmSync(repoDir, { recursive: true, force: true });
+    });
+
+    it('should return undefined without --changed-since or --staged', () => {
+      expect(resolveDiffScope(repoDir, {})).toBeUndefined();
+    });
+
+    it('should include modified and untracked files since a ref', () => {
+      fs.writeFileSync(path.join(repoDir, 'a.ts'), 'one();\nchanged();\n');
+      fs.writeFileSync(path.join(repoDir, 'c.ts'), 'four();\n');
+
+      const scope = resolveDiffScope(repoDir, { changedSince: 'HEAD' })!;
+
+      expect(scope.getChangedFiles().sort()).toEqual([path.join(repoDir, 'a.ts'), path.join(repoDir, 'c.ts')]);
+      expect(scope.isLineChanged(path.join(repoDir, 'a.ts'), 2)).toBe(true);
+      expect(scope.isLineChanged(path.join(repoDir, 'a.ts'), 1)).toBe(false);
+      expect(scope.isLineChanged(path.join(repoDir, 'c.ts'), 1)).toBe(true);
+    });
+
+    it('should only include staged changes with --staged', () => {
+      fs.writeFileSync(path.join(repoDir, 'a.ts'), 'staged();\n');
+      fs.writeFileSync(path.join(repoDir, 'b.ts'), 'unstaged();\n');
+      git('add a.ts');
+
+      expect(resolveDiffScope(repoDir, { staged: true })!.getChangedFiles()).toEqual([path.join(repoDir, 'a.ts')]);
+    });
+
+    it('should report bad refs and flag combinations as configuration errors', () => {
+      const errors: unknown[] = [];
+      for (const options of [{ changedSince: 'no-such-ref' }, { changedLinesOnly: true }, { changedSince: 'HEAD', staged: true }]) {
+        try {
+          resolveDiffScope(repoDir, options);
+        } catch (error) {
+          errors.push(error);
+        }
+      }
+
+      expect(errors).toHaveLength(3);
+      expect(errors.map(exitCodeForError)).toEqual([EXIT_CODES.CONFIG_ERROR, EXIT_CODES.CONFIG_ERROR, EXIT_CODES.CONFIG_ERROR]);
+      expect((errors[0] as Error).message).toContain('Unknown git ref for --changed-since: no-such-ref');
+    });
+  });
+});
@@ -0,0 +1,103 @@
+import { FileWalker } from '../../src/core/file-walker';
+import { projectConfigManager } from '../../src/core/project-config';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('FileWalker', () => {
+  let testDir: string;
+  let walker: FileWalker;
+
+  const write = (relativePath: string, content: string | Buffer) => {
+    const fullPath = path.join(testDir, relativePath);
+    fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+    fs.writeFileSync(fullPath, content);
+  };
+
+  const listed = (options = {}) =>
+    walker.listFiles(testDir, options).map(file => file.relativePath);
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'file-walker-test-'));
+    walker = new FileWalker();
+    projectConfigManager.load(testDir);
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+    projectConfigManager.load(testDir);
+  });
+
+  it('should honor default ignores and root and nested .gitignore files', () => {
+    write('src/app.ts', 'export const a = 1;\n');
+    write('node_modules/lib/index.js', 'module.exports = {};\n');
+    write('.gitignore', 'tmp/\n*.bak.js\n');
+    write('tmp/scratch.js', 'x();\n');
+    write('src/old.bak.js', 'x();\n');
+    write('pkg/.gitignore', 'local.js\n');
+    write('pkg/local.js', 'x();\n');
+    write('pkg/index.js', 'x();\n');
+    write('.env.local', 'TOKEN=abc\n');
+
+    expect(listed()).toEqual(['.gitignore', 'pkg/.gitignore', 'pkg/index.js', 'src/app.ts']);
+  });
+
+  it('should tell which paths a walk skips without them existing on disk', () => {
+    write('.gitignore', 'tmp/\n');
+    write('pkg/.gitignore', 'local.js\n');
+
+    expect(walker.isPathIgnored(testDir, 'src/app.ts')).toBe(false);
+    expect(walker.isPathIgnored(testDir, 'node_modules/lib/index.js')).toBe(true);
+    expect(walker.isPathIgnored(testDir, 'tmp/scratch.js')).toBe(true);
+    expect(walker.isPathIgnored(testDir, 'pkg/local.js')).toBe(true);
+    expect(walker.isPathIgnored(testDir, 'package-lock.json')).toBe(true);
+    expect(walker.isPathIgnored(testDir, 'package-lock.json', { name: 'none', ignoredFiles: [] })).toBe(false);
+  });
+
+  it('should skip binary files and generated files unless requested', () => {
+    write('src/app.js', 'run();\n');
+    write('assets/logo.js', Buffer.from([0x47, 0x00, 0x01, 0x02]));
+    write('src/bundle.min.js', 'run();\n');
+    write('src/api.pb.ts', '// Code generated by protoc. DO NOT EDIT.\nexport {};\n');
+
+    expect(listed()).toEqual(['src/app.js']);
+    expect(listed({ includeGenerated: true })).toEqual(['src/api.pb.ts', 'src/app.js', 'src/bundle.min.js']);
+    expect(walker.getStats().skippedBinary).toBe(1);
+  });
+
+  it('should filter by extension, file name pattern and depth', () => {
+    write('main.py', 'print(1)\n');
+    write('a/b/c/deep.py', 'print(1)\n');
+    write('app.ts', 'run();\n');
+    write('Dockerfile', 'FROM node:20\n');
+
+    expect(listed({ extensions: ['.py'] })).toEqual(['a/b/c/deep.py', 'main.py']);
+    expect(listed({ extensions: ['.py'], maxDepth: 1 })).toEqual(['main.py']);
+    expect(listed({ pattern: /^Dockerfile/ })).toEqual(['Dockerfile']);
+    expect(walker.listFiles(testDir, { extensions: ['.ts'] })[0].language).toBe('typescript');
+  });
+
+  it('should apply project exclude globs but not include globs', () => {
+    write('.guardscan.yml', 'include: ["src/**"]\nexclude: ["src/generated/**"]\n');
+    write('src/app.ts', 'run();\n');
+    write('src/generated/client.ts', 'run();\n');
+    write('scripts/build.js', 'run();\n');
+    projectConfigManager.load(testDir);
+
+    expect(listed({ extensions: ['.ts', '.js'] })).toEqual(['scripts/build.js', 'src/app.ts']);
+  });
+
+  it('should read each file once and serve repeats from the cache', () => {
+    write('src/app.ts', 'const a = 1;\n');
+    const file = path.join(testDir, 'src/app.ts');
+
+    expect(walker.readFile(file)).toBe('const a = 1;\n');
+    expect(walker.readFile(file)).toBe('const a = 1;\n');
+    expect(walker.getStats()).toMatchObject({ filesRead: 1, cacheHits: 1 });
+
+    fs.writeFileSync(file, 'const a = 2;\n');
+    walker.invalidate(file);
+    expect(walker.readFile(file)).toBe('const a = 2;\n');
+    expect(walker.readFile(path.join(testDir, 'missing.ts'))).toBeNull();
+  });
+});
@@ -0,0 +1,123 @@
+import { FindingBaseline } from '../../src/core/finding-baseline';
+import { Finding } from '../../src/utils/reporter';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('FindingBaseline', () => {
+  let testDir: string;
+  let baseline: FindingBaseline;
+  let baselinePath: string;
+
+  const writeSource = (content: string) => {
+    fs.writeFileSync(path.join(testDir, 'app.js'), content);
+  };
+
+  const evalFinding = (line: number): Finding => ({
+    severity: 'high',
+    category: 'Code Injection',
+    file: 'app.js',
+    line,
+    description: 'Use of eval() can lead to code injection',
+  });
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'baseline-test-'));
+    baseline = new FindingBaseline(testDir);
+    baselinePath = path.join(testDir, '.guardscan', 'baseline.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should save and load a baseline snapshot', () => {
+    writeSource('const x = eval(input);\n');
+    baseline.save([evalFinding(1)], baselinePath);
+
+    const loaded = baseline.load(baselinePath);
+
+    expect(loaded.version).toBe(1);
+    expect(loaded.entries).toHaveLength(1);
+    expect(loaded.entries[0].file).toBe('app.js');
+  });
+
+  it('should treat findings shifted to another line as unchanged', () => {
+    writeSource('const x = eval(input);\n');
+    baseline.save([evalFinding(1)], baselinePath);
+
+    writeSource('// new header\n\n   const x = eval(input);\n');
+    const comparison = new FindingBaseline(testDir).compare(
+      [evalFinding(3)],
+      baseline.load(baselinePath),
+      baselinePath
+    );
+
+    expect(comparison.newFindings).toHaveLength(0);
+    expect(comparison.unchangedFindings).toHaveLength(1);
+    expect(comparison.fixedEntries).toHaveLength(0);
+  });
+
+  it('should classify new and fixed findings', () => {
+    writeSource('const x = eval(input);\nconst y = 1;\n');
+    baseline.save([evalFinding(1)], baselinePath);
+
+    writeSource('const x = JSON.parse(input);\nconst y = eval(other);\n');
+    const comparison = new FindingBaseline(testDir).compare(
+      [evalFinding(2)],
+      baseline.load(baselinePath),
+      baselinePath
+    );
+
+    expect(comparison.newFindings).toHaveLength(1);
+    expect(comparison.fixedEntries).toHaveLength(1);
+  });
+
+  it('should identify history secrets by their fingerprint rather than the working-tree line', () => {
+    const historySecret = (line: number, fingerprint: string): Finding => ({
+      severity: 'high',
+      category: 'Secret in Git History: AWS Access Key',
+      file: 'app.js',
+      line,
+      ruleId: 'aws-access-key',
+      description: `Secret added in commit abcdef12 (fingerprint: ${fingerprint})`,
+      commit: 'abcdef1234567890',
+      fingerprint,
+    });
+    writeSource('const a = 1;\nconst b = 2;\n');
+    baseline.save([historySecret(1, 'aaaa1111'), historySecret(2, 'bbbb2222')], baselinePath);
+
+    // Edits to the working tree change the lines the historical line numbers point at
+    writeSource('const b = 2;\nconst a = 1;\n');
+    const comparison = new FindingBaseline(testDir).compare(
+      [historySecret(1, 'aaaa1111'), historySecret(1, 'cccc3333')],
+      baseline.load(baselinePath),
+      baselinePath
+    );
+
+    expect(comparison.unchangedFindings.map(finding => finding.fingerprint)).toEqual(['aaaa1111']);
+    expect(comparison.newFindings.map(finding => finding.fingerprint)).toEqual(['cccc3333']);
+    expect(comparison.fixedEntries).toHaveLength(1);
+  });
+
+  it('should only match duplicate fingerprints up to the baseline count', () => {
+    writeSource('eval(a);\neval(a);\neval(a);\n');
+    baseline.save([evalFinding(1)], baselinePath);
+
+    const comparison = baseline.compare(
+      [evalFinding(1), evalFinding(2), evalFinding(3)],
+      baseline.load(baselinePath),
+      baselinePath
+    );
+
+    expect(comparison.unchangedFindings).toHaveLength(1);
+    expect(comparison.newFindings).toHaveLength(2);
+  });
+
+  it('should reject missing or malformed baseline files', () => {
+    expect(() => baseline.load(path.join(testDir, 'missing.json'))).toThrow('Baseline file not found');
+
+    fs.writeFileSync(path.join(testDir, 'bad.json'), '{"entries": 5}');
+    expect(() => baseline.load(path.join(testDir, 'bad.json'))).toThrow('unsupported format');
+  });
+});
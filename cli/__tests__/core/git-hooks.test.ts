@@ -0,0 +1,137 @@
+import { execSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import yaml from 'js-yaml';
+import { installHooks, uninstallHooks } from '../../src/core/git-hooks';
+
+// Run git without the user's config (e.g. a global or GIT_CONFIG_* core.hooksPath);
+// child processes see the real environment, not the test's process.env
+jest.mock('child_process', () => {
+  const actual = jest.requireActual('child_process');
+  const env = {
+    ...Object.fromEntries(Object.entries(process.env).filter(([key]) => !key.startsWith('GIT_CONFIG'))),
+    GIT_CONFIG_GLOBAL: require('os').devNull,
+    GIT_CONFIG_NOSYSTEM: '1',
+  };
+  return {
+    ...actual,
+    execSync: (command: string, options: any = {}) => actual.execSync(command, { env, ...options }),
+    execFileSync: (file: string, args: string[], options: any = {}) => actual.execFileSync(file, args, { env, ...options }),
+  };
+});
+
+describe('Git hooks install', () => {
+  let repoPath: string;
+
+  const read = (file: string) => fs.readFileSync(path.join(repoPath, file), 'utf-8');
+  const write = (file: string, content: string) => {
+    fs.mkdirSync(path.dirname(path.join(repoPath, file)), { recursive: true });
+    fs.writeFileSync(path.join(repoPath, file), content);
+  };
+
+  beforeEach(() => {
+    repoPath = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'git-hooks-')));
+    execSync('git init -q', { cwd: repoPath });
+  });
+
+  afterEach(() => {
+    fs.rmSync(repoPath, { recursive: true, force: true });
+  });
+
+  it('should write executable hooks and remove them again', () => {
+    const result = installHooks(repoPath);
+
+    expect(result.manager).toBe('git');
+    expect(result.files.map(file => path.relative(repoPath, file))).toEqual([
+      '.git/hooks/pre-commit', '.git/hooks/commit-msg', '.git/hooks/pre-push',
+    ]);
+    expect(read('.git/hooks/pre-commit')).toContain('guardscan hooks run pre-commit "$@"');
+    expect(fs.statSync(path.join(repoPath, '.git/hooks/pre-push')).mode & 0o111).toBeTruthy();
+
+    // Installing again updates GuardScan's own hooks in place
+    expect(() => installHooks(repoPath)).not.toThrow();
+
+    expect(uninstallHooks(repoPath)).toHaveLength(3);
+    expect(fs.existsSync(path.join(repoPath, '.git/hooks/pre-commit'))).toBe(false);
+  });
+
+  it('should keep an existing hook only with --force, run it first and restore it on uninstall', () => {
+    write('.git/hooks/pre-push', '#!/bin/sh\nnpm test\n');
+
+    expect(() => installHooks(repoPath)).toThrow(/Existing hooks would be replaced: \.git\/hooks\/pre-push.*--force/);
+    expect(read('.git/hooks/pre-push')).toBe('#!/bin/sh\nnpm test\n');
+
+    installHooks(repoPath, { force: true });
+    const hook = read('.git/hooks/pre-push');
+    expect(read('.git/hooks/pre-push.pre-guardscan')).toBe('#!/bin/sh\nnpm test\n');
+    expect(hook).toContain('input=$(cat)');
+    expect(hook.indexOf('pre-push.pre-guardscan')).toBeLessThan(hook.indexOf('guardscan hooks run pre-push'));
+
+    uninstallHooks(repoPath);
+    expect(read('.git/hooks/pre-push')).toBe('#!/bin/sh\nnpm test\n');
+    expect(fs.existsSync(path.join(repoPath, '.git/hooks/pre-push.pre-guardscan'))).toBe(false);
+  });
+
+  it('should add a local repo to .pre-commit-config.yaml, keeping its comments', () => {
+    const config = [
+      '# Shared hooks',
+      'repos:',
+      '  - repo: https://github.com/pre-commit/pre-commit-hooks',
+      '    rev: v4.5.0',
+      '    hooks:',
+      '      - id: trailing-whitespace',
+      '',
+      'default_stages: [pre-commit]',
+      '',
+    ].join('\n');
+    write('.pre-commit-config.yaml', config);
+
+    const result = installHooks(repoPath);
+    expect(result.manager).toBe('pre-commit');
+    expect(result.notes[0]).toContain('--hook-type commit-msg --hook-type pre-push');
+
+    const installed = read('.pre-commit-config.yaml');
+    expect(installed.startsWith('# Shared hooks\n')).toBe(true);
+    const parsed: any = yaml.load(installed);
+    expect(parsed.default_stages).toEqual(['pre-commit']);
+    expect(parsed.repos.map((repo: any) => repo.repo)).toEqual(['https://github.com/pre-commit/pre-commit-hooks', 'local']);
+    expect(parsed.repos[1].hooks.map((hook: any) => [hook.id, hook.entry, hook.stages])).toEqual([
+      ['guardscan-pre-commit', 'guardscan hooks run pre-commit', ['pre-commit']],
+      ['guardscan-commit-msg', 'guardscan hooks run commit-msg', ['commit-msg']],
+      ['guardscan-pre-push', 'guardscan hooks run pre-push', ['pre-push']],
+    ]);
+
+    installHooks(repoPath);
+    expect(read('.pre-commit-config.yaml')).toBe(installed);
+
+    uninstallHooks(repoPath);
+    expect(read('.pre-commit-config.yaml')).toBe(config);
+  });
+
+  it('should append to husky hooks and leave the rest of them alone', () => {
+    write('.husky/pre-commit', 'npx lint-staged\n');
+
+    expect(installHooks(repoPath).manager).toBe('husky');
+    expect(read('.husky/pre-commit')).toMatch(/^npx lint-staged\n# >>> guardscan hooks >>>\n.*guardscan hooks run pre-commit.*\n# <<< guardscan hooks <<<\n$/);
+    expect(read('.husky/commit-msg')).toContain('guardscan hooks run commit-msg "$@"');
+
+    uninstallHooks(repoPath);
+    expect(read('.husky/pre-commit')).toBe('npx lint-staged\n');
+    expect(fs.existsSync(path.join(repoPath, '.husky/commit-msg'))).toBe(false);
+  });
+
+  it('should refuse when core.hooksPath disables hooks', () => {
+    execSync('git config core.hooksPath /dev/null', { cwd: repoPath });
+    expect(() => installHooks(repoPath)).toThrow('core.hooksPath is /dev/null, so git runs no hooks');
+  });
+
+  it('should require a git repository', () => {
+    const plain = fs.mkdtempSync(path.join(os.tmpdir(), 'no-git-'));
+    try {
+      expect(() => installHooks(plain)).toThrow('Git hooks require a git repository');
+    } finally {
+      fs.rmSync(plain, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,154 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { evaluateLicensePolicy } from '../../src/core/license-policy';
+import { LicenseFinding, LicenseScanner } from '../../src/core/license-scanner';
+import { projectConfigManager, validateProjectConfig } from '../../src/core/project-config';
+import { formatSpdxExpression, licenseAlternatives, parseSpdxExpression } from '../../src/core/spdx-expression';
+
+const finding = (pkg: string, license: string, dev?: boolean): LicenseFinding => ({
+  package: pkg,
+  version: '1.0.0',
+  ...new LicenseScanner().classifyLicense(license),
+  risk: 'info',
+  description: '',
+  source: 'npm',
+  dev,
+});
+
+describe('License policy', () => {
+  let repoPath: string;
+
+  beforeEach(() => {
+    repoPath = fs.mkdtempSync(path.join(os.tmpdir(), 'license-policy-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(repoPath, { recursive: true, force: true });
+    projectConfigManager.load(process.cwd());
+  });
+
+  it('should parse SPDX expressions with operator precedence', () => {
+    const expression = parseSpdxExpression('MIT or GPL-2.0+ AND (LicenseRef-acme OR Apache-2.0 WITH LLVM-exception)')!;
+
+    expect(formatSpdxExpression(expression)).toBe('MIT OR GPL-2.0+ AND (LicenseRef-acme OR Apache-2.0 WITH LLVM-exception)');
+    expect(licenseAlternatives(expression).map(licenses => licenses.map(formatSpdxExpression))).toEqual([
+      ['MIT'],
+      ['GPL-2.0+', 'LicenseRef-acme'],
+      ['GPL-2.0+', 'Apache-2.0 WITH LLVM-exception'],
+    ]);
+    expect(parseSpdxExpression('DocumentRef-spdx-tool-1.2:LicenseRef-MIT-Style-2')).toEqual({
+      type: 'license',
+      id: 'DocumentRef-spdx-tool-1.2:LicenseRef-MIT-Style-2',
+    });
+    for (const invalid of ['Apache 2.0', 'MIT OR', '(MIT', 'MIT WITH', 'AND MIT', '']) {
+      expect(parseSpdxExpression(invalid)).toBeNull();
+    }
+  });
+
+  it('should normalize and categorize each license in an expression', () => {
+    const scanner = new LicenseScanner();
+
+    expect(scanner.classifyLicense('(GPL-2.0+ OR MIT)')).toEqual({ license: 'GPL-2.0-or-later OR MIT', category: 'permissive' });
+    expect(scanner.classifyLicense('MIT AND LGPL-2.1')).toEqual({ license: 'MIT AND LGPL-2.1-only', category: 'weak-copyleft' });
+    expect(scanner.classifyLicense('Apache 2.0')).toEqual({ license: 'Apache-2.0', category: 'permissive' });
+  });
+
+  it('should pick the best OR alternative the policy accepts, per dependency scope', () => {
+    const policy = {
+      allow: ['MIT', 'Apache-2.0'],
+      review: ['MPL-2.0'],
+      deny: ['GPL-*'],
+      scopes: { dev: { allow: ['GPL-3.0-only'] } },
+    };
+    const target = (license: string, dev?: boolean) => ({ package: 'pkg', version: '1.0.0', license, dev });
+
+    expect(evaluateLicensePolicy(policy, target('GPL-3.0-only OR MIT'))).toEqual({
+      decision: 'allow',
+      license: 'MIT',
+      reason: 'MIT is allowed by the project license policy',
+    });
+    expect(evaluateLicensePolicy(policy, target('GPL-3.0-only AND MIT'))).toMatchObject({ decision: 'deny', license: 'GPL-3.0-only AND MIT' });
+    expect(evaluateLicensePolicy(policy, target('GPL-3.0-only AND MIT', true))).toMatchObject({
+      decision: 'allow',
+      reason: 'GPL-3.0-only is allowed for dev dependencies',
+    });
+    expect(evaluateLicensePolicy(policy, target('GPL-2.0-only WITH Classpath-exception-2.0 OR MPL-2.0'))).toEqual({
+      decision: 'review',
+      license: 'MPL-2.0',
+      reason: 'MPL-2.0 is flagged for review by the project license policy',
+    });
+    expect(evaluateLicensePolicy(policy, target('GPL-2.0-only', true))).toMatchObject({
+      decision: 'deny',
+      reason: 'GPL-2.0-only is denied by the project license policy',
+    });
+    expect(evaluateLicensePolicy(policy, target('ISC'))).toEqual({ license: 'ISC' });
+  });
+
+  it('should apply package exceptions only to the reviewed version and license', () => {
+    const policy = {
+      deny: ['AGPL-*'],
+      exceptions: [{ package: 'ghostscript-wasm', license: 'AGPL-3.0-only', reason: 'Commercial license LEGAL-42' }],
+    };
+    const target = (license: string) => ({ package: 'ghostscript-wasm', version: '9.0.0', license });
+
+    expect(evaluateLicensePolicy(policy, target('AGPL-3.0-only'))).toEqual({
+      decision: 'allow',
+      license: 'AGPL-3.0-only',
+      reason: 'Exception: Commercial license LEGAL-42',
+      exception: true,
+    });
+    expect(evaluateLicensePolicy(policy, target('AGPL-3.0-or-later'))).toMatchObject({ decision: 'deny' });
+  });
+
+  it('should look up deprecated and "+" IDs by their current form, with -or-later covering later versions', () => {
+    const policy = { deny: ['GPL-2.0-or-later', 'GPL-3.0-only'], review: ['LGPL-2.1+'], allow: ['GPL-1.0-only'] };
+    const target = (license: string) => ({ package: 'pkg', version: '1.0.0', license });
+
+    expect(evaluateLicensePolicy(policy, target('GPL-2.0+'))).toEqual({
+      decision: 'deny',
+      license: 'GPL-2.0+',
+      reason: 'GPL-2.0+ is denied by the project license policy',
+    });
+    expect(evaluateLicensePolicy(policy, target('GPL-3.0+'))).toMatchObject({ decision: 'deny' });
+    expect(evaluateLicensePolicy(policy, target('GPL-3.0'))).toMatchObject({ decision: 'deny' });
+    expect(evaluateLicensePolicy(policy, target('GPL-3.0-only WITH GCC-exception-3.1'))).toMatchObject({ decision: 'deny' });
+    expect(evaluateLicensePolicy(policy, target('LGPL-3.0-only'))).toMatchObject({ decision: 'review' });
+    expect(evaluateLicensePolicy(policy, target('GPL-1.0'))).toMatchObject({ decision: 'allow' });
+    expect(evaluateLicensePolicy(policy, target('GPL-1.0+'))).toEqual({ license: 'GPL-1.0+' });
+    expect(evaluateLicensePolicy(policy, target('LGPL-2.0-only'))).toEqual({ license: 'LGPL-2.0-only' });
+  });
+
+  it('should validate the policy and use it for license risk', () => {
+    expect(validateProjectConfig({ licensePolicy: { exceptions: [{ package: 'left-pad' }], scopes: { test: {} } } })).toEqual([
+      'licensePolicy.exceptions[0].reason is required',
+      'Unknown key "licensePolicy.scopes.test"',
+    ]);
+
+    fs.writeFileSync(path.join(repoPath, '.guardscan.yml'), [
+      'licensePolicy:',
+      '  allow: [MIT, BSD-3-Clause]',
+      '  deny: [GPL-*]',
+      '  scopes:',
+      '    dev:',
+      '      review: [GPL-*]',
+    ].join('\n'));
+    projectConfigManager.load(repoPath);
+
+    const report = new LicenseScanner().evaluate([
+      finding('dual', 'GPL-2.0 OR BSD-3-Clause'),
+      finding('copyleft', 'GPL-3.0'),
+      finding('copyleft-tool', 'GPL-3.0', true),
+      finding('unlisted', 'MPL-2.0'),
+    ]);
+
+    expect(report.findings.map(item => [item.package, item.policy?.license, item.policy?.decision, item.risk])).toEqual([
+      ['dual', 'BSD-3-Clause', 'allow', 'low'],
+      ['copyleft', 'GPL-3.0-only', 'deny', 'high'],
+      ['copyleft-tool', 'GPL-3.0-only', 'review', 'medium'],
+      ['unlisted', 'MPL-2.0', undefined, 'medium'],
+    ]);
+    expect(report.findings[0].category).toBe('permissive');
+    expect(projectConfigManager.getLicenseDecision('GPL-3.0-only', 'dev')).toBe('review');
+  });
+});
@@ -0,0 +1,106 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { LICENSE_TEXTS } from '../../src/constants/license-texts';
+import {
+  findPackageDirectory,
+  identifyLicenseText,
+  identifyPackageLicense,
+  readmeLicenseSection,
+  REVIEW_LICENSE_CONFIDENCE,
+} from '../../src/core/license-text';
+import { LicenseScanner } from '../../src/core/license-scanner';
+
+const licenseText = (id: string) => LICENSE_TEXTS.find(entry => entry.id === id)!.texts[0].replace(/<>/g, 'the copyright holder');
+
+describe('License text identification', () => {
+  let repoPath: string;
+
+  const write = (file: string, content: string) => {
+    fs.mkdirSync(path.dirname(path.join(repoPath, file)), { recursive: true });
+    fs.writeFileSync(path.join(repoPath, file), content);
+  };
+
+  beforeEach(() => {
+    repoPath = fs.mkdtempSync(path.join(os.tmpdir(), 'license-text-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(repoPath, { recursive: true, force: true });
+  });
+
+  it('should identify license texts regardless of layout and copyright lines', () => {
+    const mit = `MIT License\n\nCopyright (c) 2021 Jane Doe\n\n${licenseText('MIT').replace(/\n/g, ' ').toLowerCase()}`;
+    expect(identifyLicenseText(mit)).toEqual({ license: 'MIT', confidence: 1 });
+    expect(identifyLicenseText(`Copyright 2020 Acme\n${licenseText('BSD-3-Clause').replace(/^\d\. /gm, '  * ')}`))
+      .toEqual({ license: 'BSD-3-Clause', confidence: 1 });
+    expect(identifyLicenseText(licenseText('BSD-2-Clause'))).toEqual({ license: 'BSD-2-Clause', confidence: 1 });
+
+    const modified = licenseText('MIT').replace('subject to the following conditions', 'except for military use, and subject to the conditions below');
+    expect(identifyLicenseText(modified)?.confidence).toBeLessThan(REVIEW_LICENSE_CONFIDENCE);
+    expect(identifyLicenseText('All rights reserved. Contact sales for licensing.')).toBeNull();
+  });
+
+  it('should combine license files and fall back to the README license section', () => {
+    write('node_modules/dual/LICENSE-MIT', licenseText('MIT'));
+    write('node_modules/dual/LICENSE-APACHE', licenseText('Apache-2.0'));
+    write('node_modules/lesser/COPYING', licenseText('GPL-3.0-only'));
+    write('node_modules/lesser/COPYING.LESSER', licenseText('LGPL-3.0-only'));
+    write('node_modules/named/README.md', '# named\n\n## Usage\n\nCall it.\n\n## License\n\nMIT © Jane Doe\n\n## Credits\n\nEveryone.\n');
+
+    expect(identifyPackageLicense(path.join(repoPath, 'node_modules/dual'))).toEqual({
+      license: 'Apache-2.0 OR MIT',
+      confidence: 1,
+      files: ['LICENSE-APACHE', 'LICENSE-MIT'],
+    });
+    expect(identifyPackageLicense(path.join(repoPath, 'node_modules/lesser'))).toMatchObject({ license: 'LGPL-3.0-only', files: ['COPYING.LESSER'] });
+    expect(identifyPackageLicense(path.join(repoPath, 'node_modules/named'))).toEqual({ license: 'MIT', confidence: 0.5, files: ['README.md'] });
+    expect(readmeLicenseSection('Title\n=====\n\nLicence\n-------\nReleased under the ISC license.\n\nMore\n----\n')).toBe('Released under the ISC license.');
+  });
+
+  it('should find installed packages in node_modules, site-packages and vendor directories', () => {
+    write('node_modules/@scope/pkg/package.json', '{}');
+    write('.venv/lib/python3.11/site-packages/Flask_Login-0.6.2.dist-info/LICENSE', licenseText('MIT'));
+    write('vendor/github.com/pkg/errors/LICENSE', licenseText('BSD-2-Clause'));
+
+    expect(findPackageDirectory(repoPath, 'npm', '@scope/pkg', '1.0.0')).toBe(path.join(repoPath, 'node_modules/@scope/pkg'));
+    expect(findPackageDirectory(repoPath, 'pip', 'flask-login', '0.6.2'))
+      .toBe(path.join(repoPath, '.venv/lib/python3.11/site-packages/Flask_Login-0.6.2.dist-info'));
+    expect(findPackageDirectory(repoPath, 'go', 'github.com/pkg/errors', 'v0.9.1')).toBe(path.join(repoPath, 'vendor/github.com/pkg/errors'));
+    expect(findPackageDirectory(repoPath, 'maven', 'org.example:lib', '1.0')).toBeUndefined();
+  });
+
+  it('should pick the node_modules copy that matches the version', () => {
+    write('node_modules/debug/package.json', '{"name":"debug","version":"4.3.4"}');
+    write('node_modules/send/node_modules/debug/package.json', '{"name":"debug","version":"2.6.9"}');
+    write('node_modules/@scope/tool/node_modules/debug/package.json', '{"name":"debug","version":"3.2.7"}');
+
+    expect(findPackageDirectory(repoPath, 'npm', 'debug', '4.3.4')).toBe(path.join(repoPath, 'node_modules/debug'));
+    expect(findPackageDirectory(repoPath, 'npm', 'debug', '2.6.9')).toBe(path.join(repoPath, 'node_modules/send/node_modules/debug'));
+    expect(findPackageDirectory(repoPath, 'npm', 'debug', '3.2.7')).toBe(path.join(repoPath, 'node_modules/@scope/tool/node_modules/debug'));
+    expect(findPackageDirectory(repoPath, 'npm', 'debug', '1.0.0')).toBeUndefined();
+  });
+
+  it('should flag low-confidence identifications for review', () => {
+    const report = new LicenseScanner().evaluate([
+      { package: 'exact', version: '1.0.0', license: 'MIT', category: 'permissive', risk: 'info', description: '', source: 'npm', confidence: 1 },
+      {
+        package: 'fuzzy',
+        version: '1.0.0',
+        license: 'ISC',
+        category: 'permissive',
+        risk: 'info',
+        description: '',
+        source: 'npm',
+        confidence: 0.76,
+        licenseFiles: ['node_modules/fuzzy/LICENSE'],
+      },
+    ]);
+
+    expect(report.findings.map(finding => [finding.package, finding.risk, finding.policy?.decision])).toEqual([
+      ['exact', 'low', undefined],
+      ['fuzzy', 'medium', 'review'],
+    ]);
+    expect(report.findings[1].policy?.reason).toBe('ISC was identified from node_modules/fuzzy/LICENSE with 76% confidence');
+  });
+});
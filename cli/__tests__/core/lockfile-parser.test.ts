@@ -0,0 +1,101 @@
+import { parseLockfile, parseLockfiles } from '../../src/core/lockfile-parser';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+const versions = (deps: { name: string; version: string }[]) => deps.map(d => `${d.name}@${d.version}`).sort();
+
+describe('lockfile parser', () => {
+  it('should parse package-lock.json v3 and v1', () => {
+    const v3 = JSON.stringify({
+      lockfileVersion: 3,
+      packages: {
+        '': { name: 'app', version: '1.0.0' },
+        'node_modules/lodash': { version: '4.17.20' },
+        'node_modules/@types/node': { version: '20.1.0', dev: true },
+        'node_modules/a/node_modules/lodash': { version: '3.10.1' },
+        'node_modules/local': { resolved: 'packages/local', link: true },
+        'packages/local': { version: '0.1.0' },
+      },
+    });
+    const v1 = JSON.stringify({
+      lockfileVersion: 1,
+      dependencies: { minimist: { version: '1.2.5', dependencies: { ms: { version: '2.0.0' } } } },
+    });
+
+    const deps = parseLockfile('package-lock.json', v3);
+    expect(versions(deps)).toEqual(['@types/node@20.1.0', 'lodash@3.10.1', 'lodash@4.17.20']);
+    expect(deps.find(d => d.name === '@types/node')!.dev).toBe(true);
+    expect(versions(parseLockfile('package-lock.json', v1))).toEqual(['minimist@1.2.5', 'ms@2.0.0']);
+  });
+
+  it('should parse classic and Berry yarn.lock files', () => {
+    const classic = [
+      '# yarn lockfile v1',
+      '',
+      '"@babel/core@^7.0.0", "@babel/core@^7.1.0":',
+      '  version "7.12.3"',
+      '  resolved "https://registry.yarnpkg.com/@babel/core/-/core-7.12.3.tgz"',
+      '',
+      'lodash@^4.17.0:',
+      '  version "4.17.21"',
+    ].join('\n');
+    const berry = [
+      '__metadata:',
+      '  version: 6',
+      '',
+      '"app@workspace:.":',
+      '  version: 0.0.0-use.local',
+      '',
+      '"minimist@npm:^1.2.0":',
+      '  version: 1.2.6',
+      '  resolution: "minimist@npm:1.2.6"',
+    ].join('\n');
+
+    expect(versions(parseLockfile('yarn.lock', classic))).toEqual(['@babel/core@7.12.3', 'lodash@4.17.21']);
+    expect(versions(parseLockfile('yarn.lock', berry))).toEqual(['minimist@1.2.6']);
+  });
+
+  it('should parse pnpm-lock.yaml v5, v6 and v9 package keys', () => {
+    const v5 = "lockfileVersion: 5.4\npackages:\n  /@scope/pkg/1.0.0_react@18.0.0:\n    dev: true\n  /lodash/4.17.21:\n    dev: false\n";
+    const v6 = "lockfileVersion: '6.0'\npackages:\n  /@scope/pkg@1.0.0(react@18.0.0):\n    dev: false\n";
+    const v9 = "lockfileVersion: '9.0'\npackages:\n  lodash@4.17.21:\n    resolution: {integrity: sha512-x}\n";
+
+    expect(versions(parseLockfile('pnpm-lock.yaml', v5))).toEqual(['@scope/pkg@1.0.0', 'lodash@4.17.21']);
+    expect(versions(parseLockfile('pnpm-lock.yaml', v6))).toEqual(['@scope/pkg@1.0.0']);
+    expect(versions(parseLockfile('pnpm-lock.yaml', v9))).toEqual(['lodash@4.17.21']);
+  });
+
+  it('should parse Python, Go, Rust, Ruby and PHP lockfiles', () => {
+    const poetry = '[[package]]\nname = "Django"\nversion = "3.2.0"\ncategory = "main"\n\n[package.dependencies]\nversion = "1.0"\n';
+    const pipfile = JSON.stringify({ default: { requests: { version: '==2.25.0' } }, develop: { pytest: { version: '==7.0.0' }, local: { path: '.' } } });
+    const goSum = 'golang.org/x/text v0.3.7 h1:abc=\ngolang.org/x/text v0.3.7/go.mod h1:def=\ngolang.org/x/net v0.1.0/go.mod h1:ghi=\n';
+    const cargo = '[[package]]\nname = "app"\nversion = "0.1.0"\n\n[[package]]\nname = "smallvec"\nversion = "1.6.0"\nsource = "registry+https://github.com/rust-lang/crates.io-index"\n';
+    const gemfile = 'GEM\n  remote: https://rubygems.org/\n  specs:\n    nokogiri (1.13.10-x86_64-linux)\n      racc (~> 1.4)\n    racc (1.6.0)\n\nPLATFORMS\n  x86_64-linux\n';
+    const composer = JSON.stringify({ packages: [{ name: 'guzzlehttp/guzzle', version: 'v7.4.0' }, { name: 'acme/fork', version: 'dev-main' }], 'packages-dev': [] });
+
+    expect(versions(parseLockfile('poetry.lock', poetry))).toEqual(['Django@3.2.0']);
+    expect(versions(parseLockfile('Pipfile.lock', pipfile))).toEqual(['pytest@7.0.0', 'requests@2.25.0']);
+    expect(versions(parseLockfile('go.sum', goSum))).toEqual(['golang.org/x/text@v0.3.7']);
+    expect(versions(parseLockfile('Cargo.lock', cargo))).toEqual(['smallvec@1.6.0']);
+    expect(versions(parseLockfile('Gemfile.lock', gemfile))).toEqual(['nokogiri@1.13.10', 'racc@1.6.0']);
+    expect(versions(parseLockfile('composer.lock', composer))).toEqual(['guzzlehttp/guzzle@7.4.0']);
+  });
+
+  it('should find lockfiles in the repository root and skip unparseable ones', () => {
+    const repoDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lockfile-test-'));
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    try {
+      fs.writeFileSync(path.join(repoDir, 'Cargo.lock'), '[[package]]\nname = "time"\nversion = "0.1.0"\nsource = "registry+x"\n');
+      fs.writeFileSync(path.join(repoDir, 'composer.lock'), '{not json');
+
+      const deps = parseLockfiles(repoDir);
+
+      expect(deps).toEqual([{ name: 'time', version: '0.1.0', ecosystem: 'cargo', file: 'Cargo.lock' }]);
+      expect(warn).toHaveBeenCalled();
+    } finally {
+      warn.mockRestore();
+      fs.rmSync(repoDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,136 @@
+import { ProjectConfigManager, validateProjectConfig } from '../../src/core/project-config';
+import { exitCodeForError, EXIT_CODES } from '../../src/utils/ci-gate';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('ProjectConfigManager', () => {
+  let testDir: string;
+  let manager: ProjectConfigManager;
+
+  const writeConfig = (content: string, name: string = '.guardscan.yml') => {
+    fs.writeFileSync(path.join(testDir, name), content);
+  };
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'project-config-test-'));
+    manager = new ProjectConfigManager();
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it('should use defaults when no project config exists', () => {
+    expect(manager.load(testDir)).toEqual({});
+    expect(manager.getConfigPath()).toBeUndefined();
+    expect(manager.isScannerEnabled('iac')).toBe(true);
+    expect(manager.isPathIncluded(path.join(testDir, 'src/app.ts'))).toBe(true);
+  });
+
+  it('should load scanner toggles, thresholds and compliance frameworks', () => {
+    writeConfig([
+      'scanners:',
+      '  iac: false',
+      'compliance:',
+      '  frameworks: [GDPR, SOC2]',
+      'mutation:',
+      '  threshold: 65',
+    ].join('\n'));
+
+    const config = manager.load(testDir);
+
+    expect(manager.isScannerEnabled('iac')).toBe(false);
+    expect(manager.isScannerEnabled('owasp')).toBe(true);
+    expect(config.compliance?.frameworks).toEqual(['GDPR', 'SOC2']);
+    expect(config.mutation?.threshold).toBe(65);
+  });
+
+  it('should apply include and exclude globs, letting CLI files bypass include', () => {
+    writeConfig('include: ["src/**"]\nexclude: ["src/generated/**"]\n');
+    manager.load(testDir);
+
+    expect(manager.isPathIncluded(path.join(testDir, 'src/app.ts'))).toBe(true);
+    expect(manager.isPathIncluded(path.join(testDir, 'scripts/build.js'))).toBe(false);
+    expect(manager.isPathIncluded(path.join(testDir, 'src/generated/api.ts'))).toBe(false);
+
+    expect(manager.isPathIncluded(path.join(testDir, 'scripts/build.js'), true)).toBe(true);
+    expect(manager.isPathIncluded(path.join(testDir, 'src/generated/api.ts'), true)).toBe(false);
+  });
+
+  it('should override severities by rule ID or category and drop "off" rules', () => {
+    writeConfig('severityOverrides:\n  weak-randomness: low\n  Weak Cryptography: "off"\n');
+    manager.load(testDir);
+
+    const findings = manager.applySeverityOverrides(
+      [
+        { severity: 'medium', category: 'Weak Randomness' },
+        { severity: 'medium', category: 'Weak Cryptography' },
+        { severity: 'high', category: 'XSS' },
+      ],
+      f => [f.category]
+    );
+
+    expect(findings).toEqual([
+      { severity: 'low', category: 'Weak Randomness' },
+      { severity: 'high', category: 'XSS' },
+    ]);
+  });
+
+  it('should resolve custom rule directories against the repository root', () => {
+    fs.mkdirSync(path.join(testDir, 'rules'));
+    writeConfig('customRules: [rules]\n', '.guardscan.yaml');
+    manager.load(testDir);
+
+    expect(manager.getCustomRuleDirs()).toEqual([path.join(testDir, 'rules')]);
+  });
+
+  it('should evaluate license policy with wildcards, deny winning over allow', () => {
+    writeConfig('licensePolicy:\n  allow: ["*"]\n  deny: ["GPL-*", "AGPL-3.0"]\n');
+    manager.load(testDir);
+
+    expect(manager.getLicenseDecision('MIT')).toBe('allow');
+    expect(manager.getLicenseDecision('gpl-3.0')).toBe('deny');
+    expect(manager.getLicenseDecision('AGPL-3.0')).toBe('deny');
+  });
+
+  it('should report every schema error as a configuration error', () => {
+    writeConfig([
+      'scaners:',
+      '  iac: false',
+      'include: src/**',
+      'mutation:',
+      '  threshold: 120',
+      'severityOverrides:',
+      '  xss: severe',
+    ].join('\n'));
+
+    let error: any;
+    try {
+      manager.load(testDir);
+    } catch (e) {
+      error = e;
+    }
+
+    expect(exitCodeForError(error)).toBe(EXIT_CODES.CONFIG_ERROR);
+    expect(error.message).toContain('Unknown key "scaners" (did you mean "scanners"?)');
+    expect(error.message).toContain('include must be a list (got "src/**")');
+    expect(error.message).toContain('mutation.threshold must be <= 100 (got 120)');
+    expect(error.message).toContain('severityOverrides.xss must be one of');
+  });
+
+  it('should reject missing custom rule directories and malformed YAML', () => {
+    writeConfig('customRules: [missing-rules]\n');
+    expect(() => manager.load(testDir)).toThrow('customRules[0] directory not found: missing-rules');
+
+    writeConfig('scanners: [\n');
+    expect(() => manager.load(testDir)).toThrow('Invalid .guardscan.yml');
+  });
+
+  it('should validate nested perf thresholds', () => {
+    expect(validateProjectConfig({ perf: { vus: 2.5, thresholds: { errorRate: 2 } } })).toEqual([
+      'perf.vus must be an integer (got 2.5)',
+      'perf.thresholds.errorRate must be <= 1 (got 2)',
+    ]);
+  });
+});
@@ -0,0 +1,148 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { diffSboms, parseSbom, sbomLicenseFindings } from '../../src/core/sbom-reader';
+import { parsePurl } from '../../src/core/purl';
+import { buildCycloneDxBom, cycloneDxToXml } from '../../src/core/cyclonedx';
+import { buildSpdxDocument, spdxToTagValue } from '../../src/core/spdx';
+import { vulnDatabase } from '../../src/core/vuln-db';
+import { configManager } from '../../src/core/config';
+import { LicenseFinding } from '../../src/core/license-scanner';
+
+const finding = (pkg: string, version: string, license: string): LicenseFinding => ({
+  package: pkg,
+  version,
+  license,
+  category: 'permissive',
+  risk: 'low',
+  description: '',
+  source: 'npm',
+});
+
+const cycloneDx = (components: object[]) => JSON.stringify({
+  bomFormat: 'CycloneDX',
+  specVersion: '1.4',
+  metadata: { component: { type: 'application', name: 'app' } },
+  components,
+});
+
+describe('SBOM reader', () => {
+  let configDir: string;
+
+  beforeEach(() => {
+    configDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sbom-reader-'));
+    jest.spyOn(configManager, 'getConfigDir').mockReturnValue(configDir);
+    vulnDatabase.reset();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    vulnDatabase.reset();
+    fs.rmSync(configDir, { recursive: true, force: true });
+  });
+
+  it('should parse purls into registry names', () => {
+    expect(parsePurl('pkg:npm/%40babel/core@7.22.0')).toEqual({ ecosystem: 'npm', name: '@babel/core', version: '7.22.0' });
+    expect(parsePurl('pkg:maven/org.apache.logging.log4j/log4j-core@2.14.1?type=jar')).toEqual({
+      ecosystem: 'maven',
+      name: 'org.apache.logging.log4j:log4j-core',
+      version: '2.14.1',
+    });
+    expect(parsePurl('pkg:golang/github.com/pkg/errors@v0.9.1')).toEqual({ ecosystem: 'go', name: 'github.com/pkg/errors', version: 'v0.9.1' });
+    expect(parsePurl('pkg:deb/debian/openssl@1.1.1')).toEqual({ ecosystem: undefined, name: 'debian/openssl', version: '1.1.1' });
+    expect(parsePurl('not-a-purl')).toBeNull();
+  });
+
+  it('should read the same packages from every format GuardScan writes', () => {
+    const options = {
+      repoPath: '/nonexistent',
+      projectName: 'app',
+      findings: [finding('express', '4.17.1', 'MIT'), finding('@types/node', '20.1.0', 'Apache-2.0 OR MIT')],
+      trees: [],
+      dependencies: [],
+    };
+    const bom = buildCycloneDxBom(options);
+    const spdx = buildSpdxDocument(options);
+
+    const expected = [
+      { name: '@types/node', version: '20.1.0', ecosystem: 'npm', purl: 'pkg:npm/%40types/node@20.1.0', license: 'Apache-2.0 OR MIT' },
+      { name: 'express', version: '4.17.1', ecosystem: 'npm', purl: 'pkg:npm/express@4.17.1', license: 'MIT' },
+    ];
+    for (const [file, content] of [
+      ['bom.json', JSON.stringify(bom)],
+      ['bom.xml', cycloneDxToXml(bom)],
+      ['sbom.spdx.json', JSON.stringify(spdx)],
+      ['sbom.spdx', spdxToTagValue(spdx)],
+    ]) {
+      const parsed = parseSbom(content, file);
+      expect(parsed.name).toBe('app');
+      expect(parsed.components).toEqual(expected);
+    }
+  });
+
+  it('should read SPDX documents from other tools and reject other files', () => {
+    const spdx = parseSbom(JSON.stringify({
+      spdxVersion: 'SPDX-2.2',
+      name: 'image',
+      packages: [
+        { SPDXID: 'SPDXRef-image', name: 'image', versionInfo: 'latest' },
+        {
+          SPDXID: 'SPDXRef-Package-pypi-requests',
+          name: 'Requests',
+          versionInfo: '2.25.0',
+          licenseConcluded: 'NOASSERTION',
+          licenseDeclared: 'Apache-2.0',
+          externalRefs: [{ referenceCategory: 'PACKAGE-MANAGER', referenceType: 'purl', referenceLocator: 'pkg:pypi/requests@2.25.0' }],
+        },
+        { SPDXID: 'SPDXRef-Package-deb-zlib', name: 'zlib', versionInfo: '1.2.11' },
+      ],
+      relationships: [{ spdxElementId: 'SPDXRef-DOCUMENT', relationshipType: 'DESCRIBES', relatedSpdxElement: 'SPDXRef-image' }],
+    }), 'image.spdx.json');
+
+    expect(spdx.components).toEqual([
+      { name: 'requests', version: '2.25.0', ecosystem: 'pip', purl: 'pkg:pypi/requests@2.25.0', license: 'Apache-2.0' },
+      { name: 'zlib', version: '1.2.11' },
+    ]);
+    expect(sbomLicenseFindings(spdx)).toEqual([expect.objectContaining({ package: 'requests', license: 'Apache-2.0', category: 'permissive', source: 'pip' })]);
+    expect(() => parseSbom('{"name":"app"}', 'package.json')).toThrow('package.json is not a CycloneDX or SPDX document');
+  });
+
+  it('should report added, removed, re-versioned, relicensed and newly vulnerable packages', () => {
+    const advisories = fs.mkdtempSync(path.join(os.tmpdir(), 'sbom-reader-osv-'));
+    fs.writeFileSync(path.join(advisories, 'GHSA-qs.json'), JSON.stringify({
+      id: 'GHSA-qs',
+      summary: 'qs prototype pollution',
+      affected: [{ package: { ecosystem: 'npm', name: 'qs' }, ranges: [{ type: 'SEMVER', events: [{ introduced: '6.7.0' }, { fixed: '6.7.3' }] }] }],
+    }));
+    vulnDatabase.importFrom(advisories);
+    fs.rmSync(advisories, { recursive: true, force: true });
+
+    const before = parseSbom(cycloneDx([
+      { type: 'library', name: 'express', version: '4.17.1', purl: 'pkg:npm/express@4.17.1', licenses: [{ license: { id: 'MIT' } }] },
+      { type: 'library', name: 'lodash', version: '4.17.21', purl: 'pkg:npm/lodash@4.17.21' },
+      { type: 'library', name: 'left-pad', version: '1.3.0', purl: 'pkg:npm/left-pad@1.3.0' },
+      { type: 'library', name: 'qs', version: '6.6.0', purl: 'pkg:npm/qs@6.6.0' },
+    ]), 'old.json');
+    const after = parseSbom(cycloneDx([
+      { type: 'library', name: 'express', version: '4.18.2', purl: 'pkg:npm/express@4.18.2', licenses: [{ license: { id: 'Apache-2.0' } }] },
+      { type: 'library', name: 'lodash', version: '4.17.20', purl: 'pkg:npm/lodash@4.17.20' },
+      { type: 'library', name: 'chalk', version: '5.3.0', purl: 'pkg:npm/chalk@5.3.0' },
+      { type: 'library', name: 'qs', version: '6.7.0', purl: 'pkg:npm/qs@6.7.0' },
+    ]), 'new.json');
+
+    const diff = diffSboms(before, after);
+
+    expect(diff.added.map(item => `${item.name}@${item.version}`)).toEqual(['chalk@5.3.0']);
+    expect(diff.removed.map(item => `${item.name}@${item.version}`)).toEqual(['left-pad@1.3.0']);
+    expect(diff.upgraded.map(change => `${change.component.name} ${change.from} → ${change.to}`)).toEqual([
+      'express 4.17.1 → 4.18.2',
+      'qs 6.6.0 → 6.7.0',
+    ]);
+    expect(diff.downgraded.map(change => `${change.component.name} ${change.from} → ${change.to}`)).toEqual(['lodash 4.17.21 → 4.17.20']);
+    expect(diff.licenseChanges).toEqual([expect.objectContaining({ from: 'MIT', to: 'Apache-2.0' })]);
+    expect(diff.newVulnerabilities).toEqual([
+      expect.objectContaining({ package: 'qs', version: '6.7.0', id: 'GHSA-qs', file: 'new.json', recommendation: 'Update to 6.7.3' }),
+    ]);
+    expect(diff.resolvedVulnerabilities).toEqual([]);
+  });
+});
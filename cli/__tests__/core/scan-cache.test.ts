@@ -0,0 +1,108 @@
+import { ScanCache, describeCacheStats } from '../../src/core/scan-cache';
+import { configManager } from '../../src/core/config';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('ScanCache', () => {
+  let cacheDir: string;
+  let repoDir: string;
+  let file: string;
+  let scans: number;
+
+  const scanner = () => {
+    scans++;
+    return [{ file, line: 1, description: `scan ${scans}` }];
+  };
+
+  const reload = (enabled: boolean = true) => {
+    const cache = new ScanCache();
+    cache.load('repo-1', enabled);
+    return cache;
+  };
+
+  beforeEach(() => {
+    cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'scan-cache-test-'));
+    repoDir = fs.mkdtempSync(path.join(os.tmpdir(), 'scan-cache-repo-'));
+    file = path.join(repoDir, 'app.ts');
+    fs.writeFileSync(file, 'const a = 1;\n');
+    scans = 0;
+    jest.spyOn(configManager, 'getCacheDir').mockReturnValue(cacheDir);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(cacheDir, { recursive: true, force: true });
+    fs.rmSync(repoDir, { recursive: true, force: true });
+  });
+
+  it('should reuse results for unchanged content across runs', () => {
+    const first = reload();
+    first.getOrScan('owasp', file, 'const a = 1;\n', scanner, '1');
+    first.save();
+
+    const second = reload();
+    const results = second.getOrScan('owasp', file, 'const a = 1;\n', scanner, '1');
+
+    expect(scans).toBe(1);
+    expect(results).toEqual([{ file, line: 1, description: 'scan 1' }]);
+    expect(second.getStats()).toEqual({ enabled: true, hits: 1, misses: 0, entries: 1 });
+  });
+
+  it('should rescan when content, scanner version or scanner ID changes', () => {
+    const cache = reload();
+    cache.getOrScan('owasp', file, 'const a = 1;\n', scanner, '1');
+    cache.getOrScan('owasp', file, 'const a = 2;\n', scanner, '1');
+    cache.getOrScan('owasp', file, 'const a = 2;\n', scanner, '2');
+    cache.getOrScan('secrets', file, 'const a = 2;\n', scanner, '2');
+
+    expect(scans).toBe(4);
+    expect(cache.getStats().hits).toBe(0);
+  });
+
+  it('should invalidate cross-file results when any file is added or changed', () => {
+    const cache = reload();
+    const contents = new Map([[file, 'a'], [path.join(repoDir, 'b.ts'), 'b']]);
+
+    cache.getOrScanProject('smells:duplicates', contents, scanner, '1');
+    cache.getOrScanProject('smells:duplicates', new Map(contents), scanner, '1');
+    expect(scans).toBe(1);
+
+    contents.set(path.join(repoDir, 'c.ts'), 'c');
+    cache.getOrScanProject('smells:duplicates', contents, scanner, '1');
+    contents.set(file, 'changed');
+    cache.getOrScanProject('smells:duplicates', contents, scanner, '1');
+    expect(scans).toBe(3);
+  });
+
+  it('should always scan and never write with --no-cache', () => {
+    const cache = reload(false);
+    cache.getOrScan('owasp', file, 'x', scanner);
+    cache.getOrScan('owasp', file, 'x', scanner);
+    cache.save();
+
+    expect(scans).toBe(2);
+    expect(fs.existsSync(path.join(cacheDir, 'repo-1'))).toBe(false);
+    expect(describeCacheStats(cache.getStats())).toBe('disabled (--no-cache)');
+  });
+
+  it('should drop entries for deleted files and ignore corrupt cache files', () => {
+    const cache = reload();
+    cache.getOrScan('owasp', file, 'x', scanner);
+    fs.rmSync(file);
+    cache.save();
+    expect(reload().getStats().entries).toBe(0);
+
+    fs.writeFileSync(path.join(cacheDir, 'repo-1', 'scan-cache', 'results.json'), '{not json');
+    expect(reload().getStats().entries).toBe(0);
+  });
+
+  it('should not let callers mutate cached results', () => {
+    const cache = reload();
+    const results = cache.getOrScan('owasp', file, 'x', scanner);
+    results[0].description = 'mutated';
+
+    expect(cache.getOrScan('owasp', file, 'x', scanner)[0].description).toBe('scan 1');
+    expect(describeCacheStats(cache.getStats())).toBe('1 hits, 1 misses (50.0% reused)');
+  });
+});
@@ -0,0 +1,173 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { buildSpdxDocument, spdxToTagValue } from '../../src/core/spdx';
+import { buildDependencyTree } from '../../src/core/dependency-graph';
+import { LicenseFinding } from '../../src/core/license-scanner';
+
+const finding = (pkg: string, version: string, license: string, declaredLicense?: string): LicenseFinding => ({
+  package: pkg,
+  version,
+  license,
+  declaredLicense,
+  category: 'permissive',
+  risk: 'low',
+  description: '',
+  source: 'npm',
+});
+
+const sha1 = (content: string) => crypto.createHash('sha1').update(content).digest('hex');
+
+describe('SPDX SBOM', () => {
+  const lockfile = JSON.stringify({
+    name: 'app',
+    lockfileVersion: 3,
+    packages: {
+      '': { name: 'app', dependencies: { express: '^4.17.0' }, devDependencies: { '@types/node': '^20.0.0' } },
+      'node_modules/express': {
+        version: '4.17.1',
+        integrity: 'sha1-QdwaAV49WB8WIXdr4xr7KHapsbw=',
+        dependencies: { qs: '6.7.0' },
+      },
+      'node_modules/qs': { version: '6.7.0' },
+      'node_modules/@types/node': { version: '20.1.0', dev: true },
+    },
+  });
+
+  let repoPath: string;
+
+  beforeEach(() => {
+    repoPath = fs.mkdtempSync(path.join(os.tmpdir(), 'guardscan-spdx-'));
+    fs.writeFileSync(path.join(repoPath, 'package.json'), '{"name":"app","version":"1.2.0","license":"Apache-2.0"}');
+    fs.writeFileSync(path.join(repoPath, 'index.js'), 'module.exports = 1;\n');
+    fs.writeFileSync(path.join(repoPath, 'sbom.spdx'), 'previous output');
+  });
+
+  afterEach(() => {
+    fs.rmSync(repoPath, { recursive: true, force: true });
+  });
+
+  const build = (findings: LicenseFinding[] = []) => buildSpdxDocument({
+    repoPath,
+    projectName: 'app',
+    findings,
+    excludedFiles: ['sbom.spdx'],
+    trees: [buildDependencyTree('package-lock.json', lockfile, undefined, 'app')],
+    dependencies: [{ name: 'github.com/pkg/errors', version: 'v0.9.1', ecosystem: 'go', file: 'go.sum' }],
+  });
+
+  it('should describe the repository with a package verification code', () => {
+    const document = build();
+
+    expect(document.spdxVersion).toBe('SPDX-2.3');
+    expect(document.documentNamespace).toMatch(/^https:\/\/spdx\.org\/spdxdocs\/app-[0-9a-f-]{36}$/);
+    expect(document.creationInfo.created).toMatch(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}Z$/);
+    expect(document.documentDescribes).toEqual(['SPDXRef-RootPackage']);
+
+    const expectedCode = sha1([
+      sha1('{"name":"app","version":"1.2.0","license":"Apache-2.0"}'),
+      sha1('module.exports = 1;\n'),
+    ].sort().join(''));
+    expect(document.packages[0]).toMatchObject({
+      SPDXID: 'SPDXRef-RootPackage',
+      name: 'app',
+      versionInfo: '1.2.0',
+      filesAnalyzed: true,
+      packageVerificationCode: {
+        packageVerificationCodeValue: expectedCode,
+        packageVerificationCodeExcludedFiles: ['./sbom.spdx'],
+      },
+      licenseConcluded: 'NOASSERTION',
+      licenseDeclared: 'Apache-2.0',
+    });
+  });
+
+  it('should list packages with purls, checksums and concluded vs declared licenses', () => {
+    const document = build([
+      finding('express', '4.17.1', 'MIT', 'MIT'),
+      finding('qs', '6.7.0', 'BSD-3-Clause', 'BSD 3 Clause'),
+    ]);
+    const byName = new Map(document.packages.map(pkg => [pkg.name, pkg]));
+
+    expect(byName.get('express')).toEqual({
+      SPDXID: 'SPDXRef-Package-npm-express-4.17.1',
+      name: 'express',
+      versionInfo: '4.17.1',
+      downloadLocation: 'NOASSERTION',
+      filesAnalyzed: false,
+      checksums: [{ algorithm: 'SHA1', checksumValue: '41dc1a015e3d581f1621776be31afb2876a9b1bc' }],
+      licenseConcluded: 'MIT',
+      licenseDeclared: 'MIT',
+      copyrightText: 'NOASSERTION',
+      externalRefs: [{ referenceCategory: 'PACKAGE-MANAGER', referenceType: 'purl', referenceLocator: 'pkg:npm/express@4.17.1' }],
+      primaryPackagePurpose: 'LIBRARY',
+    });
+    expect(byName.get('qs')).toMatchObject({ licenseConcluded: 'BSD-3-Clause', licenseDeclared: 'LicenseRef-BSD-3-Clause' });
+    expect(byName.get('@types/node')).toMatchObject({
+      SPDXID: 'SPDXRef-Package-npm-types-node-20.1.0',
+      licenseConcluded: 'NOASSERTION',
+      licenseDeclared: 'NOASSERTION',
+    });
+    expect(document.hasExtractedLicensingInfos).toEqual([
+      { licenseId: 'LicenseRef-BSD-3-Clause', extractedText: 'BSD 3 Clause', name: 'BSD 3 Clause' },
+    ]);
+  });
+
+  it('should only write IDs from the SPDX license list as license expressions', () => {
+    const document = build([
+      finding('express', '4.17.1', 'GPL-2.0-only WITH Classpath-exception-2.0', 'Apache'),
+      finding('qs', '6.7.0', 'MIT OR BSD', 'mit'),
+    ]);
+    const byName = new Map(document.packages.map(pkg => [pkg.name, pkg]));
+
+    expect(byName.get('express')).toMatchObject({
+      licenseConcluded: 'GPL-2.0-only WITH Classpath-exception-2.0',
+      licenseDeclared: 'LicenseRef-Apache',
+    });
+    expect(byName.get('qs')).toMatchObject({ licenseConcluded: 'LicenseRef-MIT-OR-BSD', licenseDeclared: 'mit' });
+    expect(document.hasExtractedLicensingInfos).toEqual([
+      { licenseId: 'LicenseRef-Apache', extractedText: 'Apache', name: 'Apache' },
+      { licenseId: 'LicenseRef-MIT-OR-BSD', extractedText: 'MIT OR BSD', name: 'MIT OR BSD' },
+    ]);
+  });
+
+  it('should record DEPENDS_ON and DEV_DEPENDENCY_OF relationships', () => {
+    const document = build();
+
+    expect(document.relationships).toEqual([
+      { spdxElementId: 'SPDXRef-DOCUMENT', relationshipType: 'DESCRIBES', relatedSpdxElement: 'SPDXRef-RootPackage' },
+      { spdxElementId: 'SPDXRef-Package-npm-types-node-20.1.0', relationshipType: 'DEV_DEPENDENCY_OF', relatedSpdxElement: 'SPDXRef-RootPackage' },
+      { spdxElementId: 'SPDXRef-RootPackage', relationshipType: 'DEPENDS_ON', relatedSpdxElement: 'SPDXRef-Package-npm-express-4.17.1' },
+      {
+        spdxElementId: 'SPDXRef-RootPackage',
+        relationshipType: 'DEPENDS_ON',
+        relatedSpdxElement: 'SPDXRef-Package-go-github.com-pkg-errors-v0.9.1',
+        comment: 'No lockfile dependency graph records how this package is reached',
+      },
+      { spdxElementId: 'SPDXRef-Package-npm-express-4.17.1', relationshipType: 'DEPENDS_ON', relatedSpdxElement: 'SPDXRef-Package-npm-qs-6.7.0' },
+    ]);
+  });
+
+  it('should serialize to tag-value', () => {
+    const tagValue = spdxToTagValue(build([finding('qs', '6.7.0', 'BSD-3-Clause', 'BSD 3 Clause')]));
+
+    expect(tagValue).toMatch(/^SPDXVersion: SPDX-2\.3\nDataLicense: CC0-1\.0\nSPDXID: SPDXRef-DOCUMENT\nDocumentName: app\n/);
+    expect(tagValue).toMatch(/\nPackageVerificationCode: [0-9a-f]{40} \(excludes: \.\/sbom\.spdx\)\n/);
+    expect(tagValue).toContain([
+      'PackageName: express',
+      'SPDXID: SPDXRef-Package-npm-express-4.17.1',
+      'PackageVersion: 4.17.1',
+      'PrimaryPackagePurpose: LIBRARY',
+      'PackageDownloadLocation: NOASSERTION',
+      'FilesAnalyzed: false',
+      'PackageChecksum: SHA1: 41dc1a015e3d581f1621776be31afb2876a9b1bc',
+      'PackageLicenseConcluded: NOASSERTION',
+      'PackageLicenseDeclared: NOASSERTION',
+      'PackageCopyrightText: NOASSERTION',
+      'ExternalRef: PACKAGE-MANAGER purl pkg:npm/express@4.17.1',
+    ].join('\n'));
+    expect(tagValue).toContain('Relationship: SPDXRef-Package-npm-express-4.17.1 DEPENDS_ON SPDXRef-Package-npm-qs-6.7.0\n');
+    expect(tagValue).toContain('LicenseID: LicenseRef-BSD-3-Clause\nExtractedText: <text>BSD 3 Clause</text>\nLicenseName: BSD 3 Clause\n');
+  });
+});
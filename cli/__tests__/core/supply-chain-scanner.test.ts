@@ -0,0 +1,103 @@
+import { supplyChainScanner, findTyposquatTarget } from '../../src/core/supply-chain-scanner';
+import { projectConfigManager } from '../../src/core/project-config';
+import { suppressionManager } from '../../src/core/suppressions';
+import { fileWalker } from '../../src/core/file-walker';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('supply chain scanner', () => {
+  let repoDir: string;
+
+  const write = (file: string, content: string) => {
+    fs.mkdirSync(path.dirname(path.join(repoDir, file)), { recursive: true });
+    fs.writeFileSync(path.join(repoDir, file), content);
+  };
+
+  const scan = async () => {
+    projectConfigManager.load(repoDir);
+    suppressionManager.load(repoDir);
+    fileWalker.reset();
+    return supplyChainScanner.scan(repoDir);
+  };
+
+  beforeEach(() => {
+    repoDir = fs.mkdtempSync(path.join(os.tmpdir(), 'supply-chain-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(repoDir, { recursive: true, force: true });
+    projectConfigManager.load(process.cwd());
+  });
+
+  it('should match names close to popular packages per ecosystem', () => {
+    expect(findTyposquatTarget('npm', 'crossenv')).toBe('cross-env');
+    expect(findTyposquatTarget('npm', 'expres')).toBe('express');
+    expect(findTyposquatTarget('pip', 'python3-dateutil')).toBe('python-dateutil');
+    expect(findTyposquatTarget('pip', 'Requests')).toBeUndefined();
+    expect(findTyposquatTarget('cargo', 'serde-json')).toBeUndefined();
+    expect(findTyposquatTarget('npm', '@acme/lodahs')).toBeUndefined();
+    expect(findTyposquatTarget('npm', 'left-pad')).toBeUndefined();
+  });
+
+  it('should not flag legitimate packages close to popular ones', () => {
+    expect(findTyposquatTarget('npm', 'nuxt')).toBeUndefined();
+    expect(findTyposquatTarget('npm', 'mssql')).toBeUndefined();
+    expect(findTyposquatTarget('pip', 'psycopg')).toBeUndefined();
+    expect(findTyposquatTarget('pip', 'Boto')).toBeUndefined();
+    expect(findTyposquatTarget('pip', 'pymssql')).toBeUndefined();
+    // Only the listed names: their own misspellings still match
+    expect(findTyposquatTarget('npm', 'nexts')).toBe('next');
+    expect(findTyposquatTarget('pip', 'psycopg3')).toBe('psycopg2');
+  });
+
+  it('should flag typosquats in manifests with their line numbers', async () => {
+    write('package.json', JSON.stringify({ dependencies: { expres: '^4.0.0', lodash: '^4.0.0' } }, null, 2));
+    write('requirements.txt', 'requests==2.31.0\nreqeusts==1.0.0\n');
+
+    const findings = await scan();
+
+    expect(findings.map(f => [f.file, f.line, f.ruleId, f.category])).toEqual([
+      ['package.json', 3, 'supply-chain/typosquat', 'Supply Chain'],
+      ['requirements.txt', 2, 'supply-chain/typosquat', 'Supply Chain'],
+    ]);
+  });
+
+  it('should flag internal packages without registry pinning', async () => {
+    write('.guardscan.yml', 'supplyChain:\n  internalPackages: ["@acme/", "acme-"]\n');
+    write('package.json', JSON.stringify({ dependencies: { '@acme/ui': '1.0.0', 'acme-utils': '1.0.0' } }, null, 2));
+    write('requirements.txt', '--extra-index-url https://pypi.acme.internal/simple\nacme-billing==1.0\n');
+
+    let findings = await scan();
+    expect(findings.map(f => f.description)).toEqual([
+      '@acme/ui is an internal package but no private registry is configured for it in .npmrc',
+      'acme-utils is an internal package but no private registry is configured for it in .npmrc',
+      'acme-billing is an internal package but --extra-index-url lets pip pick a higher version from PyPI',
+    ]);
+
+    write('.npmrc', '@acme:registry=https://npm.acme.internal/\n');
+    write('requirements.txt', '--index-url https://pypi.acme.internal/simple\nacme-billing==1.0\n');
+
+    findings = await scan();
+    expect(findings.map(f => f.description)).toEqual([
+      'acme-utils is an internal package but no private registry is configured for it in .npmrc',
+    ]);
+  });
+
+  it('should flag install scripts in installed packages', async () => {
+    write('node_modules/evil/package.json', JSON.stringify({ name: 'evil', version: '1.0.0', scripts: { postinstall: 'node steal.js', test: 'jest' } }, null, 2));
+    write('node_modules/@scope/native/package.json', JSON.stringify({ name: '@scope/native', version: '2.0.0', scripts: { install: 'node-gyp rebuild' } }, null, 2));
+    write('node_modules/plain/package.json', JSON.stringify({ name: 'plain', version: '1.0.0' }));
+    write('.guardscan.yml', 'supplyChain:\n  allow: ["@scope/native"]\n');
+
+    const findings = await scan();
+
+    expect(findings).toEqual([expect.objectContaining({
+      severity: 'medium',
+      file: path.join('node_modules', 'evil', 'package.json'),
+      line: 5,
+      ruleId: 'supply-chain/install-script',
+      description: 'evil@1.0.0 runs a postinstall script: node steal.js',
+    })]);
+  });
+});
@@ -0,0 +1,140 @@
+import { SuppressionManager, findingTarget } from '../../src/core/suppressions';
+import { OwaspScanner } from '../../src/core/owasp-scanner';
+import { Finding } from '../../src/utils/reporter';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('SuppressionManager', () => {
+  let testDir: string;
+  let manager: SuppressionManager;
+  const today = new Date('2025-06-01T00:00:00Z');
+
+  const finding = (file: string, line: number, category = 'sql-injection'): Finding => ({
+    severity: 'high',
+    category,
+    file,
+    line,
+    description: 'Potential SQL injection',
+  });
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), 'suppressions-test-'));
+    manager = new SuppressionManager();
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  describe('inline directives', () => {
+    it('should suppress the next line for a matching rule ID', () => {
+      const content = [
+        '// guardscan-ignore-next-line sql-injection -- input is a constant',
+        'db.query("SELECT " + COLUMNS);',
+      ].join('\n');
+      manager.load(testDir, today);
+
+      const kept = manager.apply('owasp', [finding('db.js', 2)], findingTarget, content);
+
+      expect(kept).toHaveLength(0);
+      const suppressed = manager.getSuppressed();
+      expect(suppressed).toHaveLength(1);
+      expect(suppressed[0].suppression.reason).toBe('input is a constant');
+      expect(manager.getWarnings()).toHaveLength(0);
+    });
+
+    it('should match slugged categories and ignore other rules', () => {
+      const content = [
+        '# guardscan-ignore-next-line weak-cryptography -- legacy checksum',
+        'hashlib.md5(data)',
+      ].join('\n');
+      manager.load(testDir, today);
+
+      const kept = manager.apply('owasp', [
+        finding('app.py', 2, 'Weak Cryptography'),
+        finding('app.py', 2, 'sql-injection'),
+      ], findingTarget, content);
+
+      expect(kept.map(f => f.category)).toEqual(['sql-injection']);
+    });
+
+    it('should support same-line directives', () => {
+      const content = 'el.innerHTML = html; /* guardscan-ignore-line xss -- sanitized upstream */';
+      manager.load(testDir, today);
+
+      const kept = manager.apply('owasp', [finding('view.js', 1, 'xss')], findingTarget, content);
+
+      expect(kept).toHaveLength(0);
+      expect(manager.getSuppressed()[0].suppression.reason).toBe('sanitized upstream');
+    });
+
+    it('should warn about suppressions without a reason', () => {
+      const content = '// guardscan-ignore-next-line\neval(x);';
+      manager.load(testDir, today);
+
+      manager.apply('owasp', [finding('a.js', 2, 'dangerous-function')], findingTarget, content);
+
+      expect(manager.getWarnings()).toHaveLength(1);
+      expect(manager.getWarnings()[0].message).toContain('no justification');
+    });
+
+    it('should stop applying expired suppressions and warn', () => {
+      const content = '// guardscan-ignore-next-line xss expires=2025-01-01 -- temporary\nel.innerHTML = x;';
+      manager.load(testDir, today);
+
+      const kept = manager.apply('owasp', [finding('a.js', 2, 'xss')], findingTarget, content);
+
+      expect(kept).toHaveLength(1);
+      expect(manager.getWarnings()[0].message).toContain('expired on 2025-01-01');
+    });
+  });
+
+  describe('.guardscanignore', () => {
+    it('should suppress findings by path glob and rule ID', () => {
+      fs.writeFileSync(
+        path.join(testDir, '.guardscanignore'),
+        [
+          '# fixtures contain intentionally vulnerable code',
+          'test/fixtures/** -- intentionally vulnerable samples',
+          'src/legacy/** xss -- scheduled for rewrite',
+        ].join('\n')
+      );
+      manager.load(testDir, today);
+
+      const kept = manager.apply('owasp', [
+        finding(path.join(testDir, 'test/fixtures/sqli.js'), 3),
+        finding(path.join(testDir, 'src/legacy/view.js'), 10, 'xss'),
+        finding(path.join(testDir, 'src/legacy/view.js'), 12, 'sql-injection'),
+      ], findingTarget);
+
+      expect(kept).toHaveLength(1);
+      expect(kept[0].category).toBe('sql-injection');
+      expect(manager.getSuppressed()).toHaveLength(2);
+    });
+
+    it('should warn about entries without a reason or past expiry at load time', () => {
+      fs.writeFileSync(
+        path.join(testDir, '.guardscanignore'),
+        'vendor/**\nold/** expires=2024-12-31 -- migration\n'
+      );
+      manager.load(testDir, today);
+
+      const locations = manager.getWarnings().map(w => w.location);
+      expect(locations).toEqual(['.guardscanignore:1', '.guardscanignore:2']);
+    });
+  });
+
+  it('should be honored by OwaspScanner.scanFile', () => {
+    const scanner = new OwaspScanner();
+    const code = 'const id = req.query.id;\nconst hash = crypto.createHash("md5");';
+    const unsuppressed = scanner.scanFile('crypto.js', code, 'javascript');
+    expect(unsuppressed.length).toBeGreaterThan(0);
+
+    const suppressedCode = code.replace('const hash', '// guardscan-ignore-next-line -- test fixture\nconst hash');
+    const lineCount = scanner.scanFile('crypto.js', suppressedCode, 'javascript')
+      .filter(f => f.line === 3).length;
+
+    expect(lineCount).toBe(0);
+  });
+});
@@ -0,0 +1,132 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { LICENSE_TEXTS } from '../../src/constants/license-texts';
+import { LicenseFinding } from '../../src/core/license-scanner';
+import { buildThirdPartyNotices, renderThirdPartyNotices } from '../../src/core/third-party-notices';
+
+const licenseText = (id: string) => LICENSE_TEXTS.find(entry => entry.id === id)!.texts[0].replace(/<>/g, 'the copyright holder').trim();
+
+const finding = (pkg: string, license: string, extra: Partial<LicenseFinding> = {}): LicenseFinding => ({
+  package: pkg,
+  version: '1.0.0',
+  license,
+  category: 'permissive',
+  risk: 'low',
+  description: '',
+  source: 'npm',
+  ...extra,
+});
+
+describe('Third-party notices', () => {
+  let repoPath: string;
+
+  const write = (file: string, content: string) => {
+    fs.mkdirSync(path.dirname(path.join(repoPath, file)), { recursive: true });
+    fs.writeFileSync(path.join(repoPath, file), content);
+  };
+
+  beforeEach(() => {
+    repoPath = fs.mkdtempSync(path.join(os.tmpdir(), 'notices-'));
+    write('node_modules/left/LICENSE', `MIT License\r\n\r\nCopyright (c) 2019 Jane Doe\r\n\r\n${licenseText('MIT').replace(/\n/g, '\r\n')}\r\n`);
+    write('node_modules/right/LICENSE.md', `Copyright 2021 Acme Inc.\n\nMIT License\n\n${licenseText('MIT')}\n`);
+    write('node_modules/apache/LICENSE', licenseText('Apache-2.0'));
+    write('node_modules/apache/NOTICE', 'Apache Widget\nCopyright 2020 The Widget Authors\n');
+    write('node_modules/dual/LICENSE-MIT', `Copyright (c) 2018 Dual Devs\n\n${licenseText('MIT')}`);
+    write('node_modules/dual/LICENSE-APACHE', licenseText('Apache-2.0'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(repoPath, { recursive: true, force: true });
+  });
+
+  it('should collect copyrights and NOTICE files and list identical license texts once', () => {
+    const notices = buildThirdPartyNotices({
+      repoPath,
+      product: 'app',
+      findings: [
+        finding('right', 'MIT'),
+        finding('left', 'MIT'),
+        finding('apache', 'Apache-2.0'),
+        finding('dual', 'Apache-2.0 OR MIT', { policy: { license: 'MIT', decision: 'allow' } }),
+        finding('tooling', 'GPL-3.0-only', { dev: true }),
+      ],
+    });
+
+    expect(notices.missing).toEqual([]);
+    expect(notices.packages.map(pkg => [pkg.package, pkg.license, pkg.copyrights, pkg.licenseTexts])).toEqual([
+      ['apache', 'Apache-2.0', [], [1]],
+      ['dual', 'MIT', ['Copyright (c) 2018 Dual Devs'], [2]],
+      ['left', 'MIT', ['Copyright (c) 2019 Jane Doe'], [3]],
+      ['right', 'MIT', ['Copyright 2021 Acme Inc.'], [3]],
+    ]);
+    expect(notices.packages[0].notices).toEqual([{ file: 'NOTICE', text: 'Apache Widget\nCopyright 2020 The Widget Authors' }]);
+    expect(notices.licenseTexts.map(text => [text.license, text.packages])).toEqual([
+      ['Apache-2.0', ['apache@1.0.0']],
+      ['MIT', ['dual@1.0.0']],
+      ['MIT', ['left@1.0.0', 'right@1.0.0']],
+    ]);
+  });
+
+  it('should require license texts and Apache NOTICE checks for packages that are not installed', () => {
+    fs.mkdirSync(path.join(repoPath, 'node_modules/bare'));
+    const notices = buildThirdPartyNotices({
+      repoPath,
+      product: 'app',
+      findings: [finding('absent', 'Apache-2.0'), finding('public', 'CC0-1.0'), finding('bare', 'ISC')],
+    });
+
+    expect(notices.missing.map(missing => [missing.package, missing.notice, missing.reason])).toEqual([
+      ['absent', 'license text', 'the package is not installed, so its license files cannot be read'],
+      ['absent', 'NOTICE file', 'the package is not installed, so it cannot be checked for a NOTICE file'],
+      ['bare', 'license text', 'no LICENSE or COPYING file in node_modules/bare'],
+    ]);
+  });
+
+  it('should warn instead of failing for Maven and NuGet packages it cannot read', () => {
+    const nugetPackages = path.join(repoPath, 'nuget-cache');
+    fs.mkdirSync(path.join(nugetPackages, 'newtonsoft.json', '13.0.1'), { recursive: true });
+    fs.writeFileSync(path.join(nugetPackages, 'newtonsoft.json', '13.0.1', 'LICENSE.md'), `Copyright (c) 2007 James Newton-King\n\n${licenseText('MIT')}`);
+    const previous = process.env.NUGET_PACKAGES;
+    process.env.NUGET_PACKAGES = nugetPackages;
+
+    try {
+      const notices = buildThirdPartyNotices({
+        repoPath,
+        product: 'app',
+        findings: [
+          finding('org.apache.commons:commons-lang3', 'Apache-2.0', { source: 'maven', version: '3.12.0' }),
+          finding('Newtonsoft.Json', 'MIT', { source: 'nuget', version: '13.0.1' }),
+          finding('Serilog', 'Apache-2.0', { source: 'nuget', version: '2.12.0' }),
+        ],
+      });
+
+      expect(notices.missing).toEqual([]);
+      expect(notices.unverified.map(unverified => [unverified.package, unverified.notice])).toEqual([
+        ['org.apache.commons:commons-lang3', 'license text'],
+        ['org.apache.commons:commons-lang3', 'NOTICE file'],
+        ['Serilog', 'license text'],
+        ['Serilog', 'NOTICE file'],
+      ]);
+      expect(notices.packages.find(pkg => pkg.package === 'Newtonsoft.Json')?.copyrights).toEqual(['Copyright (c) 2007 James Newton-King']);
+    } finally {
+      if (previous === undefined) delete process.env.NUGET_PACKAGES;
+      else process.env.NUGET_PACKAGES = previous;
+    }
+  });
+
+  it('should render Markdown, plain text and HTML', () => {
+    write('node_modules/tricky/LICENSE', 'Copyright 2022 <Tom & Jerry>\n\nUse freely. ```Really```.');
+    const notices = buildThirdPartyNotices({ repoPath, product: 'app', findings: [finding('tricky', 'LicenseRef-tricky'), finding('apache', 'Apache-2.0')] });
+
+    const markdown = renderThirdPartyNotices(notices, 'markdown');
+    expect(markdown).toContain('### tricky@1.0.0\n\nLicense: LicenseRef-tricky\n\n    Copyright 2022 <Tom & Jerry>\n\nLicense text: [2. LicenseRef-tricky](#license-2)');
+    expect(markdown).toContain('### <a id="license-2"></a>2. LicenseRef-tricky\n\nUsed by: tricky@1.0.0\n\n````text\nUse freely. ```Really```.\n````');
+    expect(markdown).toContain('NOTICE:\n\n```text\nApache Widget\nCopyright 2020 The Widget Authors\n```');
+
+    expect(renderThirdPartyNotices(notices, 'text')).toContain('[2. LicenseRef-tricky]\n----------------------\nUsed by: tricky@1.0.0\n\nUse freely.');
+    const html = renderThirdPartyNotices(notices, 'html');
+    expect(html).toContain('<p>Copyright 2022 &lt;Tom &amp; Jerry&gt;</p>');
+    expect(html).toContain('<section id="license-2">');
+  });
+});
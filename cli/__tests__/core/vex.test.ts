@@ -0,0 +1,160 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  addVexStatement,
+  buildCycloneDxVex,
+  buildOpenVexExport,
+  createVexStatement,
+  findVexStatement,
+  isVersionInVers,
+  loadVexDocument,
+} from '../../src/core/vex';
+import { DependencyScanner } from '../../src/core/dependency-scanner';
+import { buildCycloneDxBom, validateCycloneDxBom } from '../../src/core/cyclonedx';
+import { suppressionManager } from '../../src/core/suppressions';
+import { vulnDatabase } from '../../src/core/vuln-db';
+import { configManager } from '../../src/core/config';
+
+describe('VEX', () => {
+  let configDir: string;
+  let repoPath: string;
+
+  beforeEach(() => {
+    configDir = fs.mkdtempSync(path.join(os.tmpdir(), 'vex-config-'));
+    repoPath = fs.mkdtempSync(path.join(os.tmpdir(), 'vex-repo-'));
+    jest.spyOn(configManager, 'getConfigDir').mockReturnValue(configDir);
+    vulnDatabase.reset();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    vulnDatabase.reset();
+    fs.rmSync(configDir, { recursive: true, force: true });
+    fs.rmSync(repoPath, { recursive: true, force: true });
+  });
+
+  it('should match versions against vers ranges', () => {
+    const range = 'vers:npm/>=1.0.0|<1.2.3|>=2.0.0|<2.0.5|!=2.0.1';
+    expect(isVersionInVers(range, 'npm', '1.1.0')).toBe(true);
+    expect(isVersionInVers(range, 'npm', '1.2.3')).toBe(false);
+    expect(isVersionInVers(range, 'npm', '2.0.4')).toBe(true);
+    expect(isVersionInVers(range, 'npm', '2.0.1')).toBe(false);
+    expect(isVersionInVers(range, 'npm', '0.9.0')).toBe(false);
+    expect(isVersionInVers('vers:pypi/<2.0|=3.0', 'pip', '1.5')).toBe(true);
+    expect(isVersionInVers('vers:pypi/<2.0|=3.0', 'pip', '3.0.0')).toBe(true);
+    expect(isVersionInVers('vers:npm/*', 'npm', '9.9.9')).toBe(true);
+  });
+
+  it('should validate statements against the OpenVEX rules', () => {
+    expect(() => createVexStatement({ vulnerability: 'CVE-2022-24999', product: 'pkg:npm/qs', status: 'not_affected' }))
+      .toThrow('A not_affected statement needs a justification or an impact statement');
+    expect(() => createVexStatement({ vulnerability: 'CVE-2022-24999', product: 'pkg:npm/qs', status: 'affected' }))
+      .toThrow('An affected statement needs an action statement');
+    expect(() => createVexStatement({ vulnerability: 'CVE-2022-24999', product: 'pkg:npm/qs', status: 'ignored' }))
+      .toThrow('Invalid VEX status "ignored"');
+    expect(() => createVexStatement({ vulnerability: 'CVE-2022-24999', product: 'qs', status: 'fixed' }))
+      .toThrow('Invalid package purl "qs"');
+    expect(() => createVexStatement({ vulnerability: 'CVE-2022-24999', product: 'pkg:npm/qs', versions: '<6.10', status: 'fixed' }))
+      .toThrow('Invalid version range "<6.10"');
+
+    const statement = createVexStatement({
+      vulnerability: 'CVE-2022-24999',
+      product: 'pkg:npm/qs',
+      versions: 'vers:npm/>=6.7.0|<6.7.3',
+      status: 'not_affected',
+      justification: 'vulnerable_code_not_in_execute_path',
+    }, new Date('2026-01-02T03:04:05Z'));
+    expect(statement).toEqual({
+      vulnerability: { name: 'CVE-2022-24999' },
+      products: [{ '@id': 'pkg:npm/qs', versions: 'vers:npm/>=6.7.0|<6.7.3' }],
+      status: 'not_affected',
+      justification: 'vulnerable_code_not_in_execute_path',
+      timestamp: '2026-01-02T03:04:05.000Z',
+    });
+  });
+
+  it('should store statements in the repository and let later ones win', () => {
+    addVexStatement(repoPath, createVexStatement({ vulnerability: 'CVE-2022-24999', product: 'pkg:npm/qs', status: 'under_investigation' }), 'dev <dev@example.com>');
+    addVexStatement(repoPath, createVexStatement({ vulnerability: 'cve-2022-24999', product: 'pkg:npm/qs@6.7.0', status: 'fixed' }), 'other');
+
+    const document = loadVexDocument(repoPath)!;
+    expect(document).toMatchObject({ '@context': 'https://openvex.dev/ns/v0.2.0', author: 'dev <dev@example.com>', version: 2 });
+    expect(document.statements).toHaveLength(2);
+
+    const target = (version: string) => ({ ids: ['GHSA-hrpp-h998-j3pp', 'CVE-2022-24999'], ecosystem: 'npm' as const, name: 'qs', version });
+    expect(findVexStatement(document, target('6.7.0'))?.status).toBe('fixed');
+    expect(findVexStatement(document, target('6.5.0'))?.status).toBe('under_investigation');
+    expect(findVexStatement(document, { ...target('6.7.0'), name: 'qs-lite' })).toBeUndefined();
+    expect(findVexStatement(document, { ...target('6.7.0'), ids: ['CVE-2000-0001'] })).toBeUndefined();
+  });
+
+  it('should suppress not_affected vulnerabilities in dependency scan results', async () => {
+    const advisories = fs.mkdtempSync(path.join(os.tmpdir(), 'vex-osv-'));
+    fs.writeFileSync(path.join(advisories, 'GHSA-hrpp-h998-j3pp.json'), JSON.stringify({
+      id: 'GHSA-hrpp-h998-j3pp',
+      aliases: ['CVE-2022-24999'],
+      summary: 'qs prototype pollution',
+      affected: [{ package: { ecosystem: 'npm', name: 'qs' }, ranges: [{ type: 'SEMVER', events: [{ introduced: '6.0.0' }, { fixed: '6.7.3' }] }] }],
+    }));
+    vulnDatabase.importFrom(advisories);
+    fs.rmSync(advisories, { recursive: true, force: true });
+
+    fs.writeFileSync(path.join(repoPath, 'package-lock.json'), JSON.stringify({
+      lockfileVersion: 3,
+      packages: {
+        '': { name: 'app', dependencies: { qs: '^6.0.0', express: '^4.0.0' } },
+        'node_modules/qs': { version: '6.7.0' },
+        'node_modules/express': { version: '4.17.1', dependencies: { qs: '6.5.2' } },
+        'node_modules/express/node_modules/qs': { version: '6.5.2' },
+      },
+    }));
+    addVexStatement(repoPath, createVexStatement({
+      vulnerability: 'CVE-2022-24999',
+      product: 'pkg:npm/qs',
+      versions: 'vers:npm/>=6.7.0|<6.7.3',
+      status: 'not_affected',
+      justification: 'vulnerable_code_not_in_execute_path',
+    }), 'dev');
+    suppressionManager.load(repoPath);
+
+    const [result] = await new DependencyScanner().scan(repoPath);
+
+    expect(result.vulnerabilities.map(vuln => `${vuln.package}@${vuln.version}`)).toEqual(['qs@6.5.2']);
+    expect(result.totalVulnerabilities).toBe(1);
+    expect(suppressionManager.getSuppressed()).toEqual([expect.objectContaining({
+      scanner: 'dependencies',
+      description: 'qs@6.7.0: qs prototype pollution',
+      suppression: expect.objectContaining({ source: 'vex', ids: ['CVE-2022-24999'], reason: 'not_affected: vulnerable_code_not_in_execute_path' }),
+    })]);
+  });
+
+  it('should export statements for the packages in an SBOM', () => {
+    const document = addVexStatement(repoPath, createVexStatement({
+      vulnerability: 'CVE-2022-24999',
+      product: 'pkg:npm/qs',
+      status: 'not_affected',
+      impact: 'Only parses trusted query strings',
+    }), 'dev');
+    addVexStatement(repoPath, createVexStatement({ vulnerability: 'CVE-2021-23337', product: 'pkg:npm/lodash', status: 'fixed' }), 'dev');
+
+    const bom = buildCycloneDxBom({
+      repoPath,
+      projectName: 'app',
+      findings: [],
+      trees: [],
+      dependencies: [{ name: 'qs', version: '6.7.0', ecosystem: 'npm', file: 'package-lock.json' }],
+    });
+    const cycloneDxVex = buildCycloneDxVex(loadVexDocument(repoPath)!, bom);
+
+    expect(cycloneDxVex.vulnerabilities).toEqual([{
+      id: 'CVE-2022-24999',
+      analysis: { state: 'not_affected', detail: 'Only parses trusted query strings', lastUpdated: document.statements[0].timestamp },
+      affects: [{ ref: `urn:cdx:${bom.serialNumber.slice('urn:uuid:'.length)}/1#pkg:npm/qs@6.7.0` }],
+    }]);
+    expect(validateCycloneDxBom(cycloneDxVex)).toEqual([]);
+
+    const openVex = buildOpenVexExport(loadVexDocument(repoPath)!, ['pkg:npm/qs@6.7.0', 'pkg:npm/express@4.17.1']);
+    expect(openVex.statements).toEqual([expect.objectContaining({ status: 'not_affected', products: [{ '@id': 'pkg:npm/qs@6.7.0' }] })]);
+  });
+});
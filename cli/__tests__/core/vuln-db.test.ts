@@ -0,0 +1,184 @@
+import { VulnDatabase, vulnDatabase } from '../../src/core/vuln-db';
+import { DependencyScanner } from '../../src/core/dependency-scanner';
+import { compareVersions, isVersionAffected } from '../../src/core/version-ranges';
+import { configManager } from '../../src/core/config';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
+import * as zlib from 'zlib';
+
+/**
+ * Build a deflated ZIP archive in memory
+ */
+function buildZip(files: Record<string, string>): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(files)) {
+    const data = zlib.deflateRawSync(Buffer.from(content));
+    const nameBuffer = Buffer.from(name);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(content.length, 22);
+    local.writeUInt16LE(nameBuffer.length, 26);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(content.length, 24);
+    central.writeUInt16LE(nameBuffer.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    locals.push(local, nameBuffer, data);
+    centrals.push(central, nameBuffer);
+    offset += local.length + nameBuffer.length + data.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 8);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, directory, end]);
+}
+
+const osv = (id: string, ecosystem: string, name: string, events: object[], extra: object = {}) =>
+  JSON.stringify({
+    id,
+    summary: `${name} advisory`,
+    affected: [{ package: { ecosystem, name }, ranges: [{ type: ecosystem === 'npm' ? 'SEMVER' : 'ECOSYSTEM', events }] }],
+    ...extra,
+  });
+
+describe('offline vulnerability database', () => {
+  let configDir: string;
+  let workDir: string;
+
+  beforeEach(() => {
+    configDir = fs.mkdtempSync(path.join(os.tmpdir(), 'vulndb-config-'));
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'vulndb-work-'));
+    jest.spyOn(configManager, 'getConfigDir').mockReturnValue(configDir);
+    vulnDatabase.reset();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    vulnDatabase.reset();
+    fs.rmSync(configDir, { recursive: true, force: true });
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  describe('version ranges', () => {
+    it('should order versions per ecosystem', () => {
+      expect(compareVersions('npm', '1.2.3-beta.1', '1.2.3')).toBeLessThan(0);
+      expect(compareVersions('go', 'v0.3.7', '0.3.8')).toBeLessThan(0);
+      expect(compareVersions('pip', '1.0.dev1', '1.0a1')).toBeLessThan(0);
+      expect(compareVersions('pip', '1.0a1', '1.0')).toBeLessThan(0);
+      expect(compareVersions('pip', '1.0', '1.0.post1')).toBeLessThan(0);
+      expect(compareVersions('pip', '1.0', '1.0.0')).toBe(0);
+      expect(compareVersions('pip', '1!0.1', '2.0')).toBeGreaterThan(0);
+      expect(compareVersions('ruby', '1.0.0.rc1', '1.0.0')).toBeLessThan(0);
+      expect(compareVersions('ruby', '1.10', '1.9')).toBeGreaterThan(0);
+      expect(compareVersions('composer', '7.4.0-RC1', '7.4.0')).toBeLessThan(0);
+      expect(compareVersions('maven', '2.0-rc1', '2.0-SNAPSHOT')).toBeLessThan(0);
+      expect(compareVersions('maven', '2.0-SNAPSHOT', '2.0')).toBeLessThan(0);
+      expect(compareVersions('maven', '2.0.Final', '2.0')).toBe(0);
+    });
+
+    it('should evaluate introduced, fixed and last_affected events', () => {
+      const ranges = [{ type: 'ECOSYSTEM' as const, events: [{ introduced: '0' }, { fixed: '2.0' }, { introduced: '3.0' }, { last_affected: '3.1' }] }];
+
+      expect(isVersionAffected('pip', '1.9', ranges)).toBe(true);
+      expect(isVersionAffected('pip', '2.0', ranges)).toBe(false);
+      expect(isVersionAffected('pip', '3.1', ranges)).toBe(true);
+      expect(isVersionAffected('pip', '3.1.1', ranges)).toBe(false);
+      expect(isVersionAffected('pip', '2.5', [], ['2.5.0'])).toBe(true);
+    });
+  });
+
+  it('should import OSV records from a directory and a zip dump', () => {
+    fs.mkdirSync(path.join(workDir, 'npm'));
+    fs.writeFileSync(path.join(workDir, 'npm', 'GHSA-1.json'), osv('GHSA-1', 'npm', 'lodash', [{ introduced: '0' }, { fixed: '4.17.21' }], {
+      aliases: ['CVE-2021-23337'],
+      database_specific: { severity: 'HIGH' },
+    }));
+    fs.writeFileSync(path.join(workDir, 'PyPI.zip'), buildZip({
+      'PYSEC-1.json': osv('PYSEC-1', 'PyPI', 'Django', [{ introduced: '3.2' }, { fixed: '3.2.5' }], {
+        severity: [{ type: 'CVSS_V3', score: 'CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:H/A:H' }],
+      }),
+    }));
+    fs.writeFileSync(path.join(workDir, 'notes.json'), '{"hello": "world"}');
+
+    const result = new VulnDatabase().importFrom(workDir);
+
+    expect(result).toMatchObject({ records: 2, skipped: 1, ecosystems: { npm: 1, pip: 1 } });
+    expect(vulnDatabase.getStatus()!.ecosystems).toEqual({
+      npm: { packages: 1, advisories: 1 },
+      pip: { packages: 1, advisories: 1 },
+    });
+
+    const [advisory] = vulnDatabase.findVulnerabilities({ name: 'django', version: '3.2.4', ecosystem: 'pip', file: 'poetry.lock' });
+    expect(advisory).toMatchObject({ id: 'PYSEC-1', severity: 'critical', fixed: ['3.2.5'] });
+  });
+
+  it('should replace re-imported advisories and drop withdrawn ones', () => {
+    const file = path.join(workDir, 'GHSA-1.json');
+    fs.writeFileSync(file, osv('GHSA-1', 'npm', 'lodash', [{ introduced: '0' }, { fixed: '4.17.21' }]));
+    vulnDatabase.importFrom(file);
+    fs.writeFileSync(file, osv('GHSA-1', 'npm', 'lodash', [{ introduced: '0' }, { fixed: '4.17.12' }]));
+    vulnDatabase.importFrom(file);
+
+    const lodash = { name: 'lodash', version: '4.17.15', ecosystem: 'npm' as const, file: 'package-lock.json' };
+    expect(vulnDatabase.findVulnerabilities(lodash)).toEqual([]);
+    expect(vulnDatabase.findVulnerabilities({ ...lodash, version: '4.17.11' })).toHaveLength(1);
+
+    fs.writeFileSync(file, osv('GHSA-1', 'npm', 'lodash', [], { withdrawn: '2024-01-01T00:00:00Z' }));
+    vulnDatabase.importFrom(file);
+    expect(vulnDatabase.findVulnerabilities({ ...lodash, version: '4.17.11' })).toEqual([]);
+  });
+
+  it('should report lockfile dependencies as DependencyVulnerability without audit tools', async () => {
+    const advisories = path.join(workDir, 'advisories');
+    fs.mkdirSync(advisories);
+    fs.writeFileSync(path.join(advisories, 'a.json'), osv('GHSA-2', 'npm', 'minimist', [{ introduced: '0' }, { fixed: '1.2.3' }, { introduced: '1.2.4' }, { fixed: '1.2.6' }], {
+      aliases: ['CVE-2021-44906'],
+      database_specific: { severity: 'CRITICAL' },
+    }));
+    vulnDatabase.importFrom(advisories);
+
+    const repo = path.join(workDir, 'repo');
+    fs.mkdirSync(repo);
+    fs.writeFileSync(path.join(repo, 'package.json'), '{"name": "app"}');
+    fs.writeFileSync(path.join(repo, 'package-lock.json'), JSON.stringify({
+      lockfileVersion: 3,
+      packages: { '': {}, 'node_modules/minimist': { version: '1.2.5' }, 'node_modules/ms': { version: '2.1.3' } },
+    }));
+
+    const results = await new DependencyScanner().scan(repo);
+
+    expect(results).toHaveLength(1);
+    expect(results[0]).toMatchObject({ ecosystem: 'npm', totalVulnerabilities: 1, critical: 1 });
+    expect(results[0].vulnerabilities[0]).toEqual({
+      package: 'minimist',
+      version: '1.2.5',
+      severity: 'critical',
+      title: 'minimist advisory',
+      cve: 'CVE-2021-44906',
+      recommendation: 'Update to 1.2.6',
+      ecosystem: 'npm',
+      id: 'GHSA-2',
+      aliases: ['CVE-2021-44906'],
+      fixedVersions: ['1.2.3', '1.2.6'],
+      file: 'package-lock.json',
+      paths: ['app → minimist@1.2.5'],
+    });
+  });
+});
@@ -26,7 +26,7 @@ class MockAIProvider extends AIProvider {
     };
   }
 
-  async chat(messages: any[]): Promise<any> {
+  protected async send(messages: any[]): Promise<any> {
     // Check if explaining a class or function based on user message
     const userMessage = messages.find((m) => m.role === "user")?.content || "";
     const isClass =
@@ -241,6 +241,7 @@ describe("CodeExplainer", () => {
       `;
 
       mockProvider.chat = async () => ({
+        model: "mock",
         content: JSON.stringify({
           summary: "Singleton pattern implementation",
           purpose: "Ensure only one instance",
@@ -273,6 +274,7 @@ describe("CodeExplainer", () => {
       `;
 
       mockProvider.chat = async () => ({
+        model: "mock",
         content: JSON.stringify({
           summary: "Factory pattern",
           purpose: "Create shapes",
@@ -326,6 +328,7 @@ describe("CodeExplainer", () => {
       `;
 
       mockProvider.chat = async () => ({
+        model: "mock",
         content: JSON.stringify({
           summary: "Complex nested logic",
           purpose: "Calculate value",
@@ -360,6 +363,7 @@ describe("CodeExplainer", () => {
       `;
 
       mockProvider.chat = async () => ({
+        model: "mock",
         content: JSON.stringify({
           summary: "Processes an order",
           purpose: "Order processing pipeline",
@@ -11,11 +11,13 @@ import {
 import { AIProvider, ProviderCapabilities } from "../../src/providers/base";
 import { CodebaseIndexer } from "../../src/core/codebase-indexer";
 import { AICache } from "../../src/core/ai-cache";
+import { configManager } from "../../src/core/config";
+import { outboundAudit } from "../../src/core/outbound-redaction";
 import * as fs from "fs";
 import * as path from "path";
 import * as os from "os";
 
-import { describe, expect, it, beforeEach, afterEach } from "@jest/globals";
+import { describe, expect, it, beforeEach, afterEach, jest } from "@jest/globals";
 
 // Mock AI Provider
 class MockAIProvider extends AIProvider {
@@ -28,7 +30,7 @@ class MockAIProvider extends AIProvider {
       embeddingDimensions: 768,
     };
   }
-  async chat(messages: any[]): Promise<any> {
+  protected async send(messages: any[]): Promise<any> {
     const prompt = messages[messages.length - 1].content;
 
     if (prompt.includes("code smell")) {
@@ -294,6 +296,7 @@ describe("RefactoringSuggestionsEngine", () => {
       };
 
       mockProvider.chat = async () => ({
+        model: "mock",
         content: JSON.stringify({
           refactored: {
             files: [
@@ -341,6 +344,7 @@ describe("RefactoringSuggestionsEngine", () => {
       };
 
       mockProvider.chat = async () => ({
+        model: "mock",
         content: JSON.stringify({
           affectedFiles: ["test.ts", "test.spec.ts"],
           breakingChanges: [],
@@ -420,4 +424,29 @@ describe("RefactoringSuggestionsEngine", () => {
       expect(duration).toBeLessThan(10000); // < 10 seconds
     });
   });
+
+  describe("Outbound Dry Run", () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it("should stop the report instead of skipping files with --show-outbound", async () => {
+      const code = `
+        function veryLongMethod() {
+          ${Array(100).fill('console.log("line");').join("\n")}
+        }
+      `;
+      const filePath = path.join(tempDir, "src", "long.ts");
+      fs.writeFileSync(filePath, code);
+
+      jest.spyOn(configManager, "getConfigDir").mockReturnValue(tempDir);
+      jest.spyOn(console, "log").mockImplementation(() => {});
+      const errors = jest.spyOn(console, "error").mockImplementation(() => {});
+      outboundAudit.begin("refactor", { showOutbound: true });
+
+      await expect(engine.generateReport(filePath)).rejects.toThrow("Not sent: --show-outbound");
+      expect(errors).not.toHaveBeenCalled();
+    });
+  });
 });
+
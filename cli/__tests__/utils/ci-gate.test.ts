@@ -0,0 +1,103 @@
+import {
+  parseGateOptions,
+  evaluateGate,
+  errorSummary,
+  exitCodeForError,
+  configError,
+  emitGateSummary,
+  EXIT_CODES,
+} from '../../src/utils/ci-gate';
+
+describe('CI gate', () => {
+  const findings = [
+    { severity: 'critical' },
+    { severity: 'high' },
+    { severity: 'medium' },
+    { severity: 'low' },
+    { severity: 'info' },
+  ];
+
+  describe('parseGateOptions', () => {
+    it('should return undefined when no gate flags are set', () => {
+      expect(parseGateOptions({})).toBeUndefined();
+    });
+
+    it('should default --max-findings to 0', () => {
+      expect(parseGateOptions({ failOn: 'HIGH' })).toEqual({ failOn: 'high', maxFindings: 0 });
+    });
+
+    it('should reject invalid values as configuration errors', () => {
+      expect(() => parseGateOptions({ failOn: 'severe' })).toThrow('Invalid --fail-on value');
+
+      let error: unknown;
+      try {
+        parseGateOptions({ maxFindings: '-1' });
+      } catch (e) {
+        error = e;
+      }
+      expect(exitCodeForError(error)).toBe(EXIT_CODES.CONFIG_ERROR);
+    });
+  });
+
+  describe('evaluateGate', () => {
+    it('should count findings at or above the --fail-on severity', () => {
+      const summary = evaluateGate('security', { failOn: 'high', maxFindings: 1 }, findings);
+
+      expect(summary.counted).toBe(2);
+      expect(summary.findings).toBe(5);
+      expect(summary.status).toBe('fail');
+      expect(summary.exitCode).toBe(EXIT_CODES.THRESHOLD_EXCEEDED);
+    });
+
+    it('should pass when counted findings are within --max-findings', () => {
+      const summary = evaluateGate('rules', { maxFindings: 5 }, findings);
+
+      expect(summary.counted).toBe(5);
+      expect(summary.exitCode).toBe(EXIT_CODES.SUCCESS);
+    });
+
+    it('should only count new findings when a baseline comparison is given', () => {
+      const summary = evaluateGate('scan', { failOn: 'low', maxFindings: 0 }, findings, {
+        newFindings: [{ severity: 'info' }],
+      });
+
+      expect(summary.counted).toBe(0);
+      expect(summary.baseline).toBe(true);
+      expect(summary.exitCode).toBe(EXIT_CODES.SUCCESS);
+    });
+
+    it('should report scanner errors ahead of an exceeded threshold', () => {
+      const summary = evaluateGate('security', { failOn: 'critical', maxFindings: 0 }, findings, {
+        scannerErrors: ['iac'],
+      });
+
+      expect(summary.exitCode).toBe(EXIT_CODES.SCANNER_ERROR);
+      expect(summary.status).toBe('error');
+    });
+
+    it('should always exit 0 without a gate', () => {
+      const summary = evaluateGate('security', undefined, findings, { scannerErrors: ['owasp'] });
+
+      expect(summary.exitCode).toBe(EXIT_CODES.SUCCESS);
+      expect(summary.maxFindings).toBeNull();
+    });
+  });
+
+  it('should map fatal errors to scanner or configuration exit codes', () => {
+    expect(exitCodeForError(new Error('boom'))).toBe(EXIT_CODES.SCANNER_ERROR);
+    expect(errorSummary('scan', undefined, configError('bad flag')).exitCode).toBe(EXIT_CODES.CONFIG_ERROR);
+  });
+
+  it('should write a single prefixed JSON line to stderr', () => {
+    const write = jest.spyOn(process.stderr, 'write').mockImplementation(() => true);
+
+    emitGateSummary(evaluateGate('review', { failOn: 'medium', maxFindings: 0 }, findings));
+
+    const output = String(write.mock.calls[0][0]);
+    write.mockRestore();
+    expect(output.endsWith('\n')).toBe(true);
+    expect(output.trim().split('\n')).toHaveLength(1);
+    const summary = JSON.parse(output.replace(/^guardscan-summary /, ''));
+    expect(summary).toMatchObject({ command: 'review', counted: 3, exitCode: 1 });
+  });
+});
@@ -0,0 +1,11 @@
+import { editDistance } from '../../src/utils/edit-distance';
+
+describe('editDistance', () => {
+  it('should measure edits including adjacent swaps', () => {
+    expect(editDistance('lodash', 'lodahs')).toBe(1);
+    expect(editDistance('crossenv', 'cross-env')).toBe(1);
+    expect(editDistance('express', 'express')).toBe(0);
+    expect(editDistance('scanners', 'scaners')).toBe(1);
+    expect(editDistance('', 'abc')).toBe(3);
+  });
+});
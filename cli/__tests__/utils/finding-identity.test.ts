@@ -0,0 +1,33 @@
+import { normalizeRuleId, fingerprintAnchor, SourceLineCache } from "../../src/utils/finding-identity";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+
+import { describe, it, expect } from "@jest/globals";
+
+describe("finding identity", () => {
+  it("should normalize rule IDs and categories to the same key", () => {
+    expect(normalizeRuleId("SQL Injection")).toBe("sql-injection");
+    expect(normalizeRuleId("sql-injection")).toBe("sql-injection");
+    expect(normalizeRuleId("  Secret Detection: AWS Key ")).toBe("secret-detection-aws-key");
+  });
+
+  it("should anchor on whitespace-normalized line content with a fallback", () => {
+    expect(fingerprintAnchor("  db.query(  sql )\t", "message")).toBe("db.query( sql )");
+    expect(fingerprintAnchor(undefined, "message")).toBe("message");
+  });
+
+  it("should read lines relative to the repository root", () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "finding-identity-"));
+    try {
+      fs.writeFileSync(path.join(dir, "a.js"), "one\ntwo\n");
+      const cache = new SourceLineCache(dir);
+
+      expect(cache.readLine("a.js", 2)).toBe("two");
+      expect(cache.readLine("missing.js", 1)).toBeUndefined();
+      expect(cache.readLines("missing.js")).toBeNull();
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
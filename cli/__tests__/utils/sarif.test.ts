@@ -0,0 +1,159 @@
+import { SarifReporter } from "../../src/utils/sarif";
+import { ReviewResult } from "../../src/utils/reporter";
+import { RuleResult, Rule } from "../../src/core/rule-engine";
+import * as fs from "fs";
+import * as path from "path";
+import * as os from "os";
+
+import { describe, it, beforeEach, afterEach, expect } from "@jest/globals";
+
+describe("SarifReporter", () => {
+  let testDir: string;
+  let sarif: SarifReporter;
+
+  const sqlRule: Rule = {
+    id: "sql-injection",
+    name: "SQL Injection Vulnerability",
+    description: "Detects potential SQL injection vulnerabilities",
+    severity: "critical",
+    category: "security",
+    patterns: [{ type: "regex", pattern: "query\\(" }],
+    metadata: { cwe: ["CWE-89"], owasp: ["A03:2021"] },
+  };
+
+  const buildReview = (file: string): ReviewResult => ({
+    summary: "",
+    findings: [
+      {
+        severity: "critical",
+        category: "sql-injection",
+        file,
+        line: 2,
+        description: "Potential SQL injection",
+        suggestion: "Use parameterized queries",
+      },
+      {
+        severity: "medium",
+        category: "OWASP A05 - Security Misconfiguration",
+        file: "dependencies",
+        description: "Debug mode enabled",
+      },
+    ],
+    recommendations: [],
+    metadata: {
+      timestamp: "2025-01-01T00:00:00.000Z",
+      repoInfo: { repoId: "id", name: "repo", path: testDir, isGit: false },
+      locStats: {
+        totalLines: 0,
+        codeLines: 0,
+        commentLines: 0,
+        blankLines: 0,
+        fileCount: 0,
+        fileBreakdown: [],
+      },
+      provider: "security-scanner",
+      model: "sast-rules",
+      durationMs: 0,
+    },
+  });
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), "sarif-test-"));
+    sarif = new SarifReporter(testDir);
+    fs.mkdirSync(path.join(testDir, "src"));
+    fs.writeFileSync(
+      path.join(testDir, "src", "db.js"),
+      "const id = req.query.id;\ndb.query('SELECT * FROM users WHERE id=' + id);\n"
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  it("should produce a SARIF 2.1.0 log with tool metadata", () => {
+    const log = sarif.fromReviewResult(buildReview("src/db.js"), [sqlRule]);
+
+    expect(log.version).toBe("2.1.0");
+    expect(log.runs).toHaveLength(1);
+    expect(log.runs[0].tool.driver.name).toBe("GuardScan");
+    expect(log.runs[0].results).toHaveLength(2);
+  });
+
+  it("should tag rule descriptors with CWE and OWASP identifiers", () => {
+    const log = sarif.fromReviewResult(buildReview("src/db.js"), [sqlRule]);
+    const rules = log.runs[0].tool.driver.rules;
+
+    const sql = rules.find((r) => r.id === "sql-injection");
+    expect(sql?.properties.tags).toContain("external/cwe/cwe-89");
+    expect(sql?.properties.tags).toContain("external/owasp/a03:2021");
+    expect(sql?.defaultConfiguration.level).toBe("error");
+
+    const misconfig = rules.find((r) => r.id === "owasp-a05-security-misconfiguration");
+    expect(misconfig?.properties.tags).toContain("external/owasp/a05:2021");
+  });
+
+  it("should only mark security categories as security alerts", () => {
+    const review = buildReview("src/db.js");
+    review.findings.push({
+      severity: "medium",
+      category: "Code Smell: long-method",
+      file: "src/db.js",
+      line: 1,
+      description: "Method is too long",
+    });
+    const rules = sarif.fromReviewResult(review, [sqlRule]).runs[0].tool.driver.rules;
+
+    const sql = rules.find((r) => r.id === "sql-injection");
+    expect(sql?.properties.tags).toContain("security");
+    expect(sql?.properties["security-severity"]).toBe("9.5");
+
+    const smell = rules.find((r) => r.id === "code-smell-long-method");
+    expect(smell?.properties.tags).not.toContain("security");
+    expect(smell?.properties["security-severity"]).toBeUndefined();
+  });
+
+  it("should emit repo-relative locations with line and column", () => {
+    const absolute = path.join(testDir, "src", "db.js");
+    const ruleResult: RuleResult = {
+      totalViolations: 1,
+      violations: [
+        {
+          ruleId: "sql-injection",
+          ruleName: "SQL Injection Vulnerability",
+          severity: "critical",
+          category: "security",
+          file: absolute,
+          line: 2,
+          column: 3,
+          message: "Potential SQL injection - use parameterized queries",
+        },
+      ],
+      rulesSummary: {},
+      severitySummary: { critical: 1, high: 0, medium: 0, low: 0, info: 0 },
+      timestamp: "2025-01-01T00:00:00.000Z",
+    };
+
+    const log = sarif.fromRuleResult(ruleResult, [sqlRule]);
+    const location = log.runs[0].results[0].locations[0].physicalLocation;
+
+    expect(location.artifactLocation.uri).toBe("src/db.js");
+    expect(location.region).toEqual({ startLine: 2, startColumn: 4 });
+  });
+
+  it("should keep fingerprints stable when the finding moves to another line", () => {
+    const before = sarif.fromReviewResult(buildReview("src/db.js"), [sqlRule]);
+
+    fs.writeFileSync(
+      path.join(testDir, "src", "db.js"),
+      "// header\nconst id = req.query.id;\n  db.query('SELECT * FROM users WHERE id=' + id);\n"
+    );
+    const shifted = buildReview("src/db.js");
+    shifted.findings[0].line = 3;
+    const after = new SarifReporter(testDir).fromReviewResult(shifted, [sqlRule]);
+
+    expect(after.runs[0].results[0].partialFingerprints).toEqual(
+      before.runs[0].results[0].partialFingerprints
+    );
+  });
+});
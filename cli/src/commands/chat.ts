@@ -14,7 +14,7 @@ import { repositoryManager } from "../core/repository";
 import { ProviderFactory } from "../providers/factory";
 import { createDebugLogger } from "../utils/debug-logger";
 import { createPerformanceTracker } from "../utils/performance-tracker";
-import { handleCommandError } from "../utils/error-handler";
+import { handleCommandError, isOutboundDryRun } from "../utils/error-handler";
 
 const logger = createDebugLogger("chat");
 const perfTracker = createPerformanceTracker("guardscan chat");
@@ -608,6 +608,7 @@ async function startChatLoop(
         clearInterval(thinkingInterval);
         process.stdout.write("\n");
       }
+      if (isOutboundDryRun(error)) throw error;
       console.log(chalk.red("\n" + "━".repeat(70)));
       console.log(chalk.red.bold("✗ Error"));
       console.log(chalk.red("━".repeat(70)));
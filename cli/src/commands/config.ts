@@ -4,7 +4,7 @@ import { configManager, AIProvider } from "../core/config";
 import { ProviderFactory } from "../providers/factory";
 import { createDebugLogger } from "../utils/debug-logger";
 import { createPerformanceTracker } from "../utils/performance-tracker";
-import { handleCommandError } from "../utils/error-handler";
+import { handleCommandError, isOutboundDryRun } from "../utils/error-handler";
 
 interface ConfigOptions {
   provider?: AIProvider;
@@ -587,6 +587,7 @@ async function configureModeSettings(
           );
         }
       } catch (error: any) {
+        if (isOutboundDryRun(error)) throw error;
         console.error("[Config] Caught error in connection test:", error);
         console.log(chalk.yellow("⚠ Connection test failed"));
 
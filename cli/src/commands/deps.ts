@@ -0,0 +1,73 @@
+import chalk from 'chalk';
+import { buildDependencyTrees, formatDependencyPath } from '../core/dependency-graph';
+import { dependencyScanner } from '../core/dependency-scanner';
+import { normalizePackageName } from '../core/vuln-db';
+import { createDebugLogger } from '../utils/debug-logger';
+import { handleCommandError } from '../utils/error-handler';
+import { exitCodeForError } from '../utils/ci-gate';
+
+const logger = createDebugLogger('deps');
+
+interface DepsWhyOptions {
+  all?: boolean;
+}
+
+const DEFAULT_PATHS_SHOWN = 5;
+const MAX_PATHS_SHOWN = 100;
+
+/**
+ * Explain why a package is installed: every dependency chain from the project to it
+ */
+export async function depsWhyCommand(spec: string, options: DepsWhyOptions = {}): Promise<void> {
+  try {
+    const repoPath = process.cwd();
+    // "lodash", "lodash@4.17.20", "@scope/pkg@1.0.0"
+    const at = spec.lastIndexOf('@');
+    const name = at > 0 ? spec.slice(0, at) : spec;
+    const version = at > 0 ? spec.slice(at + 1) : undefined;
+    logger.debug('Explaining dependency', { name, version });
+
+    console.log(chalk.cyan.bold(`\n🔎 Why is ${spec} installed?\n`));
+
+    const trees = buildDependencyTrees(repoPath);
+    const limit = options.all ? MAX_PATHS_SHOWN : DEFAULT_PATHS_SHOWN;
+    let found = 0;
+
+    for (const tree of trees) {
+      for (const node of tree.find(name, version)) {
+        found++;
+        console.log(chalk.white.bold(`${node.id}`) + chalk.gray(` (${tree.file}${node.dev ? ', dev' : ''})`));
+
+        const chains = tree.paths(node.id, limit + 1);
+        if (chains.length === 0) {
+          console.log(chalk.gray('  Not reachable from the project (left over in the lockfile)'));
+        }
+        for (const chain of chains.slice(0, limit)) {
+          const range = chain.length === 1 ? tree.declaredRange(null, node.id) : undefined;
+          console.log(`  ${formatDependencyPath(tree, chain)}${range ? chalk.gray(` (direct, ${range})`) : ''}`);
+        }
+        if (chains.length > limit) {
+          console.log(chalk.gray('  … more paths; use --all to list them'));
+        }
+        console.log();
+      }
+    }
+
+    // Lockfiles and build files that only list versions
+    const graphFiles = new Set(trees.map(tree => tree.file));
+    for (const dependency of dependencyScanner.listDependencies(repoPath)) {
+      if (graphFiles.has(dependency.file)) continue;
+      if (normalizePackageName(dependency.ecosystem, dependency.name) !== normalizePackageName(dependency.ecosystem, name)) continue;
+      if (version && dependency.version !== version) continue;
+      found++;
+      console.log(chalk.white.bold(`${dependency.name}@${dependency.version}`) + chalk.gray(` (${dependency.file}${dependency.dev ? ', dev' : ''})`));
+      console.log(chalk.gray('  Listed without a dependency graph, so the chain is unknown\n'));
+    }
+
+    if (found === 0) {
+      console.log(chalk.yellow(`${spec} is not in any lockfile or build file in this repository.\n`));
+    }
+  } catch (error) {
+    handleCommandError(error, 'Dependency explanation', exitCodeForError(error));
+  }
+}
@@ -4,7 +4,7 @@ import { repositoryManager } from '../core/repository';
 import { ProviderFactory } from '../providers/factory';
 import { createDebugLogger } from '../utils/debug-logger';
 import { createPerformanceTracker } from '../utils/performance-tracker';
-import { handleCommandError } from '../utils/error-handler';
+import { handleCommandError, isOutboundDryRun } from '../utils/error-handler';
 
 const logger = createDebugLogger('docs');
 const perfTracker = createPerformanceTracker('guardscan docs');
@@ -106,6 +106,7 @@ export async function docsCommand(options: DocsCommandOptions): Promise<void> {
           process.exit(1);
       }
     } catch (error: any) {
+      if (isOutboundDryRun(error)) throw error;
       console.error(chalk.red(`\n✗ Failed to generate ${docType} documentation:`, error.message));
       process.exit(1);
     }
@@ -170,6 +171,7 @@ export async function docsCommand(options: DocsCommandOptions): Promise<void> {
     console.log();
 
   } catch (error) {
+    if (isOutboundDryRun(error)) handleCommandError(error, 'Documentation');
     console.error(chalk.red('\n✗ Failed to generate documentation:'), error);
     process.exit(1);
   }
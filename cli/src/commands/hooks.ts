@@ -0,0 +1,171 @@
+import chalk from 'chalk';
+import * as path from 'path';
+import { GUARDSCAN_HOOKS, HookName, installHooks, uninstallHooks } from '../core/git-hooks';
+import {
+  HookCheckResult,
+  PushedRef,
+  checkCommitMessage,
+  checkPushedCommits,
+  checkStagedChanges,
+  parsePushedRefs,
+  recordBypass,
+} from '../core/hook-checks';
+import { projectConfigManager } from '../core/project-config';
+import { suppressionManager } from '../core/suppressions';
+import { createDebugLogger } from '../utils/debug-logger';
+import { handleCommandError } from '../utils/error-handler';
+import { EXIT_CODES, configError, exitCodeForError } from '../utils/ci-gate';
+
+const logger = createDebugLogger('hooks');
+
+const HOOK_ACTIONS: Record<HookName, string> = {
+  'pre-commit': 'commit',
+  'commit-msg': 'commit',
+  'pre-push': 'push',
+};
+
+interface InstallOptions {
+  force?: boolean;
+}
+
+export async function hooksInstallCommand(options: InstallOptions): Promise<void> {
+  try {
+    const result = installHooks(process.cwd(), { force: options.force });
+    const manager = { git: 'git hooks', 'pre-commit': 'pre-commit framework', husky: 'husky' }[result.manager];
+
+    console.log(chalk.green(`\n✓ Installed ${GUARDSCAN_HOOKS.join(', ')} (${manager})`));
+    for (const file of result.files) {
+      console.log(chalk.gray(`  ${displayPath(file)}`));
+    }
+    for (const note of result.notes) {
+      console.log(chalk.yellow(`\n${note}`));
+    }
+    console.log(chalk.gray('\nTo commit or push past a finding, give a reason: GUARDSCAN_SKIP="<reason>" git commit ...\n'));
+  } catch (error) {
+    handleCommandError(error, 'Hooks install', exitCodeForError(error));
+  }
+}
+
+export async function hooksUninstallCommand(): Promise<void> {
+  try {
+    const changed = uninstallHooks(process.cwd());
+    if (changed.length === 0) {
+      console.log(chalk.gray('\nNo GuardScan hooks installed\n'));
+      return;
+    }
+
+    console.log(chalk.green('\n✓ Removed GuardScan hooks'));
+    for (const file of changed) {
+      console.log(chalk.gray(`  ${displayPath(file)}`));
+    }
+    console.log();
+  } catch (error) {
+    handleCommandError(error, 'Hooks uninstall', exitCodeForError(error));
+  }
+}
+
+/**
+ * Entry point of the installed hooks. Exits 1 to stop the commit or push,
+ * unless GUARDSCAN_SKIP gives a reason, in which case the bypass is logged.
+ */
+export async function hooksRunCommand(hook: string, args: string[]): Promise<void> {
+  try {
+    if (!GUARDSCAN_HOOKS.includes(hook as HookName)) {
+      throw configError(`Unknown hook "${hook}" (expected one of: ${GUARDSCAN_HOOKS.join(', ')})`);
+    }
+
+    const repoPath = process.cwd();
+    projectConfigManager.load(repoPath);
+    suppressionManager.load(repoPath);
+
+    const result = await runHook(hook as HookName, repoPath, args);
+    logger.debug('Hook checked', { hook, scanned: result.scanned, problems: result.problems.length });
+    if (result.problems.length === 0) return;
+
+    printProblems(result);
+    const reason = process.env.GUARDSCAN_SKIP?.trim();
+    if (reason) {
+      const logFile = recordBypass(repoPath, result, reason);
+      console.log(chalk.yellow(`\n⚠ GUARDSCAN_SKIP set: allowing this ${HOOK_ACTIONS[result.hook]} ("${reason}"); logged to ${displayPath(logFile)}\n`));
+      return;
+    }
+
+    printHelp(result);
+    process.exit(EXIT_CODES.THRESHOLD_EXCEEDED);
+  } catch (error) {
+    handleCommandError(error, `GuardScan ${hook} hook`, exitCodeForError(error));
+  }
+}
+
+async function runHook(hook: HookName, repoPath: string, args: string[]): Promise<HookCheckResult> {
+  switch (hook) {
+    case 'pre-commit':
+      return checkStagedChanges(repoPath);
+    case 'commit-msg':
+      if (!args[0]) {
+        throw configError('The commit-msg hook needs the commit message file');
+      }
+      return checkCommitMessage(args[0]);
+    case 'pre-push':
+      return checkPushedCommits(repoPath, await pushedRefs(), args[0] || process.env.PRE_COMMIT_REMOTE_NAME);
+  }
+}
+
+/**
+ * Refs being pushed: from stdin when git runs the hook, or from the
+ * environment when the pre-commit framework does
+ */
+async function pushedRefs(): Promise<PushedRef[]> {
+  const { PRE_COMMIT_FROM_REF: from, PRE_COMMIT_TO_REF: to, PRE_COMMIT_REMOTE_BRANCH: remoteRef } = process.env;
+  if (to) {
+    return [{ localRef: to, localSha: to, remoteRef: remoteRef || to, remoteSha: from || '0'.repeat(40) }];
+  }
+  if (process.stdin.isTTY) return [];
+
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(chunk as Buffer);
+  }
+  return parsePushedRefs(Buffer.concat(chunks).toString('utf-8'));
+}
+
+function printProblems(result: HookCheckResult): void {
+  const action = HOOK_ACTIONS[result.hook];
+  console.log(chalk.red.bold(`\n✗ GuardScan found ${result.problems.length} problem(s) in ${result.scanned} that would block this ${action}:\n`));
+
+  const secrets = result.problems.filter(problem => problem.kind === 'secret');
+  const rules = result.problems.filter(problem => problem.kind === 'rule');
+  if (secrets.length > 0) {
+    console.log(chalk.bold('  Secrets'));
+    for (const secret of secrets) {
+      console.log(chalk.red(`    • ${secret.file}:${secret.line}  ${secret.title} (${secret.severity})  ${secret.detail}`));
+      console.log(chalk.gray(`      ${secret.commit ? `commit ${secret.commit.slice(0, 8)}, ` : ''}fingerprint ${secret.fingerprint}`));
+    }
+  }
+  if (rules.length > 0) {
+    console.log(chalk.bold('  Rule violations'));
+    for (const rule of rules) {
+      console.log(chalk.red(`    • ${rule.file}:${rule.line}  ${rule.title} (${rule.severity})`));
+      console.log(chalk.gray(`      ${rule.detail}`));
+    }
+  }
+}
+
+function printHelp(result: HookCheckResult): void {
+  const action = HOOK_ACTIONS[result.hook];
+  const fix = {
+    'pre-commit': 'Remove these lines from the staged changes (git add -p) and commit again.',
+    'commit-msg': 'Remove the secret from the commit message and commit again.',
+    'pre-push': 'Rewrite the commits that added these secrets (git rebase -i) and push again; rotate any secret that left your machine.',
+  }[result.hook];
+
+  console.log(chalk.gray(`\n${fix}`));
+  console.log(chalk.gray('False positives: allowlist the fingerprint in a secrets detector file, or add the rule to .guardscanignore.'));
+  console.log(chalk.gray(`To ${action} anyway, give a reason (it is logged locally):`));
+  console.log(chalk.gray(`  GUARDSCAN_SKIP="<reason>" git ${action} ...\n`));
+}
+
+function displayPath(file: string): string {
+  const relative = path.relative(process.cwd(), file);
+  return relative.startsWith('..') ? file : relative;
+}
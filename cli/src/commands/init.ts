@@ -6,7 +6,7 @@ import { displayWelcomeBanner } from '../utils/ascii-art';
 import { ProviderFactory } from '../providers/factory';
 import { createDebugLogger } from '../utils/debug-logger';
 import { createPerformanceTracker } from '../utils/performance-tracker';
-import { handleCommandError } from '../utils/error-handler';
+import { handleCommandError, isOutboundDryRun } from '../utils/error-handler';
 
 type SetupMode = 'cloud' | 'local' | 'static';
 
@@ -271,6 +271,7 @@ async function setupCloudAI(config: any): Promise<void> {
       }
     } catch (error) {
       perfTracker.end('test-ai-connection');
+      if (isOutboundDryRun(error)) throw error;
       logger.warn('AI connection test failed', { error });
       console.log(chalk.yellow('⚠ Connection test failed'));
       console.log(chalk.gray('You can still proceed, but reviews may fail'));
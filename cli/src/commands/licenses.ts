@@ -0,0 +1,80 @@
+import chalk from 'chalk';
+import ora from 'ora';
+import * as fs from 'fs';
+import * as path from 'path';
+import { licenseScanner } from '../core/license-scanner';
+import { projectConfigManager } from '../core/project-config';
+import { repositoryManager } from '../core/repository';
+import { NoticesFormat, buildThirdPartyNotices, renderThirdPartyNotices } from '../core/third-party-notices';
+import { createDebugLogger } from '../utils/debug-logger';
+import { handleCommandError } from '../utils/error-handler';
+import { EXIT_CODES, configError, exitCodeForError } from '../utils/ci-gate';
+
+const logger = createDebugLogger('licenses');
+
+interface NoticesOptions {
+  output?: string;
+  format?: string;
+}
+
+const NOTICES_EXTENSIONS: Record<NoticesFormat, string> = { markdown: 'md', text: 'txt', html: 'html' };
+
+/**
+ * Write a THIRD_PARTY_NOTICES file for the production dependencies. Fails
+ * without writing it when an installed package lacks attribution its license
+ * requires.
+ */
+export async function licensesNoticesCommand(options: NoticesOptions): Promise<void> {
+  console.log(chalk.cyan.bold('\n📜 Third-Party Notices\n'));
+
+  try {
+    const format = (options.format || 'markdown') as NoticesFormat;
+    if (!NOTICES_EXTENSIONS[format]) {
+      throw configError(`Unknown notices format "${options.format}" (use markdown, text or html)`);
+    }
+
+    const repoPath = process.cwd();
+    const repoInfo = repositoryManager.getRepoInfo();
+    const projectType = projectConfigManager.load(repoPath).licensePolicy?.projectType || 'proprietary';
+
+    const spinner = ora('Collecting license texts and notices...').start();
+    const licenseReport = await licenseScanner.scan(repoPath, projectType);
+    const notices = buildThirdPartyNotices({ repoPath, product: repoInfo.name, findings: licenseReport.findings });
+    spinner.stop();
+    logger.debug('Notices collected', {
+      packages: notices.packages.length,
+      licenseTexts: notices.licenseTexts.length,
+      missing: notices.missing.length,
+      unverified: notices.unverified.length,
+    });
+
+    console.log(chalk.gray(`Production dependencies: ${notices.packages.length}`));
+    console.log(chalk.gray(`Distinct license texts: ${notices.licenseTexts.length}`));
+    console.log(chalk.gray(`NOTICE files: ${notices.packages.reduce((sum, pkg) => sum + pkg.notices.length, 0)}`));
+
+    if (notices.unverified.length > 0) {
+      console.log(chalk.yellow.bold(`\n⚠ ${notices.unverified.length} notice(s) could not be checked:\n`));
+      for (const unverified of notices.unverified) {
+        console.log(chalk.yellow(`  • ${unverified.package}@${unverified.version} (${unverified.license}): ${unverified.notice}`));
+        console.log(chalk.gray(`    ${unverified.reason}`));
+      }
+      console.log(chalk.gray('\nAdd their license texts and NOTICE files to the output by hand.'));
+    }
+
+    if (notices.missing.length > 0) {
+      console.log(chalk.red.bold(`\n✗ ${notices.missing.length} required notice(s) not found:\n`));
+      for (const missing of notices.missing) {
+        console.log(chalk.red(`  • ${missing.package}@${missing.version} (${missing.license}): ${missing.notice}`));
+        console.log(chalk.gray(`    ${missing.reason}`));
+      }
+      console.log(chalk.gray('\nInstall the dependencies (or vendor them) so their license files can be read, then run again.\n'));
+      process.exit(EXIT_CODES.THRESHOLD_EXCEEDED);
+    }
+
+    const outputPath = options.output || path.join(repoPath, `THIRD_PARTY_NOTICES.${NOTICES_EXTENSIONS[format]}`);
+    fs.writeFileSync(outputPath, renderThirdPartyNotices(notices, format));
+    console.log(chalk.green(`\n✓ Notices saved: ${outputPath}\n`));
+  } catch (error) {
+    handleCommandError(error, 'Third-party notices', exitCodeForError(error));
+  }
+}
@@ -2,6 +2,7 @@ import chalk from 'chalk';
 import ora from 'ora';
 import { mutationTester, MutationConfig } from '../core/mutation-tester';
 import { repositoryManager } from '../core/repository';
+import { projectConfigManager } from '../core/project-config';
 import { createProgressBar } from '../utils/progress';
 import * as fs from 'fs';
 import * as path from 'path';
@@ -33,14 +34,20 @@ export async function mutationCommand(options: MutationOptions): Promise<void> {
     perfTracker.end('detect-repository');
     logger.debug('Repository detected', { name: repoInfo.name });
 
+    // --threshold wins over .guardscan.yml `mutation.threshold`, then the default of 80
+    const projectConfig = projectConfigManager.load(repoInfo.path);
+    const threshold = options.threshold !== undefined
+      ? Number(options.threshold)
+      : projectConfig.mutation?.threshold ?? 80;
+
     console.log(chalk.gray(`Repository: ${repoInfo.name}`));
     console.log(chalk.gray(`Framework: ${options.framework || 'auto-detect'}`));
-    console.log(chalk.gray(`Threshold: ${options.threshold || 80}%\n`));
+    console.log(chalk.gray(`Threshold: ${threshold}%\n`));
 
     // Build config
     const config: MutationConfig = {
       framework: options.framework,
-      threshold: options.threshold,
+      threshold,
       testCommand: options.testCommand,
       timeout: options.timeout,
     };
@@ -122,10 +129,10 @@ export async function mutationCommand(options: MutationOptions): Promise<void> {
 
     // Exit with error if threshold not met
     if (!result.passed) {
-      console.log(chalk.red(`  ✗ Mutation score ${result.mutationScore.toFixed(1)}% is below threshold ${options.threshold || 80}%\n`));
-      handleCommandError(new Error(`Mutation score ${result.mutationScore.toFixed(1)}% is below threshold ${options.threshold || 80}%`), 'Mutation testing');
+      console.log(chalk.red(`  ✗ Mutation score ${result.mutationScore.toFixed(1)}% is below threshold ${threshold}%\n`));
+      handleCommandError(new Error(`Mutation score ${result.mutationScore.toFixed(1)}% is below threshold ${threshold}%`), 'Mutation testing');
     } else {
-      console.log(chalk.green(`  ✓ Mutation score ${result.mutationScore.toFixed(1)}% meets threshold ${options.threshold || 80}%\n`));
+      console.log(chalk.green(`  ✓ Mutation score ${result.mutationScore.toFixed(1)}% meets threshold ${threshold}%\n`));
     }
 
   } catch (error: any) {
@@ -3,6 +3,7 @@ import ora from 'ora';
 import { execSync } from 'child_process';
 import { performanceTester, PerformanceConfig } from '../core/performance-tester';
 import { createProgressBar } from '../utils/progress';
+import { projectConfigManager } from '../core/project-config';
 import * as fs from 'fs';
 import * as path from 'path';
 import { createDebugLogger } from '../utils/debug-logger';
@@ -33,6 +34,9 @@ export async function perfCommand(options: PerfOptions): Promise<void> {
     const repoPath = process.cwd();
     logger.debug('Repository path', { repoPath });
 
+    // CLI flags win over .guardscan.yml `perf`, then built-in defaults
+    const perfConfig = projectConfigManager.load(repoPath).perf || {};
+
     // Determine test type
     let testType: 'load' | 'stress' | 'web' = 'load';
     if (options.stress) testType = 'stress';
@@ -107,9 +111,11 @@ export async function perfCommand(options: PerfOptions): Promise<void> {
     } else {
       // Run k6 load or stress test
       const config: PerformanceConfig = {
-        duration: options.duration || '30s',
-        vus: options.vus || 10,
+        duration: options.duration || perfConfig.duration || '30s',
+        vus: options.vus !== undefined ? Number(options.vus) : perfConfig.vus ?? 10,
         endpoints: options.url ? [{ url: options.url }] : undefined,
+        thresholds: perfConfig.thresholds,
+        regressionThreshold: perfConfig.regressionThreshold,
       };
 
       progressBar.update(completedSteps, { status: `Running ${testType} test...` });
@@ -137,7 +143,7 @@ export async function perfCommand(options: PerfOptions): Promise<void> {
       progressBar.update(completedSteps, { status: 'Analyzing regressions...' });
 
       console.log(chalk.white.bold('\n📊 Regression Analysis:\n'));
-      const regressions = performanceTester.detectRegressions(result);
+      const regressions = performanceTester.detectRegressions(result, undefined, perfConfig.regressionThreshold);
 
       if (regressions.length === 0) {
         console.log(chalk.green('  ✓ No baseline found for comparison'));
@@ -26,6 +26,7 @@ import { ConfigManager } from '../core/config';
 import { createDebugLogger } from '../utils/debug-logger';
 import { createPerformanceTracker } from '../utils/performance-tracker';
 import { handleCommandError } from '../utils/error-handler';
+import { parseGateOptions, evaluateGate, emitGateSummary, errorSummary, exitCodeForError, displayGateResult, configError, CIGate } from '../utils/ci-gate';
 
 const logger = createDebugLogger('review');
 const perfTracker = createPerformanceTracker('guardscan review');
@@ -38,6 +39,8 @@ interface ReviewCommandOptions {
   category?: string;
   report?: boolean;
   output?: string;
+  failOn?: string;
+  maxFindings?: string;
 }
 
 /**
@@ -51,7 +54,10 @@ export async function reviewCommand(options: ReviewCommandOptions): Promise<void
 
   const spinner = ora('Initializing code review...').start();
 
+  let gate: CIGate | undefined;
   try {
+    gate = parseGateOptions(options);
+
     // Load configuration
     perfTracker.start('load-config');
     const configManager = new ConfigManager();
@@ -64,6 +70,10 @@ export async function reviewCommand(options: ReviewCommandOptions): Promise<void
       spinner.fail('No AI provider configured');
       console.log(chalk.yellow('\nCode review requires an AI provider.'));
       console.log(chalk.gray('Configure with: guardscan config\n'));
+      if (gate) {
+        // A CI gate must not pass silently when the review could not run
+        throw configError('Code review requires an AI provider');
+      }
       return;
     }
 
@@ -72,6 +82,9 @@ export async function reviewCommand(options: ReviewCommandOptions): Promise<void
     if (!repoInfo.isGit) {
       spinner.fail('Not a git repository');
       console.log(chalk.yellow('\nCode review requires a git repository'));
+      if (gate) {
+        throw configError('Code review requires a git repository');
+      }
       return;
     }
 
@@ -104,9 +117,17 @@ export async function reviewCommand(options: ReviewCommandOptions): Promise<void
       displaySummary(report);
     }
 
+    const gateSummary = evaluateGate('review', gate, report.comments);
+    displayGateResult(gateSummary);
+    emitGateSummary(gateSummary);
+    if (gateSummary.exitCode !== 0) {
+      process.exit(gateSummary.exitCode);
+    }
+
   } catch (error: any) {
     spinner.fail('Review failed');
-    handleCommandError(error, 'Code review');
+    emitGateSummary(errorSummary('review', gate, error));
+    handleCommandError(error, 'Code review', exitCodeForError(error));
   }
 }
 
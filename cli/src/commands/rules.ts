@@ -3,11 +3,20 @@ import ora from 'ora';
 import { ruleEngine, Rule } from '../core/rule-engine';
 import { repositoryManager } from '../core/repository';
 import { createProgressBar } from '../utils/progress';
+import { reporter } from '../utils/reporter';
+import { SarifReporter } from '../utils/sarif';
+import { suppressionManager } from '../core/suppressions';
+import { projectConfigManager } from '../core/project-config';
+import { fileWalker } from '../core/file-walker';
+import { resolveDiffScope } from '../core/diff-scope';
 import * as fs from 'fs';
 import * as path from 'path';
 import { createDebugLogger } from '../utils/debug-logger';
 import { createPerformanceTracker } from '../utils/performance-tracker';
 import { handleCommandError } from '../utils/error-handler';
+import { parseGateOptions, evaluateGate, emitGateSummary, errorSummary, exitCodeForError, displayGateResult, configError, CIGate, EXIT_CODES } from '../utils/ci-gate';
+
+const RULE_FILE_EXTENSIONS = ['.js', '.ts', '.jsx', '.tsx', '.py', '.java', '.go', '.rs', '.rb'];
 
 const logger = createDebugLogger('rules');
 const perfTracker = createPerformanceTracker('guardscan rules');
@@ -20,6 +29,12 @@ interface RulesOptions {
   files?: string;
   customRules?: string;
   export?: string;
+  format?: string;
+  failOn?: string;
+  maxFindings?: string;
+  changedSince?: string;
+  staged?: boolean;
+  changedLinesOnly?: boolean;
 }
 
 export async function rulesCommand(options: RulesOptions): Promise<void> {
@@ -28,6 +43,7 @@ export async function rulesCommand(options: RulesOptions): Promise<void> {
   
   console.log(chalk.cyan.bold('\n📜 Custom Rules Engine\n'));
 
+  let gate: CIGate | undefined;
   try {
     perfTracker.start('detect-repository');
     const repoPath = process.cwd();
@@ -35,16 +51,16 @@ export async function rulesCommand(options: RulesOptions): Promise<void> {
     perfTracker.end('detect-repository');
     logger.debug('Repository detected', { name: repoInfo.name });
 
+    // Load .guardscan.yml project settings
+    projectConfigManager.load(repoInfo.path);
+
+    // Start each run with a fresh file listing and content cache
+    fileWalker.reset();
+
     // List rules
     if (options.list) {
       // Load custom rules first
-      if (options.customRules) {
-        const spinner = ora('Loading custom rules...').start();
-        ruleEngine.loadCustomRules(options.customRules);
-        spinner.succeed(`Custom rules loaded from ${options.customRules}`);
-      } else {
-        ruleEngine.loadCustomRules();
-      }
+      loadRules(options.customRules, true);
 
       displayRules();
       return;
@@ -53,13 +69,7 @@ export async function rulesCommand(options: RulesOptions): Promise<void> {
     // Export rule
     if (options.export) {
       // Load custom rules first
-      if (options.customRules) {
-        const spinner = ora('Loading custom rules...').start();
-        ruleEngine.loadCustomRules(options.customRules);
-        spinner.succeed(`Custom rules loaded from ${options.customRules}`);
-      } else {
-        ruleEngine.loadCustomRules();
-      }
+      loadRules(options.customRules, true);
 
       const [ruleId, outputPath] = options.export.split(':');
       exportRule(ruleId, outputPath);
@@ -68,6 +78,14 @@ export async function rulesCommand(options: RulesOptions): Promise<void> {
 
     // Run rules (default mode)
     if (options.run !== false) {  // Default to true
+      const format = (options.format || 'json').toLowerCase();
+      if (!['json', 'sarif'].includes(format)) {
+        throw configError(`Invalid output format "${options.format}". Expected one of: json, sarif`);
+      }
+
+      // Without explicit flags, keep failing on any critical or high violation
+      gate = parseGateOptions(options) || { failOn: 'high', maxFindings: 0 };
+
       console.log(chalk.gray(`Repository: ${repoInfo.name}\n`));
 
       // Calculate total steps for progress tracking
@@ -80,11 +98,7 @@ export async function rulesCommand(options: RulesOptions): Promise<void> {
       // Step 1: Load custom rules
       progressBar.update(completedSteps, { status: 'Loading rules...' });
 
-      if (options.customRules) {
-        ruleEngine.loadCustomRules(options.customRules);
-      } else {
-        ruleEngine.loadCustomRules();
-      }
+      loadRules(options.customRules);
 
       completedSteps++;
       progressBar.update(completedSteps, { status: 'Rules loaded' });
@@ -92,9 +106,15 @@ export async function rulesCommand(options: RulesOptions): Promise<void> {
       // Step 2: Get files to scan
       progressBar.update(completedSteps, { status: 'Scanning files...' });
 
-      const files = options.files
+      // --changed-since / --staged restrict the run to changed files
+      const diffScope = resolveDiffScope(repoPath, options);
+      fileWalker.setScope(diffScope?.getChangedFiles());
+
+      // --files replaces the project include globs; excludes still apply
+      const files = (options.files
         ? options.files.split(',').map(f => f.trim())
-        : getAllFiles(repoPath);
+        : fileWalker.listPaths(repoPath, { extensions: RULE_FILE_EXTENSIONS })
+      ).filter(file => projectConfigManager.isPathIncluded(file, !!options.files) && (!diffScope || diffScope.includesFile(file)));
 
       completedSteps++;
       progressBar.update(completedSteps, { status: `Found ${files.length} files` });
@@ -107,7 +127,8 @@ export async function rulesCommand(options: RulesOptions): Promise<void> {
       // Step 3: Run rules
       progressBar.update(completedSteps, { status: 'Running custom rules...' });
 
-      const result = await ruleEngine.runRules(files, ruleIds);
+      suppressionManager.load(repoPath);
+      const result = await ruleEngine.runRules(files, ruleIds, diffScope);
 
       completedSteps++;
       progressBar.update(completedSteps, { status: `Found ${result.totalViolations} violations` });
@@ -115,6 +136,14 @@ export async function rulesCommand(options: RulesOptions): Promise<void> {
       // Display results
       displayResults(result);
 
+      const suppressed = suppressionManager.getSuppressed();
+      if (suppressed.length > 0) {
+        console.log(chalk.gray(`🔇 ${suppressed.length} violation(s) suppressed\n`));
+      }
+      for (const warning of suppressionManager.getWarnings()) {
+        console.log(chalk.yellow(`⚠ ${warning.location}: ${warning.message}`));
+      }
+
       // Step 4 (optional): Apply autofixes if requested
       if (options.fix && result.violations.some(v => v.autofix?.available)) {
         progressBar.update(completedSteps, { status: 'Applying auto-fixes...' });
@@ -142,23 +171,56 @@ export async function rulesCommand(options: RulesOptions): Promise<void> {
         fs.mkdirSync(dir, { recursive: true });
       }
 
-      fs.writeFileSync(resultsPath, JSON.stringify(result, null, 2));
+      fs.writeFileSync(resultsPath, JSON.stringify({ ...result, suppressed }, null, 2));
+
+      let sarifPath: string | undefined;
+      if (format === 'sarif') {
+        const sarifReporter = new SarifReporter(repoPath);
+        const sarifLog = sarifReporter.fromRuleResult(result, ruleEngine.getRules());
+        sarifPath = sarifReporter.save(sarifLog, reporter.getDefaultReportPath('sarif', 'rules'));
+      }
 
       completedSteps++;
       progressBar.update(completedSteps, { status: 'Complete' });
       progressBar.stop();
 
-      console.log(chalk.gray(`  Results saved: ${resultsPath}\n`));
+      console.log(chalk.gray(`  Results saved: ${resultsPath}`));
+      if (sarifPath) {
+        console.log(chalk.gray(`  SARIF saved: ${sarifPath}`));
+      }
+      console.log();
 
-      // Exit with error if violations found
-      if (result.totalViolations > 0 && (result.severitySummary.critical > 0 || result.severitySummary.high > 0)) {
-        console.log(chalk.red('  ✗ Critical or high severity violations found\n'));
-        handleCommandError(new Error('Critical or high severity violations found'), 'Rules');
+      const gateSummary = evaluateGate('rules', gate, result.violations);
+      displayGateResult(gateSummary);
+      console.log();
+      emitGateSummary(gateSummary);
+      if (gateSummary.exitCode !== 0) {
+        process.exit(gateSummary.exitCode);
       }
     }
 
   } catch (error: any) {
-    handleCommandError(error, 'Rules engine');
+    emitGateSummary(errorSummary('rules', gate, error));
+    handleCommandError(error, 'Rules engine', exitCodeForError(error));
+  }
+}
+
+/**
+ * Load custom rules. --custom-rules overrides the project's `customRules`
+ * directories; otherwise the default rules directory and every project
+ * directory are loaded.
+ */
+function loadRules(customRulesDir?: string, withSpinner: boolean = false): void {
+  const dirs = customRulesDir ? [customRulesDir] : projectConfigManager.getCustomRuleDirs();
+
+  if (!customRulesDir) {
+    ruleEngine.loadCustomRules();
+  }
+
+  for (const dir of dirs) {
+    const spinner = withSpinner ? ora('Loading custom rules...').start() : undefined;
+    ruleEngine.loadCustomRules(dir);
+    spinner?.succeed(`Custom rules loaded from ${dir}`);
   }
 }
 
@@ -299,7 +361,7 @@ function exportRule(ruleId: string, outputPath: string): void {
 
   if (!rule) {
     console.error(chalk.red(`\n✗ Rule not found: ${ruleId}\n`));
-    process.exit(1);
+    process.exit(EXIT_CODES.CONFIG_ERROR);
   }
 
   const spinner = ora(`Exporting rule ${ruleId}...`).start();
@@ -311,35 +373,8 @@ function exportRule(ruleId: string, outputPath: string): void {
   } catch (error: any) {
     spinner.fail('Export failed');
     console.error(chalk.red(`\n✗ Export failed: ${error.message}\n`));
-    process.exit(1);
-  }
-}
-
-/**
- * Get all files in directory (excluding node_modules, etc.)
- */
-function getAllFiles(dir: string, fileList: string[] = []): string[] {
-  const files = fs.readdirSync(dir);
-
-  for (const file of files) {
-    const filePath = path.join(dir, file);
-    const stat = fs.statSync(filePath);
-
-    // Skip excluded directories
-    if (stat.isDirectory()) {
-      if (!['node_modules', '.git', 'dist', 'build', 'coverage', '.next'].includes(file)) {
-        getAllFiles(filePath, fileList);
-      }
-    } else {
-      // Include source files
-      const ext = path.extname(file);
-      if (['.js', '.ts', '.jsx', '.tsx', '.py', '.java', '.go', '.rs', '.rb'].includes(ext)) {
-        fileList.push(filePath);
-      }
-    }
+    process.exit(EXIT_CODES.SCANNER_ERROR);
   }
-
-  return fileList;
 }
 
 /**
@@ -191,6 +191,7 @@ async function runStaticAnalysis(repoInfo: any, locResult: any, filePatterns?: s
   // Import scanners
   const { dependencyScanner } = await import('../core/dependency-scanner');
   const { secretsDetector } = await import('../core/secrets-detector');
+  const { listSecretFiles } = await import('../core/secret-files');
   const { owaspScanner } = await import('../core/owasp-scanner');
   const { dockerfileScanner } = await import('../core/dockerfile-scanner');
   const { iacScanner } = await import('../core/iac-scanner');
@@ -211,8 +212,8 @@ async function runStaticAnalysis(repoInfo: any, locResult: any, filePatterns?: s
           findings.push({
             severity: vuln.severity,
             category: `Dependency Vulnerability (${result.ecosystem})`,
-            file: 'package.json',
-            description: `${vuln.package}@${vuln.version}: ${vuln.title}`,
+            file: vuln.file || 'package.json',
+            description: `${vuln.package}@${vuln.version}: ${vuln.title}${vuln.paths ? ` via ${vuln.paths[0]}` : ''}`,
             suggestion: vuln.recommendation,
           });
           securityCount++;
@@ -222,7 +223,10 @@ async function runStaticAnalysis(repoInfo: any, locResult: any, filePatterns?: s
 
     // Secrets detection
     try {
-      const filePaths = locResult.fileBreakdown.map((f: any) => f.path);
+      // Secret detection picks its own files (.env files, notebooks, archives) unless -f/--files names them
+      const filePaths = filePatterns
+        ? locResult.fileBreakdown.map((f: any) => f.path)
+        : listSecretFiles(repoPath);
       const secretFindings = await secretsDetector.detectInFiles(filePaths);
       for (const secret of secretFindings) {
         findings.push({
@@ -230,22 +234,26 @@ async function runStaticAnalysis(repoInfo: any, locResult: any, filePatterns?: s
           category: `Secret Detection: ${secret.type}`,
           file: secret.file,
           line: secret.line,
-          description: `Potential secret detected (entropy: ${secret.entropy.toFixed(2)})`,
+          ruleId: secret.detector,
+          description: `Potential secret detected${secret.location ? ` in ${secret.location}` : ''} (entropy: ${secret.entropy.toFixed(2)}, fingerprint: ${secret.fingerprint})`,
           suggestion: secret.recommendation,
         });
         securityCount++;
       }
 
-      // Also scan git history
-      const gitSecrets = await secretsDetector.scanGitHistory(repoPath);
+      // Also scan the most recent git history
+      const gitSecrets = secretsDetector.onlyInHistory(await secretsDetector.scanGitHistory(repoPath), secretFindings);
       for (const secret of gitSecrets) {
         findings.push({
           severity: secret.severity,
           category: `Secret in Git History: ${secret.type}`,
           file: secret.file,
           line: secret.line,
-          description: `Secret found in git history (entropy: ${secret.entropy.toFixed(2)})`,
+          ruleId: secret.detector,
+          description: `Secret added in commit ${secret.commit?.slice(0, 8)} by ${secret.author} on ${secret.date?.slice(0, 10)} (entropy: ${secret.entropy.toFixed(2)}, fingerprint: ${secret.fingerprint})`,
           suggestion: secret.recommendation,
+          commit: secret.commit,
+          fingerprint: secret.fingerprint,
         });
         securityCount++;
       }
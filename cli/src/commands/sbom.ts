@@ -1,22 +1,38 @@
 import chalk from 'chalk';
 import ora from 'ora';
 import { licenseScanner } from '../core/license-scanner';
+import { buildCycloneDxBom, validateCycloneDxBom, cycloneDxToXml, CYCLONEDX_SPEC_VERSION } from '../core/cyclonedx';
+import { buildSpdxDocument, spdxToTagValue } from '../core/spdx';
+import { ParsedSbom, SbomComponent, diffSboms, parseSbom, sbomDependencies, sbomLicenseFindings } from '../core/sbom-reader';
+import { dependencyScanner, DependencyVulnerability } from '../core/dependency-scanner';
+import { vulnDatabase } from '../core/vuln-db';
+import { buildCycloneDxVex, buildOpenVexExport, loadVexDocument, VEX_FILE } from '../core/vex';
 import { repositoryManager } from '../core/repository';
+import { projectConfigManager } from '../core/project-config';
 import { createProgressBar } from '../utils/progress';
 import * as fs from 'fs';
 import * as path from 'path';
 import { createDebugLogger } from '../utils/debug-logger';
 import { createPerformanceTracker } from '../utils/performance-tracker';
 import { handleCommandError } from '../utils/error-handler';
+import { CIGate, configError, displayGateResult, emitGateSummary, errorSummary, evaluateGate, exitCodeForError, parseGateOptions } from '../utils/ci-gate';
 
 const logger = createDebugLogger('sbom');
 const perfTracker = createPerformanceTracker('guardscan sbom');
 
 interface SBOMOptions {
   output?: string;
-  format?: 'spdx' | 'cyclonedx';
+  format?: 'spdx' | 'spdx-tag-value' | 'cyclonedx' | 'cyclonedx-xml';
+  vex?: boolean;
 }
 
+interface SBOMGateOptions {
+  failOn?: string;
+  maxFindings?: string;
+}
+
+const MAX_LISTED = 20;
+
 export async function sbomCommand(options: SBOMOptions): Promise<void> {
   logger.debug('SBOM command started', { options });
   perfTracker.start('sbom-total');
@@ -47,20 +63,66 @@ export async function sbomCommand(options: SBOMOptions): Promise<void> {
     // Step 2: Generate SBOM
     progressBar.update(1, { status: 'Generating SBOM...' });
 
-    const sbom = licenseScanner.generateSBOM(
-      licenseReport.findings,
-      options.format || 'spdx',
-      repoInfo.name
-    );
+    const format = options.format || 'spdx';
+    let document: string;
+    let outputPath: string;
+    // VEX companion document, built from the repository's statements (--vex)
+    const vexStatements = options.vex ? loadVexDocument(repoPath) : null;
+    let vex: object | undefined;
+
+    if (format === 'cyclonedx' || format === 'cyclonedx-xml') {
+      const bom = buildCycloneDxBom({ repoPath, projectName: repoInfo.name, findings: licenseReport.findings });
+      const errors = validateCycloneDxBom(bom);
+      if (errors.length > 0) {
+        logger.error('Generated CycloneDX BOM failed schema validation', new Error(errors.join('; ')));
+        throw new Error(`Generated CycloneDX BOM does not match the ${CYCLONEDX_SPEC_VERSION} schema:\n  - ${errors.slice(0, 10).join('\n  - ')}`);
+      }
+      document = format === 'cyclonedx-xml' ? cycloneDxToXml(bom) : JSON.stringify(bom, null, 2);
+      const extension = format === 'cyclonedx-xml' ? 'xml' : 'json';
+      outputPath = options.output || path.join(repoPath, `sbom-cyclonedx.${extension}`);
+      if (vexStatements) {
+        const cycloneDxVex = buildCycloneDxVex(vexStatements, bom);
+        const vexErrors = validateCycloneDxBom(cycloneDxVex);
+        if (vexErrors.length > 0) {
+          throw new Error(`Generated CycloneDX VEX does not match the ${CYCLONEDX_SPEC_VERSION} schema:\n  - ${vexErrors.slice(0, 10).join('\n  - ')}`);
+        }
+        vex = cycloneDxVex;
+      }
 
-    progressBar.update(2, { status: 'SBOM generated' });
+      progressBar.update(2, { status: 'SBOM generated' });
 
-    // Display summary
-    console.log(chalk.white.bold('\n📊 SBOM Summary:\n'));
-    console.log(chalk.gray(`  Total Packages: ${sbom.packages.length}`));
-    console.log(chalk.gray(`  Format: ${sbom.format.toUpperCase()}`));
-    console.log(chalk.gray(`  Version: ${sbom.version}`));
-    console.log(chalk.gray(`  Timestamp: ${sbom.timestamp}`));
+      console.log(chalk.white.bold('\n📊 SBOM Summary:\n'));
+      console.log(chalk.gray(`  Total Components: ${bom.components.length}`));
+      console.log(chalk.gray(`  With Hashes: ${bom.components.filter(component => component.hashes?.length).length}`));
+      console.log(chalk.gray(`  Dependency Relationships: ${bom.dependencies.reduce((sum, dependency) => sum + (dependency.dependsOn?.length || 0), 0)}`));
+      console.log(chalk.gray(`  Format: CycloneDX ${bom.specVersion} (${extension.toUpperCase()})`));
+      console.log(chalk.gray(`  Timestamp: ${bom.metadata.timestamp}`));
+    } else {
+      outputPath = options.output || path.join(repoPath, format === 'spdx-tag-value' ? 'sbom.spdx' : 'sbom-spdx.json');
+      const relativeOutput = path.relative(repoPath, outputPath);
+      const spdx = buildSpdxDocument({
+        repoPath,
+        projectName: repoInfo.name,
+        findings: licenseReport.findings,
+        // The SBOM is not part of what it describes
+        excludedFiles: relativeOutput.startsWith('..') || path.isAbsolute(relativeOutput) ? [] : [relativeOutput],
+      });
+      document = format === 'spdx-tag-value' ? spdxToTagValue(spdx) : JSON.stringify(spdx, null, 2);
+      if (vexStatements) {
+        const purls = spdx.packages.flatMap(pkg => (pkg.externalRefs || []).map(ref => ref.referenceLocator));
+        vex = buildOpenVexExport(vexStatements, purls);
+      }
+
+      progressBar.update(2, { status: 'SBOM generated' });
+
+      // Display summary
+      console.log(chalk.white.bold('\n📊 SBOM Summary:\n'));
+      console.log(chalk.gray(`  Total Packages: ${spdx.packages.length - 1}`));
+      console.log(chalk.gray(`  Relationships: ${spdx.relationships.length}`));
+      console.log(chalk.gray(`  Format: ${spdx.spdxVersion} (${format === 'spdx-tag-value' ? 'tag-value' : 'JSON'})`));
+      console.log(chalk.gray(`  Namespace: ${spdx.documentNamespace}`));
+      console.log(chalk.gray(`  Timestamp: ${spdx.creationInfo.created}`));
+    }
 
     // License breakdown
     console.log(chalk.white.bold('\n📜 License Breakdown:\n'));
@@ -100,17 +162,157 @@ export async function sbomCommand(options: SBOMOptions): Promise<void> {
     // Step 3: Save SBOM
     progressBar.update(2, { status: 'Saving SBOM...' });
 
-    const outputPath = options.output || path.join(repoPath, `sbom-${sbom.format}.json`);
+    fs.writeFileSync(outputPath, document);
 
-    fs.writeFileSync(outputPath, JSON.stringify(sbom, null, 2));
+    // CycloneDX SBOMs get a CycloneDX VEX; SPDX ones get OpenVEX
+    const vexPath = vex ? `${outputPath.replace(/(\.spdx)?\.(json|xml|spdx)$/, '')}.${format.startsWith('cyclonedx') ? 'vex' : 'openvex'}.json` : undefined;
+    if (vex && vexPath) {
+      fs.writeFileSync(vexPath, JSON.stringify(vex, null, 2));
+    }
 
     progressBar.update(3, { status: 'Complete' });
     progressBar.stop();
 
     console.log(chalk.green(`\n✓ SBOM saved: ${outputPath}`));
+    if (vexPath) {
+      console.log(chalk.green(`✓ VEX saved: ${vexPath}`));
+    } else if (options.vex) {
+      console.log(chalk.yellow(`⚠ No VEX written: ${VEX_FILE} has no statements. Add them with \`guardscan vex add\`.`));
+    }
     console.log();
 
   } catch (error) {
     handleCommandError(error, 'SBOM generation');
   }
 }
+
+/**
+ * Compare two SBOMs: added, removed and re-versioned packages, license changes and new vulnerabilities
+ */
+export async function sbomDiffCommand(oldFile: string, newFile: string, options: SBOMGateOptions = {}): Promise<void> {
+  logger.debug('SBOM diff started', { oldFile, newFile });
+  console.log(chalk.cyan.bold('\n📋 SBOM Diff\n'));
+
+  let gate: CIGate | undefined;
+  try {
+    gate = parseGateOptions(options);
+    const before = readSbom(oldFile);
+    const after = readSbom(newFile);
+    console.log(chalk.gray(`Old: ${oldFile} (${before.format}, ${before.components.length} components)`));
+    console.log(chalk.gray(`New: ${newFile} (${after.format}, ${after.components.length} components)\n`));
+    warnWithoutAdvisories();
+
+    const diff = diffSboms(before, after);
+
+    listSection(chalk.green, `Added (${diff.added.length})`, diff.added.map(item => `+ ${describe(item)}`));
+    listSection(chalk.red, `Removed (${diff.removed.length})`, diff.removed.map(item => `- ${describe(item)}`));
+    listSection(chalk.cyan, `Upgraded (${diff.upgraded.length})`, diff.upgraded.map(change => `↑ ${change.component.name} ${change.from} → ${change.to}`));
+    listSection(chalk.yellow, `Downgraded (${diff.downgraded.length})`, diff.downgraded.map(change => `↓ ${change.component.name} ${change.from} → ${change.to}`));
+    listSection(chalk.yellow, `License Changes (${diff.licenseChanges.length})`, diff.licenseChanges.map(change =>
+      `${describe(change.component)}: ${change.from || 'none'} → ${change.to || 'none'}`));
+    listSection(chalk.red, `Newly Vulnerable (${diff.newVulnerabilities.length})`, diff.newVulnerabilities.map(formatVulnerability));
+    listSection(chalk.green, `Vulnerabilities Resolved (${diff.resolvedVulnerabilities.length})`, diff.resolvedVulnerabilities.map(formatVulnerability));
+
+    if (Object.values(diff).every(list => list.length === 0)) {
+      console.log(chalk.green('✓ No differences between the SBOMs\n'));
+    }
+
+    // Only vulnerabilities the new SBOM introduces count toward the CI gate
+    const gateSummary = evaluateGate('sbom-diff', gate, diff.newVulnerabilities);
+    displayGateResult(gateSummary);
+    console.log();
+    emitGateSummary(gateSummary);
+    if (gateSummary.exitCode !== 0) {
+      process.exit(gateSummary.exitCode);
+    }
+  } catch (error) {
+    emitGateSummary(errorSummary('sbom-diff', gate, error));
+    handleCommandError(error, 'SBOM diff', exitCodeForError(error));
+  }
+}
+
+/**
+ * Run vulnerability and license policy checks against an SBOM, without the source tree
+ */
+export async function sbomScanCommand(file: string, options: SBOMGateOptions = {}): Promise<void> {
+  logger.debug('SBOM scan started', { file });
+  console.log(chalk.cyan.bold('\n📋 SBOM Scan\n'));
+
+  let gate: CIGate | undefined;
+  try {
+    gate = parseGateOptions(options);
+    const licensePolicy = projectConfigManager.load(process.cwd()).licensePolicy;
+    const sbom = readSbom(file);
+    const identified = sbomDependencies(sbom);
+    console.log(chalk.gray(`SBOM: ${file} (${sbom.format}${sbom.name ? `, ${sbom.name}` : ''})`));
+    console.log(chalk.gray(`Components: ${sbom.components.length} (${identified.length} with a recognized purl)\n`));
+    if (identified.length < sbom.components.length) {
+      console.log(chalk.yellow(`⚠ ${sbom.components.length - identified.length} component(s) have no purl for a supported ecosystem and are not checked\n`));
+    }
+    warnWithoutAdvisories();
+
+    const vulnerabilities = dependencyScanner.matchDependencies(identified);
+    const licenseReport = licenseScanner.evaluate(sbomLicenseFindings(sbom), licensePolicy?.projectType || 'proprietary');
+    const licenseRisks = licenseReport.findings.filter(finding => finding.risk !== 'low' && finding.risk !== 'info');
+
+    listSection(chalk.red, `Vulnerabilities (${vulnerabilities.length})`, vulnerabilities.map(formatVulnerability));
+    listSection(chalk.yellow, `License Risks (${licenseRisks.length})`, licenseRisks.map(finding =>
+      `${finding.risk.toUpperCase()} ${finding.package}@${finding.version}: ${finding.license}${finding.policy?.reason ? ` (${finding.policy.reason})` : ''}`));
+    listSection(chalk.yellow, `License Compatibility Issues (${licenseReport.compatibilityIssues.length})`, licenseReport.compatibilityIssues.map(issue =>
+      `${issue.severity.toUpperCase()} ${issue.package1} (${issue.license1}) ↔ ${issue.package2} (${issue.license2}): ${issue.conflict}`));
+
+    console.log(chalk.white.bold('📜 License Breakdown:\n'));
+    console.log(chalk.green(`  ✓ Permissive: ${licenseReport.categorySummary.permissive}`));
+    console.log(chalk.yellow(`  ⚠ Weak Copyleft: ${licenseReport.categorySummary['weak-copyleft']}`));
+    console.log(chalk.red(`  ⚠ Strong Copyleft: ${licenseReport.categorySummary['strong-copyleft']}`));
+    console.log(chalk.gray(`  ℹ Unknown: ${licenseReport.categorySummary.unknown}`));
+
+    const gateSummary = evaluateGate('sbom-scan', gate, [
+      ...vulnerabilities,
+      ...licenseRisks.map(finding => ({ severity: finding.risk })),
+      ...licenseReport.compatibilityIssues,
+    ]);
+    displayGateResult(gateSummary);
+    console.log();
+    emitGateSummary(gateSummary);
+    if (gateSummary.exitCode !== 0) {
+      process.exit(gateSummary.exitCode);
+    }
+  } catch (error) {
+    emitGateSummary(errorSummary('sbom-scan', gate, error));
+    handleCommandError(error, 'SBOM scan', exitCodeForError(error));
+  }
+}
+
+function readSbom(file: string): ParsedSbom {
+  if (!fs.existsSync(file)) {
+    throw configError(`SBOM not found: ${file}`);
+  }
+  return parseSbom(fs.readFileSync(file, 'utf-8'), file);
+}
+
+function warnWithoutAdvisories(): void {
+  if (!vulnDatabase.isAvailable()) {
+    console.log(chalk.yellow('⚠ No offline vulnerability database; run `guardscan vulndb import` to check for vulnerabilities\n'));
+  }
+}
+
+function listSection(color: chalk.Chalk, title: string, lines: string[]): void {
+  if (lines.length === 0) return;
+  console.log(chalk.white.bold(`${title}:\n`));
+  for (const line of lines.slice(0, MAX_LISTED)) {
+    console.log(color(`  ${line}`));
+  }
+  if (lines.length > MAX_LISTED) {
+    console.log(chalk.gray(`  ... and ${lines.length - MAX_LISTED} more`));
+  }
+  console.log();
+}
+
+function describe(item: SbomComponent): string {
+  return `${item.name}@${item.version}${item.ecosystem ? chalk.gray(` (${item.ecosystem})`) : ''}`;
+}
+
+function formatVulnerability(vuln: DependencyVulnerability): string {
+  return `${vuln.severity.toUpperCase()} ${vuln.package}@${vuln.version}: ${vuln.id || vuln.cve || ''} ${vuln.title} (${vuln.recommendation})`;
+}
@@ -6,24 +6,35 @@ import * as path from 'path';
 import { repositoryManager } from '../core/repository';
 import { secretsDetector } from '../core/secrets-detector';
 import { dependencyScanner } from '../core/dependency-scanner';
+import { dependencyReachability, filterReachable } from '../core/dependency-reachability';
 import { dockerfileScanner } from '../core/dockerfile-scanner';
 import { iacScanner } from '../core/iac-scanner';
 import { owaspScanner } from '../core/owasp-scanner';
 import { apiScanner } from '../core/api-scanner';
 import { complianceChecker } from '../core/compliance-checker';
 import { licenseScanner } from '../core/license-scanner';
+import { supplyChainScanner } from '../core/supply-chain-scanner';
 import { testRunner } from '../core/test-runner';
 import { codeMetricsAnalyzer } from '../core/code-metrics';
 import { codeSmellDetector } from '../core/code-smells';
 import { linterIntegration } from '../core/linter-integration';
-import { locCounter } from '../core/loc-counter';
-import { reporter, ReviewResult } from '../utils/reporter';
+import { reporter, parseReportFormat, ReviewResult } from '../utils/reporter';
 import { telemetryManager } from '../core/telemetry';
 import { ConfigManager } from '../core/config';
 import { createProgressBar } from '../utils/progress';
 import { createDebugLogger } from '../utils/debug-logger';
 import { createPerformanceTracker } from '../utils/performance-tracker';
 import { handleCommandError } from '../utils/error-handler';
+import { parseGateOptions, evaluateGate, emitGateSummary, errorSummary, exitCodeForError, displayGateResult, CIGate } from '../utils/ci-gate';
+import { FindingBaseline, FindingBaselineFile } from '../core/finding-baseline';
+import { suppressionManager } from '../core/suppressions';
+import { projectConfigManager, ScannerId } from '../core/project-config';
+import { fileWalker } from '../core/file-walker';
+import { listSecretFiles } from '../core/secret-files';
+import { scanCache, describeCacheStats } from '../core/scan-cache';
+
+const SECURITY_SCANNERS: ScannerId[] = ['secrets', 'dependencies', 'dockerfile', 'iac', 'owasp', 'api', 'compliance', 'supplyChain'];
+const QUALITY_SCANNERS: ScannerId[] = ['tests', 'metrics', 'smells', 'linting'];
 
 const logger = createDebugLogger('scan');
 const perfTracker = createPerformanceTracker('guardscan scan');
@@ -36,6 +47,13 @@ interface ScanOptions {
   coverage?: boolean;
   licenses?: boolean;
   noCloud?: boolean;
+  format?: string;
+  baseline?: string;
+  baselineSave?: string;
+  failOn?: string;
+  maxFindings?: string;
+  cache?: boolean;
+  reachableOnly?: boolean;
 }
 
 interface ScanResults {
@@ -68,11 +86,36 @@ export async function scanCommand(options: ScanOptions): Promise<void> {
     duration: 0,
   };
 
+  let gate: CIGate | undefined;
   try {
+    const format = parseReportFormat(options.format);
+    gate = parseGateOptions(options);
+
+    // Load .guardscan.yml project settings
+    projectConfigManager.load(repoInfo.path);
+    // Start each run with a fresh file listing and content cache
+    fileWalker.reset();
+
+    // Reuse per-file results from previous runs unless --no-cache
+    scanCache.load(repoInfo.repoId, options.cache !== false);
+
+    // Load .guardscanignore and reset suppression tracking for this run
+    suppressionManager.load(repoInfo.path);
+
+    // Load baseline up front so a bad path fails before scanning
+    const findingBaseline = new FindingBaseline(repoInfo.path);
+    let baseline: FindingBaselineFile | undefined;
+    if (options.baseline) {
+      baseline = findingBaseline.load(options.baseline);
+      logger.debug('Baseline loaded', { path: options.baseline, entries: baseline.entries.length });
+    }
+
     // Calculate total tasks for progress tracking
-    const securityTasks = options.licenses ? 8 : 7;
-    const qualityTasks = options.skipTests ? 0 : 4;
-    const totalTasks = securityTasks + qualityTasks + 1; // +1 for SBOM
+    const enabledCount = (ids: ScannerId[]) => ids.filter(id => projectConfigManager.isScannerEnabled(id)).length;
+    const sbomEnabled = projectConfigManager.isScannerEnabled('sbom');
+    const securityTasks = enabledCount(SECURITY_SCANNERS) + (shouldScanLicenses(options) ? 1 : 0);
+    const qualityTasks = options.skipTests ? 0 : enabledCount(QUALITY_SCANNERS);
+    const totalTasks = securityTasks + qualityTasks + (sbomEnabled ? 1 : 0);
 
     let completed = 0;
     const overallProgress = createProgressBar(totalTasks, 'Overall Progress');
@@ -99,21 +142,26 @@ export async function scanCommand(options: ScanOptions): Promise<void> {
     }
 
     // 3. SBOM Generation
-    const sbomPromise = runSBOMGeneration(process.cwd()).then(result => {
-      completed++;
-      overallProgress.update(completed, { status: `${completed}/${totalTasks} checks complete` });
-      return result;
-    });
-    scanPromises.push(sbomPromise);
+    if (sbomEnabled) {
+      const sbomPromise = runSBOMGeneration(process.cwd()).then(result => {
+        completed++;
+        overallProgress.update(completed, { status: `${completed}/${totalTasks} checks complete` });
+        return result;
+      });
+      scanPromises.push(sbomPromise);
+    }
 
     // Wait for all scans to complete
     const allResults = await Promise.allSettled(scanPromises);
     perfTracker.end('security-scans'); // Complete security-scans timing after all scans finish
     overallProgress.stop();
     logger.debug('All scans completed', { totalResults: allResults.length });
+    logger.debug('File cache', fileWalker.getStats());
+    scanCache.save();
 
     // Process results
     processResults(allResults, results);
+    const scannerErrors = collectScannerErrors(allResults);
 
     // 4. Optional: AI Code Review
     if (!options.skipAi) {
@@ -130,13 +178,39 @@ export async function scanCommand(options: ScanOptions): Promise<void> {
     console.log(chalk.gray('\nGenerating comprehensive report...'));
     perfTracker.start('report-generation');
     const report = generateComprehensiveReport(results, repoInfo);
-    const reportPath = reporter.saveReport(report, 'markdown', undefined, 'comprehensive');
+    report.suppressed = suppressionManager.getSuppressed();
+    report.suppressionWarnings = suppressionManager.getWarnings();
+    if (baseline && options.baseline) {
+      report.baseline = findingBaseline.compare(report.findings, baseline, options.baseline);
+    }
+    const reportPath = reporter.saveReport(report, format, undefined, 'comprehensive');
     perfTracker.end('report-generation');
     logger.debug('Report generated', { reportPath });
     console.log(chalk.green(`✓ Report saved: ${reportPath}`));
 
+    if (options.baselineSave) {
+      findingBaseline.save(report.findings, options.baselineSave);
+      console.log(chalk.green(`✓ Baseline saved: ${options.baselineSave} (${report.findings.length} findings)`));
+    }
+
     // Display summary
     displaySummary(results);
+    if (report.baseline) {
+      console.log(chalk.cyan('\nBaseline:'));
+      console.log(chalk.gray(`  New: ${report.baseline.newFindings.length}, unchanged: ${report.baseline.unchangedFindings.length}, fixed: ${report.baseline.fixedEntries.length}`));
+    }
+    if (report.suppressed.length > 0) {
+      console.log(chalk.gray(`\nSuppressed: ${report.suppressed.length} finding(s)`));
+    }
+    for (const warning of report.suppressionWarnings) {
+      console.log(chalk.yellow(`  ⚠ ${warning.location}: ${warning.message}`));
+    }
+
+    const gateSummary = evaluateGate('scan', gate, report.findings, {
+      scannerErrors,
+      newFindings: report.baseline?.newFindings,
+    });
+    displayGateResult(gateSummary);
 
     // Record telemetry
     perfTracker.start('record-telemetry');
@@ -153,14 +227,26 @@ export async function scanCommand(options: ScanOptions): Promise<void> {
     perfTracker.displaySummary();
 
     console.log(chalk.cyan('\n✨ Scan complete!\n'));
+    emitGateSummary(gateSummary);
+    if (gateSummary.exitCode !== 0) {
+      process.exit(gateSummary.exitCode);
+    }
 
   } catch (error: any) {
     perfTracker.end('scan-total');
     perfTracker.displaySummary();
-    handleCommandError(error, 'Scan');
+    emitGateSummary(errorSummary('scan', gate, error));
+    handleCommandError(error, 'Scan', exitCodeForError(error));
   }
 }
 
+/**
+ * License scanning is opt-in: --licenses or `scanners.licenses: true` in .guardscan.yml
+ */
+function shouldScanLicenses(options: ScanOptions): boolean {
+  return !!options.licenses || projectConfigManager.get().scanners?.licenses === true;
+}
+
 /**
  * Run all security scans in parallel
  */
@@ -171,159 +257,186 @@ function runSecurityScans(
 ): Promise<any>[] {
   const promises: Promise<any>[] = [];
 
-  // Get file list for scanners that need it
+  // Secret detection picks its own files (.env files, notebooks, archives)
   const getFilePaths = async (): Promise<string[]> => {
     try {
-      const locResult = await locCounter.count();
-      return locResult.fileBreakdown.map((f: any) => f.path);
+      return listSecretFiles(repoPath).filter(filePath => projectConfigManager.isPathIncluded(filePath));
     } catch {
       return [];
     }
   };
 
   // 1. Secrets detection
-  const secretsSpinner = ora('Scanning for secrets...').start();
-  promises.push(
-    (async () => {
-      perfTracker.start('scanner-secrets');
-      try {
-        const filePaths = await getFilePaths();
-        const results = await secretsDetector.detectInFiles(filePaths);
-        const gitResults = await secretsDetector.scanGitHistory(repoPath);
-        const allResults = [...results, ...gitResults];
-        const duration = perfTracker.end('scanner-secrets');
-        logger.performance('scanner-secrets', duration, { findings: allResults.length });
-        secretsSpinner.succeed(`Secrets scan complete (${allResults.length} findings)`);
-        if (onProgress) onProgress();
-        return { type: 'secrets', results: allResults };
-      } catch (error: any) {
-        perfTracker.end('scanner-secrets');
-        logger.error('Secrets scan failed', error);
-        secretsSpinner.fail('Secrets scan failed');
-        if (onProgress) onProgress();
-        return { type: 'secrets', results: [], error };
-      }
-    })()
-  );
+  if (projectConfigManager.isScannerEnabled('secrets')) {
+    const secretsSpinner = ora('Scanning for secrets...').start();
+    promises.push(
+      (async () => {
+        perfTracker.start('scanner-secrets');
+        try {
+          const filePaths = await getFilePaths();
+          const results = await secretsDetector.detectInFiles(filePaths);
+          const gitResults = secretsDetector.onlyInHistory(
+            projectConfigManager.filterByPath(await secretsDetector.scanGitHistory(repoPath)),
+            results
+          );
+          const allResults = [...results, ...gitResults];
+          const duration = perfTracker.end('scanner-secrets');
+          logger.performance('scanner-secrets', duration, { findings: allResults.length });
+          secretsSpinner.succeed(`Secrets scan complete (${allResults.length} findings)`);
+          if (onProgress) onProgress();
+          return { type: 'secrets', results: allResults };
+        } catch (error: any) {
+          perfTracker.end('scanner-secrets');
+          logger.error('Secrets scan failed', error);
+          secretsSpinner.fail('Secrets scan failed');
+          if (onProgress) onProgress();
+          return { type: 'secrets', results: [], error };
+        }
+      })()
+    );
+  }
 
   // 2. Dependency vulnerabilities
-  const depsSpinner = ora('Scanning dependencies...').start();
-  promises.push(
-    (async () => {
-      perfTracker.start('scanner-dependencies');
-      try {
-        const results = await dependencyScanner.scan(repoPath);
-        const duration = perfTracker.end('scanner-dependencies');
-        logger.performance('scanner-dependencies', duration, { findings: results.length });
-        depsSpinner.succeed(`Dependency scan complete (${results.length} findings)`);
-        if (onProgress) onProgress();
-        return { type: 'dependencies', results };
-      } catch (error: any) {
-        perfTracker.end('scanner-dependencies');
-        logger.error('Dependency scan failed', error);
-        depsSpinner.fail('Dependency scan failed');
-        if (onProgress) onProgress();
-        return { type: 'dependencies', results: [], error };
-      }
-    })()
-  );
+  if (projectConfigManager.isScannerEnabled('dependencies')) {
+    const depsSpinner = ora('Scanning dependencies...').start();
+    promises.push(
+      (async () => {
+        perfTracker.start('scanner-dependencies');
+        try {
+          let depResults = await dependencyScanner.scan(repoPath);
+          await dependencyReachability.analyze(repoPath, repositoryManager.getRepoInfo().repoId, depResults);
+          if (options.reachableOnly) {
+            depResults = filterReachable(depResults);
+          }
+          // One finding per vulnerable package rather than per ecosystem
+          const results = depResults.flatMap(result =>
+            result.vulnerabilities.map(vuln => ({
+              ...vuln,
+              file: vuln.file || 'package.json',
+              ruleId: vuln.id,
+              description: `${vuln.package}@${vuln.version}: ${vuln.title}${vuln.paths ? ` via ${vuln.paths[0]}` : ''}`,
+            }))
+          );
+          const duration = perfTracker.end('scanner-dependencies');
+          logger.performance('scanner-dependencies', duration, { findings: results.length });
+          depsSpinner.succeed(`Dependency scan complete (${results.length} findings)`);
+          if (onProgress) onProgress();
+          return { type: 'dependencies', results };
+        } catch (error: any) {
+          perfTracker.end('scanner-dependencies');
+          logger.error('Dependency scan failed', error);
+          depsSpinner.fail('Dependency scan failed');
+          if (onProgress) onProgress();
+          return { type: 'dependencies', results: [], error };
+        }
+      })()
+    );
+  }
 
   // 3. Dockerfile security
-  const dockerSpinner = ora('Scanning Dockerfiles...').start();
-  promises.push(
-    (async () => {
-      perfTracker.start('scanner-dockerfile');
-      try {
-        const results = await dockerfileScanner.scan(repoPath);
-        const duration = perfTracker.end('scanner-dockerfile');
-        logger.performance('scanner-dockerfile', duration, { findings: results.length });
-        dockerSpinner.succeed(`Dockerfile scan complete (${results.length} findings)`);
-        if (onProgress) onProgress();
-        return { type: 'dockerfile', results };
-      } catch (error: any) {
-        perfTracker.end('scanner-dockerfile');
-        logger.error('Dockerfile scan failed', error);
-        dockerSpinner.fail('Dockerfile scan failed');
-        if (onProgress) onProgress();
-        return { type: 'dockerfile', results: [], error };
-      }
-    })()
-  );
+  if (projectConfigManager.isScannerEnabled('dockerfile')) {
+    const dockerSpinner = ora('Scanning Dockerfiles...').start();
+    promises.push(
+      (async () => {
+        perfTracker.start('scanner-dockerfile');
+        try {
+          const results = await dockerfileScanner.scan(repoPath);
+          const duration = perfTracker.end('scanner-dockerfile');
+          logger.performance('scanner-dockerfile', duration, { findings: results.length });
+          dockerSpinner.succeed(`Dockerfile scan complete (${results.length} findings)`);
+          if (onProgress) onProgress();
+          return { type: 'dockerfile', results };
+        } catch (error: any) {
+          perfTracker.end('scanner-dockerfile');
+          logger.error('Dockerfile scan failed', error);
+          dockerSpinner.fail('Dockerfile scan failed');
+          if (onProgress) onProgress();
+          return { type: 'dockerfile', results: [], error };
+        }
+      })()
+    );
+  }
 
   // 4. Infrastructure as Code
-  const iacSpinner = ora('Scanning IaC files...').start();
-  promises.push(
-    (async () => {
-      perfTracker.start('scanner-iac');
-      try {
-        const results = await iacScanner.scan(repoPath);
-        const duration = perfTracker.end('scanner-iac');
-        logger.performance('scanner-iac', duration, { findings: results.length });
-        iacSpinner.succeed(`IaC scan complete (${results.length} findings)`);
-        if (onProgress) onProgress();
-        return { type: 'iac', results };
-      } catch (error: any) {
-        perfTracker.end('scanner-iac');
-        logger.error('IaC scan failed', error);
-        iacSpinner.fail('IaC scan failed');
-        if (onProgress) onProgress();
-        return { type: 'iac', results: [], error };
-      }
-    })()
-  );
+  if (projectConfigManager.isScannerEnabled('iac')) {
+    const iacSpinner = ora('Scanning IaC files...').start();
+    promises.push(
+      (async () => {
+        perfTracker.start('scanner-iac');
+        try {
+          const results = await iacScanner.scan(repoPath);
+          const duration = perfTracker.end('scanner-iac');
+          logger.performance('scanner-iac', duration, { findings: results.length });
+          iacSpinner.succeed(`IaC scan complete (${results.length} findings)`);
+          if (onProgress) onProgress();
+          return { type: 'iac', results };
+        } catch (error: any) {
+          perfTracker.end('scanner-iac');
+          logger.error('IaC scan failed', error);
+          iacSpinner.fail('IaC scan failed');
+          if (onProgress) onProgress();
+          return { type: 'iac', results: [], error };
+        }
+      })()
+    );
+  }
 
   // 5. OWASP Top 10
-  const owaspSpinner = ora('Checking OWASP Top 10...').start();
-  promises.push(
-    (async () => {
-      perfTracker.start('scanner-owasp');
-      try {
-        const results = await owaspScanner.scan(repoPath);
-        const duration = perfTracker.end('scanner-owasp');
-        logger.performance('scanner-owasp', duration, { findings: results.length });
-        owaspSpinner.succeed(`OWASP scan complete (${results.length} findings)`);
-        if (onProgress) onProgress();
-        return { type: 'owasp', results };
-      } catch (error: any) {
-        perfTracker.end('scanner-owasp');
-        logger.error('OWASP scan failed', error);
-        owaspSpinner.fail('OWASP scan failed');
-        if (onProgress) onProgress();
-        return { type: 'owasp', results: [], error };
-      }
-    })()
-  );
+  if (projectConfigManager.isScannerEnabled('owasp')) {
+    const owaspSpinner = ora('Checking OWASP Top 10...').start();
+    promises.push(
+      (async () => {
+        perfTracker.start('scanner-owasp');
+        try {
+          const results = await owaspScanner.scan(repoPath);
+          const duration = perfTracker.end('scanner-owasp');
+          logger.performance('scanner-owasp', duration, { findings: results.length });
+          owaspSpinner.succeed(`OWASP scan complete (${results.length} findings)`);
+          if (onProgress) onProgress();
+          return { type: 'owasp', results };
+        } catch (error: any) {
+          perfTracker.end('scanner-owasp');
+          logger.error('OWASP scan failed', error);
+          owaspSpinner.fail('OWASP scan failed');
+          if (onProgress) onProgress();
+          return { type: 'owasp', results: [], error };
+        }
+      })()
+    );
+  }
 
   // 6. API Security
-  const apiSpinner = ora('Scanning API endpoints...').start();
-  promises.push(
-    (async () => {
-      perfTracker.start('scanner-api');
-      try {
-        const results = await apiScanner.scan(repoPath);
-        const duration = perfTracker.end('scanner-api');
-        logger.performance('scanner-api', duration, { findings: results.length });
-        apiSpinner.succeed(`API scan complete (${results.length} findings)`);
-        if (onProgress) onProgress();
-        return { type: 'api', results };
-      } catch (error: any) {
-        perfTracker.end('scanner-api');
-        logger.error('API scan failed', error);
-        apiSpinner.fail('API scan failed');
-        if (onProgress) onProgress();
-        return { type: 'api', results: [], error };
-      }
-    })()
-  );
+  if (projectConfigManager.isScannerEnabled('api')) {
+    const apiSpinner = ora('Scanning API endpoints...').start();
+    promises.push(
+      (async () => {
+        perfTracker.start('scanner-api');
+        try {
+          const results = await apiScanner.scan(repoPath);
+          const duration = perfTracker.end('scanner-api');
+          logger.performance('scanner-api', duration, { findings: results.length });
+          apiSpinner.succeed(`API scan complete (${results.length} findings)`);
+          if (onProgress) onProgress();
+          return { type: 'api', results };
+        } catch (error: any) {
+          perfTracker.end('scanner-api');
+          logger.error('API scan failed', error);
+          apiSpinner.fail('API scan failed');
+          if (onProgress) onProgress();
+          return { type: 'api', results: [], error };
+        }
+      })()
+    );
+  }
 
   // 7. License scanning (if requested)
-  if (options.licenses) {
+  if (shouldScanLicenses(options)) {
     const licenseSpinner = ora('Scanning licenses...').start();
     promises.push(
       (async () => {
         perfTracker.start('scanner-licenses');
         try {
-          const results = await licenseScanner.scan(repoPath, 'proprietary');
+          const results = await licenseScanner.scan(repoPath, projectConfigManager.get().licensePolicy?.projectType || 'proprietary');
           const duration = perfTracker.end('scanner-licenses');
           logger.performance('scanner-licenses', duration, { packages: results.totalDependencies });
           licenseSpinner.succeed(`License scan complete (${results.totalDependencies} packages)`);
@@ -341,26 +454,52 @@ function runSecurityScans(
   }
 
   // 8. Compliance checking
-  const complianceSpinner = ora('Checking compliance...').start();
-  promises.push(
-    (async () => {
-      perfTracker.start('scanner-compliance');
-      try {
-        const results = await complianceChecker.check(repoPath);
-        const duration = perfTracker.end('scanner-compliance');
-        logger.performance('scanner-compliance', duration, { reports: results.length });
-        complianceSpinner.succeed(`Compliance check complete`);
-        if (onProgress) onProgress();
-        return { type: 'compliance', results };
-      } catch (error: any) {
-        perfTracker.end('scanner-compliance');
-        logger.error('Compliance check failed', error);
-        complianceSpinner.fail('Compliance check failed');
-        if (onProgress) onProgress();
-        return { type: 'compliance', results: [], error };
-      }
-    })()
-  );
+  if (projectConfigManager.isScannerEnabled('compliance')) {
+    const complianceSpinner = ora('Checking compliance...').start();
+    promises.push(
+      (async () => {
+        perfTracker.start('scanner-compliance');
+        try {
+          const results = await complianceChecker.check(repoPath, projectConfigManager.get().compliance?.frameworks);
+          const duration = perfTracker.end('scanner-compliance');
+          logger.performance('scanner-compliance', duration, { reports: results.length });
+          complianceSpinner.succeed(`Compliance check complete`);
+          if (onProgress) onProgress();
+          return { type: 'compliance', results };
+        } catch (error: any) {
+          perfTracker.end('scanner-compliance');
+          logger.error('Compliance check failed', error);
+          complianceSpinner.fail('Compliance check failed');
+          if (onProgress) onProgress();
+          return { type: 'compliance', results: [], error };
+        }
+      })()
+    );
+  }
+
+  // 9. Supply chain checks
+  if (projectConfigManager.isScannerEnabled('supplyChain')) {
+    const supplyChainSpinner = ora('Checking supply chain...').start();
+    promises.push(
+      (async () => {
+        perfTracker.start('scanner-supply-chain');
+        try {
+          const results = await supplyChainScanner.scan(repoPath);
+          const duration = perfTracker.end('scanner-supply-chain');
+          logger.performance('scanner-supply-chain', duration, { findings: results.length });
+          supplyChainSpinner.succeed(`Supply chain check complete (${results.length} findings)`);
+          if (onProgress) onProgress();
+          return { type: 'supplyChain', results };
+        } catch (error: any) {
+          perfTracker.end('scanner-supply-chain');
+          logger.error('Supply chain check failed', error);
+          supplyChainSpinner.fail('Supply chain check failed');
+          if (onProgress) onProgress();
+          return { type: 'supplyChain', results: [], error };
+        }
+      })()
+    );
+  }
 
   return promises;
 }
@@ -376,100 +515,108 @@ function runQualityAnalysis(
   const promises: Promise<any>[] = [];
 
   // 1. Test execution
-  const testSpinner = ora('Running tests...').start();
-  promises.push(
-    (async () => {
-      perfTracker.start('scanner-tests');
-      try {
-        const results = await testRunner.runTests(repoPath, options.coverage || false);
-        const duration = perfTracker.end('scanner-tests');
-        logger.performance('scanner-tests', duration, { frameworks: results.length });
-        if (results.length > 0) {
-          testSpinner.succeed(`Tests complete (${results.length} framework(s))`);
-        } else {
-          testSpinner.info('No test frameworks detected');
+  if (projectConfigManager.isScannerEnabled('tests')) {
+    const testSpinner = ora('Running tests...').start();
+    promises.push(
+      (async () => {
+        perfTracker.start('scanner-tests');
+        try {
+          const results = await testRunner.runTests(repoPath, options.coverage || false);
+          const duration = perfTracker.end('scanner-tests');
+          logger.performance('scanner-tests', duration, { frameworks: results.length });
+          if (results.length > 0) {
+            testSpinner.succeed(`Tests complete (${results.length} framework(s))`);
+          } else {
+            testSpinner.info('No test frameworks detected');
+          }
+          if (onProgress) onProgress();
+          return { type: 'tests', results };
+        } catch (error: any) {
+          perfTracker.end('scanner-tests');
+          logger.error('Test execution failed', error);
+          testSpinner.fail('Test execution failed');
+          if (onProgress) onProgress();
+          return { type: 'tests', results: [], error };
         }
-        if (onProgress) onProgress();
-        return { type: 'tests', results };
-      } catch (error: any) {
-        perfTracker.end('scanner-tests');
-        logger.error('Test execution failed', error);
-        testSpinner.fail('Test execution failed');
-        if (onProgress) onProgress();
-        return { type: 'tests', results: [], error };
-      }
-    })()
-  );
+      })()
+    );
+  }
 
   // 2. Code metrics
-  const metricsSpinner = ora('Analyzing code metrics...').start();
-  promises.push(
-    (async () => {
-      perfTracker.start('scanner-metrics');
-      try {
-        const results = await codeMetricsAnalyzer.analyze(repoPath);
-        const duration = perfTracker.end('scanner-metrics');
-        logger.performance('scanner-metrics', duration, { files: results.length });
-        metricsSpinner.succeed(`Metrics analyzed (${results.length} files)`);
-        if (onProgress) onProgress();
-        return { type: 'metrics', results };
-      } catch (error: any) {
-        perfTracker.end('scanner-metrics');
-        logger.error('Metrics analysis failed', error);
-        metricsSpinner.fail('Metrics analysis failed');
-        if (onProgress) onProgress();
-        return { type: 'metrics', results: [], error };
-      }
-    })()
-  );
+  if (projectConfigManager.isScannerEnabled('metrics')) {
+    const metricsSpinner = ora('Analyzing code metrics...').start();
+    promises.push(
+      (async () => {
+        perfTracker.start('scanner-metrics');
+        try {
+          const results = await codeMetricsAnalyzer.analyze(repoPath);
+          const duration = perfTracker.end('scanner-metrics');
+          logger.performance('scanner-metrics', duration, { files: results.length });
+          metricsSpinner.succeed(`Metrics analyzed (${results.length} files)`);
+          if (onProgress) onProgress();
+          return { type: 'metrics', results };
+        } catch (error: any) {
+          perfTracker.end('scanner-metrics');
+          logger.error('Metrics analysis failed', error);
+          metricsSpinner.fail('Metrics analysis failed');
+          if (onProgress) onProgress();
+          return { type: 'metrics', results: [], error };
+        }
+      })()
+    );
+  }
 
   // 3. Code smells
-  const smellSpinner = ora('Detecting code smells...').start();
-  promises.push(
-    (async () => {
-      perfTracker.start('scanner-smells');
-      try {
-        const results = await codeSmellDetector.detect(repoPath);
-        const duration = perfTracker.end('scanner-smells');
-        logger.performance('scanner-smells', duration, { issues: results.length });
-        smellSpinner.succeed(`Code smells detected (${results.length} issues)`);
-        if (onProgress) onProgress();
-        return { type: 'smells', results };
-      } catch (error: any) {
-        perfTracker.end('scanner-smells');
-        logger.error('Code smell detection failed', error);
-        smellSpinner.fail('Code smell detection failed');
-        if (onProgress) onProgress();
-        return { type: 'smells', results: [], error };
-      }
-    })()
-  );
+  if (projectConfigManager.isScannerEnabled('smells')) {
+    const smellSpinner = ora('Detecting code smells...').start();
+    promises.push(
+      (async () => {
+        perfTracker.start('scanner-smells');
+        try {
+          const results = await codeSmellDetector.detect(repoPath);
+          const duration = perfTracker.end('scanner-smells');
+          logger.performance('scanner-smells', duration, { issues: results.length });
+          smellSpinner.succeed(`Code smells detected (${results.length} issues)`);
+          if (onProgress) onProgress();
+          return { type: 'smells', results };
+        } catch (error: any) {
+          perfTracker.end('scanner-smells');
+          logger.error('Code smell detection failed', error);
+          smellSpinner.fail('Code smell detection failed');
+          if (onProgress) onProgress();
+          return { type: 'smells', results: [], error };
+        }
+      })()
+    );
+  }
 
   // 4. Linting
-  const lintSpinner = ora('Running linters...').start();
-  promises.push(
-    (async () => {
-      perfTracker.start('scanner-linting');
-      try {
-        const results = await linterIntegration.runAll(repoPath);
-        const duration = perfTracker.end('scanner-linting');
-        logger.performance('scanner-linting', duration, { linters: results.length });
-        if (results.length > 0) {
-          lintSpinner.succeed(`Linting complete (${results.length} linter(s))`);
-        } else {
-          lintSpinner.info('No linters detected');
+  if (projectConfigManager.isScannerEnabled('linting')) {
+    const lintSpinner = ora('Running linters...').start();
+    promises.push(
+      (async () => {
+        perfTracker.start('scanner-linting');
+        try {
+          const results = await linterIntegration.runAll(repoPath);
+          const duration = perfTracker.end('scanner-linting');
+          logger.performance('scanner-linting', duration, { linters: results.length });
+          if (results.length > 0) {
+            lintSpinner.succeed(`Linting complete (${results.length} linter(s))`);
+          } else {
+            lintSpinner.info('No linters detected');
+          }
+          if (onProgress) onProgress();
+          return { type: 'linting', results };
+        } catch (error: any) {
+          perfTracker.end('scanner-linting');
+          logger.error('Linting failed', error);
+          lintSpinner.fail('Linting failed');
+          if (onProgress) onProgress();
+          return { type: 'linting', results: [], error };
         }
-        if (onProgress) onProgress();
-        return { type: 'linting', results };
-      } catch (error: any) {
-        perfTracker.end('scanner-linting');
-        logger.error('Linting failed', error);
-        lintSpinner.fail('Linting failed');
-        if (onProgress) onProgress();
-        return { type: 'linting', results: [], error };
-      }
-    })()
-  );
+      })()
+    );
+  }
 
   return promises;
 }
@@ -482,7 +629,7 @@ async function runSBOMGeneration(repoPath: string): Promise<any> {
   const sbomSpinner = ora('Generating SBOM...').start();
 
   try {
-    const licenseReport = await licenseScanner.scan(repoPath, 'proprietary');
+    const licenseReport = await licenseScanner.scan(repoPath, projectConfigManager.get().licensePolicy?.projectType || 'proprietary');
     const sbom = licenseScanner.generateSBOM(licenseReport.findings, 'spdx', 'repository');
     const duration = perfTracker.end('sbom-generation');
     logger.performance('sbom-generation', duration);
@@ -544,6 +691,21 @@ function processResults(allResults: PromiseSettledResult<any>[], results: ScanRe
   }
 }
 
+/**
+ * Names of scanners that failed (returned an error or rejected)
+ */
+function collectScannerErrors(allResults: PromiseSettledResult<any>[]): string[] {
+  const errors: string[] = [];
+  for (const result of allResults) {
+    if (result.status === 'rejected') {
+      errors.push('unknown');
+    } else if (result.value?.error) {
+      errors.push(result.value.type);
+    }
+  }
+  return errors;
+}
+
 /**
  * Generate comprehensive report
  */
@@ -555,22 +717,29 @@ function generateComprehensiveReport(results: ScanResults, repoInfo: any): Revie
   summary.push('# Comprehensive Security & Quality Report\n');
   summary.push(`**Repository:** ${repoInfo.name}`);
   summary.push(`**Scanned:** ${new Date(results.timestamp).toLocaleString()}`);
-  summary.push(`**Duration:** ${(results.duration / 1000).toFixed(1)}s\n`);
+  summary.push(`**Duration:** ${(results.duration / 1000).toFixed(1)}s`);
+  summary.push(`**Scan cache:** ${describeCacheStats(scanCache.getStats())}\n`);
 
   summary.push('## Security Analysis\n');
 
   Object.entries(results.security).forEach(([type, data]: [string, any]) => {
     if (Array.isArray(data)) {
-      summary.push(`- **${type}**: ${data.length} findings`);
+      // Dependency results describe manifests, not source files, so include/exclude does not apply
+      const scoped = type === 'dependencies' ? data : projectConfigManager.filterByPath(data);
+      summary.push(`- **${type}**: ${scoped.length} findings`);
 
-      data.forEach((finding: any) => {
+      scoped.forEach((finding: any) => {
         findings.push({
           severity: finding.severity || 'medium',
           category: type,
           file: finding.file || 'unknown',
           line: finding.line,
+          column: finding.column,
+          ruleId: finding.ruleId || finding.detector || finding.category || finding.type,
           description: finding.message || finding.description || 'Issue detected',
           suggestion: finding.recommendation || finding.fix || 'Review and fix',
+          ...(finding.reachability ? { reachability: finding.reachability } : {}),
+          ...(finding.commit ? { commit: finding.commit, fingerprint: finding.fingerprint } : {}),
         });
       });
     }
@@ -592,7 +761,7 @@ function generateComprehensiveReport(results: ScanResults, repoInfo: any): Revie
 
   return {
     summary: summary.join('\n'),
-    findings,
+    findings: projectConfigManager.applySeverityOverrides(findings, f => [f.ruleId, f.category]),
     recommendations: generateRecommendations(results),
     metadata: {
       timestamp: results.timestamp,
@@ -608,6 +777,7 @@ function generateComprehensiveReport(results: ScanResults, repoInfo: any): Revie
       provider: 'comprehensive-scan',
       model: 'multi-tool',
       durationMs: results.duration,
+      cache: scanCache.getStats(),
     },
   };
 }
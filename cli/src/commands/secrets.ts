@@ -0,0 +1,76 @@
+import chalk from 'chalk';
+import ora from 'ora';
+import * as path from 'path';
+import { SECURITY_CONSTANTS } from '../constants/security-constants';
+import { projectConfigManager } from '../core/project-config';
+import { secretsDetector } from '../core/secrets-detector';
+import { suppressionManager } from '../core/suppressions';
+import { createDebugLogger } from '../utils/debug-logger';
+import { handleCommandError } from '../utils/error-handler';
+import { EXIT_CODES, configError, exitCodeForError } from '../utils/ci-gate';
+
+const logger = createDebugLogger('secrets');
+
+interface HistoryOptions {
+  since?: string;
+  commits?: string;
+  all?: boolean;
+  incremental?: boolean;
+}
+
+/**
+ * List secrets that were committed and later deleted: gone from HEAD, but
+ * still readable by anyone with a clone. Exits 1 when there are any.
+ */
+export async function secretsHistoryCommand(options: HistoryOptions): Promise<void> {
+  console.log(chalk.cyan.bold('\n🕵️  Secrets in Git History\n'));
+
+  try {
+    if (options.since && options.commits) {
+      throw configError('Use either --since or --commits, not both');
+    }
+    if (options.incremental && (options.since || options.commits)) {
+      throw configError('--incremental scans all of history and cannot be combined with --since or --commits');
+    }
+
+    const repoPath = process.cwd();
+    projectConfigManager.load(repoPath);
+    suppressionManager.load(repoPath);
+
+    const scope = options.commits || (options.since ? `commits since ${options.since}`
+      : options.incremental ? 'commits since the last incremental run'
+      : options.all ? 'all commits' : `the latest ${SECURITY_CONSTANTS.GIT_HISTORY_COMMIT_LIMIT} commits`);
+    const spinner = ora(`Scanning ${scope}...`).start();
+    const findings = projectConfigManager.filterByPath(
+      await secretsDetector.scanGitHistory(repoPath, {
+        since: options.since,
+        commits: options.commits,
+        incremental: options.incremental,
+        ...(options.all ? { maxCommits: Infinity } : {}),
+      })
+    );
+    const removed = secretsDetector.removedFromHead(repoPath, findings);
+    spinner.stop();
+    logger.debug('History scanned', { found: findings.length, removed: removed.length });
+
+    console.log(chalk.gray(`Secrets added in history: ${findings.length}`));
+    console.log(chalk.gray(`Still present at HEAD: ${findings.length - removed.length} (reported by guardscan security)`));
+
+    if (removed.length === 0) {
+      console.log(chalk.green('\n✓ No deleted secrets found in history\n'));
+      return;
+    }
+
+    console.log(chalk.red.bold(`\n✗ ${removed.length} secret(s) deleted from HEAD but still in history:\n`));
+    for (const secret of removed) {
+      const file = path.relative(repoPath, secret.file).split(path.sep).join('/');
+      console.log(chalk.red(`  • ${secret.type} (${secret.severity}) ${secret.secret}`));
+      console.log(chalk.gray(`    ${file}:${secret.line} in ${secret.commit?.slice(0, 8)} by ${secret.author} on ${secret.date?.slice(0, 10)}`));
+      console.log(chalk.gray(`    fingerprint: ${secret.fingerprint}`));
+    }
+    console.log(chalk.gray('\nDeleting a secret does not revoke it: rotate each one, then rewrite history (e.g. git filter-repo) if it must not stay readable.\n'));
+    process.exit(EXIT_CODES.THRESHOLD_EXCEEDED);
+  } catch (error) {
+    handleCommandError(error, 'Secrets history', exitCodeForError(error));
+  }
+}
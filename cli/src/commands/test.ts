@@ -11,6 +11,9 @@ import { createProgressBar } from '../utils/progress';
 import { createDebugLogger } from '../utils/debug-logger';
 import { createPerformanceTracker } from '../utils/performance-tracker';
 import { handleCommandError } from '../utils/error-handler';
+import { exitCodeForError } from '../utils/ci-gate';
+import { fileWalker } from '../core/file-walker';
+import { resolveDiffScope } from '../core/diff-scope';
 
 const logger = createDebugLogger('test');
 const perfTracker = createPerformanceTracker('guardscan test');
@@ -21,6 +24,9 @@ interface TestOptions {
   smells?: boolean;
   lint?: boolean;
   all?: boolean;
+  changedSince?: string;
+  staged?: boolean;
+  changedLinesOnly?: boolean;
 }
 
 export async function testCommand(options: TestOptions): Promise<void> {
@@ -37,6 +43,11 @@ export async function testCommand(options: TestOptions): Promise<void> {
     logger.debug('Repository detected', { name: repoInfo.name });
     console.log(chalk.gray(`Repository: ${repoInfo.name}\n`));
 
+    // --changed-since / --staged restrict metrics and smell detection to changed files
+    fileWalker.reset();
+    const diffScope = resolveDiffScope(repoInfo.path, options);
+    fileWalker.setScope(diffScope?.getChangedFiles());
+
     // Calculate total steps for progress tracking
     let totalSteps = 1; // Report generation
     if (options.all || !options.metrics && !options.smells && !options.lint) totalSteps++;
@@ -90,7 +101,8 @@ export async function testCommand(options: TestOptions): Promise<void> {
     if (options.all || options.smells) {
       progressBar.update(completedSteps, { status: 'Detecting code smells...' });
       try {
-        results.smells = await codeSmellDetector.detect(process.cwd());
+        const smells = await codeSmellDetector.detect(process.cwd());
+        results.smells = diffScope ? diffScope.filterFindings(smells) : smells;
         completedSteps++;
         progressBar.update(completedSteps, { status: `Smells: ${results.smells.length} issues` });
         displaySmellResults(results.smells);
@@ -158,7 +170,7 @@ export async function testCommand(options: TestOptions): Promise<void> {
 
     console.log();
   } catch (error) {
-    handleCommandError(error, 'Test command');
+    handleCommandError(error, 'Test command', exitCodeForError(error));
   }
 }
 
@@ -0,0 +1,95 @@
+import chalk from 'chalk';
+import { execSync } from 'child_process';
+import { VEX_FILE, addVexStatement, createVexStatement, loadVexDocument } from '../core/vex';
+import { createDebugLogger } from '../utils/debug-logger';
+import { handleCommandError } from '../utils/error-handler';
+import { configError, exitCodeForError } from '../utils/ci-gate';
+
+const logger = createDebugLogger('vex');
+
+interface VexAddOptions {
+  package?: string;
+  versions?: string;
+  status?: string;
+  justification?: string;
+  impact?: string;
+  action?: string;
+  author?: string;
+}
+
+/**
+ * Record a triage decision for a vulnerability as an OpenVEX statement in the repository
+ */
+export async function vexAddCommand(vulnerability: string, options: VexAddOptions): Promise<void> {
+  try {
+    const repoPath = process.cwd();
+    if (!options.package) {
+      throw configError('--package <purl> is required, e.g. --package pkg:npm/lodash');
+    }
+    if (!options.status) {
+      throw configError('--status is required (not_affected, affected, fixed or under_investigation)');
+    }
+
+    const statement = createVexStatement({
+      vulnerability,
+      product: options.package,
+      versions: options.versions,
+      status: options.status,
+      justification: options.justification,
+      impact: options.impact,
+      action: options.action,
+    });
+    const document = addVexStatement(repoPath, statement, options.author || gitAuthor());
+    logger.debug('VEX statement added', { vulnerability, version: document.version });
+
+    console.log(chalk.green(`\n✓ ${vulnerability} is ${statement.status} for ${options.package}${options.versions ? ` (${options.versions})` : ''}`));
+    console.log(chalk.gray(`  Saved to ${VEX_FILE} (${document.statements.length} statement(s)); commit it to share the decision.`));
+    if (statement.status === 'not_affected' || statement.status === 'fixed') {
+      console.log(chalk.gray('  Matching dependency vulnerabilities are now reported as suppressed.'));
+    }
+    console.log();
+  } catch (error) {
+    handleCommandError(error, 'VEX statement', exitCodeForError(error));
+  }
+}
+
+/**
+ * List the repository's VEX statements, latest decision last
+ */
+export async function vexListCommand(): Promise<void> {
+  try {
+    const document = loadVexDocument(process.cwd());
+    if (!document || document.statements.length === 0) {
+      console.log(chalk.yellow(`\nNo VEX statements in ${VEX_FILE}. Add one with \`guardscan vex add <cve> --package <purl> --status <status>\`.\n`));
+      return;
+    }
+
+    console.log(chalk.cyan.bold(`\n📄 VEX Statements (${VEX_FILE}, version ${document.version})\n`));
+    for (const statement of document.statements) {
+      const products = statement.products.map(product => `${product['@id']}${product.versions ? ` ${product.versions}` : ''}`).join(', ');
+      console.log(chalk.white.bold(`${statement.vulnerability.name}`) + chalk.gray(` ${statement.status}`) + ` ${products}`);
+      const detail = [statement.justification, statement.impact_statement, statement.action_statement].filter(Boolean).join(' — ');
+      if (detail) console.log(chalk.gray(`  ${detail}`));
+      if (statement.timestamp) console.log(chalk.gray(`  ${statement.timestamp}`));
+    }
+    console.log();
+  } catch (error) {
+    handleCommandError(error, 'VEX statements', exitCodeForError(error));
+  }
+}
+
+/**
+ * Statement author from the git identity, as OpenVEX requires one
+ */
+function gitAuthor(): string {
+  const read = (key: string) => {
+    try {
+      return execSync(`git config ${key}`, { encoding: 'utf-8', stdio: ['pipe', 'pipe', 'ignore'] }).trim();
+    } catch {
+      return '';
+    }
+  };
+  const name = read('user.name');
+  const email = read('user.email');
+  return name && email ? `${name} <${email}>` : name || email || 'GuardScan';
+}
@@ -0,0 +1,78 @@
+import chalk from 'chalk';
+import ora from 'ora';
+import * as fs from 'fs';
+import { vulnDatabase } from '../core/vuln-db';
+import { createDebugLogger } from '../utils/debug-logger';
+import { createPerformanceTracker } from '../utils/performance-tracker';
+import { handleCommandError } from '../utils/error-handler';
+import { configError, exitCodeForError } from '../utils/ci-gate';
+
+const logger = createDebugLogger('vulndb');
+const perfTracker = createPerformanceTracker('guardscan vulndb');
+
+/**
+ * Import OSV advisories from a directory or .zip dump
+ */
+export async function vulndbImportCommand(source: string): Promise<void> {
+  logger.debug('Vulnerability database import started', { source });
+  perfTracker.start('vulndb-import');
+
+  console.log(chalk.cyan.bold('\n🗄️  Vulnerability Database Import\n'));
+
+  try {
+    if (!fs.existsSync(source)) {
+      throw configError(`Advisory source not found: ${source}`);
+    }
+
+    const spinner = ora(`Importing advisories from ${source}...`).start();
+    let result;
+    try {
+      result = vulnDatabase.importFrom(source);
+    } catch (error) {
+      spinner.fail('Import failed');
+      throw error;
+    }
+    const duration = perfTracker.end('vulndb-import');
+    logger.performance('vulndb-import', duration, { records: result.records });
+    spinner.succeed(`Imported ${result.records} OSV records`);
+
+    for (const [ecosystem, count] of Object.entries(result.ecosystems)) {
+      console.log(chalk.gray(`  ${ecosystem}: ${count} package advisories`));
+    }
+    if (result.withdrawn > 0) {
+      console.log(chalk.gray(`  Withdrawn advisories removed: ${result.withdrawn}`));
+    }
+    if (result.skipped > 0) {
+      console.log(chalk.yellow(`  Skipped ${result.skipped} file(s) that are not OSV records`));
+    }
+
+    console.log(chalk.gray('\nDependency scans now match lockfiles against this database offline.\n'));
+  } catch (error) {
+    handleCommandError(error, 'Vulnerability database import', exitCodeForError(error));
+  }
+}
+
+/**
+ * Show what the offline vulnerability database contains
+ */
+export async function vulndbStatusCommand(): Promise<void> {
+  try {
+    const status = vulnDatabase.getStatus();
+
+    console.log(chalk.cyan.bold('\n🗄️  Vulnerability Database\n'));
+
+    if (!status) {
+      console.log(chalk.gray('No advisories imported. Run "guardscan vulndb import <dir|zip>" with an OSV dump.\n'));
+      return;
+    }
+
+    console.log(chalk.gray(`Last import: ${new Date(status.importedAt).toLocaleString()}`));
+    console.log(chalk.gray(`Sources: ${status.sources.join(', ')}\n`));
+    for (const [ecosystem, counts] of Object.entries(status.ecosystems)) {
+      console.log(chalk.white(`  ${ecosystem.padEnd(10)} ${counts!.advisories} advisories, ${counts!.packages} packages`));
+    }
+    console.log();
+  } catch (error) {
+    handleCommandError(error, 'Vulnerability database status');
+  }
+}
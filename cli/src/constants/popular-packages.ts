@@ -0,0 +1,59 @@
+// Widely used registry packages, used as typosquatting targets.
+// Names are compared after registry normalization, so keep them lowercase.
+export const POPULAR_PACKAGES = {
+  npm: [
+    'react', 'react-dom', 'react-router', 'react-router-dom', 'react-redux', 'redux', 'next', 'vue', 'vue-router',
+    'vuex', 'angular', 'svelte', 'preact', 'jquery', 'lodash', 'underscore', 'ramda', 'moment', 'dayjs', 'date-fns',
+    'axios', 'node-fetch', 'request', 'superagent', 'got', 'express', 'koa', 'fastify', 'hapi', 'body-parser',
+    'cookie-parser', 'cors', 'color', 'helmet', 'morgan', 'multer', 'passport', 'jsonwebtoken', 'bcrypt', 'bcryptjs',
+    'crypto-js', 'uuid', 'nanoid', 'chalk', 'colors', 'commander', 'yargs', 'minimist', 'inquirer', 'ora',
+    'debug', 'dotenv', 'cross-env', 'rimraf', 'mkdirp', 'glob', 'minimatch', 'fs-extra', 'graceful-fs', 'chokidar',
+    'semver', 'async', 'bluebird', 'rxjs', 'tslib', 'typescript', 'ts-node', 'babel-core', 'webpack', 'webpack-cli',
+    'rollup', 'vite', 'esbuild', 'parcel', 'gulp', 'grunt', 'eslint', 'prettier', 'jest', 'vitest', 'mocha', 'chai', 'sinon',
+    'jasmine', 'karma', 'cypress', 'puppeteer', 'playwright', 'nodemon', 'pm2', 'socket.io', 'ws', 'mongoose',
+    'mongodb', 'mysql', 'mysql2', 'pg', 'sequelize', 'typeorm', 'prisma', 'knex', 'redis', 'ioredis', 'sqlite3',
+    'graphql', 'apollo-server', 'handlebars', 'ejs', 'pug', 'marked', 'cheerio', 'jsdom', 'sharp', 'jimp',
+    'nodemailer', 'winston', 'pino', 'bunyan', 'joi', 'yup', 'zod', 'ajv', 'validator', 'classnames', 'styled-components',
+    'tailwindcss', 'postcss', 'autoprefixer', 'sass', 'less', 'core-js', 'regenerator-runtime', 'qs', 'ms',
+    'event-stream', 'through2', 'readable-stream', 'inherits', 'once', 'coffee-script', 'electron', 'discord.js',
+    'twilio', 'stripe', 'aws-sdk', 'firebase', 'openai', 'shelljs', 'execa', 'cross-spawn', 'node-sass', 'yaml',
+    'js-yaml', 'xml2js', 'form-data', 'http-proxy', 'serve-static', 'compression', 'npm', 'yarn', 'pnpm',
+  ],
+  pip: [
+    'requests', 'urllib3', 'certifi', 'idna', 'charset-normalizer', 'chardet', 'six', 'setuptools', 'wheel', 'pip',
+    'numpy', 'pandas', 'scipy', 'matplotlib', 'seaborn', 'scikit-learn', 'tensorflow', 'keras', 'torch', 'torchvision',
+    'transformers', 'openai', 'django', 'flask', 'fastapi', 'starlette', 'uvicorn', 'gunicorn', 'celery', 'redis',
+    'sqlalchemy', 'psycopg2', 'psycopg2-binary', 'pymysql', 'pymongo', 'boto3', 'botocore', 'awscli', 's3transfer',
+    'pyyaml', 'jinja2', 'markupsafe', 'werkzeug', 'click', 'itsdangerous', 'pydantic', 'attrs', 'packaging',
+    'python-dateutil', 'pytz', 'cryptography', 'pyopenssl', 'pycryptodome', 'paramiko', 'bcrypt', 'pyjwt', 'rsa',
+    'pytest', 'pytest-cov', 'coverage', 'tox', 'mock', 'moto', 'nose', 'nose2', 'black', 'flake8', 'pylint', 'mypy', 'isort',
+    'beautifulsoup4', 'lxml', 'html5lib', 'scrapy', 'selenium', 'pillow', 'opencv-python', 'tqdm', 'colorama',
+    'rich', 'typer', 'httpx', 'aiohttp', 'websockets', 'grpcio', 'protobuf', 'docker', 'kubernetes', 'ansible',
+    'jsonschema', 'simplejson', 'ujson', 'python-dotenv', 'virtualenv', 'poetry', 'pipenv', 'twine', 'sphinx',
+  ],
+  ruby: [
+    'rails', 'rack', 'rake', 'bundler', 'rspec', 'rspec-rails', 'minitest', 'puma', 'unicorn', 'sinatra', 'devise',
+    'nokogiri', 'json', 'activesupport', 'activerecord', 'actionpack', 'sidekiq', 'redis', 'pg', 'mysql2', 'sqlite3',
+    'faraday', 'httparty', 'rest-client', 'rubocop', 'pry', 'byebug', 'capybara', 'factory_bot', 'faker', 'bcrypt',
+    'jwt', 'aws-sdk', 'thor', 'i18n', 'tzinfo', 'concurrent-ruby', 'mime-types', 'sass', 'webpacker', 'sprockets',
+  ],
+  cargo: [
+    'serde', 'serde_json', 'serde_derive', 'tokio', 'futures', 'async-trait', 'rand', 'regex', 'lazy_static',
+    'once_cell', 'log', 'env_logger', 'tracing', 'clap', 'structopt', 'anyhow', 'thiserror', 'chrono', 'time',
+    'reqwest', 'hyper', 'actix-web', 'axum', 'warp', 'rocket', 'diesel', 'sqlx', 'uuid', 'base64', 'bytes',
+    'itertools', 'libc', 'bitflags', 'syn', 'quote', 'proc-macro2', 'rayon', 'crossbeam', 'parking_lot', 'openssl',
+  ],
+  composer: [
+    'laravel/framework', 'symfony/symfony', 'symfony/console', 'symfony/http-foundation', 'guzzlehttp/guzzle',
+    'monolog/monolog', 'phpunit/phpunit', 'doctrine/orm', 'doctrine/dbal', 'twig/twig', 'vlucas/phpdotenv',
+    'nesbot/carbon', 'league/flysystem', 'phpmailer/phpmailer', 'firebase/php-jwt', 'ramsey/uuid', 'psr/log',
+    'composer/composer', 'mockery/mockery', 'fakerphp/faker', 'predis/predis', 'aws/aws-sdk-php', 'slim/slim',
+  ],
+} as const;
+
+// Legitimate packages one edit away from a popular one, which the
+// typosquatting check would otherwise flag (nuxt/next, psycopg/psycopg2)
+export const LEGITIMATE_NEAR_NAMES: { [ecosystem in keyof typeof POPULAR_PACKAGES]?: string[] } = {
+  npm: ['nuxt', 'mssql', 'uid'],
+  pip: ['psycopg', 'psycopg-binary', 'boto', 'pymssql', 'jinja'],
+};
@@ -1,5 +1,6 @@
-import * as fs from 'fs';
-import * as path from 'path';
+import { suppressionManager } from './suppressions';
+import { fileWalker } from './file-walker';
+import { scanCache } from './scan-cache';
 
 export interface APIFinding {
   type: string;
@@ -11,22 +12,38 @@ export interface APIFinding {
   category: 'REST' | 'GraphQL' | 'General';
 }
 
+const API_EXTENSIONS = ['.js', '.ts', '.py', '.go', '.java', '.rb', '.php'];
+
+// Bump when any API check changes so cached results are discarded
+const API_RULES_VERSION = '1';
+
 export class APIScanner {
   /**
    * Scan for API security vulnerabilities
    */
   async scan(repoPath: string = process.cwd()): Promise<APIFinding[]> {
     const findings: APIFinding[] = [];
-    const files = this.findAPIFiles(repoPath);
+    const files = fileWalker.listFiles(repoPath, { extensions: API_EXTENSIONS, maxDepth: 5 });
 
-    for (const file of files) {
+    for (const { path: file, language } of files) {
       try {
-        const content = fs.readFileSync(file, 'utf-8');
-        const language = this.detectLanguage(file);
-
-        findings.push(...this.scanRESTAPI(file, content, language));
-        findings.push(...this.scanGraphQL(file, content, language));
-        findings.push(...this.scanGeneralAPI(file, content, language));
+        const content = fileWalker.readFile(file);
+        if (content === null) continue;
+
+        const fileFindings = scanCache.getOrScan('api', file, content, () => [
+          ...this.scanRESTAPI(file, content, language),
+          ...this.scanGraphQL(file, content, language),
+          ...this.scanGeneralAPI(file, content, language),
+        ], API_RULES_VERSION);
+
+        findings.push(...suppressionManager.apply('api', fileFindings, finding => ({
+          file: finding.file,
+          line: finding.line,
+          ids: [finding.type, `${finding.category} API: ${finding.type}`],
+          severity: finding.severity,
+          category: `${finding.category} API: ${finding.type}`,
+          description: finding.description,
+        }), content));
       } catch {
         // Skip files that can't be read
       }
@@ -35,70 +52,6 @@ export class APIScanner {
     return findings;
   }
 
-  /**
-   * Find API-related files
-   */
-  private findAPIFiles(dir: string): string[] {
-    const files: string[] = [];
-
-    const search = (currentDir: string, depth: number) => {
-      if (depth > 5) return;
-
-      try {
-        const items = fs.readdirSync(currentDir);
-        for (const item of items) {
-          if (item === 'node_modules' || item === '.git' || item === 'vendor') continue;
-
-          const fullPath = path.join(currentDir, item);
-          const stat = fs.statSync(fullPath);
-
-          if (stat.isDirectory()) {
-            search(fullPath, depth + 1);
-          } else if (this.isAPIFile(item)) {
-            files.push(fullPath);
-          }
-        }
-      } catch {
-        // Skip directories we can't read
-      }
-    };
-
-    search(dir, 0);
-    return files;
-  }
-
-  /**
-   * Check if file is likely to contain API code
-   */
-  private isAPIFile(filename: string): boolean {
-    const apiPatterns = [
-      /route/i, /controller/i, /handler/i, /endpoint/i,
-      /api/i, /service/i, /resolver/i, /graphql/i
-    ];
-
-    const extensions = ['.js', '.ts', '.py', '.go', '.java', '.rb', '.php'];
-
-    return extensions.some(ext => filename.endsWith(ext)) &&
-           (apiPatterns.some(pattern => pattern.test(filename)) || true);
-  }
-
-  /**
-   * Detect programming language from file extension
-   */
-  private detectLanguage(file: string): string {
-    const ext = path.extname(file);
-    const langMap: Record<string, string> = {
-      '.js': 'javascript',
-      '.ts': 'typescript',
-      '.py': 'python',
-      '.go': 'go',
-      '.java': 'java',
-      '.rb': 'ruby',
-      '.php': 'php',
-    };
-    return langMap[ext] || 'unknown';
-  }
-
   /**
    * Scan for REST API vulnerabilities
    */
@@ -105,6 +105,14 @@ export interface Import {
   isNamespace: boolean;
 }
 
+/**
+ * A call that no extracted function or method makes
+ */
+export interface ModuleCall {
+  name: string;
+  line: number;
+}
+
 /**
  * Export statement
  */
@@ -127,6 +135,7 @@ export interface ParsedFile {
   classes: ParsedClass[];
   imports: Import[];
   exports: Export[];
+  moduleCalls: ModuleCall[]; // Module scope, constructors, property initializers
   complexity: number;
   lastModified: Date;
 }
@@ -166,6 +175,7 @@ export class ASTParser {
       const classes = this.extractClasses(sourceFile, filePath);
       const imports = this.extractImports(sourceFile);
       const exports = this.extractExports(sourceFile);
+      const moduleCalls = this.extractModuleCalls(sourceFile);
 
       // Calculate metrics
       const loc = this.countLOC(sourceCode);
@@ -182,6 +192,7 @@ export class ASTParser {
         classes,
         imports,
         exports,
+        moduleCalls,
         complexity,
         lastModified: fs.statSync(filePath).mtime,
       };
@@ -585,6 +596,44 @@ export class ASTParser {
 
         imports.push({ module, imports: importNames, isDefault, isNamespace });
       }
+
+      // CommonJS: const x = require("m") / const { a, b } = require("m")
+      if (ts.isVariableStatement(statement)) {
+        for (const declaration of statement.declarationList.declarations) {
+          const init = declaration.initializer;
+          if (
+            !init ||
+            !ts.isCallExpression(init) ||
+            !ts.isIdentifier(init.expression) ||
+            init.expression.text !== "require" ||
+            init.arguments.length !== 1 ||
+            !ts.isStringLiteral(init.arguments[0])
+          ) {
+            continue;
+          }
+
+          const module = init.arguments[0].text;
+          if (ts.isIdentifier(declaration.name)) {
+            imports.push({
+              module,
+              imports: [declaration.name.text],
+              isDefault: false,
+              isNamespace: true,
+            });
+          } else if (ts.isObjectBindingPattern(declaration.name)) {
+            const importNames = declaration.name.elements
+              .map((element) => element.name)
+              .filter(ts.isIdentifier)
+              .map((name) => name.text);
+            imports.push({
+              module,
+              imports: importNames,
+              isDefault: false,
+              isNamespace: false,
+            });
+          }
+        }
+      }
     });
 
     return imports;
@@ -834,6 +883,44 @@ export class ASTParser {
     return Array.from(dependencies);
   }
 
+  /**
+   * Extract calls outside the functions and methods recorded with their
+   * own dependencies, e.g. at module scope or in inline callbacks
+   */
+  private extractModuleCalls(sourceFile: ts.SourceFile): ModuleCall[] {
+    const calls: ModuleCall[] = [];
+    const ts = getTypeScript();
+
+    const visit = (n: ts.Node) => {
+      if (ts.isFunctionDeclaration(n) && n.name) return;
+      if (ts.isMethodDeclaration(n) && ts.isClassDeclaration(n.parent) && n.parent.name) return;
+      if (
+        ts.isVariableDeclaration(n) &&
+        n.initializer &&
+        (ts.isArrowFunction(n.initializer) || ts.isFunctionExpression(n.initializer))
+      ) {
+        return;
+      }
+
+      if (ts.isCallExpression(n)) {
+        const expr = n.expression;
+        const name = ts.isIdentifier(expr)
+          ? expr.text
+          : ts.isPropertyAccessExpression(expr)
+          ? expr.name.text
+          : undefined;
+        if (name) {
+          calls.push({ name, line: sourceFile.getLineAndCharacterOfPosition(n.getStart()).line + 1 });
+        }
+      }
+
+      ts.forEachChild(n, visit);
+    };
+
+    visit(sourceFile);
+    return calls;
+  }
+
   /**
    * Check if node is exported
    */
@@ -0,0 +1,547 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { DEFAULT_IGNORED_FILES, fileWalker, WalkPolicy } from './file-walker';
+import { LockedDependency } from './lockfile-parser';
+
+const MANIFEST_PATTERN = /^(pom\.xml|build\.gradle(\.kts)?|gradle\.lockfile|packages\.lock\.json|.+\.(cs|fs|vb)proj)$/;
+
+/**
+ * Build output directories can hold copies of the build files, such as the pom.xml
+ * Maven packages under target/classes/META-INF
+ */
+const BUILD_MANIFEST_WALK_POLICY: WalkPolicy = {
+  name: 'build-manifests',
+  ignoredFiles: [...DEFAULT_IGNORED_FILES, 'target/', 'out/', 'bin/', 'obj/', '.gradle/', '.idea/'],
+};
+
+const GRADLE_CONFIGURATION = '[a-zA-Z]*(?:[iI]mplementation|[aA]pi|[cC]ompile|[cC]ompileOnly|[rR]untime|[rR]untimeOnly|[aA]nnotationProcessor|kapt|ksp|classpath)';
+
+/**
+ * Resolve dependency coordinates from Maven, Gradle and NuGet build files.
+ *
+ * Java and .NET projects usually have no lockfile in the repository root, so
+ * build files are discovered throughout the tree. Where a directory has a
+ * lockfile (gradle.lockfile, packages.lock.json) it wins over the build script.
+ * Versions that cannot be resolved to a single version (ranges, dynamic
+ * versions, unknown properties) are skipped.
+ */
+export function parseBuildManifests(repoPath: string): LockedDependency[] {
+  const manifests = findManifests(repoPath);
+  const byDir = new Map<string, Set<string>>();
+  for (const file of manifests) {
+    const dir = path.dirname(file);
+    byDir.set(dir, (byDir.get(dir) || new Set()).add(path.basename(file)));
+  }
+
+  const dependencies: LockedDependency[] = [];
+  const pomCache = new Map<string, PomModel | null>();
+
+  for (const file of manifests) {
+    const name = path.basename(file);
+    const siblings = byDir.get(path.dirname(file))!;
+    const relative = path.relative(repoPath, file).split(path.sep).join('/');
+
+    try {
+      if (name === 'pom.xml') {
+        dependencies.push(...resolvePomDependencies(file, pomCache).map(dep => ({ ...dep, file: relative })));
+      } else if (name === 'gradle.lockfile') {
+        dependencies.push(...parseGradleLockfile(fs.readFileSync(file, 'utf-8'), relative));
+      } else if (name.startsWith('build.gradle')) {
+        if (siblings.has('gradle.lockfile')) continue;
+        dependencies.push(...parseGradleBuild(file, repoPath, relative));
+      } else if (name === 'packages.lock.json') {
+        dependencies.push(...parseNugetLockfile(fs.readFileSync(file, 'utf-8'), relative));
+      } else {
+        if (siblings.has('packages.lock.json')) continue;
+        dependencies.push(...parseProjectFile(file, repoPath, relative));
+      }
+    } catch (error) {
+      console.warn(`Warning: Failed to parse ${relative}:`, (error as Error).message);
+    }
+  }
+
+  return dependencies;
+}
+
+function findManifests(repoPath: string): string[] {
+  return fileWalker.listPaths(repoPath, { pattern: MANIFEST_PATTERN, policy: BUILD_MANIFEST_WALK_POLICY }).sort();
+}
+
+interface PomDependency {
+  groupId: string;
+  artifactId: string;
+  version?: string;
+  scope?: string;
+}
+
+interface PomModel {
+  groupId?: string;
+  artifactId?: string;
+  version?: string;
+  parent?: { groupId: string; artifactId: string; version?: string };
+  properties: Record<string, string>;
+  managed: PomDependency[];
+  dependencies: PomDependency[];
+  parentModel?: PomModel;
+}
+
+// Elements whose children must not be mistaken for the project's own groupId/version/dependencies
+const POM_NESTED_SECTIONS = [
+  'parent', 'dependencies', 'dependencyManagement', 'build', 'profiles', 'properties', 'reporting',
+  'distributionManagement', 'repositories', 'pluginRepositories', 'scm', 'organization', 'developers',
+  'contributors', 'licenses', 'issueManagement', 'ciManagement', 'mailingLists', 'modules',
+];
+
+function resolvePomDependencies(file: string, cache: Map<string, PomModel | null>): Omit<LockedDependency, 'file'>[] {
+  const model = loadPom(file, cache, new Set());
+  if (!model) return [];
+
+  // Effective model: inherited properties and managed versions, child values win
+  const properties: Record<string, string> = {};
+  const managed = new Map<string, string>();
+  const chain: PomModel[] = [];
+  for (let current: PomModel | undefined = model; current; current = current.parentModel) {
+    chain.unshift(current);
+  }
+  for (const pom of chain) {
+    Object.assign(properties, pom.properties);
+  }
+
+  const projectVersion = model.version || model.parent?.version;
+  const builtins: Record<string, string | undefined> = {
+    'project.version': projectVersion,
+    'pom.version': projectVersion,
+    'version': projectVersion,
+    'project.groupId': model.groupId || model.parent?.groupId,
+    'project.artifactId': model.artifactId,
+    'project.parent.version': model.parent?.version,
+    'project.parent.groupId': model.parent?.groupId,
+  };
+  for (const [key, value] of Object.entries(builtins)) {
+    if (value !== undefined && properties[key] === undefined) properties[key] = value;
+  }
+
+  const interpolate = (value: string | undefined) => (value === undefined ? undefined : interpolateProperties(value, properties));
+
+  for (const pom of chain) {
+    for (const dep of pom.managed) {
+      const version = interpolate(dep.version);
+      if (version) managed.set(`${interpolate(dep.groupId)}:${interpolate(dep.artifactId)}`, version);
+    }
+  }
+
+  const dependencies: Omit<LockedDependency, 'file'>[] = [];
+  for (const dep of model.dependencies) {
+    const name = `${interpolate(dep.groupId)}:${interpolate(dep.artifactId)}`;
+    const version = interpolate(dep.version) || managed.get(name);
+    if (name.includes('${') || !isExactVersion(version)) continue;
+    dependencies.push({ name, version: version!, ecosystem: 'maven', dev: dep.scope === 'test' });
+  }
+
+  return dependencies;
+}
+
+function loadPom(file: string, cache: Map<string, PomModel | null>, visiting: Set<string>): PomModel | null {
+  const key = path.resolve(file);
+  if (cache.has(key)) return cache.get(key)!;
+  if (visiting.has(key) || !fs.existsSync(key)) return null;
+  visiting.add(key);
+
+  const model = parsePom(fs.readFileSync(key, 'utf-8'));
+
+  // Only follow the parent when the local file is the declared parent
+  if (model.parent) {
+    const relativePath = model.relativePath ?? '../pom.xml';
+    let parentFile = path.resolve(path.dirname(key), relativePath);
+    if (!parentFile.endsWith('.xml')) parentFile = path.join(parentFile, 'pom.xml');
+    const parent = relativePath ? loadPom(parentFile, cache, visiting) : null;
+    if (parent && parent.artifactId === model.parent.artifactId &&
+        (parent.groupId || parent.parent?.groupId) === model.parent.groupId) {
+      model.parentModel = parent;
+    }
+  }
+
+  cache.set(key, model);
+  return model;
+}
+
+function parsePom(content: string): PomModel & { relativePath?: string } {
+  const xml = content.replace(/<!--[\s\S]*?-->/g, '');
+  const project = xmlBlock(xml, 'project') ?? xml;
+  const ownFields = removeXmlBlocks(project, POM_NESTED_SECTIONS);
+  const parentBlock = xmlBlock(project, 'parent');
+  const managementBlock = xmlBlock(project, 'dependencyManagement') ?? '';
+  const dependencyScope = removeXmlBlocks(project, ['dependencyManagement', 'build', 'profiles', 'reporting']);
+
+  const properties: Record<string, string> = {};
+  const propertiesBlock = xmlBlock(project, 'properties');
+  if (propertiesBlock) {
+    for (const match of propertiesBlock.matchAll(/<([\w.-]+)>\s*([^<]*?)\s*<\/\1>/g)) {
+      properties[match[1]] = match[2];
+    }
+  }
+
+  return {
+    groupId: xmlText(ownFields, 'groupId'),
+    artifactId: xmlText(ownFields, 'artifactId'),
+    version: xmlText(ownFields, 'version'),
+    parent: parentBlock
+      ? { groupId: xmlText(parentBlock, 'groupId') || '', artifactId: xmlText(parentBlock, 'artifactId') || '', version: xmlText(parentBlock, 'version') }
+      : undefined,
+    relativePath: parentBlock && /<relativePath\s*\/>/.test(parentBlock) ? '' : parentBlock ? xmlText(parentBlock, 'relativePath') : undefined,
+    properties,
+    // BOM imports live in remote repositories and cannot be resolved offline
+    managed: parsePomDependencies(managementBlock).filter(dep => dep.scope !== 'import'),
+    dependencies: parsePomDependencies(dependencyScope),
+  };
+}
+
+function parsePomDependencies(xml: string): PomDependency[] {
+  return xmlBlocks(xml, 'dependency').map(block => {
+    const fields = removeXmlBlocks(block, ['exclusions']);
+    return {
+      groupId: xmlText(fields, 'groupId') || '',
+      artifactId: xmlText(fields, 'artifactId') || '',
+      version: xmlText(fields, 'version'),
+      scope: xmlText(fields, 'scope'),
+    };
+  }).filter(dep => dep.groupId && dep.artifactId);
+}
+
+function interpolateProperties(value: string, properties: Record<string, string>): string {
+  let result = value;
+  // Properties may reference other properties; bound the passes to survive cycles
+  for (let pass = 0; pass < 10 && result.includes('${'); pass++) {
+    result = result.replace(/\$\{([^}]+)\}/g, (match, name) => properties[name] ?? match);
+  }
+  return result;
+}
+
+function xmlBlock(xml: string, tag: string): string | undefined {
+  return xmlBlocks(xml, tag)[0];
+}
+
+function xmlBlocks(xml: string, tag: string): string[] {
+  const pattern = new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, 'g');
+  return Array.from(xml.matchAll(pattern), match => match[1]);
+}
+
+function xmlText(xml: string, tag: string): string | undefined {
+  const match = xml.match(new RegExp(`<${tag}(?:\\s[^>]*)?>\\s*([^<]*?)\\s*</${tag}>`));
+  return match ? match[1] : undefined;
+}
+
+function removeXmlBlocks(xml: string, tags: string[]): string {
+  return tags.reduce((result, tag) => result.replace(new RegExp(`<${tag}(?:\\s[^>]*)?>[\\s\\S]*?</${tag}>`, 'g'), ''), xml);
+}
+
+/**
+ * Maven/NuGet ranges ("[1.0,2.0)") and Gradle dynamic versions ("1.+", "latest.release") are not exact
+ */
+function isExactVersion(version: string | undefined): boolean {
+  return !!version && !/[[\](),+*$]|^latest\./.test(version);
+}
+
+/**
+ * gradle.lockfile: "group:artifact:version=configuration,configuration"
+ */
+export function parseGradleLockfile(content: string, file: string): LockedDependency[] {
+  const dependencies: LockedDependency[] = [];
+
+  for (const line of content.split('\n')) {
+    const match = line.trim().match(/^([^:#\s]+):([^:\s]+):([^=\s]+)=(.*)$/);
+    if (!match) continue;
+    const configurations = match[4].split(',').filter(Boolean);
+    dependencies.push({
+      name: `${match[1]}:${match[2]}`,
+      version: match[3],
+      ecosystem: 'maven',
+      file,
+      dev: configurations.length > 0 && configurations.every(c => /test/i.test(c)),
+    });
+  }
+
+  return dependencies;
+}
+
+function parseGradleBuild(file: string, repoPath: string, relative: string): LockedDependency[] {
+  const script = fs.readFileSync(file, 'utf-8').replace(/\/\*[\s\S]*?\*\//g, '').replace(/^\s*\/\/.*$/gm, '');
+  const variables = {
+    ...readGradleProperties(path.join(repoPath, 'gradle.properties')),
+    ...readGradleVariables(path.join(repoPath, 'build.gradle')),
+    ...readGradleVariables(path.join(repoPath, 'build.gradle.kts')),
+    ...readGradleProperties(path.join(path.dirname(file), 'gradle.properties')),
+    ...collectGradleVariables(script),
+  };
+  const resolve = (value: string) =>
+    value.replace(/\$\{?([\w.]+?)\}?(?=$|[^\w.])/g, (match, name: string) => variables[name.split('.').pop()!] ?? match);
+
+  const dependencies: LockedDependency[] = [];
+  const add = (configuration: string, group: string, artifact: string, version: string | undefined) => {
+    const resolved = version === undefined ? undefined : resolve(version);
+    if (!isExactVersion(resolved)) return;
+    dependencies.push({
+      name: `${resolve(group)}:${resolve(artifact)}`,
+      version: resolved!,
+      ecosystem: 'maven',
+      file: relative,
+      dev: /^test/i.test(configuration),
+    });
+  };
+
+  // implementation 'g:a:v' / implementation("g:a:v") / implementation(platform("g:a:v"))
+  const stringNotation = new RegExp(`\\b(${GRADLE_CONFIGURATION})\\b\\s*\\(?\\s*(?:(?:enforcedPlatform|platform)\\s*\\(\\s*)?["']([^"'\\s]+)["']`, 'g');
+  for (const match of script.matchAll(stringNotation)) {
+    const [group, artifact, version] = match[2].split(':');
+    if (group && artifact) add(match[1], group, artifact, version?.replace(/@\w+$/, ''));
+  }
+
+  // implementation group: 'g', name: 'a', version: 'v'
+  const mapNotation = new RegExp(`\\b(${GRADLE_CONFIGURATION})\\b\\s*\\(?\\s*group\\s*[:=]\\s*["']([^"']+)["']\\s*,\\s*name\\s*[:=]\\s*["']([^"']+)["']\\s*,\\s*version\\s*[:=]\\s*["']([^"']+)["']`, 'g');
+  for (const match of script.matchAll(mapNotation)) {
+    add(match[1], match[2], match[3], match[4]);
+  }
+
+  // implementation(libs.some.library) / implementation libs.bundles.web
+  const catalog = findVersionCatalog(path.dirname(file), repoPath);
+  if (catalog) {
+    const catalogReference = new RegExp(`\\b(${GRADLE_CONFIGURATION})\\b\\s*\\(?\\s*(?:(?:enforcedPlatform|platform)\\s*\\(\\s*)?libs\\.([\\w.]+)`, 'g');
+    for (const match of script.matchAll(catalogReference)) {
+      const reference = match[2].replace(/\.get$/, '');
+      const aliases = reference.startsWith('bundles.')
+        ? catalog.bundles.get(reference.slice('bundles.'.length)) || []
+        : [reference];
+      for (const alias of aliases) {
+        const library = catalog.libraries.get(alias);
+        if (library) add(match[1], library.group, library.name, library.version);
+      }
+    }
+  }
+
+  return dependencies;
+}
+
+function readGradleProperties(file: string): Record<string, string> {
+  if (!fs.existsSync(file)) return {};
+  const properties: Record<string, string> = {};
+  for (const line of fs.readFileSync(file, 'utf-8').split('\n')) {
+    const match = line.match(/^\s*([\w.-]+)\s*[=:]\s*(.*?)\s*$/);
+    if (match && !line.trim().startsWith('#')) properties[match[1]] = match[2];
+  }
+  return properties;
+}
+
+function readGradleVariables(file: string): Record<string, string> {
+  return fs.existsSync(file) ? collectGradleVariables(fs.readFileSync(file, 'utf-8')) : {};
+}
+
+/**
+ * Simple string assignments: def/val/var x = "1.0", ext.x = '1.0', ext { x = '1.0' }, extra["x"] = "1.0", set("x", "1.0")
+ */
+function collectGradleVariables(script: string): Record<string, string> {
+  const variables: Record<string, string> = {};
+  const patterns = [
+    /(?:^|[\s;{])(?:def\s+|val\s+|var\s+|ext\.|project\.ext\.)?(\w+)\s*=\s*["']([^"'$]+)["']/gm,
+    /extra\s*\[\s*["'](\w+)["']\s*\]\s*=\s*["']([^"'$]+)["']/g,
+    /\bset\s*\(\s*["'](\w+)["']\s*,\s*["']([^"'$]+)["']\s*\)/g,
+  ];
+  for (const pattern of patterns) {
+    for (const match of script.matchAll(pattern)) {
+      variables[match[1]] = match[2];
+    }
+  }
+  return variables;
+}
+
+interface VersionCatalog {
+  libraries: Map<string, { group: string; name: string; version?: string }>;
+  bundles: Map<string, string[]>;
+}
+
+/**
+ * Find gradle/libs.versions.toml in the build file's directory or any parent up to the repository root
+ */
+function findVersionCatalog(dir: string, repoPath: string): VersionCatalog | undefined {
+  const root = path.resolve(repoPath);
+  for (let current = path.resolve(dir); ; current = path.dirname(current)) {
+    const candidate = path.join(current, 'gradle', 'libs.versions.toml');
+    if (fs.existsSync(candidate)) {
+      return parseVersionCatalog(fs.readFileSync(candidate, 'utf-8'));
+    }
+    if (current === root || path.dirname(current) === current) return undefined;
+  }
+}
+
+/**
+ * Parse a Gradle version catalog. Aliases are normalized the way Gradle exposes
+ * them as accessors: "spring-boot_starter" becomes "spring.boot.starter".
+ */
+export function parseVersionCatalog(content: string): VersionCatalog {
+  const accessor = (alias: string) => alias.replace(/[-_]/g, '.');
+  const versions = new Map<string, string>();
+  const rawLibraries = new Map<string, string>();
+  const rawBundles = new Map<string, string>();
+  let section = '';
+  let pending: { key: string; value: string } | undefined;
+
+  for (const rawLine of content.split('\n')) {
+    const line = rawLine.replace(/\s+#.*$/, '').trim();
+    if (!line || line.startsWith('#')) continue;
+
+    // Continuation of a multi-line array
+    if (pending) {
+      pending.value += line;
+      if (line.includes(']')) {
+        rawBundles.set(pending.key, pending.value);
+        pending = undefined;
+      }
+      continue;
+    }
+
+    const header = line.match(/^\[(\w+)\]$/);
+    if (header) {
+      section = header[1];
+      continue;
+    }
+
+    const entry = line.match(/^"?([\w.-]+)"?\s*=\s*(.+)$/);
+    if (!entry) continue;
+    const [, key, value] = entry;
+
+    if (section === 'versions') {
+      const version = value.match(/^"([^"]+)"/) || value.match(/(?:strictly|require|prefer)\s*=\s*"([^"]+)"/);
+      if (version) versions.set(key, version[1]);
+    } else if (section === 'libraries') {
+      rawLibraries.set(accessor(key), value);
+    } else if (section === 'bundles') {
+      if (value.includes(']')) {
+        rawBundles.set(accessor(key), value);
+      } else {
+        pending = { key: accessor(key), value };
+      }
+    }
+  }
+
+  const libraries: VersionCatalog['libraries'] = new Map();
+  for (const [alias, value] of rawLibraries) {
+    const field = (name: string) => value.match(new RegExp(`\\b${name}\\s*=\\s*"([^"]+)"`))?.[1];
+    let group: string | undefined;
+    let name: string | undefined;
+    let version: string | undefined;
+
+    if (value.startsWith('"')) {
+      [group, name, version] = value.replace(/^"|"$/g, '').split(':');
+    } else {
+      const module = field('module');
+      [group, name] = module ? module.split(':') : [field('group'), field('name')];
+      const ref = value.match(/version\.ref\s*=\s*"([^"]+)"/)?.[1] || value.match(/version\s*=\s*\{\s*ref\s*=\s*"([^"]+)"/)?.[1];
+      version = ref ? versions.get(ref) : value.match(/version\s*=\s*"([^"]+)"/)?.[1] ||
+        value.match(/(?:strictly|require|prefer)\s*=\s*"([^"]+)"/)?.[1];
+    }
+
+    if (group && name) libraries.set(alias, { group, name, version });
+  }
+
+  const bundles: VersionCatalog['bundles'] = new Map();
+  for (const [alias, value] of rawBundles) {
+    bundles.set(alias, Array.from(value.matchAll(/"([^"]+)"/g), match => accessor(match[1])));
+  }
+
+  return { libraries, bundles };
+}
+
+/**
+ * packages.lock.json: resolved versions per target framework
+ */
+export function parseNugetLockfile(content: string, file: string): LockedDependency[] {
+  const lock = JSON.parse(content);
+  const dependencies: LockedDependency[] = [];
+
+  for (const framework of Object.values<any>(lock.dependencies || {})) {
+    for (const [name, pkg] of Object.entries<any>(framework)) {
+      // "Project" entries are other projects in the solution
+      if (pkg.type === 'Project' || !pkg.resolved) continue;
+      dependencies.push({ name, version: pkg.resolved, ecosystem: 'nuget', file });
+    }
+  }
+
+  return dependencies;
+}
+
+/**
+ * SDK-style project files, with central package management (Directory.Packages.props)
+ */
+function parseProjectFile(file: string, repoPath: string, relative: string): LockedDependency[] {
+  const xml = fs.readFileSync(file, 'utf-8').replace(/<!--[\s\S]*?-->/g, '');
+  const properties: Record<string, string> = {};
+  const centralVersions = new Map<string, string>();
+
+  const central = findUpwards(path.dirname(file), repoPath, 'Directory.Packages.props');
+  const buildProps = findUpwards(path.dirname(file), repoPath, 'Directory.Build.props');
+  for (const props of [buildProps, central]) {
+    if (props) Object.assign(properties, readMsbuildProperties(fs.readFileSync(props, 'utf-8')));
+  }
+  Object.assign(properties, readMsbuildProperties(xml));
+
+  const resolve = (value: string | undefined) =>
+    value?.replace(/\$\(([\w.]+)\)/g, (match, name) => properties[name] ?? match).trim();
+
+  if (central) {
+    for (const element of msbuildItems(fs.readFileSync(central, 'utf-8'), 'PackageVersion')) {
+      const version = resolve(element.attributes.Version ?? element.children.Version);
+      if (element.attributes.Include && version) centralVersions.set(element.attributes.Include.toLowerCase(), version);
+    }
+  }
+
+  const dependencies: LockedDependency[] = [];
+  for (const element of msbuildItems(xml, 'PackageReference')) {
+    const name = element.attributes.Include || element.attributes.Update;
+    if (!name) continue;
+    const version = resolve(
+      element.attributes.VersionOverride ?? element.children.VersionOverride ??
+      element.attributes.Version ?? element.children.Version ??
+      centralVersions.get(name.toLowerCase())
+    );
+    if (!isExactVersion(version)) continue;
+    dependencies.push({ name, version: version!, ecosystem: 'nuget', file: relative });
+  }
+
+  return dependencies;
+}
+
+function readMsbuildProperties(xml: string): Record<string, string> {
+  const properties: Record<string, string> = {};
+  for (const group of xmlBlocks(xml, 'PropertyGroup')) {
+    for (const match of group.matchAll(/<([\w.]+)(?:\s[^>]*)?>\s*([^<]*?)\s*<\/\1>/g)) {
+      properties[match[1]] = match[2];
+    }
+  }
+  return properties;
+}
+
+/**
+ * Items such as <PackageReference Include="X" Version="1.0" /> or with <Version> child elements
+ */
+function msbuildItems(xml: string, tag: string): Array<{ attributes: Record<string, string>; children: Record<string, string> }> {
+  const pattern = new RegExp(`<${tag}\\b([^>]*?)(?:/>|>([\\s\\S]*?)</${tag}>)`, 'g');
+  return Array.from(xml.matchAll(pattern), match => {
+    const attributes: Record<string, string> = {};
+    for (const attribute of match[1].matchAll(/([\w.]+)\s*=\s*"([^"]*)"/g)) {
+      attributes[attribute[1]] = attribute[2];
+    }
+    const children: Record<string, string> = {};
+    for (const child of (match[2] || '').matchAll(/<([\w.]+)>\s*([^<]*?)\s*<\/\1>/g)) {
+      children[child[1]] = child[2];
+    }
+    return { attributes, children };
+  });
+}
+
+function findUpwards(dir: string, repoPath: string, name: string): string | undefined {
+  const root = path.resolve(repoPath);
+  for (let current = path.resolve(dir); ; current = path.dirname(current)) {
+    const candidate = path.join(current, name);
+    if (fs.existsSync(candidate)) return candidate;
+    if (current === root || path.dirname(current) === current) return undefined;
+  }
+}
@@ -1,5 +1,5 @@
-import * as fs from 'fs';
-import * as path from 'path';
+import { fileWalker } from './file-walker';
+import { scanCache } from './scan-cache';
 
 export interface CodeMetrics {
   file: string;
@@ -27,6 +27,11 @@ export interface MetricIssue {
   threshold: number;
 }
 
+const CODE_EXTENSIONS = ['.js', '.ts', '.py', '.go', '.java', '.rb', '.php', '.cpp', '.c', '.cs'];
+
+// Bump when metric calculations change so cached results are discarded
+const METRICS_VERSION = '1';
+
 export class CodeMetricsAnalyzer {
   // Thresholds based on industry standards
   private readonly THRESHOLDS = {
@@ -57,82 +62,21 @@ export class CodeMetricsAnalyzer {
    */
   async analyze(repoPath: string = process.cwd()): Promise<CodeMetrics[]> {
     const results: CodeMetrics[] = [];
-    const files = this.findCodeFiles(repoPath);
+    const files = fileWalker
+      .listFiles(repoPath, { extensions: CODE_EXTENSIONS, maxDepth: 5 })
+      .filter(file => !file.name.endsWith('.test.js') && !file.name.endsWith('.spec.ts'));
 
     for (const file of files) {
-      try {
-        const content = fs.readFileSync(file, 'utf-8');
-        const language = this.detectLanguage(file);
-        const metrics = this.calculateMetrics(file, content, language);
-        results.push(metrics);
-      } catch {
-        // Skip files that can't be read
-      }
+      const content = fileWalker.readFile(file.path);
+      if (content === null) continue;
+      results.push(...scanCache.getOrScan(
+        'metrics', file.path, content, () => [this.calculateMetrics(file.path, content, file.language)], METRICS_VERSION
+      ));
     }
 
     return results;
   }
 
-  /**
-   * Find code files to analyze
-   */
-  private findCodeFiles(dir: string): string[] {
-    const files: string[] = [];
-
-    const search = (currentDir: string, depth: number) => {
-      if (depth > 5) return;
-
-      try {
-        const items = fs.readdirSync(currentDir);
-        for (const item of items) {
-          if (item === 'node_modules' || item === '.git' || item === 'vendor' || item === 'dist' || item === 'build') continue;
-
-          const fullPath = path.join(currentDir, item);
-          const stat = fs.statSync(fullPath);
-
-          if (stat.isDirectory()) {
-            search(fullPath, depth + 1);
-          } else if (this.isCodeFile(item)) {
-            files.push(fullPath);
-          }
-        }
-      } catch {
-        // Skip
-      }
-    };
-
-    search(dir, 0);
-    return files;
-  }
-
-  /**
-   * Check if file is a code file
-   */
-  private isCodeFile(filename: string): boolean {
-    const extensions = ['.js', '.ts', '.py', '.go', '.java', '.rb', '.php', '.cpp', '.c', '.cs'];
-    return extensions.some(ext => filename.endsWith(ext)) && !filename.endsWith('.test.js') && !filename.endsWith('.spec.ts');
-  }
-
-  /**
-   * Detect programming language
-   */
-  private detectLanguage(file: string): string {
-    const ext = path.extname(file);
-    const langMap: Record<string, string> = {
-      '.js': 'javascript',
-      '.ts': 'typescript',
-      '.py': 'python',
-      '.go': 'go',
-      '.java': 'java',
-      '.rb': 'ruby',
-      '.php': 'php',
-      '.cpp': 'cpp',
-      '.c': 'c',
-      '.cs': 'csharp',
-    };
-    return langMap[ext] || 'unknown';
-  }
-
   /**
    * Calculate all metrics for a file
    */
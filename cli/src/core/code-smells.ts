@@ -1,6 +1,7 @@
-import * as fs from 'fs';
 import * as path from 'path';
 import * as crypto from 'crypto';
+import { fileWalker } from './file-walker';
+import { scanCache } from './scan-cache';
 
 export interface CodeSmell {
   type: string;
@@ -12,103 +13,56 @@ export interface CodeSmell {
   details?: any;
 }
 
+const CODE_EXTENSIONS = ['.js', '.ts', '.py', '.go', '.java', '.rb', '.php'];
+
+// Bump when any smell check changes so cached results are discarded
+const SMELL_RULES_VERSION = '1';
+
 export class CodeSmellDetector {
   /**
    * Detect code smells in repository
    */
   async detect(repoPath: string = process.cwd()): Promise<CodeSmell[]> {
     const smells: CodeSmell[] = [];
-    const files = this.findCodeFiles(repoPath);
+    const files = fileWalker.listFiles(repoPath, { extensions: CODE_EXTENSIONS, maxDepth: 5 });
 
     // Build content map for duplicate detection
     const fileContents = new Map<string, string>();
     for (const file of files) {
-      try {
-        fileContents.set(file, fs.readFileSync(file, 'utf-8'));
-      } catch {
-        // Skip
+      const content = fileWalker.readFile(file.path);
+      if (content !== null) {
+        fileContents.set(file.path, content);
       }
     }
 
-    // Detect duplicates across files
-    smells.push(...this.detectDuplicateCode(fileContents));
+    // Detect duplicates across files (cached against the whole file set)
+    smells.push(...scanCache.getOrScanProject(
+      'smells:duplicates', fileContents, () => this.detectDuplicateCode(fileContents), SMELL_RULES_VERSION
+    ));
 
     // Detect smells in individual files
     for (const [file, content] of fileContents) {
-      const language = this.detectLanguage(file);
-
-      smells.push(...this.detectDeadCode(file, content, language));
-      smells.push(...this.detectGodObjects(file, content, language));
-      smells.push(...this.detectLongParameterList(file, content, language));
-      smells.push(...this.detectMagicNumbers(file, content, language));
-      smells.push(...this.detectCommentedCode(file, content, language));
-      smells.push(...this.detectEmptyCatchBlocks(file, content, language));
-      smells.push(...this.detectTooManyReturns(file, content, language));
+      const language = fileWalker.getLanguage(file);
+
+      smells.push(...scanCache.getOrScan('smells', file, content, () => [
+        ...this.detectDeadCode(file, content, language),
+        ...this.detectGodObjects(file, content, language),
+        ...this.detectLongParameterList(file, content, language),
+        ...this.detectMagicNumbers(file, content, language),
+        ...this.detectCommentedCode(file, content, language),
+        ...this.detectEmptyCatchBlocks(file, content, language),
+        ...this.detectTooManyReturns(file, content, language),
+      ], SMELL_RULES_VERSION));
     }
 
     // Detect circular dependencies (needs multiple files)
-    smells.push(...this.detectCircularDependencies(fileContents));
+    smells.push(...scanCache.getOrScanProject(
+      'smells:circular', fileContents, () => this.detectCircularDependencies(fileContents), SMELL_RULES_VERSION
+    ));
 
     return smells;
   }
 
-  /**
-   * Find code files to analyze
-   */
-  private findCodeFiles(dir: string): string[] {
-    const files: string[] = [];
-
-    const search = (currentDir: string, depth: number) => {
-      if (depth > 5) return;
-
-      try {
-        const items = fs.readdirSync(currentDir);
-        for (const item of items) {
-          if (item === 'node_modules' || item === '.git' || item === 'vendor' || item === 'dist') continue;
-
-          const fullPath = path.join(currentDir, item);
-          const stat = fs.statSync(fullPath);
-
-          if (stat.isDirectory()) {
-            search(fullPath, depth + 1);
-          } else if (this.isCodeFile(item)) {
-            files.push(fullPath);
-          }
-        }
-      } catch {
-        // Skip
-      }
-    };
-
-    search(dir, 0);
-    return files;
-  }
-
-  /**
-   * Check if file is a code file
-   */
-  private isCodeFile(filename: string): boolean {
-    const extensions = ['.js', '.ts', '.py', '.go', '.java', '.rb', '.php'];
-    return extensions.some(ext => filename.endsWith(ext));
-  }
-
-  /**
-   * Detect programming language
-   */
-  private detectLanguage(file: string): string {
-    const ext = path.extname(file);
-    const langMap: Record<string, string> = {
-      '.js': 'javascript',
-      '.ts': 'typescript',
-      '.py': 'python',
-      '.go': 'go',
-      '.java': 'java',
-      '.rb': 'ruby',
-      '.php': 'php',
-    };
-    return langMap[ext] || 'unknown';
-  }
-
   /**
    * Detect duplicate code blocks
    * Uses hash-based similarity detection
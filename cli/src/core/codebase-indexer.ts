@@ -6,6 +6,7 @@ import {
   ParsedFile,
   ParsedFunction,
   ParsedClass,
+  ModuleCall,
 } from "./ast-parser";
 import { configManager } from "./config";
 
@@ -64,6 +65,7 @@ export interface FileIndex {
   classes: string[]; // Symbol IDs
   imports: string[];
   exports: string[];
+  moduleCalls?: ModuleCall[]; // Missing from indexes saved by older versions
   parsed?: ParsedFile; // Optional: full parsed data (lazy loaded)
 }
 
@@ -350,6 +352,34 @@ export class CodebaseIndexer {
       }
     }
 
+    // Class methods
+    for (const cls of index.classes.values()) {
+      for (const method of cls.methods) {
+        if (method.dependencies.includes(symbolName)) {
+          references.push({
+            symbol: symbolName,
+            file: method.file,
+            line: method.line,
+            context: `Called in ${cls.name}.${method.name}()`,
+          });
+        }
+      }
+    }
+
+    // Calls outside functions and methods
+    for (const fileIndex of index.files.values()) {
+      for (const call of fileIndex.moduleCalls || []) {
+        if (call.name === symbolName) {
+          references.push({
+            symbol: symbolName,
+            file: fileIndex.path,
+            line: call.line,
+            context: "Called outside any function",
+          });
+        }
+      }
+    }
+
     return references;
   }
 
@@ -422,6 +452,7 @@ export class CodebaseIndexer {
       classes: [],
       imports: parsed.imports.map((imp) => imp.module),
       exports: parsed.exports.map((exp) => exp.name),
+      moduleCalls: parsed.moduleCalls,
     };
 
     // Add functions to index
@@ -1,5 +1,5 @@
-import * as fs from 'fs';
-import * as path from 'path';
+import { fileWalker } from './file-walker';
+import { scanCache } from './scan-cache';
 
 export interface ComplianceViolation {
   standard: 'GDPR' | 'HIPAA' | 'PCI-DSS' | 'SOC2' | 'General';
@@ -22,28 +22,35 @@ export interface ComplianceReport {
   low: number;
 }
 
+const CODE_EXTENSIONS = ['.js', '.ts', '.py', '.go', '.java', '.rb', '.php', '.sql', '.yaml', '.json'];
+
+// Bump when any compliance check changes so cached results are discarded
+const COMPLIANCE_RULES_VERSION = '1';
+
 export class ComplianceChecker {
   /**
-   * Run compliance checks
+   * Run compliance checks (all frameworks unless a subset is given)
    */
-  async check(repoPath: string = process.cwd()): Promise<ComplianceReport[]> {
+  async check(
+    repoPath: string = process.cwd(),
+    frameworks: Array<'GDPR' | 'HIPAA' | 'PCI-DSS' | 'SOC2'> = ['GDPR', 'HIPAA', 'PCI-DSS', 'SOC2']
+  ): Promise<ComplianceReport[]> {
     const reports: ComplianceReport[] = [];
 
-    const files = this.findCodeFiles(repoPath);
+    const files = fileWalker.listFiles(repoPath, { extensions: CODE_EXTENSIONS, maxDepth: 5 });
     const violations: ComplianceViolation[] = [];
 
-    for (const file of files) {
-      try {
-        const content = fs.readFileSync(file, 'utf-8');
-        const language = this.detectLanguage(file);
-
-        violations.push(...this.checkGDPR(file, content, language));
-        violations.push(...this.checkHIPAA(file, content, language));
-        violations.push(...this.checkPCIDSS(file, content, language));
-        violations.push(...this.checkSOC2(file, content, language));
-      } catch {
-        // Skip files that can't be read
-      }
+    for (const { path: file, language } of files) {
+      const content = fileWalker.readFile(file);
+      if (content === null) continue;
+
+      // The selected frameworks are part of the version: a different selection is a different result
+      violations.push(...scanCache.getOrScan('compliance', file, content, () => [
+        ...(frameworks.includes('GDPR') ? this.checkGDPR(file, content, language) : []),
+        ...(frameworks.includes('HIPAA') ? this.checkHIPAA(file, content, language) : []),
+        ...(frameworks.includes('PCI-DSS') ? this.checkPCIDSS(file, content, language) : []),
+        ...(frameworks.includes('SOC2') ? this.checkSOC2(file, content, language) : []),
+      ], `${COMPLIANCE_RULES_VERSION}:${[...frameworks].sort().join(',')}`));
     }
 
     // Group by standard
@@ -72,66 +79,6 @@ export class ComplianceChecker {
     return reports;
   }
 
-  /**
-   * Find code files
-   */
-  private findCodeFiles(dir: string): string[] {
-    const files: string[] = [];
-
-    const search = (currentDir: string, depth: number) => {
-      if (depth > 5) return;
-
-      try {
-        const items = fs.readdirSync(currentDir);
-        for (const item of items) {
-          if (item === 'node_modules' || item === '.git' || item === 'vendor') continue;
-
-          const fullPath = path.join(currentDir, item);
-          const stat = fs.statSync(fullPath);
-
-          if (stat.isDirectory()) {
-            search(fullPath, depth + 1);
-          } else if (this.isCodeFile(item)) {
-            files.push(fullPath);
-          }
-        }
-      } catch {
-        // Skip
-      }
-    };
-
-    search(dir, 0);
-    return files;
-  }
-
-  /**
-   * Check if file is a code file
-   */
-  private isCodeFile(filename: string): boolean {
-    const extensions = ['.js', '.ts', '.py', '.go', '.java', '.rb', '.php', '.sql', '.yaml', '.json'];
-    return extensions.some(ext => filename.endsWith(ext));
-  }
-
-  /**
-   * Detect programming language
-   */
-  private detectLanguage(file: string): string {
-    const ext = path.extname(file);
-    const langMap: Record<string, string> = {
-      '.js': 'javascript',
-      '.ts': 'typescript',
-      '.py': 'python',
-      '.go': 'go',
-      '.java': 'java',
-      '.rb': 'ruby',
-      '.php': 'php',
-      '.sql': 'sql',
-      '.yaml': 'yaml',
-      '.json': 'json',
-    };
-    return langMap[ext] || 'unknown';
-  }
-
   /**
    * Check GDPR compliance
    * General Data Protection Regulation (EU)
@@ -0,0 +1,226 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { LicenseFinding } from './license-scanner';
+import { SbomInventoryOptions, collectSbomInventory, isSpdxExpression, isUnknownLicense } from './sbom-inventory';
+import { validateJsonSchema } from './json-schema';
+import cycloneDxSchema from '../schemas/bom-1.5.schema.json';
+import jsfSchema from '../schemas/jsf-0.82.schema.json';
+import spdxSchema from '../schemas/spdx.schema.json';
+
+const packageJson = require('../../package.json');
+
+export const CYCLONEDX_SPEC_VERSION = '1.5';
+const CYCLONEDX_SCHEMA_URL = 'http://cyclonedx.org/schema/bom-1.5.schema.json';
+const CYCLONEDX_XML_NAMESPACE = 'http://cyclonedx.org/schema/bom/1.5';
+
+export interface CycloneDxHash {
+  alg: string;
+  content: string;
+}
+
+export type CycloneDxLicenseChoice =
+  | Array<{ license: { id?: string; name?: string } }>
+  | [{ expression: string }];
+
+export interface CycloneDxComponent {
+  type: 'application' | 'library';
+  'bom-ref': string;
+  group?: string;
+  name: string;
+  version?: string;
+  scope?: 'required' | 'optional';
+  hashes?: CycloneDxHash[];
+  licenses?: CycloneDxLicenseChoice;
+  purl?: string;
+}
+
+export interface CycloneDxDependency {
+  ref: string;
+  dependsOn?: string[];
+}
+
+export interface CycloneDxBom {
+  $schema: string;
+  bomFormat: 'CycloneDX';
+  specVersion: string;
+  serialNumber: string;
+  version: number;
+  metadata: {
+    timestamp: string;
+    tools: { components: Array<{ type: 'application'; name: string; version: string }> };
+    component: CycloneDxComponent;
+  };
+  components: CycloneDxComponent[];
+  dependencies: CycloneDxDependency[];
+}
+
+/**
+ * Build a CycloneDX 1.5 BOM. Components are keyed (and referenced) by purl;
+ * packages from lockfiles without a graph get no `dependencies` entry.
+ */
+export function buildCycloneDxBom(options: SbomInventoryOptions & { projectName: string }): CycloneDxBom {
+  const inventory = collectSbomInventory(options);
+  const root = projectComponent(options.repoPath, options.projectName);
+
+  const components: CycloneDxComponent[] = inventory.packages.map(pkg => ({
+    type: 'library',
+    'bom-ref': pkg.purl,
+    ...splitGroup(pkg.source, pkg.name),
+    version: pkg.version,
+    ...(pkg.dev !== undefined ? { scope: pkg.dev ? 'optional' : 'required' } : {}),
+    ...(pkg.hashes.length ? { hashes: pkg.hashes.map(hash => ({ alg: hash.algorithm, content: hash.content })) } : {}),
+    ...licenseChoice(pkg.license),
+    purl: pkg.purl,
+  }));
+
+  return {
+    $schema: CYCLONEDX_SCHEMA_URL,
+    bomFormat: 'CycloneDX',
+    specVersion: CYCLONEDX_SPEC_VERSION,
+    serialNumber: `urn:uuid:${uuidv4()}`,
+    version: 1,
+    metadata: {
+      timestamp: new Date().toISOString(),
+      tools: { components: [{ type: 'application', name: 'guardscan', version: packageJson.version }] },
+      component: root,
+    },
+    components,
+    dependencies: [
+      { ref: root['bom-ref'], dependsOn: Array.from(inventory.direct).sort() },
+      ...inventory.packages
+        .filter(pkg => pkg.inGraph)
+        .map(pkg => ({ ref: pkg.purl, dependsOn: Array.from(pkg.dependsOn).sort() })),
+    ],
+  };
+}
+
+/**
+ * Check a BOM against the official CycloneDX 1.5 JSON schema and its reference rules
+ */
+export function validateCycloneDxBom(bom: unknown): string[] {
+  const errors = validateJsonSchema(cycloneDxSchema, bom, [spdxSchema, jsfSchema]);
+  if (errors.length > 0) return errors;
+
+  const document = bom as CycloneDxBom;
+  const refs = new Set<string>();
+  for (const component of [document.metadata?.component, ...(document.components || [])]) {
+    const ref = component?.['bom-ref'];
+    if (!ref) continue;
+    if (refs.has(ref)) errors.push(`bom-ref "${ref}" is not unique`);
+    refs.add(ref);
+  }
+  for (const dependency of document.dependencies || []) {
+    for (const ref of [dependency.ref, ...(dependency.dependsOn || [])]) {
+      if (!refs.has(ref)) errors.push(`dependencies reference unknown bom-ref "${ref}"`);
+    }
+  }
+  return errors;
+}
+
+/**
+ * Serialize a BOM as CycloneDX 1.5 XML (elements in XSD order)
+ */
+export function cycloneDxToXml(bom: CycloneDxBom): string {
+  const lines: string[] = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<bom xmlns="${CYCLONEDX_XML_NAMESPACE}" serialNumber="${escapeXml(bom.serialNumber)}" version="${bom.version}">`,
+    '  <metadata>',
+    `    <timestamp>${escapeXml(bom.metadata.timestamp)}</timestamp>`,
+    '    <tools>',
+    '      <components>',
+    ...bom.metadata.tools.components.flatMap(tool => [
+      `        <component type="${tool.type}">`,
+      `          <name>${escapeXml(tool.name)}</name>`,
+      `          <version>${escapeXml(tool.version)}</version>`,
+      '        </component>',
+    ]),
+    '      </components>',
+    '    </tools>',
+    ...componentXml(bom.metadata.component, '    '),
+    '  </metadata>',
+    '  <components>',
+    ...bom.components.flatMap(component => componentXml(component, '    ')),
+    '  </components>',
+    '  <dependencies>',
+    ...bom.dependencies.flatMap(dependency => dependency.dependsOn?.length
+      ? [
+        `    <dependency ref="${escapeXml(dependency.ref)}">`,
+        ...dependency.dependsOn.map(ref => `      <dependency ref="${escapeXml(ref)}"/>`),
+        '    </dependency>',
+      ]
+      : [`    <dependency ref="${escapeXml(dependency.ref)}"/>`]),
+    '  </dependencies>',
+    '</bom>',
+  ];
+  return lines.join('\n') + '\n';
+}
+
+function componentXml(component: CycloneDxComponent, indent: string): string[] {
+  const inner = `${indent}  `;
+  const element = (name: string, value?: string) => (value !== undefined ? [`${inner}<${name}>${escapeXml(value)}</${name}>`] : []);
+  const lines = [`${indent}<component type="${component.type}" bom-ref="${escapeXml(component['bom-ref'])}">`];
+
+  lines.push(...element('group', component.group), ...element('name', component.name), ...element('version', component.version));
+  lines.push(...element('scope', component.scope));
+  if (component.hashes?.length) {
+    lines.push(`${inner}<hashes>`);
+    lines.push(...component.hashes.map(hash => `${inner}  <hash alg="${hash.alg}">${hash.content}</hash>`));
+    lines.push(`${inner}</hashes>`);
+  }
+  if (component.licenses?.length) {
+    lines.push(`${inner}<licenses>`);
+    for (const choice of component.licenses) {
+      if ('expression' in choice) {
+        lines.push(`${inner}  <expression>${escapeXml(choice.expression)}</expression>`);
+      } else {
+        const license = choice.license;
+        lines.push(`${inner}  <license>${license.id ? `<id>${escapeXml(license.id)}</id>` : `<name>${escapeXml(license.name || '')}</name>`}</license>`);
+      }
+    }
+    lines.push(`${inner}</licenses>`);
+  }
+  lines.push(...element('purl', component.purl));
+  lines.push(`${indent}</component>`);
+  return lines;
+}
+
+/**
+ * The scanned repository, named and versioned from its manifest when there is one
+ */
+function projectComponent(repoPath: string, projectName: string): CycloneDxComponent {
+  let version: string | undefined;
+  const manifestPath = path.join(repoPath, 'package.json');
+  if (fs.existsSync(manifestPath)) {
+    try {
+      const manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf-8'));
+      if (typeof manifest.version === 'string') version = manifest.version;
+    } catch {
+      // Unreadable manifest: leave the version out
+    }
+  }
+  return { type: 'application', 'bom-ref': projectName, name: projectName, ...(version ? { version } : {}) };
+}
+
+/**
+ * CycloneDX keeps npm scopes, Maven groups and Composer vendors in `group`
+ */
+function splitGroup(source: LicenseFinding['source'], name: string): { group?: string; name: string } {
+  const separator = source === 'maven' ? name.indexOf(':') : (source === 'npm' && name.startsWith('@')) || source === 'composer' ? name.indexOf('/') : -1;
+  return separator > 0 ? { group: name.slice(0, separator), name: name.slice(separator + 1) } : { name };
+}
+
+/**
+ * SPDX expressions go in `expression`; anything else is kept as a license name
+ */
+function licenseChoice(license: string | undefined): { licenses?: CycloneDxLicenseChoice } {
+  if (!license || isUnknownLicense(license)) return {};
+  const value = license.trim();
+  return isSpdxExpression(value)
+    ? { licenses: [{ expression: value }] }
+    : { licenses: [{ license: { name: value } }] };
+}
+
+function escapeXml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+}
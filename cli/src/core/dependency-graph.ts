@@ -0,0 +1,734 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as semver from 'semver';
+import yaml from 'js-yaml';
+import { DependencyEcosystem, SUPPORTED_LOCKFILES, parsePnpmPackageKey } from './lockfile-parser';
+import { compareVersions } from './version-ranges';
+import { normalizePackageName } from './vuln-db';
+
+/**
+ * One resolved package version in a lockfile's dependency graph
+ */
+export interface PackageNode {
+  id: string; // name@version
+  name: string;
+  version: string;
+  dev?: boolean;
+  dependencies: PackageEdge[];
+  hashes?: PackageHash[]; // Archive digests from the lockfile's integrity/checksum fields
+}
+
+/**
+ * A lockfile-recorded digest, hex encoded
+ */
+export interface PackageHash {
+  algorithm: 'SHA-1' | 'SHA-256' | 'SHA-384' | 'SHA-512';
+  content: string;
+}
+
+/**
+ * A resolved dependency, with the range the dependent declared when the lockfile records it
+ */
+export interface PackageEdge {
+  id: string;
+  range?: string;
+}
+
+const MAX_PATH_SEARCH = 20000;
+
+/**
+ * Dependency Tree
+ *
+ * The resolved dependency graph of one lockfile: which package versions are
+ * installed, which ones the project depends on directly, and what each
+ * version pulls in. Cycles are allowed; paths never revisit a node.
+ */
+export class DependencyTree {
+  readonly nodes: Map<string, PackageNode> = new Map();
+  readonly direct: PackageEdge[] = [];
+  private dependents: Map<string, Set<string>> | null = null;
+
+  constructor(
+    readonly file: string,
+    readonly ecosystem: DependencyEcosystem,
+    public rootName: string
+  ) {}
+
+  addNode(name: string, version: string, dev?: boolean): PackageNode {
+    const id = `${name}@${version}`;
+    let node = this.nodes.get(id);
+    if (!node) {
+      node = { id, name, version, dependencies: [] };
+      this.nodes.set(id, node);
+    }
+    // A version reached from both prod and dev counts as prod
+    if (dev !== undefined) node.dev = node.dev === undefined ? dev : node.dev && dev;
+    return node;
+  }
+
+  /**
+   * Record an archive digest for a node, ignoring duplicates
+   */
+  addHash(node: PackageNode, hash: PackageHash | undefined): void {
+    if (!hash || !/^[0-9a-f]+$/.test(hash.content)) return;
+    node.hashes = node.hashes || [];
+    if (!node.hashes.some(existing => existing.algorithm === hash.algorithm)) {
+      node.hashes.push(hash);
+    }
+  }
+
+  /**
+   * Add an edge; a null parent is the project itself
+   */
+  addEdge(from: PackageNode | null, to: PackageNode, range?: string): void {
+    const edges = from ? from.dependencies : this.direct;
+    if (from === to || edges.some(edge => edge.id === to.id)) return;
+    edges.push(range ? { id: to.id, range } : { id: to.id });
+    this.dependents = null;
+  }
+
+  /**
+   * Without a manifest to say what is direct, treat packages nothing depends on as direct
+   */
+  inferDirectDependencies(): void {
+    if (this.direct.length > 0) return;
+    const required = new Set(Array.from(this.nodes.values()).flatMap(node => node.dependencies.map(edge => edge.id)));
+    for (const node of this.nodes.values()) {
+      if (!required.has(node.id)) this.direct.push({ id: node.id });
+    }
+  }
+
+  /**
+   * Installed versions of a package, lowest first
+   */
+  find(name: string, version?: string): PackageNode[] {
+    const key = normalizePackageName(this.ecosystem, name);
+    return Array.from(this.nodes.values())
+      .filter(node => normalizePackageName(this.ecosystem, node.name) === key && (!version || node.version === version))
+      .sort((a, b) => compareVersions(this.ecosystem, a.version, b.version));
+  }
+
+  isDirect(id: string): boolean {
+    return this.direct.some(edge => edge.id === id);
+  }
+
+  /**
+   * Shortest dependency chains from a direct dependency down to the node, shortest first
+   */
+  paths(id: string, limit: number = 10): PackageNode[][] {
+    const target = this.nodes.get(id);
+    if (!target) return [];
+
+    const dependents = this.getDependents();
+    const found: PackageNode[][] = [];
+    // Breadth-first from the target up towards the project, so shorter chains come out first
+    let queue: PackageNode[][] = [[target]];
+    let expanded = 0;
+
+    while (queue.length > 0 && found.length < limit && expanded < MAX_PATH_SEARCH) {
+      const next: PackageNode[][] = [];
+      for (const chain of queue) {
+        expanded++;
+        const top = chain[0];
+        if (this.isDirect(top.id)) {
+          found.push(chain);
+          if (found.length >= limit) break;
+        }
+        for (const parentId of dependents.get(top.id) || []) {
+          const parent = this.nodes.get(parentId)!;
+          if (!chain.includes(parent)) next.push([parent, ...chain]);
+        }
+      }
+      queue = next;
+    }
+
+    return found;
+  }
+
+  /**
+   * Range a package declares for a dependency; null parent is the project
+   */
+  declaredRange(parent: PackageNode | null, childId: string): string | undefined {
+    return (parent ? parent.dependencies : this.direct).find(edge => edge.id === childId)?.range;
+  }
+
+  private getDependents(): Map<string, Set<string>> {
+    if (!this.dependents) {
+      this.dependents = new Map();
+      for (const node of this.nodes.values()) {
+        for (const edge of node.dependencies) {
+          if (!this.dependents.has(edge.id)) this.dependents.set(edge.id, new Set());
+          this.dependents.get(edge.id)!.add(node.id);
+        }
+      }
+    }
+    return this.dependents;
+  }
+}
+
+/**
+ * "app → a@1.0.0 → b@2.0.0 → vuln@3.0.0"
+ */
+export function formatDependencyPath(tree: DependencyTree, chain: PackageNode[]): string {
+  return [tree.rootName, ...chain.map(node => node.id)].join(' → ');
+}
+
+/**
+ * Upgrade that removes a vulnerable version from one dependency chain.
+ *
+ * Works bottom-up using only what the lockfile records: if a package's
+ * declared range already admits a fixed version below it, refreshing the
+ * lockfile is enough; otherwise look for a newer locally installed version of
+ * that package whose own dependencies resolve to a fixed version, and repeat
+ * one level up until the direct dependency is reached.
+ */
+export function recommendUpgrade(tree: DependencyTree, chain: PackageNode[], fixedVersions: string[]): string | undefined {
+  const vulnerable = chain[chain.length - 1];
+  const eco = tree.ecosystem;
+  const fixes = fixedVersions
+    .filter(v => compareVersions(eco, v, vulnerable.version) > 0)
+    .sort((a, b) => compareVersions(eco, a, b));
+  if (fixes.length === 0) return undefined;
+
+  const isFixed = (version: string) => compareVersions(eco, version, fixes[0]) >= 0;
+  // Versions of chain[level] known to lead to a fixed version of the vulnerable package
+  let candidates: Array<{ version: string; via: string }> = fixes.map(version => ({ version, via: `${vulnerable.name}@${version}` }));
+
+  for (let level = chain.length - 2; level >= -1; level--) {
+    const child = chain[level + 1];
+    const parent = level >= 0 ? chain[level] : null;
+    const range = tree.declaredRange(parent, child.id);
+    const allowed = range ? candidates.find(c => satisfiesRange(eco, c.version, range)) : undefined;
+
+    if (allowed) {
+      const owner = parent ? `${parent.id} allows it (${range})` : `the declared range ${range} allows it`;
+      return `Update ${child.name} to ${allowed.version}; ${owner}, so a lockfile refresh is enough`;
+    }
+    if (!parent) {
+      // A direct dependency outside its declared range keeps the plain "Update to" advice
+      if (chain.length === 1) return undefined;
+      const best = candidates[0];
+      return `Upgrade direct dependency ${child.name} to ${best.version} (pulls in ${best.via})`;
+    }
+
+    // Newer installed copies of the parent whose chain below resolves to a fixed version
+    const below = chain.slice(level + 1).map(node => node.name);
+    candidates = tree.find(parent.name)
+      .filter(node => compareVersions(eco, node.version, parent.version) > 0)
+      .map(node => ({ node, resolved: followChain(tree, node, below) }))
+      .filter(({ resolved }) => resolved !== null && isFixed(resolved[resolved.length - 1].version))
+      .map(({ node, resolved }) => ({ version: node.version, via: [node, ...resolved!].map(n => n.id).join(' → ') }));
+
+    if (candidates.length === 0) {
+      return `Update ${vulnerable.name} to ${fixes[0]}; no installed version of ${parent.name} pulls it in, so upgrade ${chain[0].name} or override ${vulnerable.name}`;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Follow resolved dependencies by name, e.g. from a@2.0.0 through ["b", "vuln"]
+ */
+function followChain(tree: DependencyTree, from: PackageNode, names: string[]): PackageNode[] | null {
+  const chain: PackageNode[] = [];
+  let current = from;
+  for (const name of names) {
+    const next = current.dependencies.map(edge => tree.nodes.get(edge.id)).find(node => node?.name === name);
+    if (!next) return null;
+    chain.push(next);
+    current = next;
+  }
+  return chain;
+}
+
+/**
+ * Range checks need the ecosystem's range grammar; only npm (semver) is understood
+ */
+function satisfiesRange(ecosystem: DependencyEcosystem, version: string, range: string): boolean {
+  if (ecosystem !== 'npm') return false;
+  try {
+    return semver.satisfies(version, range, { loose: true });
+  } catch {
+    return false;
+  }
+}
+
+const SRI_ALGORITHMS: Record<string, PackageHash['algorithm']> = {
+  sha1: 'SHA-1',
+  sha256: 'SHA-256',
+  sha384: 'SHA-384',
+  sha512: 'SHA-512',
+};
+
+/**
+ * Subresource Integrity strings ("sha512-<base64> sha1-<base64>") as hex digests
+ */
+export function parseIntegrity(integrity: unknown): PackageHash[] {
+  if (typeof integrity !== 'string') return [];
+  return integrity.trim().split(/\s+/).flatMap(entry => {
+    const match = entry.match(/^(sha1|sha256|sha384|sha512)-([A-Za-z0-9+/=]+)/);
+    if (!match) return [];
+    return [{ algorithm: SRI_ALGORITHMS[match[1]], content: Buffer.from(match[2], 'base64').toString('hex') }];
+  });
+}
+
+type TreeBuilder = (tree: DependencyTree, content: string, manifest: any) => void;
+
+/**
+ * Lockfiles that record the dependency graph; go.sum and Pipfile.lock only list versions
+ */
+const TREE_BUILDERS: Record<string, { ecosystem: DependencyEcosystem; manifest?: string; build: TreeBuilder }> = {
+  'package-lock.json': { ecosystem: 'npm', manifest: 'package.json', build: buildPackageLockTree },
+  'yarn.lock': { ecosystem: 'npm', manifest: 'package.json', build: buildYarnTree },
+  'pnpm-lock.yaml': { ecosystem: 'npm', build: buildPnpmTree },
+  'poetry.lock': { ecosystem: 'pip', build: buildPoetryTree },
+  'Cargo.lock': { ecosystem: 'cargo', build: buildCargoTree },
+  'Gemfile.lock': { ecosystem: 'ruby', build: buildGemfileTree },
+  'composer.lock': { ecosystem: 'composer', manifest: 'composer.json', build: buildComposerTree },
+};
+
+/**
+ * Dependency trees for every lockfile in the repository root that records one
+ */
+export function buildDependencyTrees(repoPath: string): DependencyTree[] {
+  const trees: DependencyTree[] = [];
+
+  for (const lockfile of SUPPORTED_LOCKFILES) {
+    const fullPath = path.join(repoPath, lockfile);
+    if (!TREE_BUILDERS[lockfile] || !fs.existsSync(fullPath)) continue;
+
+    try {
+      const manifestFile = TREE_BUILDERS[lockfile].manifest;
+      const manifestPath = manifestFile ? path.join(repoPath, manifestFile) : undefined;
+      const manifest = manifestPath && fs.existsSync(manifestPath)
+        ? JSON.parse(fs.readFileSync(manifestPath, 'utf-8'))
+        : undefined;
+      trees.push(buildDependencyTree(lockfile, fs.readFileSync(fullPath, 'utf-8'), manifest, path.basename(repoPath)));
+    } catch (error) {
+      console.warn(`Warning: Failed to read the dependency graph from ${lockfile}:`, (error as Error).message);
+    }
+  }
+
+  return trees;
+}
+
+/**
+ * Build the tree for one lockfile; `manifest` is the parsed package.json/composer.json, when there is one
+ */
+export function buildDependencyTree(lockfile: string, content: string, manifest?: any, projectName: string = 'project'): DependencyTree {
+  const builder = TREE_BUILDERS[path.basename(lockfile)];
+  if (!builder) {
+    throw new Error(`Lockfile has no dependency graph: ${lockfile}`);
+  }
+
+  const tree = new DependencyTree(lockfile, builder.ecosystem, manifest?.name || projectName);
+  builder.build(tree, content, manifest);
+  tree.inferDirectDependencies();
+  return tree;
+}
+
+const manifestDependencies = (manifest: any, sections: string[]): Array<[string, string]> =>
+  sections.flatMap(section => Object.entries<string>(manifest?.[section] || {}));
+
+/**
+ * package-lock.json v2/v3 resolve through node_modules paths; v1 through nested "dependencies"
+ */
+function buildPackageLockTree(tree: DependencyTree, content: string, manifest: any): void {
+  const lock = JSON.parse(content);
+  const rootSections = ['dependencies', 'devDependencies', 'optionalDependencies'];
+  if (!manifest?.name && lock.name) tree.rootName = lock.name;
+
+  if (!lock.packages) {
+    buildPackageLockV1Tree(tree, lock, manifest);
+    return;
+  }
+
+  const packages: Record<string, any> = lock.packages;
+  const nodes = new Map<string, PackageNode>();
+
+  const keyFor = (key: string): string => (packages[key]?.link ? packages[key].resolved : key);
+  const nodeFor = (key: string): PackageNode | null => {
+    const realKey = keyFor(key);
+    const pkg = packages[realKey];
+    if (!pkg || realKey === '') return null;
+    let node = nodes.get(realKey);
+    if (!node) {
+      const marker = realKey.lastIndexOf('node_modules/');
+      const name = pkg.name || (marker === -1 ? path.basename(realKey) : realKey.slice(marker + 'node_modules/'.length));
+      node = tree.addNode(name, pkg.version || '0.0.0', marker === -1 ? false : !!pkg.dev);
+      parseIntegrity(pkg.integrity).forEach(hash => tree.addHash(node!, hash));
+      nodes.set(realKey, node);
+    }
+    return node;
+  };
+  // Node resolution: look in the package's own node_modules, then each enclosing one
+  const resolve = (fromKey: string, name: string): string | null => {
+    let base = fromKey;
+    for (;;) {
+      const candidate = `${base ? `${base}/` : ''}node_modules/${name}`;
+      if (packages[candidate]) return candidate;
+      if (!base) return null;
+      const parent = base.lastIndexOf('/node_modules/');
+      base = parent === -1 ? '' : base.slice(0, parent);
+    }
+  };
+
+  const addEdges = (key: string, from: PackageNode | null, declared: Array<[string, string]>) => {
+    for (const [name, range] of declared) {
+      const resolved = resolve(key, name);
+      const to = resolved ? nodeFor(resolved) : null;
+      if (to) tree.addEdge(from, to, range);
+    }
+  };
+
+  addEdges('', null, manifestDependencies(packages[''] || manifest, rootSections));
+  for (const [key, pkg] of Object.entries<any>(packages)) {
+    const from = key === '' || pkg.link ? null : nodeFor(key);
+    if (!from) continue;
+    // Workspace packages declare devDependencies too; installed packages only ship their runtime ones
+    const sections = key.includes('node_modules/')
+      ? ['dependencies', 'optionalDependencies', 'peerDependencies']
+      : rootSections;
+    addEdges(key, from, manifestDependencies(pkg, sections));
+  }
+
+  // Workspace packages are part of the project
+  for (const key of Object.keys(packages)) {
+    if (key !== '' && !key.includes('node_modules/')) {
+      const workspace = nodeFor(key);
+      if (workspace) tree.addEdge(null, workspace);
+    }
+  }
+}
+
+function buildPackageLockV1Tree(tree: DependencyTree, lock: any, manifest: any): void {
+  const addNodes = (deps: Record<string, any> = {}, scopes: Array<Record<string, any>>) => {
+    const scope = [deps, ...scopes];
+    for (const [name, dep] of Object.entries<any>(deps)) {
+      if (!dep.version || /^(file|link|git\+?|github):/.test(dep.version)) continue;
+      const node = tree.addNode(name, dep.version, !!dep.dev);
+      parseIntegrity(dep.integrity).forEach(hash => tree.addHash(node, hash));
+      const ownScope = dep.dependencies ? [dep.dependencies, ...scope] : scope;
+      for (const [required, range] of Object.entries<string>(dep.requires || {})) {
+        const match = ownScope.find(s => s[required]?.version)?.[required];
+        if (match) tree.addEdge(node, tree.addNode(required, match.version, !!match.dev), range);
+      }
+      addNodes(dep.dependencies, scope);
+    }
+  };
+  addNodes(lock.dependencies, []);
+
+  for (const [name, range] of manifestDependencies(manifest, ['dependencies', 'devDependencies', 'optionalDependencies'])) {
+    const dep = lock.dependencies?.[name];
+    if (dep?.version) tree.addEdge(null, tree.addNode(name, dep.version, !!dep.dev), range);
+  }
+}
+
+/**
+ * yarn.lock entries keyed by every "name@range" spec that resolved to them (classic and Berry)
+ */
+function buildYarnTree(tree: DependencyTree, content: string, manifest: any): void {
+  interface YarnEntry { specs: string[]; name: string; version?: string; integrity?: string; workspace: boolean; dependencies: Array<[string, string]> }
+  const entries: YarnEntry[] = [];
+  let current: YarnEntry | undefined;
+  let inDependencies = false;
+
+  for (const line of content.split('\n')) {
+    if (!line.trim() || line.startsWith('#')) continue;
+
+    if (!line.startsWith(' ')) {
+      const specs = line.replace(/:$/, '').split(',').map(spec => spec.trim().replace(/^"|"$/g, ''));
+      const at = specs[0].indexOf('@', 1);
+      current = undefined;
+      if (specs[0] !== '__metadata' && at > 0) {
+        current = { specs, name: specs[0].slice(0, at), workspace: /@workspace:/.test(specs[0]), dependencies: [] };
+        entries.push(current);
+      }
+      inDependencies = false;
+      continue;
+    }
+    if (!current) continue;
+
+    const version = line.match(/^ {2}version:? "?([^"\s]+)"?/);
+    // Berry's "checksum" hashes Yarn's own zip archive, so only classic integrity matches the registry tarball
+    const integrity = line.match(/^ {2}integrity "?([^"\s]+)"?/);
+    if (version) {
+      current.version = version[1];
+    } else if (integrity) {
+      current.integrity = integrity[1];
+    } else if (/^ {2}\S/.test(line)) {
+      inDependencies = /^ {2}(dependencies|optionalDependencies):?\s*$/.test(line);
+    } else if (inDependencies) {
+      // classic: '    name "^1.0.0"'; Berry: '    name: "npm:^1.0.0"'
+      const dep = line.trim().match(/^"?([^"\s:]+(?:\/[^"\s:]+)?)"?:?\s+"?([^"]+?)"?$/);
+      if (dep) current.dependencies.push([dep[1], dep[2]]);
+    }
+  }
+
+  const bySpec = new Map<string, YarnEntry>();
+  for (const entry of entries) {
+    for (const spec of entry.specs) bySpec.set(spec, entry);
+  }
+  const lookup = (name: string, range: string): YarnEntry | undefined =>
+    bySpec.get(`${name}@${range}`) || bySpec.get(`${name}@npm:${range}`) || bySpec.get(`${name}@${range.replace(/^npm:/, '')}`);
+  const nodeFor = (entry: YarnEntry): PackageNode | null => {
+    if (!entry.version || entry.workspace || entry.version === '0.0.0-use.local') return null;
+    const node = tree.addNode(entry.name, entry.version);
+    parseIntegrity(entry.integrity).forEach(hash => tree.addHash(node, hash));
+    return node;
+  };
+
+  for (const entry of entries) {
+    // The root workspace ("app@workspace:.") is the project; other workspaces are packages in it
+    const isRoot = entry.specs.some(spec => spec.endsWith('@workspace:.'));
+    const from = isRoot ? null : entry.workspace ? tree.addNode(entry.name, entry.version || '0.0.0') : nodeFor(entry);
+    if (!isRoot && !from) continue;
+    if (entry.workspace && !isRoot) tree.addEdge(null, from!);
+
+    for (const [name, range] of entry.dependencies) {
+      const target = lookup(name, range);
+      const to = target ? nodeFor(target) : null;
+      if (to) tree.addEdge(from, to, range.replace(/^npm:/, ''));
+    }
+  }
+
+  for (const [name, range] of manifestDependencies(manifest, ['dependencies', 'devDependencies', 'optionalDependencies'])) {
+    const target = lookup(name, range);
+    const to = target ? nodeFor(target) : null;
+    if (to) tree.addEdge(null, to, range);
+  }
+}
+
+/**
+ * pnpm-lock.yaml: importers list direct dependencies; packages (v5/v6) or snapshots (v9) the rest.
+ * pnpm records resolved versions rather than declared ranges for transitive dependencies.
+ */
+function buildPnpmTree(tree: DependencyTree, content: string): void {
+  const lock = yaml.load(content) as any;
+  const lockfileVersion = parseFloat(String(lock?.lockfileVersion));
+  const legacyKeys = lockfileVersion < 6;
+  const graph: Record<string, any> = lock?.snapshots || lock?.packages || {};
+  const importers: Record<string, any> = lock?.importers || { '.': lock || {} };
+
+  const keyFor = (name: string, version: string): string => {
+    if (version.startsWith('/')) return version;
+    if (legacyKeys) return `/${name}/${version}`;
+    return lockfileVersion >= 9 ? `${name}@${version}` : `/${name}@${version}`;
+  };
+  const nodeFor = (key: string): PackageNode | null => {
+    const parsed = parsePnpmPackageKey(key, legacyKeys);
+    if (!parsed || !/^\d/.test(parsed.version)) return null;
+    const pkg = lock?.packages?.[key.replace(/\(.*$/, '')] || graph[key];
+    const dev = graph[key]?.dev;
+    const node = tree.addNode(pkg?.name || parsed.name, pkg?.version || parsed.version, typeof dev === 'boolean' ? dev : undefined);
+    parseIntegrity(pkg?.resolution?.integrity).forEach(hash => tree.addHash(node, hash));
+    return node;
+  };
+
+  for (const [key, pkg] of Object.entries<any>(graph)) {
+    const from = nodeFor(key);
+    if (!from) continue;
+    for (const section of ['dependencies', 'optionalDependencies']) {
+      for (const [name, version] of Object.entries<string>(pkg?.[section] || {})) {
+        const to = nodeFor(keyFor(name, String(version)));
+        if (to) tree.addEdge(from, to);
+      }
+    }
+  }
+
+  for (const importer of Object.values<any>(importers)) {
+    for (const section of ['dependencies', 'devDependencies', 'optionalDependencies']) {
+      for (const [name, ref] of Object.entries<any>(importer?.[section] || {})) {
+        const version = String(typeof ref === 'object' ? ref.version : ref);
+        const range = typeof ref === 'object' ? ref.specifier : importer.specifiers?.[name];
+        if (version.startsWith('link:')) continue;
+        const to = nodeFor(keyFor(name, version));
+        if (to) tree.addEdge(null, to, range);
+      }
+    }
+  }
+}
+
+/**
+ * poetry.lock: [[package]] tables followed by their [package.dependencies]
+ */
+function buildPoetryTree(tree: DependencyTree, content: string): void {
+  const packages: Array<{ name?: string; version?: string; category?: string; dependencies: Array<[string, string | undefined]> }> = [];
+  let current: typeof packages[number] | undefined;
+  let section = '';
+
+  for (const line of content.split('\n')) {
+    const trimmed = line.trim();
+    if (trimmed === '[[package]]') {
+      current = { dependencies: [] };
+      packages.push(current);
+      section = 'package';
+      continue;
+    }
+    if (trimmed.startsWith('[')) {
+      section = trimmed;
+      continue;
+    }
+    if (!current) continue;
+
+    const field = trimmed.match(/^"?([\w.-]+)"?\s*=\s*(.+)$/);
+    if (!field) continue;
+    if (section === 'package') {
+      const value = field[2].match(/^"([^"]*)"/);
+      if (value && ['name', 'version', 'category'].includes(field[1])) {
+        current[field[1] as 'name' | 'version' | 'category'] = value[1];
+      }
+    } else if (section === '[package.dependencies]') {
+      // name = ">=1.0"  or  name = {version = ">=1.0", optional = true}
+      const range = field[2].match(/^"([^"]*)"/) || field[2].match(/version\s*=\s*"([^"]*)"/);
+      current.dependencies.push([field[1], range?.[1]]);
+    }
+  }
+
+  const byName = new Map<string, PackageNode>();
+  for (const pkg of packages) {
+    if (!pkg.name || !pkg.version) continue;
+    byName.set(normalizePackageName('pip', pkg.name), tree.addNode(pkg.name, pkg.version, pkg.category === 'dev'));
+  }
+  for (const pkg of packages) {
+    const from = pkg.name ? byName.get(normalizePackageName('pip', pkg.name)) : undefined;
+    if (!from) continue;
+    for (const [name, range] of pkg.dependencies) {
+      const to = byName.get(normalizePackageName('pip', name));
+      if (to) tree.addEdge(from, to, range);
+    }
+  }
+}
+
+/**
+ * Cargo.lock: dependencies = ["name", "name version", "name version (source)"]; crates without a source are the workspace
+ */
+function buildCargoTree(tree: DependencyTree, content: string): void {
+  const packages: Array<{ name?: string; version?: string; source?: string; checksum?: string; dependencies: string[] }> = [];
+  let current: typeof packages[number] | undefined;
+  let inDependencies = false;
+
+  for (const line of content.split('\n')) {
+    const trimmed = line.trim();
+    if (trimmed === '[[package]]') {
+      current = { dependencies: [] };
+      packages.push(current);
+      continue;
+    }
+    if (trimmed.startsWith('[')) {
+      current = undefined;
+      continue;
+    }
+    if (!current) continue;
+
+    const field = trimmed.match(/^(name|version|source|checksum)\s*=\s*"([^"]*)"/);
+    if (field) {
+      current[field[1] as 'name' | 'version' | 'source' | 'checksum'] = field[2];
+    } else if (/^dependencies\s*=\s*\[/.test(trimmed)) {
+      inDependencies = !trimmed.endsWith(']');
+      current.dependencies.push(...Array.from(trimmed.matchAll(/"([^"]+)"/g), m => m[1]));
+    } else if (inDependencies) {
+      if (trimmed.startsWith(']')) inDependencies = false;
+      else current.dependencies.push(...Array.from(trimmed.matchAll(/"([^"]+)"/g), m => m[1]));
+    }
+  }
+
+  const registry = packages.filter(pkg => pkg.name && pkg.version && pkg.source);
+  const nodes = new Map(registry.map(pkg => {
+    const node = tree.addNode(pkg.name!, pkg.version!);
+    if (pkg.checksum) tree.addHash(node, { algorithm: 'SHA-256', content: pkg.checksum.toLowerCase() });
+    return [`${pkg.name}@${pkg.version}`, node] as const;
+  }));
+  const resolve = (spec: string): PackageNode | undefined => {
+    const [name, version] = spec.split(' ');
+    return version
+      ? nodes.get(`${name}@${version}`)
+      : Array.from(nodes.values()).find(node => node.name === name);
+  };
+
+  for (const pkg of packages) {
+    if (!pkg.name || !pkg.version) continue;
+    const from = pkg.source ? nodes.get(`${pkg.name}@${pkg.version}`)! : null;
+    for (const spec of pkg.dependencies) {
+      const to = resolve(spec);
+      if (to) tree.addEdge(from, to);
+    }
+  }
+}
+
+/**
+ * Gemfile.lock: GEM specs with their requirements indented below; DEPENDENCIES lists direct gems;
+ * CHECKSUMS (Bundler 2.5+) has "name (version) sha256=<hex>"
+ */
+function buildGemfileTree(tree: DependencyTree, content: string): void {
+  const gems = new Map<string, PackageNode>();
+  const requirements: Array<[PackageNode, string, string | undefined]> = [];
+  const direct: Array<[string, string | undefined]> = [];
+  let section = '';
+  let current: PackageNode | undefined;
+
+  for (const line of content.split('\n')) {
+    if (/^\S/.test(line)) {
+      section = line.trim();
+      continue;
+    }
+
+    if (section === 'GEM') {
+      const gem = line.match(/^ {4}([^\s(]+) \(([^)]+)\)\s*$/);
+      const requirement = line.match(/^ {6}([^\s(]+)(?: \(([^)]+)\))?\s*$/);
+      if (gem) {
+        current = tree.addNode(gem[1], gem[2].split('-')[0]);
+        gems.set(gem[1], current);
+      } else if (requirement && current) {
+        requirements.push([current, requirement[1], requirement[2]]);
+      }
+    } else if (section === 'DEPENDENCIES') {
+      const dep = line.match(/^ {2}([^\s(!]+)!?(?: \(([^)]+)\))?/);
+      if (dep) direct.push([dep[1], dep[2]]);
+    } else if (section === 'CHECKSUMS') {
+      const checksum = line.match(/^ {2}([^\s(]+) \(([^)]+)\) sha256=([0-9a-f]{64})/);
+      const gem = checksum ? gems.get(checksum[1]) : undefined;
+      if (gem && gem.version === checksum![2].split('-')[0]) tree.addHash(gem, { algorithm: 'SHA-256', content: checksum![3] });
+    }
+  }
+
+  for (const [from, name, range] of requirements) {
+    const to = gems.get(name);
+    if (to) tree.addEdge(from, to, range);
+  }
+  for (const [name, range] of direct) {
+    const to = gems.get(name);
+    if (to) tree.addEdge(null, to, range);
+  }
+}
+
+/**
+ * composer.lock: each package's "require" map; composer.json says what is direct
+ */
+function buildComposerTree(tree: DependencyTree, content: string, manifest: any): void {
+  const lock = JSON.parse(content);
+  const packages = new Map<string, { node: PackageNode; require: Record<string, string> }>();
+  // Platform requirements are not packages
+  const isPlatform = (name: string) => name === 'php' || /^(ext|lib)-/.test(name) || name.startsWith('composer-');
+
+  for (const section of ['packages', 'packages-dev']) {
+    for (const pkg of lock[section] || []) {
+      if (!pkg.name || !pkg.version) continue;
+      const node = tree.addNode(pkg.name, String(pkg.version).replace(/^v/, ''), section === 'packages-dev');
+      if (pkg.dist?.shasum) tree.addHash(node, { algorithm: 'SHA-1', content: String(pkg.dist.shasum).toLowerCase() });
+      packages.set(pkg.name.toLowerCase(), { node, require: pkg.require || {} });
+    }
+  }
+
+  for (const { node, require } of packages.values()) {
+    for (const [name, range] of Object.entries(require)) {
+      const to = isPlatform(name) ? undefined : packages.get(name.toLowerCase());
+      if (to) tree.addEdge(node, to.node, range);
+    }
+  }
+  for (const [name, range] of manifestDependencies(manifest, ['require', 'require-dev'])) {
+    const to = isPlatform(name) ? undefined : packages.get(name.toLowerCase());
+    if (to) tree.addEdge(null, to.node, range);
+  }
+}
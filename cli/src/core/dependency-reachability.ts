@@ -0,0 +1,255 @@
+import * as path from 'path';
+import { builtinModules } from 'module';
+import { CodebaseIndexer } from './codebase-indexer';
+import { fileWalker } from './file-walker';
+import { DependencyScanResult, DependencyVulnerability, Reachability } from './dependency-scanner';
+import { normalizePackageName } from './vuln-db';
+import { PythonParser } from '../parsers/python-parser';
+import { createDebugLogger } from '../utils/debug-logger';
+
+const logger = createDebugLogger('dependency-reachability');
+
+/**
+ * Distributions whose import name differs from the PyPI name (keys normalized)
+ */
+const PYTHON_IMPORT_NAMES: Record<string, string[]> = {
+  'pyyaml': ['yaml'],
+  'pillow': ['PIL'],
+  'beautifulsoup4': ['bs4'],
+  'scikit-learn': ['sklearn'],
+  'python-dateutil': ['dateutil'],
+  'opencv-python': ['cv2'],
+  'opencv-python-headless': ['cv2'],
+  'protobuf': ['google.protobuf'],
+  'attrs': ['attr', 'attrs'],
+  'pyjwt': ['jwt'],
+  'python-jose': ['jose'],
+  'pycryptodome': ['Crypto'],
+  'pyopenssl': ['OpenSSL'],
+  'msgpack-python': ['msgpack'],
+  'python-multipart': ['multipart'],
+  'setuptools': ['setuptools', 'pkg_resources'],
+};
+
+/**
+ * Which files import each package, plus a way to test whether those files call a function
+ */
+interface ImportUsage {
+  importers: Map<string, Set<string>>;
+  callsFunction(packageName: string, files: Set<string>, functionName: string): Promise<boolean>;
+}
+
+/**
+ * Dependency Reachability Analyzer
+ *
+ * Tags vulnerable packages by whether our own code imports them and, when the
+ * advisory names the affected functions, whether any importing file calls
+ * one. JavaScript/TypeScript imports and calls come from the CodebaseIndexer
+ * (a module imported for one function, like "lodash/template", counts as a
+ * call); Python imports come from PythonParser and calls are matched by name
+ * in the importing files' text. Other ecosystems are left untagged.
+ *
+ * Calls are matched by name, not resolved through types, so "reachable" is a
+ * strong hint rather than proof.
+ */
+export class DependencyReachabilityAnalyzer {
+  /**
+   * Set `reachability` on every npm and pip vulnerability in the results
+   */
+  async analyze(repoPath: string, repoId: string, results: DependencyScanResult[]): Promise<void> {
+    const vulnerabilities = results.flatMap(result => result.vulnerabilities);
+
+    const npm = vulnerabilities.filter(v => v.ecosystem === 'npm');
+    if (npm.length > 0) {
+      try {
+        await this.tag(npm, await this.indexJavaScript(repoPath, repoId), name => [name]);
+      } catch (error) {
+        logger.warn('JavaScript reachability analysis failed', { error: (error as Error).message });
+      }
+    }
+
+    const pip = vulnerabilities.filter(v => v.ecosystem === 'pip');
+    if (pip.length > 0) {
+      try {
+        await this.tag(pip, await this.indexPython(repoPath), pythonImportNames);
+      } catch (error) {
+        logger.warn('Python reachability analysis failed', { error: (error as Error).message });
+      }
+    }
+  }
+
+  private async tag(
+    vulnerabilities: DependencyVulnerability[],
+    usage: ImportUsage,
+    importNames: (packageName: string) => string[]
+  ): Promise<void> {
+    for (const vuln of vulnerabilities) {
+      const files = new Set<string>();
+      for (const name of importNames(vuln.package)) {
+        for (const file of usage.importers.get(name) || []) files.add(file);
+      }
+
+      if (files.size === 0) {
+        vuln.reachability = 'not-imported';
+      } else if (!vuln.affectedFunctions?.length) {
+        vuln.reachability = 'imported';
+      } else {
+        let reachable = false;
+        for (const fn of vuln.affectedFunctions) {
+          if (await usage.callsFunction(vuln.package, files, functionName(fn))) {
+            reachable = true;
+            break;
+          }
+        }
+        vuln.reachability = reachable ? 'reachable' : 'unreachable';
+      }
+    }
+  }
+
+  /**
+   * Package imports and call references from the codebase index
+   */
+  private async indexJavaScript(repoPath: string, repoId: string): Promise<ImportUsage> {
+    const indexer = new CodebaseIndexer(repoPath, repoId);
+    const index = await indexer.buildIndex();
+
+    const importers = new Map<string, Set<string>>();
+    const modules = new Map<string, Set<string>>(); // Package -> modules imported from within it, e.g. "template"
+    for (const [relativePath, fileIndex] of index.files) {
+      for (const specifier of fileIndex.imports) {
+        const name = npmPackageName(specifier);
+        if (!name) continue;
+        if (!importers.has(name)) importers.set(name, new Set());
+        importers.get(name)!.add(relativePath);
+
+        const module = npmSubpathModule(name, specifier);
+        if (module) {
+          if (!modules.has(name)) modules.set(name, new Set());
+          modules.get(name)!.add(module);
+        }
+      }
+    }
+
+    return {
+      importers,
+      callsFunction: async (packageName, files, fn) => {
+        // "lodash/template" and "lodash.template" are the function itself, whatever it is bound to
+        if (modules.get(packageName)?.has(fn) || packageName.endsWith(`.${fn}`)) return true;
+
+        const references = await indexer.findReferences(fn);
+        return references.some(reference => files.has(path.relative(repoPath, path.resolve(repoPath, reference.file))));
+      },
+    };
+  }
+
+  /**
+   * Top-level module imports and call sites from the project's Python files
+   */
+  private async indexPython(repoPath: string): Promise<ImportUsage> {
+    const parser = new PythonParser();
+    const importers = new Map<string, Set<string>>();
+    const contents = new Map<string, string>();
+
+    for (const file of fileWalker.listPaths(repoPath, { pattern: /\.py$/ })) {
+      const relativePath = path.relative(repoPath, file);
+      const content = fileWalker.readFile(file);
+      if (content === null) continue;
+      contents.set(relativePath, content);
+
+      const parsed = await parser.parseCode(content, file);
+      for (const imp of parsed.imports) {
+        // Relative imports ("from . import x") are the project's own modules
+        if (!imp.module || imp.module.startsWith('.')) continue;
+        for (const name of pythonModulePrefixes(imp.module)) {
+          if (!importers.has(name)) importers.set(name, new Set());
+          importers.get(name)!.add(relativePath);
+        }
+      }
+    }
+
+    return {
+      importers,
+      callsFunction: async (_packageName, files, fn) => callsByName(files, fn, file => contents.get(file) || ''),
+    };
+  }
+}
+
+/**
+ * Keep vulnerabilities that may be reachable: drops not-imported and
+ * unreachable ones, keeps untagged and imported-without-function-data ones
+ */
+export function filterReachable(results: DependencyScanResult[]): DependencyScanResult[] {
+  return results
+    .map(result => {
+      const vulnerabilities = result.vulnerabilities.filter(isPotentiallyReachable);
+      return {
+        ...result,
+        vulnerabilities,
+        totalVulnerabilities: vulnerabilities.length,
+        critical: vulnerabilities.filter(v => v.severity === 'critical').length,
+        high: vulnerabilities.filter(v => v.severity === 'high').length,
+        medium: vulnerabilities.filter(v => v.severity === 'medium').length,
+        low: vulnerabilities.filter(v => v.severity === 'low').length,
+      };
+    })
+    .filter(result => result.vulnerabilities.length > 0);
+}
+
+export function isPotentiallyReachable(vuln: { reachability?: Reachability }): boolean {
+  return vuln.reachability !== 'not-imported' && vuln.reachability !== 'unreachable';
+}
+
+/**
+ * Package name from an import specifier: "@scope/pkg/sub" -> "@scope/pkg", "lodash/merge" -> "lodash"
+ */
+function npmPackageName(specifier: string): string | null {
+  if (specifier.startsWith('.') || specifier.startsWith('/') || specifier.startsWith('node:')) return null;
+  const parts = specifier.split('/');
+  const name = specifier.startsWith('@') ? parts.slice(0, 2).join('/') : parts[0];
+  if (!name || builtinModules.includes(name)) return null;
+  return name;
+}
+
+/**
+ * Module imported from within a package, without its extension:
+ * "lodash/fp/template.js" -> "template", "lodash" -> null
+ */
+function npmSubpathModule(packageName: string, specifier: string): string | null {
+  const subpath = specifier.slice(packageName.length + 1);
+  if (!subpath) return null;
+  return subpath.split('/').pop()!.replace(/\.[cm]?js$/, '') || null;
+}
+
+/**
+ * Whether any of the files contains a call to the function by name
+ */
+function callsByName(files: Set<string>, fn: string, readSource: (file: string) => string): boolean {
+  const call = new RegExp(`\\b${fn.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\s*\\(`);
+  return Array.from(files).some(file => call.test(readSource(file)));
+}
+
+/**
+ * Import names a PyPI distribution is likely to be imported under
+ */
+function pythonImportNames(packageName: string): string[] {
+  const normalized = normalizePackageName('pip', packageName);
+  return PYTHON_IMPORT_NAMES[normalized] || [normalized.replace(/-/g, '_')];
+}
+
+/**
+ * "google.protobuf.message" -> ["google", "google.protobuf", "google.protobuf.message"]
+ */
+function pythonModulePrefixes(module: string): string[] {
+  const parts = module.split('.');
+  return parts.map((_, i) => parts.slice(0, i + 1).join('.'));
+}
+
+/**
+ * Bare function name from a qualified advisory symbol, e.g. "smallvec::SmallVec::insert_many" or "jinja2.utils.urlize"
+ */
+function functionName(symbol: string): string {
+  const parts = symbol.replace(/\(\)$/, '').split(/::|[.#]/);
+  return parts[parts.length - 1];
+}
+
+export const dependencyReachability = new DependencyReachabilityAnalyzer();
@@ -1,6 +1,22 @@
 import { execSync } from 'child_process';
 import * as fs from 'fs';
 import * as path from 'path';
+import { DependencyEcosystem, LockedDependency, parseLockfiles } from './lockfile-parser';
+import { parseBuildManifests } from './build-manifests';
+import { compareVersions } from './version-ranges';
+import { vulnDatabase } from './vuln-db';
+import { DependencyTree, buildDependencyTrees, formatDependencyPath, recommendUpgrade } from './dependency-graph';
+import { VEX_FILE, findVexStatement, loadVexDocument, vulnerabilityIds } from './vex';
+import { suppressionManager } from './suppressions';
+
+const MAX_REPORTED_PATHS = 3;
+
+/**
+ * Whether our code can reach a vulnerable package: not-imported and imported
+ * come from the import graph; reachable and unreachable additionally need the
+ * advisory to name the affected functions
+ */
+export type Reachability = 'reachable' | 'unreachable' | 'imported' | 'not-imported';
 
 export interface DependencyVulnerability {
   package: string;
@@ -9,7 +25,14 @@ export interface DependencyVulnerability {
   title: string;
   cve?: string;
   recommendation: string;
-  ecosystem: 'npm' | 'pip' | 'go' | 'ruby' | 'cargo' | 'maven';
+  ecosystem: DependencyEcosystem;
+  id?: string; // Advisory ID, e.g. GHSA-xxxx-xxxx-xxxx
+  aliases?: string[]; // Other IDs for the same advisory (CVE, GHSA, ...)
+  fixedVersions?: string[];
+  file?: string; // Lockfile or build file the vulnerable version was resolved from
+  paths?: string[]; // Shortest dependency chains that install this version, e.g. "app → a@1.0.0 → vuln@2.0.0"
+  affectedFunctions?: string[]; // Vulnerable functions named by the advisory
+  reachability?: Reachability; // Set by dependencyReachability.analyze()
 }
 
 export interface DependencyScanResult {
@@ -27,40 +50,173 @@ export class DependencyScanner {
    * Scan dependencies for vulnerabilities
    */
   async scan(repoPath: string = process.cwd()): Promise<DependencyScanResult[]> {
-    const results: DependencyScanResult[] = [];
+    const results: DependencyScanResult[] = this.scanOffline(repoPath);
+    // Ecosystems matched offline skip the external audit tools
+    const matched = new Set(results.map(r => r.ecosystem));
 
     // Scan npm dependencies
-    if (fs.existsSync(path.join(repoPath, 'package.json'))) {
+    if (fs.existsSync(path.join(repoPath, 'package.json')) && !matched.has('npm')) {
       const npmResult = await this.scanNpm(repoPath);
       if (npmResult) results.push(npmResult);
     }
 
     // Scan Python dependencies
-    if (fs.existsSync(path.join(repoPath, 'requirements.txt')) ||
-        fs.existsSync(path.join(repoPath, 'Pipfile'))) {
+    if ((fs.existsSync(path.join(repoPath, 'requirements.txt')) ||
+        fs.existsSync(path.join(repoPath, 'Pipfile'))) && !matched.has('pip')) {
       const pipResult = await this.scanPip(repoPath);
       if (pipResult) results.push(pipResult);
     }
 
     // Scan Go dependencies
-    if (fs.existsSync(path.join(repoPath, 'go.mod'))) {
+    if (fs.existsSync(path.join(repoPath, 'go.mod')) && !matched.has('go')) {
       const goResult = await this.scanGo(repoPath);
       if (goResult) results.push(goResult);
     }
 
     // Scan Ruby dependencies
-    if (fs.existsSync(path.join(repoPath, 'Gemfile'))) {
+    if (fs.existsSync(path.join(repoPath, 'Gemfile')) && !matched.has('ruby')) {
       const rubyResult = await this.scanRuby(repoPath);
       if (rubyResult) results.push(rubyResult);
     }
 
     // Scan Rust dependencies
-    if (fs.existsSync(path.join(repoPath, 'Cargo.toml'))) {
+    if (fs.existsSync(path.join(repoPath, 'Cargo.toml')) && !matched.has('cargo')) {
       const cargoResult = await this.scanCargo(repoPath);
       if (cargoResult) results.push(cargoResult);
     }
 
-    return results;
+    return this.applyVex(repoPath, results);
+  }
+
+  /**
+   * Resolved dependency coordinates from lockfiles and Maven, Gradle and NuGet build files
+   */
+  listDependencies(repoPath: string = process.cwd()): LockedDependency[] {
+    return [...parseLockfiles(repoPath), ...parseBuildManifests(repoPath)];
+  }
+
+  /**
+   * Match resolved dependencies against the offline vulnerability database.
+   * Returns one result per ecosystem that has both dependencies and imported advisories.
+   */
+  scanOffline(repoPath: string = process.cwd()): DependencyScanResult[] {
+    if (!vulnDatabase.isAvailable()) {
+      return [];
+    }
+
+    const byEcosystem = new Map<DependencyEcosystem, DependencyVulnerability[]>();
+    let trees: Map<string, DependencyTree> | undefined;
+    for (const dependency of this.listDependencies(repoPath)) {
+      if (!vulnDatabase.isAvailable(dependency.ecosystem)) continue;
+
+      const vulnerabilities = byEcosystem.get(dependency.ecosystem) || [];
+      byEcosystem.set(dependency.ecosystem, vulnerabilities);
+      const matches = this.matchDependency(dependency);
+      if (matches.length > 0) {
+        // Only read the dependency graphs once something is vulnerable
+        trees = trees || new Map(buildDependencyTrees(repoPath).map(tree => [tree.file, tree]));
+        const tree = trees.get(dependency.file);
+        if (tree) this.addUpgradePaths(tree, dependency, matches);
+      }
+      vulnerabilities.push(...matches);
+    }
+
+    return Array.from(byEcosystem.entries()).map(([ecosystem, vulnerabilities]) => ({
+      ...summarize(vulnerabilities),
+      ecosystem,
+    }));
+  }
+
+  /**
+   * Match dependencies from any source (e.g. an SBOM) against the offline vulnerability database
+   */
+  matchDependencies(dependencies: LockedDependency[]): DependencyVulnerability[] {
+    return dependencies
+      .filter(dependency => vulnDatabase.isAvailable(dependency.ecosystem))
+      .flatMap(dependency => this.matchDependency(dependency));
+  }
+
+  /**
+   * Drop vulnerabilities a VEX statement marks not_affected or fixed, and use the
+   * action statement of affected ones as the recommendation. Dropped ones are
+   * reported as suppressed.
+   */
+  private applyVex(repoPath: string, results: DependencyScanResult[]): DependencyScanResult[] {
+    const document = loadVexDocument(repoPath);
+    if (!document) return results;
+
+    return results.map(result => {
+      const vulnerabilities = result.vulnerabilities.filter(vuln => {
+        const statement = findVexStatement(document, { ids: vulnerabilityIds(vuln), ecosystem: vuln.ecosystem, name: vuln.package, version: vuln.version });
+        if (statement?.status === 'affected' && statement.action_statement) {
+          vuln.recommendation = statement.action_statement;
+        }
+        if (statement?.status !== 'not_affected' && statement?.status !== 'fixed') return true;
+
+        suppressionManager.record('dependencies', {
+          file: vuln.file || 'package.json',
+          ids: vulnerabilityIds(vuln),
+          severity: vuln.severity,
+          category: `Dependency Vulnerability (${result.ecosystem})`,
+          description: `${vuln.package}@${vuln.version}: ${vuln.title}`,
+        }, {
+          source: 'vex',
+          location: VEX_FILE,
+          ids: [statement.vulnerability.name],
+          reason: [statement.status, statement.justification, statement.impact_statement].filter(Boolean).join(': '),
+        });
+        return false;
+      });
+      return { ...result, ...summarize(vulnerabilities) };
+    });
+  }
+
+  private matchDependency(dependency: LockedDependency): DependencyVulnerability[] {
+    const seen = new Set<string>();
+    const vulnerabilities: DependencyVulnerability[] = [];
+
+    for (const advisory of vulnDatabase.findVulnerabilities(dependency)) {
+      if (seen.has(advisory.id)) continue;
+      seen.add(advisory.id);
+
+      const ids = [advisory.id, ...advisory.aliases];
+      // Smallest fix above the installed version
+      const upgrade = advisory.fixed
+        .filter(v => compareVersions(dependency.ecosystem, v, dependency.version) > 0)
+        .sort((a, b) => compareVersions(dependency.ecosystem, a, b))[0];
+
+      vulnerabilities.push({
+        package: dependency.name,
+        version: dependency.version,
+        severity: advisory.severity,
+        title: advisory.summary,
+        cve: ids.find(id => id.startsWith('CVE-')),
+        recommendation: upgrade ? `Update to ${upgrade}` : 'No fixed version available; review usage or replace the package',
+        ecosystem: dependency.ecosystem,
+        id: advisory.id,
+        aliases: advisory.aliases,
+        fixedVersions: advisory.fixed,
+        file: dependency.file,
+        ...(advisory.functions ? { affectedFunctions: advisory.functions } : {}),
+      });
+    }
+
+    return vulnerabilities;
+  }
+
+  /**
+   * Explain how a vulnerable version is installed and which upgrade removes it
+   */
+  private addUpgradePaths(tree: DependencyTree, dependency: LockedDependency, vulnerabilities: DependencyVulnerability[]): void {
+    const node = tree.find(dependency.name, dependency.version)[0];
+    const chains = node ? tree.paths(node.id, MAX_REPORTED_PATHS) : [];
+    if (chains.length === 0) return;
+
+    for (const vuln of vulnerabilities) {
+      vuln.paths = chains.map(chain => formatDependencyPath(tree, chain));
+      const upgrade = recommendUpgrade(tree, chains[0], vuln.fixedVersions || []);
+      if (upgrade) vuln.recommendation = upgrade;
+    }
   }
 
   /**
@@ -328,4 +484,18 @@ export class DependencyScanner {
   }
 }
 
+/**
+ * Vulnerabilities with their per-severity counts
+ */
+function summarize(vulnerabilities: DependencyVulnerability[]): Omit<DependencyScanResult, 'ecosystem'> {
+  return {
+    vulnerabilities,
+    totalVulnerabilities: vulnerabilities.length,
+    critical: vulnerabilities.filter(v => v.severity === 'critical').length,
+    high: vulnerabilities.filter(v => v.severity === 'high').length,
+    medium: vulnerabilities.filter(v => v.severity === 'medium').length,
+    low: vulnerabilities.filter(v => v.severity === 'low').length,
+  };
+}
+
 export const dependencyScanner = new DependencyScanner();
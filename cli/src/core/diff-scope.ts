@@ -0,0 +1,286 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { execFileSync } from 'child_process';
+import { configError } from '../utils/ci-gate';
+
+/**
+ * Git Diff
+ */
+export interface GitDiff {
+  file: string;
+  oldPath?: string;
+  newPath?: string;
+  status: 'added' | 'modified' | 'deleted' | 'renamed';
+  hunks: DiffHunk[];
+  additions: number;
+  deletions: number;
+}
+
+/**
+ * Diff Hunk (section of changed code)
+ */
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  changes: DiffChange[];
+}
+
+/**
+ * Single line change
+ */
+export interface DiffChange {
+  type: 'add' | 'delete' | 'context';
+  lineNumber: number;
+  content: string;
+}
+
+export interface DiffScopeOptions {
+  changedSince?: string;
+  staged?: boolean;
+  changedLinesOnly?: boolean;
+}
+
+/**
+ * Parse `git diff` output into per-file diffs
+ */
+export function parseUnifiedDiff(diffOutput: string): GitDiff[] {
+  const diffs: GitDiff[] = [];
+  const files = diffOutput.split(/^diff --git/m);
+
+  for (const fileContent of files) {
+    if (!fileContent.trim()) continue;
+
+    const diff = parseFileDiff(fileContent);
+    if (diff) {
+      diffs.push(diff);
+    }
+  }
+
+  return diffs;
+}
+
+/**
+ * Parse single file diff
+ */
+function parseFileDiff(content: string): GitDiff | null {
+  const lines = content.split('\n');
+
+  // Extract file paths
+  const fileMatch = lines[0]?.match(/a\/(.+) b\/(.+)/);
+  if (!fileMatch) return null;
+
+  const oldPath = fileMatch[1];
+  const newPath = fileMatch[2];
+
+  // Determine status
+  let status: GitDiff['status'] = 'modified';
+  if (content.includes('new file mode')) status = 'added';
+  if (content.includes('deleted file mode')) status = 'deleted';
+  if (oldPath !== newPath) status = 'renamed';
+
+  // Parse hunks
+  const hunks: DiffHunk[] = [];
+  let currentHunk: DiffHunk | null = null;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    // Hunk header: @@ -oldStart[,oldLines] +newStart[,newLines] @@ (counts default to 1)
+    const hunkMatch = line.match(/^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/);
+    if (hunkMatch) {
+      if (currentHunk) hunks.push(currentHunk);
+      currentHunk = {
+        oldStart: parseInt(hunkMatch[1]),
+        oldLines: hunkMatch[2] !== undefined ? parseInt(hunkMatch[2]) : 1,
+        newStart: parseInt(hunkMatch[3]),
+        newLines: hunkMatch[4] !== undefined ? parseInt(hunkMatch[4]) : 1,
+        changes: []
+      };
+      continue;
+    }
+
+    // Changes within hunk
+    if (currentHunk && (line[0] === '+' || line[0] === '-' || line[0] === ' ')) {
+      const type = line[0] === '+' ? 'add' : line[0] === '-' ? 'delete' : 'context';
+      const lineNumber = type === 'delete'
+        ? currentHunk.oldStart + currentHunk.changes.filter(c => c.type !== 'add').length
+        : currentHunk.newStart + currentHunk.changes.filter(c => c.type !== 'delete').length;
+
+      currentHunk.changes.push({
+        type,
+        lineNumber,
+        content: line.substring(1)
+      });
+    }
+  }
+
+  if (currentHunk) hunks.push(currentHunk);
+
+  // Count additions/deletions
+  const additions = hunks.reduce((sum, h) =>
+    sum + h.changes.filter(c => c.type === 'add').length, 0
+  );
+  const deletions = hunks.reduce((sum, h) =>
+    sum + h.changes.filter(c => c.type === 'delete').length, 0
+  );
+
+  return {
+    file: newPath,
+    oldPath: oldPath !== newPath ? oldPath : undefined,
+    newPath,
+    status,
+    hunks,
+    additions,
+    deletions
+  };
+}
+
+/**
+ * Diff Scope
+ *
+ * The set of files (and, with `--changed-lines-only`, lines) touched by a
+ * diff. Commands use it to restrict scanning to changed files and to drop
+ * findings outside added or modified lines.
+ */
+export class DiffScope {
+  private files: Map<string, GitDiff> = new Map();
+
+  constructor(
+    private repoRoot: string,
+    diffs: GitDiff[],
+    private changedLinesOnly: boolean = false
+  ) {
+    for (const diff of diffs) {
+      if (diff.status === 'deleted') continue;
+      this.files.set(path.resolve(repoRoot, diff.file), diff);
+    }
+  }
+
+  /**
+   * Absolute paths of added, modified and renamed files
+   */
+  getChangedFiles(): string[] {
+    return Array.from(this.files.keys());
+  }
+
+  includesFile(file: string): boolean {
+    return this.files.has(this.resolve(file));
+  }
+
+  /**
+   * Whether a line was added or modified in the new version of the file
+   */
+  isLineChanged(file: string, line: number): boolean {
+    const diff = this.files.get(this.resolve(file));
+    if (!diff) return false;
+    return diff.hunks.some(hunk =>
+      hunk.changes.some(change => change.type === 'add' && change.lineNumber === line)
+    );
+  }
+
+  /**
+   * Keep items in changed files; with `--changed-lines-only`, keep only items on changed lines.
+   * Items without a line number are kept only for newly added files.
+   */
+  filterFindings<T extends { file: string; line?: number }>(items: T[]): T[] {
+    return items.filter(item => {
+      if (!item.file || !this.includesFile(item.file)) return false;
+      if (!this.changedLinesOnly) return true;
+      if (item.line === undefined || item.line === null) {
+        return this.files.get(this.resolve(item.file))!.status === 'added';
+      }
+      return this.isLineChanged(item.file, item.line);
+    });
+  }
+
+  /**
+   * Findings carry absolute paths or paths relative to the repository root
+   */
+  private resolve(file: string): string {
+    return path.resolve(this.repoRoot, file);
+  }
+}
+
+/**
+ * Build a diff scope from `--changed-since <ref>` / `--staged`; undefined when neither is set.
+ *
+ * `--changed-since` compares the working tree against the merge base with `ref`
+ * (so it covers the whole branch plus uncommitted work) and counts untracked
+ * files as added. `--staged` covers only what is in the index.
+ */
+export function resolveDiffScope(repoPath: string, options: DiffScopeOptions): DiffScope | undefined {
+  if (!options.changedSince && !options.staged) {
+    if (options.changedLinesOnly) {
+      throw configError('--changed-lines-only requires --changed-since <ref> or --staged');
+    }
+    return undefined;
+  }
+  if (options.changedSince && options.staged) {
+    throw configError('Use either --changed-since or --staged, not both');
+  }
+
+  const repoRoot = git(['rev-parse', '--show-toplevel'], repoPath, 'Diff-scoped scanning requires a git repository').trim();
+  const diffArgs = ['diff', '--unified=0', '--no-color', '--no-ext-diff', '-M'];
+  const diffs: GitDiff[] = [];
+
+  if (options.staged) {
+    diffs.push(...parseUnifiedDiff(git([...diffArgs, '--cached'], repoRoot)));
+  } else {
+    const ref = options.changedSince!;
+    git(['rev-parse', '--verify', '--quiet', `${ref}^{commit}`], repoRoot, `Unknown git ref for --changed-since: ${ref}`);
+    const mergeBase = git(['merge-base', ref, 'HEAD'], repoRoot, `No common ancestor between ${ref} and HEAD`).trim();
+    diffs.push(...parseUnifiedDiff(git([...diffArgs, mergeBase], repoRoot)));
+
+    const untracked = git(['ls-files', '--others', '--exclude-standard'], repoRoot).split('\n').filter(Boolean);
+    for (const file of untracked) {
+      diffs.push(untrackedDiff(repoRoot, file));
+    }
+  }
+
+  return new DiffScope(repoRoot, diffs, !!options.changedLinesOnly);
+}
+
+/**
+ * Treat an untracked file as added in full
+ */
+function untrackedDiff(repoRoot: string, file: string): GitDiff {
+  let lineCount = 0;
+  try {
+    const content = fs.readFileSync(path.join(repoRoot, file), 'utf-8');
+    lineCount = content.endsWith('\n') ? content.split('\n').length - 1 : content.split('\n').length;
+  } catch {
+    // Unreadable files still count as changed, just without lines
+  }
+
+  const changes: DiffChange[] = [];
+  for (let line = 1; line <= lineCount; line++) {
+    changes.push({ type: 'add', lineNumber: line, content: '' });
+  }
+
+  return {
+    file,
+    newPath: file,
+    status: 'added',
+    hunks: [{ oldStart: 0, oldLines: 0, newStart: 1, newLines: lineCount, changes }],
+    additions: lineCount,
+    deletions: 0,
+  };
+}
+
+function git(args: string[], cwd: string, failureMessage?: string): string {
+  try {
+    return execFileSync('git', args, {
+      cwd,
+      encoding: 'utf-8',
+      maxBuffer: 64 * 1024 * 1024,
+      stdio: ['ignore', 'pipe', 'pipe'],
+    });
+  } catch (error) {
+    if (failureMessage) {
+      throw configError(failureMessage, error as Error);
+    }
+    throw error;
+  }
+}
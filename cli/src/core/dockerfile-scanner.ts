@@ -1,6 +1,10 @@
-import * as fs from 'fs';
-import * as path from 'path';
 import { Finding } from '../utils/reporter';
+import { suppressionManager, findingTarget } from './suppressions';
+import { fileWalker } from './file-walker';
+import { scanCache } from './scan-cache';
+
+// Bump when any Dockerfile check changes so cached results are discarded
+const DOCKERFILE_RULES_VERSION = '1';
 
 export class DockerfileScanner {
   /**
@@ -8,7 +12,7 @@ export class DockerfileScanner {
    */
   async scan(repoPath: string = process.cwd()): Promise<Finding[]> {
     const findings: Finding[] = [];
-    const dockerfiles = this.findDockerfiles(repoPath);
+    const dockerfiles = fileWalker.listPaths(repoPath, { pattern: /^Dockerfile(\..+)?$/, maxDepth: 5 });
 
     for (const dockerfile of dockerfiles) {
       findings.push(...this.scanDockerfile(dockerfile));
@@ -18,66 +22,44 @@ export class DockerfileScanner {
   }
 
   /**
-   * Find all Dockerfiles in repository
+   * Scan Dockerfile for security issues
    */
-  private findDockerfiles(dir: string): string[] {
-    const dockerfiles: string[] = [];
-
-    const search = (currentDir: string, depth: number) => {
-      if (depth > 5) return;
-
-      try {
-        const items = fs.readdirSync(currentDir);
-        for (const item of items) {
-          if (item === 'node_modules' || item === '.git' || item === 'vendor') continue;
-
-          const fullPath = path.join(currentDir, item);
-          const stat = fs.statSync(fullPath);
-
-          if (stat.isDirectory()) {
-            search(fullPath, depth + 1);
-          } else if (item === 'Dockerfile' || item.startsWith('Dockerfile.')) {
-            dockerfiles.push(fullPath);
-          }
-        }
-      } catch {
-        // Skip
-      }
-    };
+  scanDockerfile(dockerfilePath: string): Finding[] {
+    const content = fileWalker.readFile(dockerfilePath);
+    if (content === null) {
+      // File doesn't exist or can't be read
+      return [];
+    }
 
-    search(dir, 0);
-    return dockerfiles;
+    const findings = scanCache.getOrScan(
+      'dockerfile', dockerfilePath, content, () => this.checkDockerfile(dockerfilePath, content), DOCKERFILE_RULES_VERSION
+    );
+    return suppressionManager.apply('dockerfile', findings, findingTarget, content);
   }
 
   /**
-   * Scan Dockerfile for security issues
+   * Run every Dockerfile check, before suppressions
    */
-  scanDockerfile(dockerfilePath: string): Finding[] {
+  private checkDockerfile(dockerfilePath: string, content: string): Finding[] {
     const findings: Finding[] = [];
-
-    try {
-      const content = fs.readFileSync(dockerfilePath, 'utf-8');
-      const lines = content.split('\n');
-
-      for (let i = 0; i < lines.length; i++) {
-        const line = lines[i].trim();
-        const lineNum = i + 1;
-
-        findings.push(...this.checkBaseImage(line, dockerfilePath, lineNum));
-        findings.push(...this.checkRunAsRoot(line, dockerfilePath, lineNum));
-        findings.push(...this.checkExposedPorts(line, dockerfilePath, lineNum));
-        findings.push(...this.checkCopyPermissions(line, dockerfilePath, lineNum));
-        findings.push(...this.checkSecrets(line, dockerfilePath, lineNum));
-        findings.push(...this.checkAptGet(line, dockerfilePath, lineNum));
-        findings.push(...this.checkLayerOptimization(line, dockerfilePath, lineNum));
-      }
-
-      findings.push(...this.checkHealthcheck(lines, dockerfilePath));
-      findings.push(...this.checkUserDirective(lines, dockerfilePath));
-    } catch (error) {
-      // File doesn't exist or can't be read
+    const lines = content.split('\n');
+
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i].trim();
+      const lineNum = i + 1;
+
+      findings.push(...this.checkBaseImage(line, dockerfilePath, lineNum));
+      findings.push(...this.checkRunAsRoot(line, dockerfilePath, lineNum));
+      findings.push(...this.checkExposedPorts(line, dockerfilePath, lineNum));
+      findings.push(...this.checkCopyPermissions(line, dockerfilePath, lineNum));
+      findings.push(...this.checkSecrets(line, dockerfilePath, lineNum));
+      findings.push(...this.checkAptGet(line, dockerfilePath, lineNum));
+      findings.push(...this.checkLayerOptimization(line, dockerfilePath, lineNum));
     }
 
+    findings.push(...this.checkHealthcheck(lines, dockerfilePath));
+    findings.push(...this.checkUserDirective(lines, dockerfilePath));
+
     return findings;
   }
 
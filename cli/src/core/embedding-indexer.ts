@@ -10,6 +10,7 @@ import * as cliProgress from 'cli-progress';
 import { CodebaseIndexer, CodebaseIndex } from './codebase-indexer';
 import { EmbeddingChunker, ChunkingStats } from './embedding-chunker';
 import { EmbeddingProvider, CodeEmbedding, generateEmbeddingId, hashContent } from './embeddings';
+import { isOutboundDryRun } from '../utils/error-handler';
 import { FileBasedEmbeddingStore } from './embedding-store';
 
 // ============================================================================
@@ -254,6 +255,8 @@ export class EmbeddingIndexer {
         this.progressBar.stop();
       }
 
+      if (isOutboundDryRun(error)) throw error;
+
       return {
         success: false,
         stats,
@@ -358,6 +361,7 @@ export class EmbeddingIndexer {
           this.progressBar.increment(batch.length);
         }
       } catch (error: any) {
+        if (isOutboundDryRun(error)) throw error;
         errors.push({
           type: 'embedding',
           message: `Batch embedding failed: ${error.message}`,
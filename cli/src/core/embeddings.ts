@@ -6,6 +6,7 @@
  */
 
 import * as crypto from 'crypto';
+import { OutboundRedactor, outboundAudit } from './outbound-redaction';
 
 // ============================================================================
 // Data Structures
@@ -150,6 +151,8 @@ export interface EmbeddingProvider {
  * Base class for embedding providers
  */
 export abstract class BaseEmbeddingProvider implements EmbeddingProvider {
+  private redactor = new OutboundRedactor();
+
   constructor(
     protected name: string,
     protected model: string,
@@ -168,8 +171,23 @@ export abstract class BaseEmbeddingProvider implements EmbeddingProvider {
     return this.model;
   }
 
-  abstract generateEmbedding(text: string): Promise<number[]>;
-  abstract generateBulkEmbeddings(texts: string[]): Promise<number[][]>;
+  /**
+   * Redact and log the text, then embed it
+   */
+  async generateEmbedding(text: string): Promise<number[]> {
+    const [outbound] = outboundAudit.prepareEmbedding(this.name, [text], this.redactor, this.model);
+    return this.embed(outbound);
+  }
+
+  /**
+   * Redact and log the texts, then embed them
+   */
+  async generateBulkEmbeddings(texts: string[]): Promise<number[][]> {
+    return this.embedBulk(outboundAudit.prepareEmbedding(this.name, texts, this.redactor, this.model));
+  }
+
+  protected abstract embed(text: string): Promise<number[]>;
+  protected abstract embedBulk(texts: string[]): Promise<number[][]>;
   abstract estimateCost(tokenCount: number): number;
   abstract isAvailable(): boolean;
   abstract testConnection(): Promise<boolean>;
@@ -0,0 +1,427 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import ignore from 'ignore';
+import { projectConfigManager } from './project-config';
+
+/**
+ * A file visible to scanners after ignore rules have been applied
+ */
+export interface WalkedFile {
+  path: string;
+  relativePath: string;
+  name: string;
+  size: number;
+  language: string;
+  generated: boolean;
+  binary: boolean; // Only listed by policies that keep binary files
+}
+
+export interface ListFilesOptions {
+  /** Only return files with one of these extensions (e.g. ['.ts', '.py']) */
+  extensions?: string[];
+  /** Only return files whose name matches this pattern */
+  pattern?: RegExp;
+  /** Maximum directory depth below the repository root */
+  maxDepth?: number;
+  /** Include generated and minified files (skipped by default) */
+  includeGenerated?: boolean;
+  /** Which files the walk keeps (default: DEFAULT_WALK_POLICY) */
+  policy?: WalkPolicy;
+}
+
+/**
+ * The files a walk keeps beyond what .gitignore and project excludes drop.
+ * Walks are cached per root and policy name.
+ */
+export interface WalkPolicy {
+  name: string;
+  /** gitignore-style patterns of files to skip */
+  ignoredFiles: string[];
+  /** Binary files to list anyway, by name (e.g. archives); other binary files are skipped */
+  binaryFiles?: RegExp;
+  /** Size limit for the binary files kept (text files are limited to 2MB) */
+  maxBinarySize?: number;
+}
+
+export interface FileWalkerStats {
+  filesListed: number;
+  filesRead: number;
+  cacheHits: number;
+  skippedBinary: number;
+  skippedLarge: number;
+}
+
+const DEFAULT_IGNORED_DIRS = [
+  'node_modules',
+  '.git',
+  'vendor',
+  'dist',
+  'build',
+  'coverage',
+  '.next',
+  '.guardscan',
+  '__pycache__',
+  '.venv',
+  'venv',
+];
+
+export const DEFAULT_IGNORED_FILES = [
+  '*.map',
+  'package-lock.json',
+  'yarn.lock',
+  'pnpm-lock.yaml',
+  '.DS_Store',
+  '*.log',
+  '.env*',
+  '*.tgz',
+  '*.zip',
+  '*.tar.gz',
+];
+
+export const DEFAULT_WALK_POLICY: WalkPolicy = { name: 'default', ignoredFiles: DEFAULT_IGNORED_FILES };
+
+const LANGUAGE_MAP: Record<string, string> = {
+  '.js': 'javascript',
+  '.jsx': 'javascript',
+  '.mjs': 'javascript',
+  '.cjs': 'javascript',
+  '.ts': 'typescript',
+  '.tsx': 'typescript',
+  '.py': 'python',
+  '.go': 'go',
+  '.java': 'java',
+  '.rb': 'ruby',
+  '.php': 'php',
+  '.rs': 'rust',
+  '.c': 'c',
+  '.h': 'c',
+  '.cpp': 'cpp',
+  '.hpp': 'cpp',
+  '.cs': 'csharp',
+  '.swift': 'swift',
+  '.kt': 'kotlin',
+  '.scala': 'scala',
+  '.sh': 'shell',
+  '.bash': 'shell',
+  '.sql': 'sql',
+  '.yaml': 'yaml',
+  '.yml': 'yaml',
+  '.json': 'json',
+  '.tf': 'terraform',
+};
+
+const MAX_FILE_SIZE = 2 * 1024 * 1024;
+const BINARY_SNIFF_BYTES = 8000;
+const GENERATED_MARKERS = /@generated|DO NOT EDIT|auto-generated|autogenerated/i;
+
+interface CachedContent {
+  content: string | null;
+  size: number;
+  mtimeMs: number;
+}
+
+interface WalkState {
+  policy: WalkPolicy;
+  files: WalkedFile[];
+  matchers: Map<string, ReturnType<typeof ignore>>;
+}
+
+/**
+ * Shared repository file enumeration and content cache
+ *
+ * Walks the tree once per root, honoring .gitignore files, default ignores
+ * and project excludes, and serves file contents from memory so every
+ * scanner in a run sees the same file set and each file is read once.
+ */
+export class FileWalker {
+  private walks: Map<string, WalkedFile[]> = new Map();
+  private ignoreStates: Map<string, WalkState> = new Map();
+  private contents: Map<string, CachedContent> = new Map();
+  private stats: FileWalkerStats = this.emptyStats();
+  private scope?: Set<string>;
+
+  /**
+   * List repository files, optionally filtered by extension or name
+   */
+  listFiles(repoRoot: string = process.cwd(), options: ListFilesOptions = {}): WalkedFile[] {
+    const root = path.resolve(repoRoot);
+    const policy = options.policy || DEFAULT_WALK_POLICY;
+    const key = `${root}\0${policy.name}`;
+    let files = this.walks.get(key);
+    if (!files) {
+      files = this.walk(root, policy);
+      this.walks.set(key, files);
+      this.stats.filesListed += files.length;
+    }
+
+    const extensions = options.extensions?.map(ext => ext.toLowerCase());
+    return files.filter(file => {
+      if (this.scope && !this.scope.has(file.path)) return false;
+      if (!options.includeGenerated && file.generated) return false;
+      if (options.maxDepth !== undefined && this.depthOf(file) > options.maxDepth) return false;
+      if (extensions && !extensions.includes(path.extname(file.name).toLowerCase())) return false;
+      if (options.pattern && !options.pattern.test(file.name)) return false;
+      return true;
+    });
+  }
+
+  /**
+   * List absolute paths of repository files
+   */
+  listPaths(repoRoot: string = process.cwd(), options: ListFilesOptions = {}): string[] {
+    return this.listFiles(repoRoot, options).map(file => file.path);
+  }
+
+  /**
+   * Whether a walk with this policy skips a path by its name: ignored
+   * directories, the policy's ignored files, .gitignore files and project
+   * excludes. For paths that need not exist on disk, e.g. files in git history.
+   */
+  isPathIgnored(repoRoot: string, relativePath: string, policy: WalkPolicy = DEFAULT_WALK_POLICY): boolean {
+    const root = path.resolve(repoRoot);
+    const segments = relativePath.split('/');
+    if (segments.slice(0, -1).some(segment => DEFAULT_IGNORED_DIRS.includes(segment))) return true;
+
+    const key = `${root}\0${policy.name}`;
+    let state = this.ignoreStates.get(key);
+    if (!state) {
+      state = { policy, files: [], matchers: new Map([[root, this.rootMatcher(root, policy)]]) };
+      this.ignoreStates.set(key, state);
+    }
+
+    let dir = root;
+    for (const segment of segments.slice(0, -1)) {
+      dir = path.join(dir, segment);
+      if (!state.matchers.has(dir)) {
+        const matcher = ignore();
+        this.addIgnoreFile(matcher, path.join(dir, '.gitignore'));
+        state.matchers.set(dir, matcher);
+      }
+      if (this.isIgnored(root, dir, true, state)) return true;
+    }
+
+    const fullPath = path.join(root, ...segments);
+    return this.isIgnored(root, fullPath, false, state) || projectConfigManager.isPathExcluded(fullPath);
+  }
+
+  /**
+   * Restrict listings to the given absolute paths (diff-scoped scans); undefined lifts the restriction
+   */
+  setScope(files?: string[]): void {
+    this.scope = files ? new Set(files.map(file => path.resolve(file))) : undefined;
+  }
+
+  /**
+   * Read a file through the content cache; returns null for unreadable or binary files.
+   * Entries are keyed on size and mtime so files changed on disk are re-read.
+   */
+  readFile(file: string): string | null {
+    const key = path.resolve(file);
+
+    let stat: fs.Stats;
+    try {
+      stat = fs.statSync(key);
+    } catch {
+      this.contents.delete(key);
+      return null;
+    }
+
+    const cached = this.contents.get(key);
+    if (cached && cached.size === stat.size && cached.mtimeMs === stat.mtimeMs) {
+      this.stats.cacheHits++;
+      return cached.content;
+    }
+
+    let content: string | null = null;
+    try {
+      const buffer = fs.readFileSync(key);
+      content = this.isBinary(buffer) ? null : buffer.toString('utf-8');
+    } catch {
+      content = null;
+    }
+
+    this.stats.filesRead++;
+    this.contents.set(key, { content, size: stat.size, mtimeMs: stat.mtimeMs });
+    return content;
+  }
+
+  /**
+   * Detect language from file extension
+   */
+  getLanguage(file: string): string {
+    return LANGUAGE_MAP[path.extname(file).toLowerCase()] || 'unknown';
+  }
+
+  /**
+   * Drop cached content for one file, or everything when no file is given
+   */
+  invalidate(file?: string): void {
+    if (file) {
+      this.contents.delete(path.resolve(file));
+      return;
+    }
+    this.contents.clear();
+  }
+
+  /**
+   * Forget all walks, contents and stats (called at the start of each command)
+   */
+  reset(): void {
+    this.walks.clear();
+    this.ignoreStates.clear();
+    this.contents.clear();
+    this.scope = undefined;
+    this.stats = this.emptyStats();
+  }
+
+  getStats(): FileWalkerStats {
+    return { ...this.stats };
+  }
+
+  private emptyStats(): FileWalkerStats {
+    return { filesListed: 0, filesRead: 0, cacheHits: 0, skippedBinary: 0, skippedLarge: 0 };
+  }
+
+  private walk(root: string, policy: WalkPolicy): WalkedFile[] {
+    const state: WalkState = { policy, files: [], matchers: new Map() };
+
+    state.matchers.set(root, this.rootMatcher(root, policy));
+
+    this.walkDir(root, root, state);
+    return state.files.sort((a, b) => a.relativePath.localeCompare(b.relativePath));
+  }
+
+  private rootMatcher(root: string, policy: WalkPolicy): ReturnType<typeof ignore> {
+    const matcher = ignore().add(policy.ignoredFiles);
+    this.addIgnoreFile(matcher, path.join(root, '.git', 'info', 'exclude'));
+    this.addIgnoreFile(matcher, path.join(root, '.gitignore'));
+    return matcher;
+  }
+
+  private walkDir(root: string, dir: string, state: WalkState): void {
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(dir, { withFileTypes: true });
+    } catch {
+      return;
+    }
+
+    if (dir !== root) {
+      const nested = path.join(dir, '.gitignore');
+      if (fs.existsSync(nested)) {
+        const matcher = ignore();
+        this.addIgnoreFile(matcher, nested);
+        state.matchers.set(dir, matcher);
+      }
+    }
+
+    for (const entry of entries) {
+      const fullPath = path.join(dir, entry.name);
+      const relativePath = path.relative(root, fullPath).split(path.sep).join('/');
+
+      if (entry.isDirectory()) {
+        if (DEFAULT_IGNORED_DIRS.includes(entry.name)) continue;
+        if (this.isIgnored(root, fullPath, true, state)) continue;
+        this.walkDir(root, fullPath, state);
+        continue;
+      }
+
+      if (!entry.isFile()) continue;
+      if (this.isIgnored(root, fullPath, false, state)) continue;
+      if (projectConfigManager.isPathExcluded(fullPath)) continue;
+
+      let size: number;
+      try {
+        size = fs.statSync(fullPath).size;
+      } catch {
+        continue;
+      }
+      const header = this.readHeader(fullPath);
+      if (header === null) continue;
+      const binary = this.isBinary(header);
+      if (binary && !state.policy.binaryFiles?.test(entry.name)) {
+        this.stats.skippedBinary++;
+        continue;
+      }
+      if (size > (binary ? state.policy.maxBinarySize ?? MAX_FILE_SIZE : MAX_FILE_SIZE)) {
+        this.stats.skippedLarge++;
+        continue;
+      }
+
+      state.files.push({
+        path: fullPath,
+        relativePath,
+        name: entry.name,
+        size,
+        language: this.getLanguage(entry.name),
+        generated: !binary && this.isGenerated(entry.name, header),
+        binary,
+      });
+    }
+  }
+
+  /**
+   * Check a path against every .gitignore between the root and its directory
+   */
+  private isIgnored(root: string, fullPath: string, isDir: boolean, state: WalkState): boolean {
+    let dir = path.dirname(fullPath);
+    while (dir.startsWith(root)) {
+      const matcher = state.matchers.get(dir);
+      if (matcher) {
+        let relative = path.relative(dir, fullPath).split(path.sep).join('/');
+        if (isDir) relative += '/';
+        if (matcher.ignores(relative)) return true;
+      }
+      if (dir === root) break;
+      dir = path.dirname(dir);
+    }
+    return false;
+  }
+
+  private addIgnoreFile(matcher: ReturnType<typeof ignore>, file: string): void {
+    try {
+      matcher.add(fs.readFileSync(file, 'utf-8'));
+    } catch {
+      // Missing ignore files are fine
+    }
+  }
+
+  private readHeader(file: string): Buffer | null {
+    let fd: number | undefined;
+    try {
+      fd = fs.openSync(file, 'r');
+      const buffer = Buffer.alloc(BINARY_SNIFF_BYTES);
+      const bytesRead = fs.readSync(fd, buffer, 0, BINARY_SNIFF_BYTES, 0);
+      return buffer.subarray(0, bytesRead);
+    } catch {
+      return null;
+    } finally {
+      if (fd !== undefined) fs.closeSync(fd);
+    }
+  }
+
+  private isBinary(buffer: Buffer): boolean {
+    return buffer.subarray(0, BINARY_SNIFF_BYTES).includes(0);
+  }
+
+  /**
+   * Generated files are minified bundles or carry a generator marker near the top
+   */
+  private isGenerated(name: string, header: Buffer): boolean {
+    if (/\.min\.(js|css)$/.test(name)) return true;
+
+    const text = header.toString('utf-8');
+    const firstLines = text.split('\n').slice(0, 5).join('\n');
+    if (GENERATED_MARKERS.test(firstLines)) return true;
+
+    // Minified: long single lines with almost no line breaks
+    const lines = text.split('\n');
+    return text.length >= 2000 && lines.length <= 3 && Math.max(...lines.map(l => l.length)) > 1000;
+  }
+
+  private depthOf(file: WalkedFile): number {
+    return file.relativePath.split('/').length - 1;
+  }
+}
+
+export const fileWalker = new FileWalker();
@@ -0,0 +1,162 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { Finding } from '../utils/reporter';
+import { configError } from '../utils/ci-gate';
+import { fingerprintAnchor, SourceLineCache } from '../utils/finding-identity';
+
+const BASELINE_VERSION = 1;
+
+export interface BaselineEntry {
+  fingerprint: string;
+  severity: Finding['severity'];
+  category: string;
+  ruleId?: string;
+  file: string;
+  line?: number;
+  description: string;
+}
+
+export interface FindingBaselineFile {
+  version: number;
+  createdAt: string;
+  entries: BaselineEntry[];
+}
+
+export interface BaselineComparison {
+  baselinePath: string;
+  newFindings: Finding[];
+  unchangedFindings: Finding[];
+  fixedEntries: BaselineEntry[];
+}
+
+/**
+ * Finding baselines
+ *
+ * Snapshots the current findings so later runs can report only regressions.
+ * Fingerprints hash category, file, normalized line content and rule, so a
+ * finding keeps its identity when unrelated edits shift it up or down.
+ */
+export class FindingBaseline {
+  private lines: SourceLineCache;
+
+  constructor(private readonly repoRoot: string = process.cwd()) {
+    this.lines = new SourceLineCache(repoRoot);
+  }
+
+  /**
+   * Save findings as a baseline snapshot
+   */
+  save(findings: Finding[], filePath: string): FindingBaselineFile {
+    const baseline: FindingBaselineFile = {
+      version: BASELINE_VERSION,
+      createdAt: new Date().toISOString(),
+      entries: findings.map(finding => this.toEntry(finding)),
+    };
+
+    const dir = path.dirname(filePath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+
+    fs.writeFileSync(filePath, JSON.stringify(baseline, null, 2));
+    return baseline;
+  }
+
+  /**
+   * Load a baseline snapshot
+   */
+  load(filePath: string): FindingBaselineFile {
+    if (!fs.existsSync(filePath)) {
+      throw configError(`Baseline file not found: ${filePath}`);
+    }
+
+    let baseline: FindingBaselineFile;
+    try {
+      baseline = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    } catch (error: any) {
+      throw configError(`Invalid baseline file ${filePath}: ${error.message}`, error);
+    }
+
+    if (!baseline || baseline.version !== BASELINE_VERSION || !Array.isArray(baseline.entries)) {
+      throw configError(`Invalid baseline file ${filePath}: unsupported format`);
+    }
+
+    return baseline;
+  }
+
+  /**
+   * Classify findings as new or unchanged, and baseline entries as fixed.
+   * Fingerprints are matched as a multiset so repeated identical findings
+   * are only considered unchanged up to the count recorded in the baseline.
+   */
+  compare(findings: Finding[], baseline: FindingBaselineFile, baselinePath: string): BaselineComparison {
+    const remaining = new Map<string, BaselineEntry[]>();
+    for (const entry of baseline.entries) {
+      const bucket = remaining.get(entry.fingerprint) || [];
+      bucket.push(entry);
+      remaining.set(entry.fingerprint, bucket);
+    }
+
+    const newFindings: Finding[] = [];
+    const unchangedFindings: Finding[] = [];
+
+    for (const finding of findings) {
+      const bucket = remaining.get(this.fingerprint(finding));
+      if (bucket && bucket.length > 0) {
+        bucket.shift();
+        unchangedFindings.push(finding);
+      } else {
+        newFindings.push(finding);
+      }
+    }
+
+    const fixedEntries = Array.from(remaining.values()).flat();
+
+    return { baselinePath, newFindings, unchangedFindings, fixedEntries };
+  }
+
+  /**
+   * Compute the baseline fingerprint for a finding
+   */
+  fingerprint(finding: Finding): string {
+    const file = this.toRelativePath(finding.file);
+    // History findings carry the line number from the commit that added them, so
+    // they are anchored on the secret itself rather than on a working-tree line
+    const anchor = finding.commit && finding.fingerprint
+      ? finding.fingerprint
+      // Fall back to the description for findings without a readable source line
+      : fingerprintAnchor(finding.line ? this.lines.readLine(finding.file, finding.line) : undefined, finding.description);
+    const rule = finding.ruleId || finding.category;
+
+    return crypto
+      .createHash('sha256')
+      .update([finding.category, file, anchor, rule].join('\0'))
+      .digest('hex')
+      .substring(0, 32);
+  }
+
+  /**
+   * Convert a finding to a baseline entry
+   */
+  private toEntry(finding: Finding): BaselineEntry {
+    return {
+      fingerprint: this.fingerprint(finding),
+      severity: finding.severity,
+      category: finding.category,
+      ruleId: finding.ruleId,
+      file: this.toRelativePath(finding.file),
+      line: finding.line,
+      description: finding.description,
+    };
+  }
+
+  /**
+   * Normalize a file path to a repo-relative, forward-slash path
+   */
+  private toRelativePath(file: string): string {
+    const absolute = path.resolve(this.repoRoot, file);
+    const relative = path.relative(this.repoRoot, absolute);
+    return (relative.startsWith('..') ? absolute : relative).split(path.sep).join('/');
+  }
+}
@@ -0,0 +1,281 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { execFileSync } from 'child_process';
+import yaml from 'js-yaml';
+import { configError } from '../utils/ci-gate';
+
+export type HookName = 'pre-commit' | 'commit-msg' | 'pre-push';
+export type HookManager = 'git' | 'pre-commit' | 'husky';
+
+export const GUARDSCAN_HOOKS: HookName[] = ['pre-commit', 'commit-msg', 'pre-push'];
+
+export interface HookInstallResult {
+  manager: HookManager;
+  files: string[]; // Files written, changed or removed
+  notes: string[]; // Steps left to the user
+}
+
+// Wrap what GuardScan adds to a file, so it can be updated and removed again
+const BLOCK_START = '# >>> guardscan hooks >>>';
+const BLOCK_END = '# <<< guardscan hooks <<<';
+// Suffix for a hook that was there before; GuardScan's hook runs it first
+const BACKUP_SUFFIX = '.pre-guardscan';
+const PRE_COMMIT_CONFIG = '.pre-commit-config.yaml';
+const PRE_COMMIT_HOOK_ID = /^guardscan-/;
+
+const HOOK_DESCRIPTIONS: Record<HookName, string> = {
+  'pre-commit': 'GuardScan: secrets and rules in staged changes',
+  'commit-msg': 'GuardScan: secrets in the commit message',
+  'pre-push': 'GuardScan: secrets in pushed commits',
+};
+
+/**
+ * Install the pre-commit, commit-msg and pre-push hooks. Repositories that
+ * use the pre-commit framework or husky get GuardScan added to their
+ * configuration; otherwise hook scripts are written to the git hooks
+ * directory. An existing hook script is only replaced with `force`, and is
+ * then kept and run before GuardScan's.
+ */
+export function installHooks(repoPath: string, options: { force?: boolean } = {}): HookInstallResult {
+  const repoRoot = gitRoot(repoPath);
+
+  if (fs.existsSync(path.join(repoRoot, PRE_COMMIT_CONFIG))) {
+    const file = path.join(repoRoot, PRE_COMMIT_CONFIG);
+    fs.writeFileSync(file, addPreCommitHooks(fs.readFileSync(file, 'utf-8')));
+    return {
+      manager: 'pre-commit',
+      files: [file],
+      notes: ['Run `pre-commit install --hook-type pre-commit --hook-type commit-msg --hook-type pre-push` to activate all three stages'],
+    };
+  }
+
+  if (fs.existsSync(path.join(repoRoot, '.husky'))) {
+    const files = GUARDSCAN_HOOKS.map(hook => {
+      const file = path.join(repoRoot, '.husky', hook);
+      const existing = fs.existsSync(file) ? fs.readFileSync(file, 'utf-8') : '';
+      writeHook(file, withBlock(existing, hookBlock(hook)));
+      return file;
+    });
+    return { manager: 'husky', files, notes: [] };
+  }
+
+  const hooksDir = gitHooksDir(repoRoot);
+  if (fs.existsSync(hooksDir) && !fs.statSync(hooksDir).isDirectory()) {
+    throw configError(`core.hooksPath is ${hooksDir}, so git runs no hooks; point it at a directory to install GuardScan's`);
+  }
+  const foreign = GUARDSCAN_HOOKS
+    .map(hook => path.join(hooksDir, hook))
+    .filter(file => fs.existsSync(file) && !fs.readFileSync(file, 'utf-8').includes(BLOCK_START));
+  if (foreign.length > 0 && !options.force) {
+    throw configError(
+      `Existing hooks would be replaced: ${foreign.map(file => path.relative(repoRoot, file)).join(', ')}. ` +
+      `Rerun with --force to keep them as <hook>${BACKUP_SUFFIX} and run them before GuardScan's`
+    );
+  }
+
+  fs.mkdirSync(hooksDir, { recursive: true });
+  const files = GUARDSCAN_HOOKS.map(hook => {
+    const file = path.join(hooksDir, hook);
+    if (foreign.includes(file)) {
+      fs.renameSync(file, file + BACKUP_SUFFIX);
+    }
+    writeHook(file, hookScript(hook, fs.existsSync(file + BACKUP_SUFFIX)));
+    return file;
+  });
+  return { manager: 'git', files, notes: [] };
+}
+
+/**
+ * Remove GuardScan from every place `installHooks` may have put it, restoring
+ * hooks that were there before
+ */
+export function uninstallHooks(repoPath: string): string[] {
+  const repoRoot = gitRoot(repoPath);
+  const changed: string[] = [];
+
+  const config = path.join(repoRoot, PRE_COMMIT_CONFIG);
+  if (fs.existsSync(config)) {
+    const content = fs.readFileSync(config, 'utf-8');
+    const updated = removePreCommitHooks(content);
+    if (updated !== content) {
+      fs.writeFileSync(config, updated);
+      changed.push(config);
+    }
+  }
+
+  for (const dir of [path.join(repoRoot, '.husky'), gitHooksDir(repoRoot)]) {
+    for (const hook of GUARDSCAN_HOOKS) {
+      const file = path.join(dir, hook);
+      if (!fs.existsSync(file)) continue;
+      const content = fs.readFileSync(file, 'utf-8');
+      if (!content.includes(BLOCK_START)) continue;
+
+      const remaining = withoutBlock(content);
+      if (fs.existsSync(file + BACKUP_SUFFIX)) {
+        fs.renameSync(file + BACKUP_SUFFIX, file);
+      } else if (remaining.split('\n').some(line => line.trim() && !line.trim().startsWith('#'))) {
+        fs.writeFileSync(file, remaining);
+      } else {
+        fs.unlinkSync(file);
+      }
+      changed.push(file);
+    }
+  }
+
+  return changed;
+}
+
+/**
+ * The shell lines that run one GuardScan hook, preferring a global install
+ */
+function hookBlock(hook: HookName, input: string = ''): string {
+  const run = (command: string) => `${input}${command} hooks run ${hook} "$@"`;
+  return [
+    BLOCK_START,
+    `if command -v guardscan >/dev/null 2>&1; then ${run('guardscan')}; else ${run('npx --no-install guardscan')}; fi || exit $?`,
+    BLOCK_END,
+  ].join('\n');
+}
+
+/**
+ * A hook script for the git hooks directory. pre-push reads the refs being
+ * pushed from stdin, so the input is buffered when a previous hook runs first.
+ */
+function hookScript(hook: HookName, chained: boolean): string {
+  const lines = ['#!/bin/sh', '# Installed by `guardscan hooks install`; `guardscan hooks uninstall` removes it'];
+  if (!chained) {
+    lines.push(hookBlock(hook));
+  } else if (hook === 'pre-push') {
+    lines.push(
+      'input=$(cat)',
+      `printf '%s\\n' "$input" | "$(dirname "$0")/${hook}${BACKUP_SUFFIX}" "$@" || exit $?`,
+      hookBlock(hook, `printf '%s\\n' "$input" | `)
+    );
+  } else {
+    lines.push(`"$(dirname "$0")/${hook}${BACKUP_SUFFIX}" "$@" || exit $?`, hookBlock(hook));
+  }
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Add (or update) a local repo with the GuardScan hooks in a pre-commit
+ * configuration. The block is inserted as text to keep the file's comments;
+ * unusual layouts are rewritten through the YAML parser instead.
+ */
+function addPreCommitHooks(content: string): string {
+  const existing = content.includes(BLOCK_START) ? removePreCommitHooks(content) : content;
+  const lines = existing.replace(/\n*$/, '\n').split('\n');
+  const reposLine = lines.findIndex(line => /^repos:\s*(#.*)?$/.test(line));
+
+  if (reposLine !== -1) {
+    const itemIndent = lines.slice(reposLine + 1).map(line => /^(\s*)- /.exec(line)?.[1]).find(indent => indent !== undefined) ?? '  ';
+    let end = lines.findIndex((line, i) => i > reposLine && /^\S/.test(line) && !line.startsWith('#'));
+    if (end === -1) end = lines.length;
+    while (end > reposLine + 1 && !lines[end - 1].trim()) end--;
+
+    const block = preCommitBlock(itemIndent);
+    const updated = [...lines.slice(0, end), ...block, ...lines.slice(end)].join('\n').replace(/\n*$/, '\n');
+    if (hasPreCommitHooks(updated)) return updated;
+  }
+
+  // No block-style `repos:` list to extend
+  let config: any;
+  try {
+    config = yaml.load(existing) ?? {};
+  } catch (error: any) {
+    throw configError(`Invalid ${PRE_COMMIT_CONFIG}: ${error.message}`, error);
+  }
+  config.repos = [...(Array.isArray(config.repos) ? config.repos : []), preCommitRepo()];
+  return yaml.dump(config, { lineWidth: -1 });
+}
+
+function removePreCommitHooks(content: string): string {
+  if (content.includes(BLOCK_START)) {
+    return withoutBlock(content);
+  }
+
+  let config: any;
+  try {
+    config = yaml.load(content);
+  } catch {
+    return content;
+  }
+  if (!hasPreCommitHooks(content)) return content;
+  config.repos = config.repos
+    .map((repo: any) => repo?.repo === 'local'
+      ? { ...repo, hooks: (repo.hooks || []).filter((hook: any) => !PRE_COMMIT_HOOK_ID.test(hook?.id || '')) }
+      : repo)
+    .filter((repo: any) => repo?.repo !== 'local' || repo.hooks.length > 0);
+  return yaml.dump(config, { lineWidth: -1 });
+}
+
+function hasPreCommitHooks(content: string): boolean {
+  try {
+    const config: any = yaml.load(content);
+    return Array.isArray(config?.repos) && config.repos.some((repo: any) =>
+      repo?.repo === 'local' && (repo.hooks || []).some((hook: any) => PRE_COMMIT_HOOK_ID.test(hook?.id || '')));
+  } catch {
+    return false;
+  }
+}
+
+function preCommitRepo() {
+  return {
+    repo: 'local',
+    hooks: GUARDSCAN_HOOKS.map(hook => ({
+      id: `guardscan-${hook}`,
+      name: HOOK_DESCRIPTIONS[hook],
+      entry: `guardscan hooks run ${hook}`,
+      language: 'system',
+      // commit-msg hooks get the message file as their argument
+      pass_filenames: hook === 'commit-msg',
+      always_run: true,
+      stages: [hook],
+    })),
+  };
+}
+
+function preCommitBlock(indent: string): string[] {
+  const dumped = yaml.dump([preCommitRepo()], { lineWidth: -1, flowLevel: 4 }).trimEnd().split('\n');
+  return [`${indent}${BLOCK_START}`, ...dumped.map(line => indent + line), `${indent}${BLOCK_END}`];
+}
+
+/**
+ * Append the block to a hook file, replacing the one added before
+ */
+function withBlock(content: string, block: string): string {
+  const base = withoutBlock(content).replace(/\n*$/, '');
+  return base ? `${base}\n${block}\n` : `${block}\n`;
+}
+
+function withoutBlock(content: string): string {
+  const lines = content.split('\n');
+  const start = lines.findIndex(line => line.trim() === BLOCK_START);
+  const end = lines.findIndex((line, i) => i > start && line.trim() === BLOCK_END);
+  if (start === -1 || end === -1) return content;
+  return [...lines.slice(0, start), ...lines.slice(end + 1)].join('\n');
+}
+
+function writeHook(file: string, content: string): void {
+  fs.writeFileSync(file, content);
+  fs.chmodSync(file, 0o755);
+}
+
+function gitRoot(repoPath: string): string {
+  return git(['rev-parse', '--show-toplevel'], repoPath).trim();
+}
+
+/**
+ * The hooks directory git uses, honoring core.hooksPath
+ */
+function gitHooksDir(repoRoot: string): string {
+  return path.resolve(repoRoot, git(['rev-parse', '--git-path', 'hooks'], repoRoot).trim());
+}
+
+function git(args: string[], cwd: string): string {
+  try {
+    return execFileSync('git', args, { cwd, encoding: 'utf-8', stdio: ['ignore', 'pipe', 'pipe'] });
+  } catch (error) {
+    throw configError('Git hooks require a git repository', error as Error);
+  }
+}
@@ -0,0 +1,253 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { execFileSync } from 'child_process';
+import { resolveDiffScope } from './diff-scope';
+import { HookName } from './git-hooks';
+import { projectConfigManager } from './project-config';
+import { ruleEngine } from './rule-engine';
+import { MAX_ARCHIVE_SIZE, isArchiveFile } from './secret-files';
+import { SecretFinding, secretsDetector } from './secrets-detector';
+import { configError } from '../utils/ci-gate';
+
+/**
+ * Something a hook blocks on: a secret, or a rule violation of high severity or above
+ */
+export interface HookProblem {
+  kind: 'secret' | 'rule';
+  file: string; // Relative to the repository root, or "commit message"
+  line: number;
+  title: string;
+  severity: string;
+  detail: string;
+  fingerprint?: string; // Secrets only
+  commit?: string; // pre-push only: the commit that added the secret
+}
+
+export interface HookCheckResult {
+  hook: HookName;
+  scanned: string; // What was checked, e.g. "3 staged file(s)"
+  problems: HookProblem[];
+}
+
+/**
+ * A ref git is about to push, as read from the pre-push hook's stdin
+ */
+export interface PushedRef {
+  localRef: string;
+  localSha: string;
+  remoteRef: string;
+  remoteSha: string;
+}
+
+export interface BypassEntry {
+  timestamp: string;
+  hook: HookName;
+  reason: string;
+  user: string;
+  branch: string;
+  problems: Array<Pick<HookProblem, 'kind' | 'file' | 'line' | 'title' | 'fingerprint' | 'commit'>>;
+}
+
+const BLOCKING_RULE_SEVERITIES = ['critical', 'high'];
+// Staged text files larger than this are skipped, like the file walker does on disk
+const MAX_STAGED_FILE_SIZE = 2 * 1024 * 1024;
+const ZERO_SHA = /^0+$/;
+// Everything below this line of a `git commit -v` message is the diff, not the message
+const SCISSORS_LINE = /^# -+ >8 -+$/;
+
+/**
+ * Scan what is staged, not the working tree: blobs are read from the index,
+ * and only secrets and violations on added lines count. Archives have no
+ * lines to diff, so everything found in a staged archive counts.
+ */
+export async function checkStagedChanges(repoPath: string): Promise<HookCheckResult> {
+  const repoRoot = gitRoot(repoPath);
+  const scope = resolveDiffScope(repoRoot, { staged: true, changedLinesOnly: true })!;
+  const files = scope.getChangedFiles().filter(file => projectConfigManager.isPathIncluded(file));
+
+  const blobs: Array<{ file: string; data: Buffer }> = [];
+  const contents = new Map<string, string>();
+  for (const file of files) {
+    const spec = `:${path.relative(repoRoot, file).split(path.sep).join('/')}`;
+    const size = parseInt(git(['cat-file', '-s', spec], repoRoot).toString().trim(), 10);
+    if (size > (isArchiveFile(file) ? MAX_ARCHIVE_SIZE : MAX_STAGED_FILE_SIZE)) continue;
+
+    const data = git(['cat-file', 'blob', spec], repoRoot);
+    blobs.push({ file, data });
+    if (!data.subarray(0, 8000).includes(0)) {
+      contents.set(file, data.toString('utf-8'));
+    }
+  }
+
+  const secrets = secretsDetector.detectInContent(blobs)
+    .filter(finding => isArchiveFile(finding.file) || scope.isLineChanged(finding.file, finding.line));
+
+  ruleEngine.loadCustomRules();
+  for (const dir of projectConfigManager.getCustomRuleDirs()) {
+    ruleEngine.loadCustomRules(dir);
+  }
+  const { violations } = await ruleEngine.runRules([...contents.keys()], undefined, scope, contents);
+
+  return {
+    hook: 'pre-commit',
+    scanned: `${files.length} staged file(s)`,
+    problems: [
+      ...secrets.map(finding => secretProblem(repoRoot, finding)),
+      ...violations
+        .filter(violation => BLOCKING_RULE_SEVERITIES.includes(violation.severity))
+        .map(violation => ({
+          kind: 'rule' as const,
+          file: relativePath(repoRoot, violation.file),
+          line: violation.line,
+          title: violation.ruleName,
+          severity: violation.severity,
+          detail: violation.message,
+        })),
+    ],
+  };
+}
+
+/**
+ * Scan a commit message for secrets; git's comment lines and the diff of
+ * `git commit -v` are left out
+ */
+export function checkCommitMessage(messageFile: string): HookCheckResult {
+  let text: string;
+  try {
+    text = fs.readFileSync(messageFile, 'utf-8');
+  } catch (error) {
+    throw configError(`Cannot read commit message file: ${messageFile}`, error as Error);
+  }
+
+  const lines = text.split('\n');
+  const scissors = lines.findIndex(line => SCISSORS_LINE.test(line));
+  // Blank out comments rather than dropping them, so line numbers still match
+  const message = (scissors === -1 ? lines : lines.slice(0, scissors))
+    .map(line => line.startsWith('#') ? '' : line)
+    .join('\n');
+
+  const findings = secretsDetector.detectInContent([{ file: messageFile, data: Buffer.from(message) }]);
+  return {
+    hook: 'commit-msg',
+    scanned: 'the commit message',
+    problems: findings.map(finding => ({ ...secretProblem(path.dirname(messageFile), finding), file: 'commit message' })),
+  };
+}
+
+/**
+ * Scan the lines added by the commits being pushed: those reachable from the
+ * pushed refs but not from what the remote already has. A new branch is
+ * compared against the remote's other branches.
+ */
+export async function checkPushedCommits(repoPath: string, refs: PushedRef[], remote?: string): Promise<HookCheckResult> {
+  const repoRoot = gitRoot(repoPath);
+  const pushed = refs.filter(ref => !ZERO_SHA.test(ref.localSha)); // Deleted refs push no commits
+  if (pushed.length === 0) {
+    return { hook: 'pre-push', scanned: 'no commits', problems: [] };
+  }
+
+  const known = pushed.map(ref => ref.remoteSha).filter(sha => !ZERO_SHA.test(sha) && commitExists(repoRoot, sha));
+  const exclude = known.length === pushed.length ? known : [...known, ...remoteTips(repoRoot, remote)];
+  const revisions = [...pushed.map(ref => ref.localSha), ...exclude.map(sha => `^${sha}`)];
+
+  const findings = projectConfigManager.filterByPath(
+    await secretsDetector.scanGitHistory(repoRoot, { commits: revisions.join(' ') })
+  );
+  return {
+    hook: 'pre-push',
+    scanned: `commits on ${pushed.map(ref => ref.remoteRef.replace(/^refs\/heads\//, '')).join(', ')}`,
+    problems: findings.map(finding => ({ ...secretProblem(repoRoot, finding), commit: finding.commit })),
+  };
+}
+
+/**
+ * Parse the `<local ref> <local sha> <remote ref> <remote sha>` lines git
+ * passes to pre-push hooks
+ */
+export function parsePushedRefs(input: string): PushedRef[] {
+  return input.split('\n')
+    .map(line => line.trim().split(/\s+/))
+    .filter(fields => fields.length === 4)
+    .map(([localRef, localSha, remoteRef, remoteSha]) => ({ localRef, localSha, remoteRef, remoteSha }));
+}
+
+/**
+ * Append a bypassed check to the local audit log and return the log's path.
+ * The log lives in the git directory, so it is never committed.
+ */
+export function recordBypass(repoPath: string, result: HookCheckResult, reason: string): string {
+  const repoRoot = gitRoot(repoPath);
+  const logFile = bypassLogPath(repoRoot);
+  const entry: BypassEntry = {
+    timestamp: new Date().toISOString(),
+    hook: result.hook,
+    reason,
+    user: gitOutput(repoRoot, ['config', 'user.email']) || gitOutput(repoRoot, ['config', 'user.name']) || os.userInfo().username,
+    branch: gitOutput(repoRoot, ['symbolic-ref', '--short', '-q', 'HEAD']) || 'detached HEAD',
+    problems: result.problems.map(({ kind, file, line, title, fingerprint, commit }) => ({ kind, file, line, title, fingerprint, commit })),
+  };
+
+  fs.mkdirSync(path.dirname(logFile), { recursive: true });
+  fs.appendFileSync(logFile, JSON.stringify(entry) + '\n');
+  return logFile;
+}
+
+export function bypassLogPath(repoRoot: string): string {
+  return path.resolve(repoRoot, git(['rev-parse', '--git-common-dir'], repoRoot).toString().trim(), 'guardscan', 'bypass.log');
+}
+
+function secretProblem(repoRoot: string, finding: SecretFinding): HookProblem {
+  return {
+    kind: 'secret',
+    file: relativePath(repoRoot, finding.file) + (finding.location ? ` (${finding.location})` : ''),
+    line: finding.line,
+    title: finding.type,
+    severity: finding.severity,
+    detail: finding.secret,
+    fingerprint: finding.fingerprint,
+  };
+}
+
+/**
+ * Remote-tracking branch tips, to leave out commits the remote already has
+ */
+function remoteTips(repoRoot: string, remote?: string): string[] {
+  const output = gitOutput(repoRoot, ['for-each-ref', '--format=%(objectname)', remote ? `refs/remotes/${remote}/` : 'refs/remotes/']);
+  return output ? Array.from(new Set(output.split('\n'))) : [];
+}
+
+function commitExists(repoRoot: string, sha: string): boolean {
+  return gitOutput(repoRoot, ['cat-file', '-t', sha]) === 'commit';
+}
+
+function relativePath(repoRoot: string, file: string): string {
+  return path.relative(repoRoot, path.resolve(repoRoot, file)).split(path.sep).join('/');
+}
+
+function gitRoot(repoPath: string): string {
+  const root = gitOutput(repoPath, ['rev-parse', '--show-toplevel']);
+  if (!root) {
+    throw configError('Git hooks require a git repository');
+  }
+  return root;
+}
+
+/**
+ * Trimmed output of a git command, or '' when it fails
+ */
+function gitOutput(cwd: string, args: string[]): string {
+  try {
+    return git(args, cwd).toString().trim();
+  } catch {
+    return '';
+  }
+}
+
+function git(args: string[], cwd: string): Buffer {
+  try {
+    return execFileSync('git', args, { cwd, maxBuffer: 64 * 1024 * 1024, stdio: ['ignore', 'pipe', 'pipe'] });
+  } catch (error: any) {
+    throw configError(`git ${args[0]} failed: ${error.stderr?.toString().trim() || error.message}`, error);
+  }
+}
@@ -1,7 +1,11 @@
-import * as fs from 'fs';
-import * as path from 'path';
 import yaml from 'js-yaml';
 import { Finding } from '../utils/reporter';
+import { suppressionManager, findingTarget } from './suppressions';
+import { fileWalker } from './file-walker';
+import { scanCache } from './scan-cache';
+
+// Bump when any IaC check changes so cached results are discarded
+const IAC_RULES_VERSION = '1';
 
 export class IaCScanner {
   /**
@@ -19,7 +23,7 @@ export class IaCScanner {
     // Scan Docker Compose files
     findings.push(...await this.scanDockerCompose(repoPath));
 
-    return findings;
+    return suppressionManager.apply('iac', findings, findingTarget);
   }
 
   /**
@@ -27,92 +31,105 @@ export class IaCScanner {
    */
   private async scanTerraform(repoPath: string): Promise<Finding[]> {
     const findings: Finding[] = [];
-    const tfFiles = this.findFiles(repoPath, /\.tf$/);
+    const tfFiles = fileWalker.listPaths(repoPath, { pattern: /\.tf$/, maxDepth: 5 });
 
     for (const file of tfFiles) {
       try {
-        const content = fs.readFileSync(file, 'utf-8');
-        const lines = content.split('\n');
+        const content = fileWalker.readFile(file);
+        if (content === null) continue;
+        findings.push(...scanCache.getOrScan(
+          'iac:terraform', file, content, () => this.checkTerraformFile(file, content), IAC_RULES_VERSION
+        ));
+      } catch {
+        // Skip files that can't be read
+      }
+    }
 
-        for (let i = 0; i < lines.length; i++) {
-          const line = lines[i];
-          const lineNum = i + 1;
+    return findings;
+  }
 
-          // Check for hardcoded credentials
-          if (/password\s*=|secret\s*=|token\s*=|key\s*=/i.test(line) &&
-              !/var\.|data\.|module\./i.test(line)) {
-            findings.push({
-              severity: 'critical',
-              category: 'Terraform Security',
-              file,
-              line: lineNum,
-              description: 'Hardcoded credentials detected',
-              suggestion: 'Use variables or secrets management',
-            });
-          }
+  /**
+   * Check a Terraform file
+   */
+  private checkTerraformFile(file: string, content: string): Finding[] {
+    const findings: Finding[] = [];
+    const lines = content.split('\n');
 
-          // Check for unencrypted storage
-          if (/storage_encrypted\s*=\s*false/i.test(line)) {
-            findings.push({
-              severity: 'high',
-              category: 'Terraform Security',
-              file,
-              line: lineNum,
-              description: 'Storage encryption disabled',
-              suggestion: 'Enable storage encryption for data at rest',
-            });
-          }
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i];
+      const lineNum = i + 1;
 
-          // Check for public access
-          if (/public_access\s*=\s*true|publicly_accessible\s*=\s*true/i.test(line)) {
-            findings.push({
-              severity: 'high',
-              category: 'Terraform Security',
-              file,
-              line: lineNum,
-              description: 'Resource configured for public access',
-              suggestion: 'Restrict public access unless absolutely necessary',
-            });
-          }
+      // Check for hardcoded credentials
+      if (/password\s*=|secret\s*=|token\s*=|key\s*=/i.test(line) &&
+          !/var\.|data\.|module\./i.test(line)) {
+        findings.push({
+          severity: 'critical',
+          category: 'Terraform Security',
+          file,
+          line: lineNum,
+          description: 'Hardcoded credentials detected',
+          suggestion: 'Use variables or secrets management',
+        });
+      }
 
-          // Check for overly permissive security groups
-          if (/cidr_blocks\s*=\s*\["0\.0\.0\.0\/0"\]/i.test(line)) {
-            findings.push({
-              severity: 'high',
-              category: 'Terraform Security',
-              file,
-              line: lineNum,
-              description: 'Security group allows access from anywhere (0.0.0.0/0)',
-              suggestion: 'Restrict CIDR blocks to specific IP ranges',
-            });
-          }
+      // Check for unencrypted storage
+      if (/storage_encrypted\s*=\s*false/i.test(line)) {
+        findings.push({
+          severity: 'high',
+          category: 'Terraform Security',
+          file,
+          line: lineNum,
+          description: 'Storage encryption disabled',
+          suggestion: 'Enable storage encryption for data at rest',
+        });
+      }
 
-          // Check for IAM wildcards
-          if (/"Action":\s*"\*"|"Resource":\s*"\*"/i.test(line)) {
-            findings.push({
-              severity: 'high',
-              category: 'Terraform Security',
-              file,
-              line: lineNum,
-              description: 'IAM policy uses wildcards (*)',
-              suggestion: 'Use least privilege principle with specific actions/resources',
-            });
-          }
+      // Check for public access
+      if (/public_access\s*=\s*true|publicly_accessible\s*=\s*true/i.test(line)) {
+        findings.push({
+          severity: 'high',
+          category: 'Terraform Security',
+          file,
+          line: lineNum,
+          description: 'Resource configured for public access',
+          suggestion: 'Restrict public access unless absolutely necessary',
+        });
+      }
 
-          // Check for logging disabled
-          if (/logging\s*=\s*\{\s*enabled\s*=\s*false/i.test(line)) {
-            findings.push({
-              severity: 'medium',
-              category: 'Terraform Security',
-              file,
-              line: lineNum,
-              description: 'Logging is disabled',
-              suggestion: 'Enable logging for audit and compliance',
-            });
-          }
-        }
-      } catch {
-        // Skip files that can't be read
+      // Check for overly permissive security groups
+      if (/cidr_blocks\s*=\s*\["0\.0\.0\.0\/0"\]/i.test(line)) {
+        findings.push({
+          severity: 'high',
+          category: 'Terraform Security',
+          file,
+          line: lineNum,
+          description: 'Security group allows access from anywhere (0.0.0.0/0)',
+          suggestion: 'Restrict CIDR blocks to specific IP ranges',
+        });
+      }
+
+      // Check for IAM wildcards
+      if (/"Action":\s*"\*"|"Resource":\s*"\*"/i.test(line)) {
+        findings.push({
+          severity: 'high',
+          category: 'Terraform Security',
+          file,
+          line: lineNum,
+          description: 'IAM policy uses wildcards (*)',
+          suggestion: 'Use least privilege principle with specific actions/resources',
+        });
+      }
+
+      // Check for logging disabled
+      if (/logging\s*=\s*\{\s*enabled\s*=\s*false/i.test(line)) {
+        findings.push({
+          severity: 'medium',
+          category: 'Terraform Security',
+          file,
+          line: lineNum,
+          description: 'Logging is disabled',
+          suggestion: 'Enable logging for audit and compliance',
+        });
       }
     }
 
@@ -124,21 +141,15 @@ export class IaCScanner {
    */
   private async scanKubernetes(repoPath: string): Promise<Finding[]> {
     const findings: Finding[] = [];
-    const k8sFiles = this.findFiles(repoPath, /\.ya?ml$/);
+    const k8sFiles = fileWalker.listPaths(repoPath, { pattern: /\.ya?ml$/, maxDepth: 5 });
 
     for (const file of k8sFiles) {
       try {
-        const content = fs.readFileSync(file, 'utf-8');
-        const docs = yaml.loadAll(content) as any[];
-
-        for (const doc of docs) {
-          if (!doc || typeof doc !== 'object') continue;
-
-          // Check if it's a Kubernetes resource
-          if (doc.apiVersion && doc.kind) {
-            findings.push(...this.checkK8sResource(doc, file));
-          }
-        }
+        const content = fileWalker.readFile(file);
+        if (content === null) continue;
+        findings.push(...scanCache.getOrScan(
+          'iac:kubernetes', file, content, () => this.checkKubernetesFile(file, content), IAC_RULES_VERSION
+        ));
       } catch {
         // Skip files that can't be parsed
       }
@@ -147,6 +158,25 @@ export class IaCScanner {
     return findings;
   }
 
+  /**
+   * Check every Kubernetes resource in a YAML file
+   */
+  private checkKubernetesFile(file: string, content: string): Finding[] {
+    const findings: Finding[] = [];
+    const docs = yaml.loadAll(content) as any[];
+
+    for (const doc of docs) {
+      if (!doc || typeof doc !== 'object') continue;
+
+      // Check if it's a Kubernetes resource
+      if (doc.apiVersion && doc.kind) {
+        findings.push(...this.checkK8sResource(doc, file));
+      }
+    }
+
+    return findings;
+  }
+
   /**
    * Check Kubernetes resource for security issues
    */
@@ -266,112 +296,91 @@ export class IaCScanner {
    */
   private async scanDockerCompose(repoPath: string): Promise<Finding[]> {
     const findings: Finding[] = [];
-    const composeFiles = this.findFiles(repoPath, /docker-compose.*\.ya?ml$/);
+    const composeFiles = fileWalker.listPaths(repoPath, { pattern: /docker-compose.*\.ya?ml$/, maxDepth: 5 });
 
     for (const file of composeFiles) {
       try {
-        const content = fs.readFileSync(file, 'utf-8');
-        const compose = yaml.load(content) as any;
+        const content = fileWalker.readFile(file);
+        if (content === null) continue;
+        findings.push(...scanCache.getOrScan(
+          'iac:compose', file, content, () => this.checkComposeFile(file, content), IAC_RULES_VERSION
+        ));
+      } catch {
+        // Skip files that can't be parsed
+      }
+    }
+
+    return findings;
+  }
 
-        if (compose.services) {
-          for (const [serviceName, serviceConfig] of Object.entries(compose.services as any)) {
-            const service = serviceConfig as any;
+  /**
+   * Check a Docker Compose file
+   */
+  private checkComposeFile(file: string, content: string): Finding[] {
+    const findings: Finding[] = [];
+    const compose = yaml.load(content) as any;
+
+    if (compose.services) {
+      for (const [serviceName, serviceConfig] of Object.entries(compose.services as any)) {
+        const service = serviceConfig as any;
 
-            // Check for privileged containers
-            if (service.privileged === true) {
+        // Check for privileged containers
+        if (service.privileged === true) {
+          findings.push({
+            severity: 'critical',
+            category: 'Docker Compose Security',
+            file,
+            description: `Service ${serviceName} runs in privileged mode`,
+            suggestion: 'Remove privileged mode',
+          });
+        }
+
+        // Check for host network
+        if (service.network_mode === 'host') {
+          findings.push({
+            severity: 'high',
+            category: 'Docker Compose Security',
+            file,
+            description: `Service ${serviceName} uses host network`,
+            suggestion: 'Use bridge network instead',
+          });
+        }
+
+        // Check for exposed ports
+        if (service.ports) {
+          for (const port of service.ports) {
+            if (typeof port === 'string' && port.startsWith('0.0.0.0:')) {
               findings.push({
-                severity: 'critical',
+                severity: 'medium',
                 category: 'Docker Compose Security',
                 file,
-                description: `Service ${serviceName} runs in privileged mode`,
-                suggestion: 'Remove privileged mode',
+                description: `Service ${serviceName} binds to 0.0.0.0`,
+                suggestion: 'Bind to localhost (127.0.0.1) if not needed externally',
               });
             }
+          }
+        }
 
-            // Check for host network
-            if (service.network_mode === 'host') {
+        // Check for environment variables with secrets
+        if (service.environment) {
+          for (const env of service.environment) {
+            const envStr = typeof env === 'string' ? env : JSON.stringify(env);
+            if (/password|secret|token|key/i.test(envStr) && /=/.test(envStr)) {
               findings.push({
                 severity: 'high',
                 category: 'Docker Compose Security',
                 file,
-                description: `Service ${serviceName} uses host network`,
-                suggestion: 'Use bridge network instead',
+                description: `Service ${serviceName} has hardcoded secrets`,
+                suggestion: 'Use Docker secrets or .env files',
               });
             }
-
-            // Check for exposed ports
-            if (service.ports) {
-              for (const port of service.ports) {
-                if (typeof port === 'string' && port.startsWith('0.0.0.0:')) {
-                  findings.push({
-                    severity: 'medium',
-                    category: 'Docker Compose Security',
-                    file,
-                    description: `Service ${serviceName} binds to 0.0.0.0`,
-                    suggestion: 'Bind to localhost (127.0.0.1) if not needed externally',
-                  });
-                }
-              }
-            }
-
-            // Check for environment variables with secrets
-            if (service.environment) {
-              for (const env of service.environment) {
-                const envStr = typeof env === 'string' ? env : JSON.stringify(env);
-                if (/password|secret|token|key/i.test(envStr) && /=/.test(envStr)) {
-                  findings.push({
-                    severity: 'high',
-                    category: 'Docker Compose Security',
-                    file,
-                    description: `Service ${serviceName} has hardcoded secrets`,
-                    suggestion: 'Use Docker secrets or .env files',
-                  });
-                }
-              }
-            }
           }
         }
-      } catch {
-        // Skip files that can't be parsed
       }
     }
 
     return findings;
   }
-
-  /**
-   * Find files matching pattern recursively
-   */
-  private findFiles(dir: string, pattern: RegExp, maxDepth: number = 5): string[] {
-    const files: string[] = [];
-
-    const search = (currentDir: string, depth: number) => {
-      if (depth > maxDepth) return;
-
-      try {
-        const items = fs.readdirSync(currentDir);
-
-        for (const item of items) {
-          // Skip node_modules, .git, etc.
-          if (item === 'node_modules' || item === '.git' || item === 'vendor') continue;
-
-          const fullPath = path.join(currentDir, item);
-          const stat = fs.statSync(fullPath);
-
-          if (stat.isDirectory()) {
-            search(fullPath, depth + 1);
-          } else if (pattern.test(item)) {
-            files.push(fullPath);
-          }
-        }
-      } catch {
-        // Skip directories that can't be read
-      }
-    };
-
-    search(dir, 0);
-    return files;
-  }
 }
 
 export const iacScanner = new IaCScanner();
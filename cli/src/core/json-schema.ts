@@ -0,0 +1,235 @@
+import { editDistance } from '../utils/edit-distance';
+
+/**
+ * JSON Schema (draft-07) validator for the project config and the schemas
+ * bundled in src/schemas.
+ *
+ * Supports the keywords those schemas use: type, enum, const, pattern, format
+ * (date-time; other formats are not checked), minLength, maxLength, minimum,
+ * maximum, required, properties, additionalProperties, items (list and tuple),
+ * additionalItems, minItems, maxItems, uniqueItems, allOf, anyOf, oneOf,
+ * if/then/else and `$ref`, local or to another schema passed in `references`
+ * ("spdx.schema.json" from the CycloneDX schema).
+ *
+ * Messages read like `include must be a list (got "src/**")` and suggest the
+ * closest property name for unknown keys.
+ */
+export type JsonSchema = Record<string, any>;
+
+const DATE_TIME = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/;
+
+const TYPE_NAMES: Record<string, string> = {
+  object: 'a mapping',
+  array: 'a list',
+  string: 'a string',
+  number: 'a number',
+  integer: 'an integer',
+  boolean: 'a boolean',
+  null: 'null',
+};
+
+interface SchemaContext {
+  root: JsonSchema; // The document local `#/...` references resolve in
+  references: Map<string, JsonSchema>; // Other schemas by $id
+}
+
+/**
+ * Validate a value; returns one message per violation, empty when valid
+ */
+export function validateJsonSchema(schema: JsonSchema, value: unknown, references: JsonSchema[] = []): string[] {
+  const errors: string[] = [];
+  const context: SchemaContext = {
+    root: schema,
+    references: new Map(references.map(reference => [reference.$id, reference])),
+  };
+  validate(value, schema, context, '', errors);
+  return errors;
+}
+
+function validate(value: unknown, schema: JsonSchema, context: SchemaContext, location: string, errors: string[]): void {
+  const label = location || 'document';
+
+  // Keywords next to $ref are ignored in draft-07
+  if (schema.$ref) {
+    const target = resolveRef(context, schema.$ref);
+    validate(value, target.schema, target.context, location, errors);
+    return;
+  }
+
+  if (schema.type && !matchesType(value, schema.type)) {
+    const expected = ([] as string[]).concat(schema.type).map(type => TYPE_NAMES[type] || type).join(' or ');
+    errors.push(`${label} must be ${expected} (got ${describe(value)})`);
+    return;
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    errors.push(`${label} must be one of: ${schema.enum.join(', ')} (got ${describe(value)})`);
+  }
+  if (schema.const !== undefined && value !== schema.const) {
+    errors.push(`${label} must be ${JSON.stringify(schema.const)}`);
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push(`${label} must be at least ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push(`${label} must be at most ${schema.maxLength} characters`);
+    }
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+      errors.push(`${label} does not match ${schema.pattern}`);
+    }
+    if (schema.format === 'date-time' && !DATE_TIME.test(value)) {
+      errors.push(`${label} must be an RFC 3339 date-time`);
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${label} must be >= ${schema.minimum} (got ${value})`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${label} must be <= ${schema.maximum} (got ${value})`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    validateArray(value, schema, context, label, errors);
+  } else if (isObject(value)) {
+    validateObject(value, schema, context, location, errors);
+  }
+
+  for (const option of schema.allOf || []) {
+    validate(value, option, context, location, errors);
+  }
+  if (schema.anyOf && !schema.anyOf.some((option: JsonSchema) => matches(option, context, value))) {
+    errors.push(`${label} does not match any allowed shape`);
+  }
+  if (schema.oneOf) {
+    const matching = schema.oneOf.filter((option: JsonSchema) => matches(option, context, value)).length;
+    if (matching !== 1) {
+      errors.push(`${label} must match exactly one allowed shape (matched ${matching})`);
+    }
+  }
+  if (schema.if) {
+    const branch = matches(schema.if, context, value) ? schema.then : schema.else;
+    if (branch) validate(value, branch, context, location, errors);
+  }
+}
+
+function validateArray(value: unknown[], schema: JsonSchema, context: SchemaContext, label: string, errors: string[]): void {
+  if (schema.minItems !== undefined && value.length < schema.minItems) {
+    errors.push(`${label} must have at least ${schema.minItems} item(s)`);
+  }
+  if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+    errors.push(`${label} must have at most ${schema.maxItems} item(s)`);
+  }
+  if (Array.isArray(schema.items)) {
+    value.forEach((item, index) => {
+      if (index < schema.items.length) {
+        validate(item, schema.items[index], context, `${label}[${index}]`, errors);
+      } else if (schema.additionalItems === false) {
+        errors.push(`${label}[${index}] is not allowed`);
+      }
+    });
+  } else if (schema.items) {
+    value.forEach((item, index) => validate(item, schema.items, context, `${label}[${index}]`, errors));
+  }
+  if (schema.uniqueItems) {
+    const seen = new Set<string>();
+    value.forEach((item, index) => {
+      const key = JSON.stringify(item);
+      if (seen.has(key)) errors.push(`${label}[${index}] duplicates an earlier item`);
+      seen.add(key);
+    });
+  }
+}
+
+function validateObject(value: Record<string, unknown>, schema: JsonSchema, context: SchemaContext, location: string, errors: string[]): void {
+  for (const [key, item] of Object.entries(value)) {
+    const childLocation = location ? `${location}.${key}` : key;
+    const property = schema.properties?.[key];
+    if (property) {
+      validate(item, property, context, childLocation, errors);
+    } else if (schema.additionalProperties === false) {
+      const suggestion = closestKey(key, Object.keys(schema.properties || {}));
+      errors.push(`Unknown key "${childLocation}"${suggestion ? ` (did you mean "${suggestion}"?)` : ''}`);
+    } else if (isObject(schema.additionalProperties)) {
+      validate(item, schema.additionalProperties, context, childLocation, errors);
+    }
+  }
+  for (const key of schema.required || []) {
+    if (value[key] === undefined) {
+      errors.push(`${location ? `${location}.${key}` : key} is required`);
+    }
+  }
+}
+
+function matches(schema: JsonSchema, context: SchemaContext, value: unknown): boolean {
+  const errors: string[] = [];
+  validate(value, schema, context, '', errors);
+  return errors.length === 0;
+}
+
+/**
+ * Resolve "#/definitions/x" in the current document, or "other.schema.json#/..."
+ * relative to its $id
+ */
+function resolveRef(context: SchemaContext, ref: string): { schema: JsonSchema; context: SchemaContext } {
+  const [document, pointer = ''] = ref.split('#');
+  let root = context.root;
+  if (document) {
+    const id = new URL(document, context.root.$id).href;
+    root = context.references.get(id) as JsonSchema;
+    if (!root) {
+      throw new Error(`Unresolved schema reference: ${ref}`);
+    }
+  }
+
+  const target = pointer.split('/').filter(Boolean).reduce<any>((node, key) => node?.[key], root);
+  if (!target) {
+    throw new Error(`Unresolved schema reference: ${ref}`);
+  }
+  return { schema: target, context: { ...context, root } };
+}
+
+/**
+ * Suggest the closest known key for typos (edit distance <= 2)
+ */
+function closestKey(key: string, candidates: string[]): string | undefined {
+  let best: string | undefined;
+  let bestDistance = 3;
+
+  for (const candidate of candidates) {
+    const distance = editDistance(key.toLowerCase(), candidate.toLowerCase());
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+
+  return best;
+}
+
+function matchesType(value: unknown, type: string | string[]): boolean {
+  return ([] as string[]).concat(type).some(expected => {
+    switch (expected) {
+      case 'integer': return Number.isInteger(value);
+      case 'number': return typeof value === 'number' && !Number.isNaN(value);
+      case 'array': return Array.isArray(value);
+      case 'object': return isObject(value);
+      case 'null': return value === null;
+      default: return typeof value === expected;
+    }
+  });
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'a list';
+  if (typeof value === 'object') return 'a mapping';
+  return JSON.stringify(value);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,191 @@
+import { SPDX_LICENSE_IDS } from '../constants/spdx-license-list';
+import { LicensePolicyConfig, LicensePolicyException, LicensePolicyRules } from './project-config';
+import { SpdxLicense, formatSpdxExpression, licenseAlternatives, parseSpdxExpression } from './spdx-expression';
+
+export type LicenseDecision = 'allow' | 'review' | 'deny';
+export type DependencyScope = 'prod' | 'dev';
+
+/**
+ * Outcome of checking one dependency's license expression against the policy
+ */
+export interface LicensePolicyResult {
+  decision?: LicenseDecision; // Unset when the policy does not list the licenses
+  license: string; // The OR alternative the decision applies to
+  reason?: string;
+  exception?: boolean; // Decided by a per-package exception
+}
+
+/**
+ * The dependency being checked; `dev` selects the dev scope lists
+ */
+export interface LicensePolicyTarget {
+  package: string;
+  version: string;
+  license: string;
+  dev?: boolean;
+}
+
+interface RuleMatch {
+  decision: LicenseDecision;
+  scoped: boolean; // Came from the scope lists rather than the project lists
+}
+
+// Lower is better when choosing between OR alternatives
+const DECISION_RANK: Record<LicenseDecision | 'unlisted', number> = { allow: 0, unlisted: 1, review: 2, deny: 3 };
+
+const DECISION_VERBS: Record<LicenseDecision, string> = { allow: 'allowed', review: 'flagged for review', deny: 'denied' };
+
+// Licenses with -only and -or-later IDs, whose bare and "+" forms are deprecated
+const VERSIONED_LICENSES = new Set(SPDX_LICENSE_IDS
+  .filter(id => id.endsWith('-or-later'))
+  .map(id => id.slice(0, -'-or-later'.length).toLowerCase()));
+
+// "gpl-2.0-or-later with classpath-exception-2.0" -> family, version, exception
+const VERSIONED_ID = /^(.+)-(\d+(?:\.\d+)*)-(only|or-later)((?: with .+)?)$/;
+
+/**
+ * Policy decision for a single license ID. Scope lists override the project
+ * lists; within a list set deny wins over review, and review over allow.
+ */
+export function licenseRuleDecision(policy: LicensePolicyConfig, license: string, scope: DependencyScope): RuleMatch | undefined {
+  const scoped = ruleDecision(policy.scopes?.[scope], license);
+  if (scoped) return { decision: scoped, scoped: true };
+
+  const project = ruleDecision(policy, license);
+  return project ? { decision: project, scoped: false } : undefined;
+}
+
+/**
+ * Evaluate a dependency's license expression. Each OR alternative is as good as
+ * its worst license; the best alternative wins, and `permissiveness` (lower is
+ * more permissive) breaks ties so "MIT OR GPL-3.0-only" settles on MIT.
+ */
+export function evaluateLicensePolicy(
+  policy: LicensePolicyConfig,
+  target: LicensePolicyTarget,
+  permissiveness: (licenses: SpdxLicense[]) => number = () => 0
+): LicensePolicyResult {
+  const scope: DependencyScope = target.dev ? 'dev' : 'prod';
+  const expression = parseSpdxExpression(target.license);
+  const alternatives = expression ? licenseAlternatives(expression) : [[{ type: 'license', id: target.license } as SpdxLicense]];
+
+  const candidates = alternatives.map((licenses, index) => {
+    const matches = licenses.map(license => ({ license, match: licenseMatch(policy, license, scope) }));
+    const worst = matches.reduce((a, b) => rank(b.match) > rank(a.match) ? b : a);
+    return { licenses, worst, index, permissiveness: permissiveness(licenses) };
+  });
+  candidates.sort((a, b) =>
+    rank(a.worst.match) - rank(b.worst.match) || a.permissiveness - b.permissiveness || a.index - b.index);
+
+  const best = candidates[0];
+  const license = best.licenses.map(formatSpdxExpression).join(' AND ');
+
+  const exception = findException(policy.exceptions || [], target);
+  if (exception) {
+    return { decision: 'allow', license, reason: `Exception: ${exception.reason}`, exception: true };
+  }
+
+  const match = best.worst.match;
+  if (!match) {
+    return { license };
+  }
+  return {
+    decision: match.decision,
+    license,
+    reason: `${formatSpdxExpression(best.worst.license)} is ${DECISION_VERBS[match.decision]} ${match.scoped ? `for ${scope} dependencies` : 'by the project license policy'}`,
+  };
+}
+
+/**
+ * A license with an exception is looked up as written first ("GPL-2.0-only WITH
+ * Classpath-exception-2.0"), then as the bare license
+ */
+function licenseMatch(policy: LicensePolicyConfig, license: SpdxLicense, scope: DependencyScope): RuleMatch | undefined {
+  const written = formatSpdxExpression(license);
+  return licenseRuleDecision(policy, written, scope)
+    || (license.exception ? licenseRuleDecision(policy, formatSpdxExpression({ ...license, exception: undefined }), scope) : undefined);
+}
+
+function ruleDecision(rules: LicensePolicyRules | undefined, license: string): LicenseDecision | undefined {
+  if (!rules) {
+    return undefined;
+  }
+
+  const written = license.toLowerCase();
+  const actual = currentLicense(license);
+  const matches = (patterns?: string[]) => (patterns || []).some(pattern => {
+    const expected = pattern.toLowerCase();
+    if (expected.endsWith('*')) {
+      const prefix = expected.slice(0, -1);
+      return written.startsWith(prefix) || actual.startsWith(prefix);
+    }
+    const rule = currentLicense(pattern);
+    return actual === rule || coversLaterVersion(rule, actual);
+  });
+
+  if (matches(rules.deny)) return 'deny';
+  if (matches(rules.review)) return 'review';
+  if (matches(rules.allow)) return 'allow';
+  return undefined;
+}
+
+/**
+ * Lowercase current SPDX form of a single license, so "GPL-2.0+" is looked up
+ * as gpl-2.0-or-later and the deprecated bare "GPL-2.0" as gpl-2.0-only
+ */
+function currentLicense(license: string): string {
+  const expression = parseSpdxExpression(license);
+  if (expression?.type !== 'license' || !VERSIONED_LICENSES.has(expression.id.toLowerCase())) {
+    return license.toLowerCase();
+  }
+
+  const id = `${expression.id}-${expression.orLater ? 'or-later' : 'only'}`;
+  return formatSpdxExpression({ ...expression, id, orLater: undefined }).toLowerCase();
+}
+
+/**
+ * An -or-later rule also covers the later versions of the license, so
+ * GPL-2.0-or-later matches GPL-3.0-only and GPL-3.0-or-later
+ */
+function coversLaterVersion(rule: string, license: string): boolean {
+  const ruleMatch = VERSIONED_ID.exec(rule);
+  const candidate = VERSIONED_ID.exec(license);
+  if (!ruleMatch || !candidate || ruleMatch[3] !== 'or-later') {
+    return false;
+  }
+
+  const [, family, version, , exception] = ruleMatch;
+  return candidate[1] === family
+    && candidate[4] === exception
+    && compareVersions(candidate[2], version) >= 0;
+}
+
+function compareVersions(a: string, b: string): number {
+  const left = a.split('.').map(Number);
+  const right = b.split('.').map(Number);
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const diff = (left[i] || 0) - (right[i] || 0);
+    if (diff) return diff;
+  }
+  return 0;
+}
+
+/**
+ * Exceptions name a package, optionally pinned to a version and to the license
+ * expression that was reviewed, so a relicensed release is checked again
+ */
+function findException(exceptions: LicensePolicyException[], target: LicensePolicyTarget): LicensePolicyException | undefined {
+  return exceptions.find(exception =>
+    exception.package.toLowerCase() === target.package.toLowerCase()
+    && (!exception.version || exception.version === target.version)
+    && (!exception.license || canonical(exception.license) === canonical(target.license)));
+}
+
+function canonical(license: string): string {
+  const expression = parseSpdxExpression(license);
+  return expression ? formatSpdxExpression(expression) : license.trim();
+}
+
+function rank(match: RuleMatch | undefined): number {
+  return DECISION_RANK[match?.decision || 'unlisted'];
+}
@@ -1,15 +1,26 @@
 import { execSync } from 'child_process';
 import * as fs from 'fs';
 import * as path from 'path';
+import { parseBuildManifests } from './build-manifests';
+import { DependencyEcosystem, parseLockfiles } from './lockfile-parser';
+import { LicensePolicyResult, evaluateLicensePolicy } from './license-policy';
+import { REVIEW_LICENSE_CONFIDENCE, findPackageDirectory, identifyPackageLicense } from './license-text';
+import { projectConfigManager } from './project-config';
+import { SpdxLicense, formatSpdxExpression, licenseAlternatives, mapSpdxLicenses, parseSpdxExpression } from './spdx-expression';
 
 export interface LicenseFinding {
   package: string;
   version: string;
   license: string; // SPDX identifier
+  declaredLicense?: string; // As stated in the package metadata, before normalization
   category: 'permissive' | 'weak-copyleft' | 'strong-copyleft' | 'proprietary' | 'unknown';
   risk: 'critical' | 'high' | 'medium' | 'low' | 'info';
   description: string;
-  source: 'npm' | 'pip' | 'go' | 'cargo' | 'maven' | 'rubygems';
+  source: 'npm' | 'pip' | 'go' | 'cargo' | 'maven' | 'nuget' | 'rubygems' | 'composer';
+  dev?: boolean; // Only needed for development
+  confidence?: number; // 0-1, set when the license was identified from license text
+  licenseFiles?: string[]; // Where that text was found, relative to the repository
+  policy?: LicensePolicyResult;
 }
 
 export interface CompatibilityIssue {
@@ -59,6 +70,50 @@ export interface SBOMPackage {
   cpe?: string;  // Common Platform Enumeration
 }
 
+// purl types for each license source (https://github.com/package-url/purl-spec)
+const PURL_TYPES: Record<LicenseFinding['source'], string> = {
+  npm: 'npm',
+  pip: 'pypi',
+  go: 'golang',
+  cargo: 'cargo',
+  maven: 'maven',
+  nuget: 'nuget',
+  rubygems: 'gem',
+  composer: 'composer',
+};
+
+// License scan source for each lockfile ecosystem
+export const LICENSE_SOURCES: Record<DependencyEcosystem, LicenseFinding['source']> = {
+  npm: 'npm',
+  pip: 'pip',
+  go: 'go',
+  ruby: 'rubygems',
+  cargo: 'cargo',
+  maven: 'maven',
+  composer: 'composer',
+  nuget: 'nuget',
+};
+
+type LicenseCategory = LicenseFinding['category'];
+type LicenseRisk = LicenseFinding['risk'];
+
+// Lower is more permissive
+const CATEGORY_RANK: Record<LicenseCategory, number> = {
+  permissive: 0,
+  'weak-copyleft': 1,
+  'strong-copyleft': 2,
+  proprietary: 3,
+  unknown: 4,
+};
+const RISK_RANK: Record<LicenseRisk, number> = { info: 0, low: 1, medium: 2, high: 3, critical: 4 };
+
+// Risk of a license the project policy has decided on
+const POLICY_RISKS: Record<NonNullable<LicensePolicyResult['decision']>, LicenseRisk> = {
+  allow: 'low',
+  review: 'medium',
+  deny: 'high',
+};
+
 export class LicenseScanner {
   // License compatibility matrix
   private readonly COMPATIBILITY_MATRIX: Record<string, { compatible: string[]; incompatible?: string[] }> = {
@@ -94,12 +149,39 @@ export class LicenseScanner {
     findings.push(...await this.scanPip(repoPath));
     findings.push(...await this.scanGo(repoPath));
     findings.push(...await this.scanCargo(repoPath));
-    findings.push(...await this.scanMaven(repoPath));
+    findings.push(...await this.scanBuildManifests(repoPath));
     findings.push(...await this.scanRubygems(repoPath));
+    this.markDevDependencies(repoPath, findings);
+    this.identifyFromLicenseText(repoPath, findings);
+
+    return this.evaluate(findings, projectType);
+  }
+
+  /**
+   * Apply the license policy to findings: per-package risk, compatibility issues and summaries.
+   * Expressions are checked against licensePolicy in .guardscan.yml, settling on the
+   * most permissive OR alternative the policy accepts; unlisted licenses get the
+   * project-type risk.
+   */
+  evaluate(findings: LicenseFinding[], projectType: 'proprietary' | 'open-source' = 'proprietary'): LicenseReport {
+    const policy = projectConfigManager.get().licensePolicy || {};
 
     // Calculate risk for each finding
     findings.forEach(finding => {
-      finding.risk = this.calculateRisk(finding.license, finding.category, projectType);
+      finding.policy = evaluateLicensePolicy(policy, finding, licenses =>
+        CATEGORY_RANK[this.worstCategory(licenses)] * 10 + RISK_RANK[this.alternativeRisk(licenses, projectType)]);
+      finding.category = this.categorizeLicense(finding.policy.license);
+      if (finding.confidence !== undefined && finding.confidence < REVIEW_LICENSE_CONFIDENCE
+        && !finding.policy.exception && finding.policy.decision !== 'deny') {
+        finding.policy = {
+          ...finding.policy,
+          decision: 'review',
+          reason: `${finding.license} was identified from ${finding.licenseFiles?.join(', ') || 'license text'} with ${Math.round(finding.confidence * 100)}% confidence`,
+        };
+      }
+      finding.risk = finding.policy.decision
+        ? POLICY_RISKS[finding.policy.decision]
+        : this.calculateRisk(finding.policy.license, finding.category, projectType);
     });
 
     // Check compatibility
@@ -131,6 +213,45 @@ export class LicenseScanner {
     };
   }
 
+  /**
+   * Mark findings for packages that lockfiles record as development-only, so
+   * the policy's dev scope applies to them
+   */
+  private markDevDependencies(repoPath: string, findings: LicenseFinding[]): void {
+    const dev = new Map<string, boolean>();
+    for (const dependency of parseLockfiles(repoPath)) {
+      if (dependency.dev === undefined) continue;
+      const key = `${LICENSE_SOURCES[dependency.ecosystem]}:${dependency.name}@${dependency.version}`;
+      dev.set(key, (dev.get(key) ?? true) && dependency.dev);
+    }
+
+    for (const finding of findings) {
+      const scope = dev.get(`${finding.source}:${finding.package}@${finding.version}`);
+      if (finding.dev === undefined && scope !== undefined) {
+        finding.dev = scope;
+      }
+    }
+  }
+
+  /**
+   * Fill in licenses that package metadata leaves out from the LICENSE, COPYING
+   * or README files of the installed package
+   */
+  private identifyFromLicenseText(repoPath: string, findings: LicenseFinding[]): void {
+    for (const finding of findings) {
+      if (!isUnstatedLicense(finding.license)) continue;
+
+      const packageDir = findPackageDirectory(repoPath, finding.source, finding.package, finding.version);
+      const match = packageDir ? identifyPackageLicense(packageDir) : null;
+      if (!packageDir || !match) continue;
+
+      finding.license = match.license;
+      finding.category = this.categorizeLicense(match.license);
+      finding.confidence = match.confidence;
+      finding.licenseFiles = match.files.map(file => path.relative(repoPath, path.join(packageDir, file)).split(path.sep).join('/'));
+    }
+  }
+
   /**
    * Scan npm packages
    */
@@ -152,15 +273,21 @@ export class LicenseScanner {
       });
 
       const licenses = JSON.parse(output);
+      const root = JSON.parse(fs.readFileSync(packageJsonPath, 'utf-8'));
 
       for (const [pkg, data] of Object.entries(licenses as any)) {
-        const [name, version] = pkg.split('@').filter(Boolean);
+        // "@scope/name@1.0.0": the version follows the last @
+        const at = pkg.lastIndexOf('@');
+        const [name, version] = at > 0 ? [pkg.slice(0, at), pkg.slice(at + 1)] : [pkg, undefined];
+        // license-checker lists the project itself
+        if (name === root.name && version === root.version) continue;
         const license = (data as any).licenses || 'Unknown';
 
         findings.push({
           package: name || pkg,
           version: version || 'unknown',
           license: this.normalizeLicense(license),
+          declaredLicense: String(license),
           category: this.categorizeLicense(license),
           risk: 'info', // Will be calculated later
           description: `npm package: ${name}@${version}`,
@@ -185,6 +312,7 @@ export class LicenseScanner {
             risk: 'info',
             description: `npm package: ${name} (license detection failed)`,
             source: 'npm',
+            dev: !packageJson.dependencies?.[name],
           });
         }
       } catch {
@@ -222,6 +350,7 @@ export class LicenseScanner {
           package: pkg.Name,
           version: pkg.Version,
           license: this.normalizeLicense(pkg.License),
+          declaredLicense: pkg.License,
           category: this.categorizeLicense(pkg.License),
           risk: 'info',
           description: `pip package: ${pkg.Name}@${pkg.Version}`,
@@ -331,6 +460,7 @@ export class LicenseScanner {
           package: pkg.name,
           version: pkg.version,
           license: this.normalizeLicense(pkg.license || 'Unknown'),
+          declaredLicense: pkg.license || undefined,
           category: this.categorizeLicense(pkg.license || 'Unknown'),
           risk: 'info',
           description: `Cargo crate: ${pkg.name}@${pkg.version}`,
@@ -345,19 +475,29 @@ export class LicenseScanner {
   }
 
   /**
-   * Scan Maven dependencies
+   * Scan Maven, Gradle and NuGet dependencies declared in build files
    */
-  private async scanMaven(repoPath: string): Promise<LicenseFinding[]> {
+  private async scanBuildManifests(repoPath: string): Promise<LicenseFinding[]> {
     const findings: LicenseFinding[] = [];
-    const pomPath = path.join(repoPath, 'pom.xml');
-
-    if (!fs.existsSync(pomPath)) {
-      return findings;
+    const seen = new Set<string>();
+
+    for (const dep of parseBuildManifests(repoPath)) {
+      const key = `${dep.ecosystem}:${dep.name}@${dep.version}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      // License metadata lives in the remote POM / nuspec, which is not available offline
+      findings.push({
+        package: dep.name,
+        version: dep.version,
+        license: 'Unknown',
+        category: 'unknown',
+        risk: 'info',
+        description: `${dep.ecosystem === 'maven' ? 'Maven artifact' : 'NuGet package'}: ${dep.name}@${dep.version} (${dep.file})`,
+        source: dep.ecosystem === 'maven' ? 'maven' : 'nuget',
+      });
     }
 
-    // Maven license scanning is complex, would require parsing pom.xml
-    // For now, return empty (can be enhanced later)
-
     return findings;
   }
 
@@ -404,7 +544,8 @@ export class LicenseScanner {
   }
 
   /**
-   * Normalize license identifier to SPDX format
+   * Normalize license identifier to SPDX format. Expressions keep their structure
+   * and have each license normalized ("(GPL-2.0+ OR MIT)" → "GPL-2.0-or-later OR MIT").
    */
   private normalizeLicense(license: string): string {
     if (!license || license === 'UNKNOWN') return 'Unknown';
@@ -430,15 +571,47 @@ export class LicenseScanner {
       'proprietary': 'proprietary',
     };
 
-    return normalizations[license] || license;
+    if (normalizations[license]) {
+      return normalizations[license];
+    }
+
+    const expression = parseSpdxExpression(license);
+    if (!expression) {
+      return license;
+    }
+
+    return formatSpdxExpression(mapSpdxLicenses(expression, item => {
+      // Deprecated GNU IDs with "+" have -or-later replacements
+      if (item.orLater && /^(A|L)?GPL-\d\.\d$/.test(item.id)) {
+        return { ...item, id: `${item.id}-or-later`, orLater: undefined };
+      }
+      return { ...item, id: normalizations[item.id] || item.id };
+    }));
+  }
+
+  /**
+   * Normalized SPDX identifier and category for a license as some package metadata states it
+   */
+  classifyLicense(license: string): Pick<LicenseFinding, 'license' | 'category'> {
+    return { license: this.normalizeLicense(license), category: this.categorizeLicense(license) };
   }
 
   /**
-   * Categorize license
+   * Categorize license; an expression gets the category of its most permissive OR alternative
    */
-  private categorizeLicense(license: string): 'permissive' | 'weak-copyleft' | 'strong-copyleft' | 'proprietary' | 'unknown' {
+  private categorizeLicense(license: string): LicenseCategory {
     const normalized = this.normalizeLicense(license);
+    const expression = parseSpdxExpression(normalized);
+    if (!expression || expression.type === 'license') {
+      return this.categorizeSingleLicense(normalized);
+    }
 
+    return licenseAlternatives(expression)
+      .map(licenses => this.worstCategory(licenses))
+      .reduce((a, b) => CATEGORY_RANK[b] < CATEGORY_RANK[a] ? b : a);
+  }
+
+  private categorizeSingleLicense(normalized: string): LicenseCategory {
     const permissive = ['MIT', 'Apache-2.0', 'BSD-2-Clause', 'BSD-3-Clause', 'ISC', '0BSD', 'CC0-1.0'];
     const weakCopyleft = ['LGPL-2.0', 'LGPL-2.1', 'LGPL-3.0', 'MPL-2.0', 'EPL-1.0', 'EPL-2.0'];
     const strongCopyleft = ['GPL-2.0', 'GPL-3.0', 'AGPL-3.0', 'OSL-3.0'];
@@ -451,6 +624,24 @@ export class LicenseScanner {
     return 'unknown';
   }
 
+  /**
+   * Licenses that all apply together are as restrictive as the most restrictive one
+   */
+  private worstCategory(licenses: SpdxLicense[]): LicenseCategory {
+    return licenses
+      .map(license => this.categorizeSingleLicense(formatSpdxExpression(license)))
+      .reduce((a, b) => CATEGORY_RANK[b] > CATEGORY_RANK[a] ? b : a);
+  }
+
+  private alternativeRisk(licenses: SpdxLicense[], projectType: 'proprietary' | 'open-source'): LicenseRisk {
+    return licenses
+      .map(license => {
+        const id = formatSpdxExpression(license);
+        return this.calculateRisk(id, this.categorizeSingleLicense(id), projectType);
+      })
+      .reduce((a, b) => RISK_RANK[b] > RISK_RANK[a] ? b : a);
+  }
+
   /**
    * Calculate risk level for a license
    */
@@ -458,7 +649,7 @@ export class LicenseScanner {
     license: string,
     category: string,
     projectType: 'proprietary' | 'open-source'
-  ): 'critical' | 'high' | 'medium' | 'low' | 'info' {
+  ): LicenseRisk {
     const normalized = this.normalizeLicense(license);
 
     // Critical risks
@@ -498,14 +689,17 @@ export class LicenseScanner {
       for (let j = i + 1; j < findings.length; j++) {
         const f1 = findings[i];
         const f2 = findings[j];
+        if (f1.policy?.exception || f2.policy?.exception) continue;
 
-        const conflict = this.checkLicenseConflict(f1.license, f2.license);
+        const license1 = f1.policy?.license || f1.license;
+        const license2 = f2.policy?.license || f2.license;
+        const conflict = this.checkLicenseConflict(license1, license2);
         if (conflict) {
           issues.push({
             package1: f1.package,
-            license1: f1.license,
+            license1,
             package2: f2.package,
-            license2: f2.license,
+            license2,
             conflict: conflict.reason,
             severity: conflict.severity,
             recommendation: conflict.recommendation,
@@ -571,7 +765,7 @@ export class LicenseScanner {
 
     return {
       format,
-      version: format === 'spdx' ? '2.3' : '1.4',
+      version: format === 'spdx' ? '2.3' : '1.5',
       name: projectName,
       packages,
       timestamp: new Date().toISOString(),
@@ -579,15 +773,32 @@ export class LicenseScanner {
   }
 
   /**
-   * Generate Package URL (PURL)
+   * Generate Package URL (PURL) per the purl spec: registry type, percent-encoded
+   * namespace and name segments, and the registry's own name normalization
    */
-  private generatePURL(finding: LicenseFinding): string {
-    const type = finding.source;
-    const name = finding.package;
-    const version = finding.version;
+  generatePURL(finding: Pick<LicenseFinding, 'package' | 'version' | 'source'>): string {
+    const type = PURL_TYPES[finding.source];
+    let name = finding.package;
+    if (type === 'pypi') {
+      name = name.toLowerCase().replace(/[-_.]+/g, '-');
+    } else if (type === 'maven') {
+      // Maven coordinates "group:artifact" become the purl namespace and name
+      name = name.replace(':', '/');
+    } else if (type === 'composer') {
+      name = name.toLowerCase();
+    }
+    const encoded = name.split('/').map(segment => encodeURIComponent(segment)).join('/');
 
-    return `pkg:${type}/${name}@${version}`;
+    return `pkg:${type}/${encoded}@${encodeURIComponent(finding.version)}`;
   }
 }
 
+/**
+ * Metadata that names no license: missing, UNKNOWN, or a pointer to a file
+ * ("SEE LICENSE IN LICENSE.md", license-checker's "Custom: README")
+ */
+function isUnstatedLicense(license: string): boolean {
+  return !license || /^(unknown|noassertion)$/i.test(license.trim()) || /^(see licen[cs]e in|custom:)/i.test(license.trim());
+}
+
 export const licenseScanner = new LicenseScanner();
@@ -0,0 +1,414 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { LICENSE_TEXTS } from '../constants/license-texts';
+
+/**
+ * A license identified from text rather than package metadata
+ */
+export interface LicenseTextMatch {
+  license: string; // SPDX expression
+  confidence: number; // 0-1: how much of the reference text the file contains
+  files: string[]; // Files the match came from, relative to the package directory
+}
+
+// Below this a text match is discarded
+export const MIN_LICENSE_CONFIDENCE = 0.5;
+// Below this a match needs a human to confirm it
+export const REVIEW_LICENSE_CONFIDENCE = 0.95;
+// A README naming a license ("Released under the MIT license") is only a hint
+const NAME_MATCH_CONFIDENCE = 0.5;
+
+const SHINGLE_SIZE = 3;
+// Trigrams a text may drop from, or insert into, a reference passage between two
+// matches that still follow each other; further apart they are separate passages
+const MAX_SKIPPED = 10;
+const MAX_INSERTED = 30;
+const MIN_ALIGNED = 3;
+const MAX_LICENSE_FILE_SIZE = 512 * 1024;
+const LICENSE_FILE = /^(licen[cs]e|copying|unlicense)([-._].*)?$/i;
+const README_FILE = /^readme(\.(md|markdown|rst|txt))?$/i;
+
+interface Reference {
+  id: string;
+  notice: boolean;
+  shingles: Set<string>;
+  positions: Map<string, Array<[number, number]>>; // Trigram → [passage, index] occurrences
+}
+
+interface Alignment {
+  at: number; // Position in the text
+  passage: number;
+  index: number; // Position in the reference passage
+}
+
+let references: Reference[] | undefined;
+
+/**
+ * Identify the license a text reproduces. Confidence is the share of the
+ * reference text's word trigrams the text contains, lowered by words inserted
+ * inside a reference passage ("except for military use"). Text around the
+ * license, like a copyright line or an appendix, does not count.
+ *
+ * When several references are fully contained (BSD-3-Clause includes
+ * BSD-2-Clause), the longer one wins. Notices only count when no license text
+ * matches, since full license texts quote them in their "how to apply" appendix.
+ */
+export function identifyLicenseText(text: string): { license: string; confidence: number } | null {
+  const sequence = shingleSequence(normalizeLicenseText(text));
+  if (sequence.length === 0) {
+    return null;
+  }
+  const document = new Set(sequence);
+
+  const bestOf = (candidates: Reference[]) => {
+    let best: { license: string; confidence: number; size: number } | null = null;
+    for (const reference of candidates) {
+      let contained = 0;
+      reference.shingles.forEach(shingle => {
+        if (document.has(shingle)) contained++;
+      });
+
+      const confidence = Math.round(contained / (reference.shingles.size + insertedWords(sequence, reference)) * 100) / 100;
+      if (!best || confidence > best.confidence || (confidence === best.confidence && reference.shingles.size > best.size)) {
+        best = { license: reference.id, confidence, size: reference.shingles.size };
+      }
+    }
+    return best && best.confidence >= MIN_LICENSE_CONFIDENCE ? { license: best.license, confidence: best.confidence } : null;
+  };
+
+  return bestOf(loadReferences().filter(reference => !reference.notice))
+    || bestOf(loadReferences().filter(reference => reference.notice));
+}
+
+/**
+ * Trigrams the text has between two aligned matches that are close together in
+ * the same reference passage, beyond what the reference has between them
+ */
+function insertedWords(sequence: string[], reference: Reference): number {
+  let inserted = 0;
+  let previous: Alignment | undefined;
+
+  alignedMatches(sequence, reference).forEach(current => {
+    if (previous && current.passage === previous.passage && current.index > previous.index
+      && current.index - previous.index <= MAX_SKIPPED && current.at - previous.at <= MAX_INSERTED) {
+      inserted += Math.max(0, (current.at - previous.at) - (current.index - previous.index));
+    }
+    previous = current;
+  });
+
+  return inserted;
+}
+
+/**
+ * Text positions that start or continue a run of at least MIN_ALIGNED trigrams
+ * in reference order. A lone common trigram ("of this license") could match
+ * anywhere, so it is no evidence of where the text is in the reference. Each
+ * reference trigram aligns once, so a later section repeating a passage's
+ * wording (Apache's patent grant) is not read as an edited copy of it.
+ */
+function alignedMatches(sequence: string[], reference: Reference): Alignment[] {
+  // Length of the run each [passage, index] occurrence starts at each position
+  const runs: Array<Map<string, number>> = new Array(sequence.length);
+  for (let at = sequence.length - 1; at >= 0; at--) {
+    runs[at] = new Map();
+    for (const [passage, index] of reference.positions.get(sequence[at]) || []) {
+      runs[at].set(`${passage}:${index}`, 1 + (runs[at + 1]?.get(`${passage}:${index + 1}`) || 0));
+    }
+  }
+
+  const result: Alignment[] = [];
+  const aligned = new Set<string>();
+  let previous: Alignment | undefined;
+  sequence.forEach((shingle, at) => {
+    const occurrences = (reference.positions.get(shingle) || []).filter(([passage, index]) => !aligned.has(`${passage}:${index}`));
+    const continued = previous && previous.at === at - 1
+      && occurrences.find(([passage, index]) => passage === previous!.passage && index === previous!.index + 1);
+    const started = continued || occurrences.find(([passage, index]) => runs[at].get(`${passage}:${index}`)! >= MIN_ALIGNED);
+    if (started) {
+      previous = { at, passage: started[0], index: started[1] };
+      aligned.add(`${started[0]}:${started[1]}`);
+      result.push(previous);
+    }
+  });
+  return result;
+}
+
+/**
+ * Identify a package's license from the LICENSE and COPYING files in
+ * its directory, falling back to the License section of its README.
+ * Several license files combine with AND, except that LICENSE-<name> files
+ * are the dual-licensing convention (LICENSE-MIT, LICENSE-APACHE, UNLICENSE)
+ * and combine with OR, and an LGPL file makes the GPL text it builds on redundant.
+ */
+export function identifyPackageLicense(packageDir: string): LicenseTextMatch | null {
+  const files = licenseFiles(packageDir);
+  const matches: Array<{ license: string; confidence: number; file: string }> = [];
+  for (const file of files) {
+    const match = identifyLicenseText(readText(path.join(packageDir, file)));
+    if (match) matches.push({ ...match, file });
+  }
+
+  if (matches.length > 0) {
+    const licenses = Array.from(new Set(matches.map(match => match.license)))
+      .filter((license, _, all) => {
+        const gpl = license.match(/^GPL-(\d\.\d)/);
+        return !gpl || !all.some(other => other.startsWith(`LGPL-${gpl[1] === '2.0' ? '2.1' : gpl[1]}`));
+      });
+    const used = matches.filter(match => licenses.includes(match.license));
+    const dual = licenses.length > 1 && used.every(match => /^(licen[cs]e-|unlicense)/i.test(match.file));
+    return {
+      license: licenses.length > 1 ? licenses.join(dual ? ' OR ' : ' AND ') : licenses[0],
+      confidence: Math.min(...used.map(match => match.confidence)),
+      files: Array.from(new Set(used.map(match => match.file))),
+    };
+  }
+
+  const readme = fs.existsSync(packageDir) ? fs.readdirSync(packageDir).find(name => README_FILE.test(name)) : undefined;
+  const section = readme ? readmeLicenseSection(readText(path.join(packageDir, readme))) : undefined;
+  if (!readme || !section) {
+    return null;
+  }
+
+  const match = identifyLicenseText(section);
+  if (match) {
+    return { ...match, files: [readme] };
+  }
+  const named = namedLicenses(section);
+  return named ? { license: named, confidence: NAME_MATCH_CONFIDENCE, files: [readme] } : null;
+}
+
+/**
+ * LICENSE and COPYING files at the top of a package directory,
+ * plus the `licenses/` folder Python wheels use (PEP 639)
+ */
+export function licenseFiles(packageDir: string): string[] {
+  const list = (dir: string) => {
+    try {
+      return fs.readdirSync(path.join(packageDir, dir), { withFileTypes: true })
+        .filter(entry => entry.isFile() && LICENSE_FILE.test(entry.name))
+        .map(entry => path.posix.join(dir, entry.name));
+    } catch {
+      return [];
+    }
+  };
+  return [...list('.'), ...list('licenses')].map(file => file.replace(/^\.\//, '')).sort();
+}
+
+/**
+ * Where a dependency is installed, for the ecosystems that keep sources
+ * locally: node_modules, a virtualenv's site-packages, vendor directories,
+ * the Cargo registry cache and the NuGet global packages folder. Maven keeps
+ * only jars, so its packages are never found.
+ */
+export function findPackageDirectory(repoPath: string, source: string, name: string, version: string): string | undefined {
+  const existing = (...candidates: string[]) => candidates.find(candidate => fs.existsSync(candidate));
+
+  switch (source) {
+    case 'npm':
+      return findNodeModule(repoPath, name, version);
+    case 'pip':
+      return findDistInfo(repoPath, name, version);
+    case 'go':
+      return existing(path.join(repoPath, 'vendor', name));
+    case 'composer':
+      return existing(path.join(repoPath, 'vendor', name));
+    case 'rubygems':
+      return globDirectories(path.join(repoPath, 'vendor', 'bundle', 'ruby'), dir => path.join(dir, 'gems', `${name}-${version}`));
+    case 'cargo': {
+      const cargoHome = process.env.CARGO_HOME || path.join(os.homedir(), '.cargo');
+      return existing(path.join(repoPath, 'vendor', name))
+        || globDirectories(path.join(cargoHome, 'registry', 'src'), dir => path.join(dir, `${name}-${version}`));
+    }
+    case 'nuget': {
+      const nugetPackages = process.env.NUGET_PACKAGES || path.join(os.homedir(), '.nuget', 'packages');
+      return existing(path.join(nugetPackages, name.toLowerCase(), version.toLowerCase()));
+    }
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Text under a README heading that starts with "License" or "Licence"
+ * (Markdown `#` or underlined headings), up to the next heading of the same level
+ */
+export function readmeLicenseSection(readme: string): string | undefined {
+  const lines = readme.split(/\r?\n/);
+  const headingLevel = (index: number): number | undefined => {
+    const atx = lines[index].match(/^(#{1,6})\s+\S/);
+    if (atx) return atx[1].length;
+    const underline = lines[index + 1];
+    if (lines[index].trim() && underline && /^(=+|-+)\s*$/.test(underline)) return underline.startsWith('=') ? 1 : 2;
+    return undefined;
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const level = headingLevel(i);
+    if (!level || !/^(#+\s*)?licen[cs](e|ing)\b/i.test(lines[i].trim())) continue;
+
+    const start = lines[i].startsWith('#') ? i + 1 : i + 2;
+    let end = start;
+    while (end < lines.length) {
+      const next = headingLevel(end);
+      if (next !== undefined && next <= level) break;
+      end++;
+    }
+    const section = lines.slice(start, end).join('\n').trim();
+    return section || undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Lowercase words only: punctuation, list markers and "licence" spelling are
+ * ignored, as the SPDX matching guidelines do
+ */
+export function normalizeLicenseText(text: string): string {
+  return text
+    .replace(/^\s*(\d+\.|[*\-•]|\([a-z0-9]+\))\s+/gim, '')
+    .toLowerCase()
+    .replace(/licen[cs]/g, 'licens')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+function loadReferences(): Reference[] {
+  if (!references) {
+    const reference = (id: string, notice: boolean) => (text: string): Reference => {
+      const shingles = new Set<string>();
+      const positions = new Map<string, Array<[number, number]>>();
+      // `<>` splits the reference into passages; trigrams never span one
+      text.split('<>').forEach((part, passage) => shingleSequence(normalizeLicenseText(part)).forEach((shingle, index) => {
+        shingles.add(shingle);
+        positions.set(shingle, [...(positions.get(shingle) || []), [passage, index]]);
+      }));
+      return { id, notice, shingles, positions };
+    };
+    references = LICENSE_TEXTS.flatMap(({ id, texts, notices = [] }) => [
+      ...texts.map(reference(id, false)),
+      ...notices.map(reference(id, true)),
+    ]);
+  }
+  return references;
+}
+
+function shingleSequence(normalized: string): string[] {
+  const words = normalized ? normalized.split(' ') : [];
+  const result: string[] = [];
+  for (let i = 0; i + SHINGLE_SIZE <= words.length; i++) {
+    result.push(words.slice(i, i + SHINGLE_SIZE).join(' '));
+  }
+  return result;
+}
+
+/**
+ * Licenses a README section names; "either ... or" and "at your option" mean a choice
+ */
+function namedLicenses(section: string): string | undefined {
+  const text = ` ${normalizeLicenseText(section)} `;
+  const ids = LICENSE_TEXTS
+    .filter(({ names }) => names.some(name => text.includes(` ${name} `)))
+    .map(({ id }) => id);
+  if (ids.length === 0) {
+    return undefined;
+  }
+  return ids.join(/ (either|at your option|dual) /.test(text) ? ' OR ' : ' AND ');
+}
+
+function findDistInfo(repoPath: string, name: string, version: string): string | undefined {
+  const normalized = name.toLowerCase().replace(/[-_.]+/g, '_');
+  const inSitePackages = (sitePackages: string) => {
+    if (!fs.existsSync(sitePackages)) return undefined;
+    const entries = fs.readdirSync(sitePackages).filter(entry => entry.endsWith('.dist-info'));
+    const distInfo = (exactVersion: boolean) => entries.find(entry => {
+      const [dist, distVersion] = entry.slice(0, -'.dist-info'.length).split('-');
+      return dist.toLowerCase().replace(/[-_.]+/g, '_') === normalized && (!exactVersion || distVersion === version);
+    });
+    const entry = distInfo(true) || distInfo(false);
+    return entry ? path.join(sitePackages, entry) : undefined;
+  };
+
+  for (const venv of ['.venv', 'venv', 'env']) {
+    // POSIX virtualenvs use lib/pythonX.Y/site-packages, Windows ones Lib/site-packages
+    const found = globDirectories(path.join(repoPath, venv, 'lib'), dir => inSitePackages(path.join(dir, 'site-packages')))
+      || inSitePackages(path.join(repoPath, venv, 'Lib', 'site-packages'));
+    if (found) return found;
+  }
+  return undefined;
+}
+
+/**
+ * The node_modules copy of a package at the given version: the hoisted one
+ * when it matches (or records no version), otherwise a nested install
+ */
+function findNodeModule(repoPath: string, name: string, version: string): string | undefined {
+  const installedVersion = (dir: string): string | null | undefined => {
+    try {
+      const manifest = JSON.parse(fs.readFileSync(path.join(dir, 'package.json'), 'utf-8'));
+      return typeof manifest.version === 'string' ? manifest.version : null;
+    } catch {
+      return fs.existsSync(dir) ? null : undefined;
+    }
+  };
+
+  const hoisted = path.join(repoPath, 'node_modules', name);
+  const hoistedVersion = installedVersion(hoisted);
+  if (hoistedVersion !== undefined && (hoistedVersion === null || hoistedVersion === version)) {
+    return hoisted;
+  }
+
+  const queue = [path.join(repoPath, 'node_modules')];
+  while (queue.length > 0) {
+    const nodeModules = queue.shift()!;
+    for (const pkg of packagesIn(nodeModules)) {
+      const nested = path.join(pkg, 'node_modules');
+      if (!fs.existsSync(nested)) continue;
+      const candidate = path.join(nested, name);
+      if (installedVersion(candidate) === version) return candidate;
+      queue.push(nested);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Package directories in a node_modules folder, including scoped ones
+ */
+function packagesIn(nodeModules: string): string[] {
+  const directories = (dir: string) => {
+    try {
+      return fs.readdirSync(dir, { withFileTypes: true }).filter(entry => entry.isDirectory() && !entry.name.startsWith('.'));
+    } catch {
+      return [];
+    }
+  };
+  return directories(nodeModules).flatMap(entry => entry.name.startsWith('@')
+    ? directories(path.join(nodeModules, entry.name)).map(scoped => path.join(nodeModules, entry.name, scoped.name))
+    : [path.join(nodeModules, entry.name)]);
+}
+
+/**
+ * First existing path `candidate` builds from a subdirectory of `parent`
+ */
+function globDirectories(parent: string, candidate: (dir: string) => string | undefined): string | undefined {
+  let entries: fs.Dirent[];
+  try {
+    entries = fs.readdirSync(parent, { withFileTypes: true });
+  } catch {
+    return undefined;
+  }
+  for (const entry of entries.filter(item => item.isDirectory()).sort((a, b) => a.name.localeCompare(b.name))) {
+    const result = candidate(path.join(parent, entry.name));
+    if (result && fs.existsSync(result)) return result;
+  }
+  return undefined;
+}
+
+function readText(file: string): string {
+  try {
+    return fs.statSync(file).size <= MAX_LICENSE_FILE_SIZE ? fs.readFileSync(file, 'utf-8') : '';
+  } catch {
+    return '';
+  }
+}
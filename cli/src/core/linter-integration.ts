@@ -1,6 +1,7 @@
 import { execSync } from 'child_process';
 import * as fs from 'fs';
 import * as path from 'path';
+import { fileWalker } from './file-walker';
 
 export interface LintResult {
   file: string;
@@ -133,7 +134,7 @@ export class LinterIntegration {
     return fs.existsSync(path.join(repoPath, 'setup.cfg')) ||
            fs.existsSync(path.join(repoPath, '.flake8')) ||
            fs.existsSync(path.join(repoPath, 'tox.ini')) ||
-           this.findFiles(repoPath, /\.py$/).length > 0;
+           fileWalker.listFiles(repoPath, { pattern: /\.py$/, maxDepth: 3 }).length > 0;
   }
 
   /**
@@ -192,7 +193,7 @@ export class LinterIntegration {
    * Check if Pylint is available
    */
   private hasPylint(repoPath: string): boolean {
-    return this.findFiles(repoPath, /\.py$/).length > 0;
+    return fileWalker.listFiles(repoPath, { pattern: /\.py$/, maxDepth: 3 }).length > 0;
   }
 
   /**
@@ -316,7 +317,7 @@ export class LinterIntegration {
    */
   private hasRubocop(repoPath: string): boolean {
     return fs.existsSync(path.join(repoPath, 'Gemfile')) ||
-           this.findFiles(repoPath, /\.rb$/).length > 0;
+           fileWalker.listFiles(repoPath, { pattern: /\.rb$/, maxDepth: 3 }).length > 0;
   }
 
   /**
@@ -374,7 +375,7 @@ export class LinterIntegration {
    * Check if PHP CodeSniffer is available
    */
   private hasPhpCS(repoPath: string): boolean {
-    return this.findFiles(repoPath, /\.php$/).length > 0;
+    return fileWalker.listFiles(repoPath, { pattern: /\.php$/, maxDepth: 3 }).length > 0;
   }
 
   /**
@@ -428,38 +429,6 @@ export class LinterIntegration {
       return null;
     }
   }
-
-  /**
-   * Find files matching pattern
-   */
-  private findFiles(dir: string, pattern: RegExp): string[] {
-    const files: string[] = [];
-
-    const search = (currentDir: string, depth: number) => {
-      if (depth > 3) return;
-
-      try {
-        const items = fs.readdirSync(currentDir);
-        for (const item of items) {
-          if (item === 'node_modules' || item === '.git' || item === 'vendor') continue;
-
-          const fullPath = path.join(currentDir, item);
-          const stat = fs.statSync(fullPath);
-
-          if (stat.isDirectory()) {
-            search(fullPath, depth + 1);
-          } else if (pattern.test(item)) {
-            files.push(fullPath);
-          }
-        }
-      } catch {
-        // Skip
-      }
-    };
-
-    search(dir, 0);
-    return files;
-  }
 }
 
 export const linterIntegration = new LinterIntegration();
@@ -2,6 +2,12 @@ import * as fs from 'fs';
 import * as path from 'path';
 import fastGlob from 'fast-glob';
 import ignore from 'ignore';
+import { fileWalker } from './file-walker';
+
+const SOURCE_EXTENSIONS = [
+  '.js', '.jsx', '.ts', '.tsx', '.py', '.java', '.go', '.rs', '.c', '.cpp', '.h', '.hpp',
+  '.cs', '.rb', '.php', '.swift', '.kt', '.scala', '.sh', '.bash',
+];
 
 export interface LOCResult {
   totalLines: number;
@@ -101,19 +107,22 @@ export class LOCCounter {
    * Get list of files to analyze
    */
   private async getFiles(patterns?: string[]): Promise<string[]> {
-    const defaultPatterns = [
-      '**/*.{js,jsx,ts,tsx,py,java,go,rs,c,cpp,h,hpp,cs,rb,php,swift,kt,scala,sh,bash}',
-    ];
+    const cwd = process.cwd();
 
-    const globPatterns = patterns || defaultPatterns;
-    const files = await fastGlob(globPatterns, {
-      cwd: process.cwd(),
+    // Whole-repository counts share the scanners' file set
+    if (!patterns) {
+      return fileWalker
+        .listFiles(cwd, { extensions: SOURCE_EXTENSIONS })
+        .map(file => path.relative(cwd, file.path));
+    }
+
+    const files = await fastGlob(patterns, {
+      cwd,
       absolute: true, // Get absolute paths first
       ignore: ['node_modules/**', '.git/**', 'dist/**', 'build/**'],
     });
 
     // Convert to relative paths and filter using ignore patterns
-    const cwd = process.cwd();
     return files
       .map(file => path.relative(cwd, file))
       .filter(file => !this.ignoreMatcher.ignores(file));
@@ -124,7 +133,8 @@ export class LOCCounter {
    */
   private countFile(filePath: string): FileStats | null {
     try {
-      const content = fs.readFileSync(filePath, 'utf-8');
+      const content = fileWalker.readFile(filePath);
+      if (content === null) return null;
       const lines = content.split('\n');
       const language = this.detectLanguage(filePath);
 
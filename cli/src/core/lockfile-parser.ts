@@ -0,0 +1,323 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import yaml from 'js-yaml';
+
+export type DependencyEcosystem = 'npm' | 'pip' | 'go' | 'ruby' | 'cargo' | 'maven' | 'composer' | 'nuget';
+
+/**
+ * A dependency pinned to an exact version by a lockfile
+ */
+export interface LockedDependency {
+  name: string;
+  version: string;
+  ecosystem: DependencyEcosystem;
+  file: string; // Lockfile or build file, relative to the repository root
+  dev?: boolean;
+}
+
+type LockfileParser = (content: string, file: string) => LockedDependency[];
+
+/**
+ * Supported lockfiles, keyed by file name
+ */
+const LOCKFILE_PARSERS: Record<string, LockfileParser> = {
+  'package-lock.json': parsePackageLock,
+  'yarn.lock': parseYarnLock,
+  'pnpm-lock.yaml': parsePnpmLock,
+  'poetry.lock': parsePoetryLock,
+  'Pipfile.lock': parsePipfileLock,
+  'go.sum': parseGoSum,
+  'Cargo.lock': parseCargoLock,
+  'Gemfile.lock': parseGemfileLock,
+  'composer.lock': parseComposerLock,
+};
+
+export const SUPPORTED_LOCKFILES = Object.keys(LOCKFILE_PARSERS);
+
+/**
+ * Parse every supported lockfile in the repository root
+ */
+export function parseLockfiles(repoPath: string): LockedDependency[] {
+  const dependencies: LockedDependency[] = [];
+
+  for (const lockfile of SUPPORTED_LOCKFILES) {
+    const fullPath = path.join(repoPath, lockfile);
+    if (!fs.existsSync(fullPath)) continue;
+
+    try {
+      dependencies.push(...parseLockfile(lockfile, fs.readFileSync(fullPath, 'utf-8')));
+    } catch (error) {
+      console.warn(`Warning: Failed to parse ${lockfile}:`, (error as Error).message);
+    }
+  }
+
+  return dependencies;
+}
+
+/**
+ * Parse a single lockfile; the parser is chosen by file name
+ */
+export function parseLockfile(lockfile: string, content: string): LockedDependency[] {
+  const parser = LOCKFILE_PARSERS[path.basename(lockfile)];
+  if (!parser) {
+    throw new Error(`Unsupported lockfile: ${lockfile}`);
+  }
+  return dedupe(parser(content, lockfile));
+}
+
+function dedupe(dependencies: LockedDependency[]): LockedDependency[] {
+  const seen = new Map<string, LockedDependency>();
+  for (const dep of dependencies) {
+    const key = `${dep.ecosystem}:${dep.name}@${dep.version}`;
+    const existing = seen.get(key);
+    // A version installed for both prod and dev counts as prod
+    if (existing) {
+      existing.dev = existing.dev && dep.dev;
+    } else {
+      seen.set(key, dep);
+    }
+  }
+  return Array.from(seen.values());
+}
+
+/**
+ * package-lock.json v1 (nested "dependencies") and v2/v3 (flat "packages")
+ */
+function parsePackageLock(content: string, file: string): LockedDependency[] {
+  const lock = JSON.parse(content);
+  const dependencies: LockedDependency[] = [];
+
+  if (lock.packages) {
+    for (const [key, pkg] of Object.entries<any>(lock.packages)) {
+      // "" is the root project; paths without node_modules are workspace packages
+      const marker = key.lastIndexOf('node_modules/');
+      if (marker === -1 || pkg.link || !pkg.version) continue;
+      dependencies.push({
+        name: pkg.name || key.slice(marker + 'node_modules/'.length),
+        version: pkg.version,
+        ecosystem: 'npm',
+        file,
+        dev: !!pkg.dev,
+      });
+    }
+    return dependencies;
+  }
+
+  const walk = (deps: Record<string, any> = {}) => {
+    for (const [name, dep] of Object.entries<any>(deps)) {
+      if (dep.version && !/^(file|link|git\+?|github):/.test(dep.version)) {
+        dependencies.push({ name, version: dep.version, ecosystem: 'npm', file, dev: !!dep.dev });
+      }
+      walk(dep.dependencies);
+    }
+  };
+  walk(lock.dependencies);
+  return dependencies;
+}
+
+/**
+ * yarn.lock, both classic (v1) and Berry (v2+) formats
+ */
+function parseYarnLock(content: string, file: string): LockedDependency[] {
+  const dependencies: LockedDependency[] = [];
+  let name: string | undefined;
+  let version: string | undefined;
+  let local = false;
+
+  const flush = () => {
+    if (name && version && !local && version !== '0.0.0-use.local') {
+      dependencies.push({ name, version, ecosystem: 'npm', file });
+    }
+    name = version = undefined;
+    local = false;
+  };
+
+  for (const line of content.split('\n')) {
+    if (!line.trim() || line.startsWith('#')) continue;
+
+    if (!line.startsWith(' ')) {
+      flush();
+      // e.g. "@babel/core@^7.0.0", "@babel/core@^7.1.0":  or  "lodash@npm:^4.17.21":
+      const spec = line.replace(/:$/, '').split(',')[0].trim().replace(/^"|"$/g, '');
+      if (spec === '__metadata') continue;
+      const at = spec.indexOf('@', 1);
+      name = at > 0 ? spec.slice(0, at) : undefined;
+      local = /@(workspace|link|portal|file):/.test(spec);
+      continue;
+    }
+
+    const versionMatch = line.match(/^ {2}version:? "?([^"\s]+)"?/);
+    if (versionMatch) {
+      version = versionMatch[1];
+    } else if (/^ {2}linkType: soft/.test(line)) {
+      local = true;
+    }
+  }
+  flush();
+
+  return dependencies;
+}
+
+/**
+ * pnpm-lock.yaml; package keys are "/name/1.0.0_peer" (v5), "/name@1.0.0(peer)" (v6) or "name@1.0.0" (v9)
+ */
+function parsePnpmLock(content: string, file: string): LockedDependency[] {
+  const lock = yaml.load(content) as any;
+  const dependencies: LockedDependency[] = [];
+  const legacyKeys = parseFloat(String(lock?.lockfileVersion)) < 6;
+
+  for (const [key, pkg] of Object.entries<any>(lock?.packages || {})) {
+    const parsed = parsePnpmPackageKey(key, legacyKeys);
+    if (!parsed) continue;
+    let { name, version } = parsed;
+
+    if (pkg?.name) name = pkg.name;
+    if (pkg?.version) version = pkg.version;
+    // Tarball, git and file dependencies have no registry version
+    if (!name || !/^\d/.test(version)) continue;
+
+    dependencies.push({ name, version, ecosystem: 'npm', file, dev: pkg?.dev === true });
+  }
+
+  return dependencies;
+}
+
+/**
+ * Name and version from a pnpm package key, without the peer dependency suffix
+ */
+export function parsePnpmPackageKey(key: string, legacyKeys: boolean): { name: string; version: string } | null {
+  const id = key.replace(/^\//, '').replace(/\(.*$/, '');
+
+  if (legacyKeys) {
+    const slash = id.lastIndexOf('/');
+    return { name: id.slice(0, slash), version: id.slice(slash + 1).replace(/_.*$/, '') };
+  }
+
+  const at = id.lastIndexOf('@');
+  if (at <= 0) return null;
+  return { name: id.slice(0, at), version: id.slice(at + 1) };
+}
+
+/**
+ * Read the top-level fields of each [[package]] table in a TOML lockfile
+ */
+function parseTomlPackages(content: string): Array<Record<string, string>> {
+  const packages: Array<Record<string, string>> = [];
+  let current: Record<string, string> | undefined;
+
+  for (const line of content.split('\n')) {
+    const trimmed = line.trim();
+    if (trimmed === '[[package]]') {
+      current = {};
+      packages.push(current);
+      continue;
+    }
+    // Any other table ([package.dependencies], [metadata], ...) ends the package's own fields
+    if (trimmed.startsWith('[')) {
+      current = undefined;
+      continue;
+    }
+
+    const field = trimmed.match(/^([\w-]+)\s*=\s*"([^"]*)"/);
+    if (current && field) {
+      current[field[1]] = field[2];
+    }
+  }
+
+  return packages;
+}
+
+function parsePoetryLock(content: string, file: string): LockedDependency[] {
+  return parseTomlPackages(content)
+    .filter(pkg => pkg.name && pkg.version)
+    .map(pkg => ({ name: pkg.name, version: pkg.version, ecosystem: 'pip', file, dev: pkg.category === 'dev' }));
+}
+
+function parsePipfileLock(content: string, file: string): LockedDependency[] {
+  const lock = JSON.parse(content);
+  const dependencies: LockedDependency[] = [];
+
+  for (const section of ['default', 'develop']) {
+    for (const [name, pkg] of Object.entries<any>(lock[section] || {})) {
+      // Git and path dependencies have no pinned version
+      if (typeof pkg.version !== 'string') continue;
+      dependencies.push({
+        name,
+        version: pkg.version.replace(/^===?/, ''),
+        ecosystem: 'pip',
+        file,
+        dev: section === 'develop',
+      });
+    }
+  }
+
+  return dependencies;
+}
+
+/**
+ * go.sum lists every module version in the build graph; "/go.mod"-only lines are
+ * versions whose go.mod was consulted but whose code was never downloaded
+ */
+function parseGoSum(content: string, file: string): LockedDependency[] {
+  const dependencies: LockedDependency[] = [];
+
+  for (const line of content.split('\n')) {
+    const [module, version] = line.trim().split(/\s+/);
+    if (!module || !version || version.endsWith('/go.mod')) continue;
+    dependencies.push({ name: module, version, ecosystem: 'go', file });
+  }
+
+  return dependencies;
+}
+
+function parseCargoLock(content: string, file: string): LockedDependency[] {
+  return parseTomlPackages(content)
+    // Crates without a source are workspace members
+    .filter(pkg => pkg.name && pkg.version && pkg.source)
+    .map(pkg => ({ name: pkg.name, version: pkg.version, ecosystem: 'cargo', file }));
+}
+
+/**
+ * Gemfile.lock: gems listed under GEM > specs, e.g. "    nokogiri (1.13.10-x86_64-linux)"
+ */
+function parseGemfileLock(content: string, file: string): LockedDependency[] {
+  const dependencies: LockedDependency[] = [];
+  let section = '';
+
+  for (const line of content.split('\n')) {
+    if (/^\S/.test(line)) {
+      section = line.trim();
+      continue;
+    }
+    if (section !== 'GEM') continue;
+
+    // Four spaces: a resolved gem; six spaces: one of its requirements
+    const gem = line.match(/^ {4}([^\s(]+) \(([^)]+)\)\s*$/);
+    if (gem) {
+      dependencies.push({ name: gem[1], version: gem[2].split('-')[0], ecosystem: 'ruby', file });
+    }
+  }
+
+  return dependencies;
+}
+
+function parseComposerLock(content: string, file: string): LockedDependency[] {
+  const lock = JSON.parse(content);
+  const dependencies: LockedDependency[] = [];
+
+  for (const section of ['packages', 'packages-dev']) {
+    for (const pkg of lock[section] || []) {
+      // Branch aliases such as "dev-main" are not releases
+      if (!pkg.name || !pkg.version || String(pkg.version).startsWith('dev-')) continue;
+      dependencies.push({
+        name: pkg.name,
+        version: String(pkg.version).replace(/^v/, ''),
+        ecosystem: 'composer',
+        file,
+        dev: section === 'packages-dev',
+      });
+    }
+  }
+
+  return dependencies;
+}
@@ -0,0 +1,291 @@
+import chalk from 'chalk';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { configManager } from './config';
+import { projectConfigManager } from './project-config';
+import { secretsDetector } from './secrets-detector';
+import { GuardScanError, OUTBOUND_DRY_RUN_CODE } from '../utils/error-handler';
+
+/**
+ * A value replaced before a request left the machine. The value itself is
+ * never recorded, only its fingerprint.
+ */
+export interface Redaction {
+  placeholder: string; // e.g. __REDACTED_SECRET_1__
+  kind: 'secret' | 'pii';
+  type: string; // Secret detector ID or PII pattern name
+  fingerprint: string;
+}
+
+export interface RedactedText {
+  text: string;
+  redactions: Redaction[];
+}
+
+/**
+ * One AI request as recorded in the outbound audit log
+ */
+export interface OutboundRecord {
+  timestamp: string;
+  command: string;
+  provider: string;
+  model?: string;
+  request: number; // 1-based, within the command
+  kind: 'chat' | 'embedding';
+  messages: number; // Texts, for embedding requests
+  characters: number;
+  sent: boolean; // false for --show-outbound
+  redactions: Redaction[];
+}
+
+interface PiiRule {
+  name: string;
+  regex: RegExp;
+  validate?: (value: string) => boolean;
+}
+
+interface OutboundMessage {
+  role: string;
+  content: string;
+}
+
+const PLACEHOLDER = /__REDACTED_[A-Z0-9_]+?_\d+__/g;
+const PLACEHOLDER_NOTE =
+  'Some values in this request were replaced with placeholders such as __REDACTED_SECRET_1__. ' +
+  'Keep each placeholder exactly as it is wherever the value belongs; never guess the original value.';
+
+/**
+ * Built-in PII patterns, turned off with `redaction.defaultPii: false`
+ */
+const DEFAULT_PII_RULES: PiiRule[] = [
+  // Reserved example domains (RFC 2606) are left alone
+  { name: 'email', regex: /\b[A-Za-z0-9._%+-]+@(?!(?:[A-Za-z0-9-]+\.)*example\.(?:com|org|net)\b)[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g },
+  { name: 'credit-card', regex: /\b[3-6]\d{3}(?:[ -]?\d{4}){2}[ -]?\d{1,7}\b/g, validate: passesLuhn },
+  { name: 'us-ssn', regex: /\b(?!000|666|9\d\d)\d{3}-(?!00)\d{2}-(?!0000)\d{4}\b/g },
+];
+
+/**
+ * Outbound Redactor
+ *
+ * Replaces secrets (the secret detectors plus the high-entropy check) and PII
+ * in text bound for an AI provider with placeholders. A value gets the same
+ * placeholder every time it is seen, so a model can refer to it consistently
+ * and generated code can have the real value put back with `restore`.
+ */
+export class OutboundRedactor {
+  private placeholders = new Map<string, Redaction>(); // value → redaction
+  private values = new Map<string, string>(); // placeholder → value
+  private counters = new Map<string, number>();
+  private piiRules?: PiiRule[];
+
+  redact(text: string): RedactedText {
+    // Custom secret detectors and PII patterns come from the project config
+    if (!this.piiRules && !projectConfigManager.getConfigPath()) {
+      projectConfigManager.load();
+    }
+
+    const found = new Map<string, Omit<Redaction, 'placeholder'>>();
+    for (const secret of secretsDetector.findSecretValues(text)) {
+      found.set(secret.value, { kind: 'secret', type: secret.detector, fingerprint: secret.fingerprint });
+    }
+    for (const rule of this.getPiiRules()) {
+      for (const match of text.matchAll(rule.regex)) {
+        if (found.has(match[0]) || (rule.validate && !rule.validate(match[0]))) continue;
+        found.set(match[0], { kind: 'pii', type: rule.name, fingerprint: fingerprint(`${rule.name}\0${match[0]}`) });
+      }
+    }
+
+    // Values redacted in earlier requests are replaced wherever they appear again
+    for (const value of this.placeholders.keys()) {
+      if (!found.has(value) && text.includes(value)) {
+        found.set(value, this.placeholders.get(value)!);
+      }
+    }
+
+    const redactions: Redaction[] = [];
+    // Longest first, so a value inside another is not replaced on its own
+    for (const value of Array.from(found.keys()).sort((a, b) => b.length - a.length)) {
+      if (!text.includes(value)) continue;
+      const redaction = this.placeholderFor(value, found.get(value)!);
+      text = text.split(value).join(redaction.placeholder);
+      redactions.push(redaction);
+    }
+
+    return { text, redactions };
+  }
+
+  /**
+   * Put the redacted values back into text the model generated (e.g. a
+   * patch); unknown placeholders are left as they are
+   */
+  restore(text: string): string {
+    return text.replace(PLACEHOLDER, placeholder => this.values.get(placeholder) ?? placeholder);
+  }
+
+  private placeholderFor(value: string, found: Omit<Redaction, 'placeholder'>): Redaction {
+    const existing = this.placeholders.get(value);
+    if (existing) return existing;
+
+    const label = found.kind === 'secret' ? 'SECRET' : found.type.toUpperCase().replace(/[^A-Z0-9]+/g, '_');
+    const count = (this.counters.get(label) || 0) + 1;
+    this.counters.set(label, count);
+
+    const redaction = { placeholder: `__REDACTED_${label}_${count}__`, kind: found.kind, type: found.type, fingerprint: found.fingerprint };
+    this.placeholders.set(value, redaction);
+    this.values.set(redaction.placeholder, value);
+    return redaction;
+  }
+
+  /**
+   * Built-in and project (redaction.pii in .guardscan.yml) PII patterns
+   */
+  private getPiiRules(): PiiRule[] {
+    if (!this.piiRules) {
+      const redaction = projectConfigManager.get().redaction;
+      const custom = (redaction?.pii || []).map(pattern => ({ name: pattern.name, regex: new RegExp(pattern.regex, 'g') }));
+      this.piiRules = [...(redaction?.defaultPii === false ? [] : DEFAULT_PII_RULES), ...custom];
+    }
+    return this.piiRules;
+  }
+}
+
+/**
+ * Outbound Audit
+ *
+ * Records every AI request a command makes, and what was redacted from it, in
+ * `~/.guardscan/audit/outbound/<time>-<command>.jsonl`. With `--show-outbound`
+ * requests are printed instead of sent.
+ */
+export class OutboundAudit {
+  private command?: string;
+  private logFile?: string;
+  private requests = 0;
+  private showOutbound = false;
+
+  /**
+   * Start the log for a command; requests made outside a command are not logged
+   */
+  begin(command: string, options: { showOutbound?: boolean } = {}): void {
+    this.command = command;
+    this.showOutbound = !!options.showOutbound;
+    this.requests = 0;
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    this.logFile = path.join(configManager.getConfigDir(), 'audit', 'outbound', `${stamp}-${command.replace(/\s+/g, '-')}.jsonl`);
+  }
+
+  /**
+   * Redact messages for a provider, log the request and, with
+   * `--show-outbound`, print it and stop before it is sent
+   */
+  prepare<T extends OutboundMessage>(provider: string, messages: T[], redactor: OutboundRedactor, model?: string): T[] {
+    const redactions = new Map<string, Redaction>();
+    const outbound = messages.map(message => {
+      const redacted = redactor.redact(message.content);
+      redacted.redactions.forEach(redaction => redactions.set(redaction.placeholder, redaction));
+      return { ...message, content: redacted.text };
+    });
+
+    if (redactions.size > 0) {
+      const system = outbound.findIndex(message => message.role === 'system');
+      if (system === -1) {
+        outbound.unshift({ ...outbound[0], role: 'system', content: PLACEHOLDER_NOTE });
+      } else {
+        outbound[system] = { ...outbound[system], content: `${outbound[system].content}\n\n${PLACEHOLDER_NOTE}` };
+      }
+    }
+
+    this.dispatch('chat', provider, outbound, Array.from(redactions.values()), model);
+    return outbound;
+  }
+
+  /**
+   * Redact texts for an embedding API (code chunks, search queries), log the
+   * request and, with `--show-outbound`, print it and stop before it is sent
+   */
+  prepareEmbedding(provider: string, texts: string[], redactor: OutboundRedactor, model?: string): string[] {
+    const redactions = new Map<string, Redaction>();
+    const outbound = texts.map(text => {
+      const redacted = redactor.redact(text);
+      redacted.redactions.forEach(redaction => redactions.set(redaction.placeholder, redaction));
+      return redacted.text;
+    });
+
+    this.dispatch('embedding', provider, outbound.map(content => ({ role: 'input', content })), Array.from(redactions.values()), model);
+    return outbound;
+  }
+
+  /**
+   * Path of the current command's log, if it has made any requests
+   */
+  getLogFile(): string | undefined {
+    return this.logFile && fs.existsSync(this.logFile) ? this.logFile : undefined;
+  }
+
+  /**
+   * Log a redacted request; with `--show-outbound`, print it and throw instead
+   */
+  private dispatch(kind: OutboundRecord['kind'], provider: string, outbound: OutboundMessage[], redactions: Redaction[], model?: string): void {
+    this.requests++;
+    this.record({
+      timestamp: new Date().toISOString(),
+      command: this.command || 'unknown',
+      provider,
+      model,
+      request: this.requests,
+      kind,
+      messages: outbound.length,
+      characters: outbound.reduce((total, message) => total + message.content.length, 0),
+      sent: !this.showOutbound,
+      redactions,
+    });
+
+    if (this.showOutbound) {
+      printOutbound(provider, this.requests, outbound, redactions, model);
+      throw new GuardScanError('Not sent: --show-outbound prints AI requests instead of sending them', OUTBOUND_DRY_RUN_CODE);
+    }
+  }
+
+  private record(entry: OutboundRecord): void {
+    if (!this.logFile) return;
+    try {
+      fs.mkdirSync(path.dirname(this.logFile), { recursive: true });
+      fs.appendFileSync(this.logFile, JSON.stringify(entry) + '\n');
+    } catch {
+      // The log is best-effort; redaction has already happened
+    }
+  }
+}
+
+function printOutbound(provider: string, request: number, messages: OutboundMessage[], redactions: Redaction[], model?: string): void {
+  console.log(chalk.cyan.bold(`\n── Outbound request ${request} to ${provider}${model ? ` (${model})` : ''}, not sent ──`));
+  for (const message of messages) {
+    console.log(chalk.yellow(`\n[${message.role}]`));
+    console.log(message.content);
+  }
+  console.log(chalk.gray(`\nRedacted: ${redactions.length === 0 ? 'nothing' : redactions.map(redaction => `${redaction.placeholder} (${redaction.type})`).join(', ')}`));
+  console.log(chalk.cyan('──'));
+}
+
+function fingerprint(value: string): string {
+  return crypto.createHash('sha256').update(value).digest('hex').slice(0, 16);
+}
+
+/**
+ * Luhn checksum, to tell card numbers from other long numbers
+ */
+function passesLuhn(value: string): boolean {
+  const digits = value.replace(/\D/g, '');
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return digits.length >= 13 && digits.length <= 19 && sum % 10 === 0;
+}
+
+export const outboundAudit = new OutboundAudit();
@@ -1,6 +1,12 @@
-import * as fs from 'fs';
-import * as path from 'path';
 import { Finding } from '../utils/reporter';
+import { suppressionManager, findingTarget } from './suppressions';
+import { fileWalker } from './file-walker';
+import { scanCache } from './scan-cache';
+
+const CODE_EXTENSIONS = ['.js', '.ts', '.py', '.go', '.java', '.rb', '.php'];
+
+// Bump when any OWASP check changes so cached results are discarded
+const OWASP_RULES_VERSION = '1';
 
 /**
  * OWASP Top 10 2021 Scanner
@@ -12,82 +18,31 @@ export class OwaspScanner {
    */
   async scan(repoPath: string = process.cwd()): Promise<Finding[]> {
     const findings: Finding[] = [];
-    const files = this.findCodeFiles(repoPath);
+    const files = fileWalker.listFiles(repoPath, { extensions: CODE_EXTENSIONS, maxDepth: 5 });
 
     for (const file of files) {
-      try {
-        const content = fs.readFileSync(file, 'utf-8');
-        const language = this.detectLanguage(file);
-        findings.push(...this.scanFile(file, content, language));
-      } catch {
-        // Skip files that can't be read
-      }
+      const content = fileWalker.readFile(file.path);
+      if (content === null) continue;
+      const fileFindings = scanCache.getOrScan(
+        'owasp', file.path, content, () => this.checkFile(file.path, content, file.language), OWASP_RULES_VERSION
+      );
+      findings.push(...suppressionManager.apply('owasp', fileFindings, findingTarget, content));
     }
 
     return findings;
   }
 
   /**
-   * Find code files to scan
-   */
-  private findCodeFiles(dir: string): string[] {
-    const files: string[] = [];
-
-    const search = (currentDir: string, depth: number) => {
-      if (depth > 5) return;
-
-      try {
-        const items = fs.readdirSync(currentDir);
-        for (const item of items) {
-          if (item === 'node_modules' || item === '.git' || item === 'vendor') continue;
-
-          const fullPath = path.join(currentDir, item);
-          const stat = fs.statSync(fullPath);
-
-          if (stat.isDirectory()) {
-            search(fullPath, depth + 1);
-          } else if (this.isCodeFile(item)) {
-            files.push(fullPath);
-          }
-        }
-      } catch {
-        // Skip
-      }
-    };
-
-    search(dir, 0);
-    return files;
-  }
-
-  /**
-   * Check if file is a code file
-   */
-  private isCodeFile(filename: string): boolean {
-    const extensions = ['.js', '.ts', '.py', '.go', '.java', '.rb', '.php'];
-    return extensions.some(ext => filename.endsWith(ext));
-  }
-
-  /**
-   * Detect programming language
+   * Scan file content for OWASP Top 10 vulnerabilities
    */
-  private detectLanguage(file: string): string {
-    const ext = path.extname(file);
-    const langMap: Record<string, string> = {
-      '.js': 'javascript',
-      '.ts': 'typescript',
-      '.py': 'python',
-      '.go': 'go',
-      '.java': 'java',
-      '.rb': 'ruby',
-      '.php': 'php',
-    };
-    return langMap[ext] || 'unknown';
+  scanFile(filePath: string, content: string, language: string): Finding[] {
+    return suppressionManager.apply('owasp', this.checkFile(filePath, content, language), findingTarget, content);
   }
 
   /**
-   * Scan file content for OWASP Top 10 vulnerabilities
+   * Run every OWASP check against file content, before suppressions
    */
-  scanFile(filePath: string, content: string, language: string): Finding[] {
+  private checkFile(filePath: string, content: string, language: string): Finding[] {
     const findings: Finding[] = [];
     const lines = content.split('\n');
 
@@ -123,11 +123,22 @@ export class PerformanceTester {
     baselineFile: '.guardscan/performance-baseline.json',
   };
 
+  /**
+   * Merge config over defaults, keeping default thresholds that are not overridden
+   */
+  private mergeConfig(config?: PerformanceConfig): PerformanceConfig {
+    return {
+      ...this.DEFAULT_CONFIG,
+      ...config,
+      thresholds: { ...this.DEFAULT_CONFIG.thresholds, ...config?.thresholds },
+    };
+  }
+
   /**
    * Run load test
    */
   async runLoadTest(config?: PerformanceConfig): Promise<PerformanceResult> {
-    const mergedConfig = { ...this.DEFAULT_CONFIG, ...config };
+    const mergedConfig = this.mergeConfig(config);
 
     // Check if k6 is available
     if (!this.isK6Available()) {
@@ -170,7 +181,7 @@ export class PerformanceTester {
    * Run stress test (increasing load)
    */
   async runStressTest(config?: PerformanceConfig): Promise<PerformanceResult> {
-    const mergedConfig = { ...this.DEFAULT_CONFIG, ...config };
+    const mergedConfig = this.mergeConfig(config);
 
     if (!this.isK6Available()) {
       throw new Error('k6 is not installed');
@@ -249,7 +260,11 @@ export class PerformanceTester {
   /**
    * Detect regressions by comparing with baseline
    */
-  detectRegressions(current: PerformanceResult, baselinePath?: string): Regression[] {
+  detectRegressions(
+    current: PerformanceResult,
+    baselinePath?: string,
+    regressionThreshold: number = this.DEFAULT_CONFIG.regressionThreshold!
+  ): Regression[] {
     const regressions: Regression[] = [];
     const path = baselinePath || this.DEFAULT_CONFIG.baselineFile!;
 
@@ -267,7 +282,7 @@ export class PerformanceTester {
         const currentValue = current.metrics[metric];
 
         const change = ((currentValue - baselineValue) / baselineValue);
-        const threshold = this.DEFAULT_CONFIG.regressionThreshold!;
+        const threshold = regressionThreshold;
 
         const isRegression = change > threshold;  // Slower is regression
 
@@ -0,0 +1,396 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import yaml from 'js-yaml';
+import ignore from 'ignore';
+import { configError } from '../utils/ci-gate';
+import { normalizeRuleId } from '../utils/finding-identity';
+import { JsonSchema, validateJsonSchema } from './json-schema';
+import { DependencyScope, LicenseDecision, licenseRuleDecision } from './license-policy';
+
+export const PROJECT_CONFIG_FILES = ['.guardscan.yml', '.guardscan.yaml'];
+
+export const SCANNER_IDS = [
+  'patterns',
+  'secrets',
+  'dependencies',
+  'dockerfile',
+  'iac',
+  'owasp',
+  'api',
+  'compliance',
+  'licenses',
+  'tests',
+  'metrics',
+  'smells',
+  'linting',
+  'sbom',
+  'supplyChain',
+] as const;
+
+export type ScannerId = typeof SCANNER_IDS[number];
+
+export type FindingSeverity = 'critical' | 'high' | 'medium' | 'low' | 'info';
+export type SeverityOverride = FindingSeverity | 'off';
+export type ComplianceFramework = 'GDPR' | 'HIPAA' | 'PCI-DSS' | 'SOC2';
+
+export const COMPLIANCE_FRAMEWORKS: ComplianceFramework[] = ['GDPR', 'HIPAA', 'PCI-DSS', 'SOC2'];
+const SEVERITY_OVERRIDES: SeverityOverride[] = ['critical', 'high', 'medium', 'low', 'info', 'off'];
+
+export interface LicensePolicyRules {
+  allow?: string[];
+  deny?: string[];
+  review?: string[];
+}
+
+export interface LicensePolicyException {
+  package: string;
+  version?: string;
+  license?: string; // Only while the package declares this expression
+  reason: string;
+}
+
+export interface LicensePolicyConfig extends LicensePolicyRules {
+  projectType?: 'proprietary' | 'open-source';
+  scopes?: Partial<Record<DependencyScope, LicensePolicyRules>>; // Override the project lists per scope
+  exceptions?: LicensePolicyException[];
+}
+
+export interface SupplyChainConfig {
+  internalPackages?: string[]; // Name prefixes that must come from a private registry
+  allow?: string[];
+}
+
+export interface SecretsConfigSection {
+  detectors?: string[]; // YAML files with custom detectors and allowlists
+}
+
+export interface PiiPattern {
+  name: string; // Names the placeholder, e.g. "employee-id" gives __REDACTED_EMPLOYEE_ID_1__
+  regex: string;
+}
+
+export interface RedactionConfigSection {
+  pii?: PiiPattern[]; // Redacted from AI requests as well as the built-in patterns
+  defaultPii?: boolean; // false turns off the built-in patterns (emails, card numbers, US SSNs)
+}
+
+export interface MutationConfigSection {
+  threshold?: number;
+}
+
+export interface PerfConfigSection {
+  duration?: string;
+  vus?: number;
+  regressionThreshold?: number;
+  thresholds?: {
+    p95?: number;
+    errorRate?: number;
+    throughput?: number;
+  };
+}
+
+export interface ProjectConfig {
+  version?: number;
+  scanners?: Partial<Record<ScannerId, boolean>>;
+  include?: string[];
+  exclude?: string[];
+  severityOverrides?: Record<string, SeverityOverride>;
+  customRules?: string[];
+  licensePolicy?: LicensePolicyConfig;
+  supplyChain?: SupplyChainConfig;
+  secrets?: SecretsConfigSection;
+  redaction?: RedactionConfigSection;
+  compliance?: {
+    frameworks?: ComplianceFramework[];
+  };
+  mutation?: MutationConfigSection;
+  perf?: PerfConfigSection;
+}
+
+// Objects in the config only take the keys listed, so typos are reported
+const section = (properties: Record<string, JsonSchema>, required?: string[]): JsonSchema =>
+  ({ type: 'object', additionalProperties: false, properties, ...(required ? { required } : {}) });
+
+const STRING_LIST: JsonSchema = { type: 'array', items: { type: 'string' } };
+const LICENSE_RULES: Record<string, JsonSchema> = {
+  allow: STRING_LIST,
+  deny: STRING_LIST,
+  review: STRING_LIST,
+};
+
+const PROJECT_CONFIG_SCHEMA: JsonSchema = section({
+  version: { type: 'integer', minimum: 1, maximum: 1 },
+  scanners: section(Object.fromEntries(SCANNER_IDS.map(id => [id, { type: 'boolean' }]))),
+  include: STRING_LIST,
+  exclude: STRING_LIST,
+  severityOverrides: { type: 'object', additionalProperties: { enum: SEVERITY_OVERRIDES } },
+  customRules: STRING_LIST,
+  licensePolicy: section({
+    projectType: { enum: ['proprietary', 'open-source'] },
+    ...LICENSE_RULES,
+    scopes: section({
+      prod: section(LICENSE_RULES),
+      dev: section(LICENSE_RULES),
+    }),
+    exceptions: {
+      type: 'array',
+      items: section({
+        package: { type: 'string' },
+        version: { type: 'string' },
+        license: { type: 'string' },
+        reason: { type: 'string' },
+      }, ['package', 'reason']),
+    },
+  }),
+  supplyChain: section({
+    internalPackages: STRING_LIST,
+    allow: STRING_LIST,
+  }),
+  secrets: section({
+    detectors: STRING_LIST,
+  }),
+  redaction: section({
+    pii: {
+      type: 'array',
+      items: section({ name: { type: 'string' }, regex: { type: 'string' } }, ['name', 'regex']),
+    },
+    defaultPii: { type: 'boolean' },
+  }),
+  compliance: section({
+    frameworks: { type: 'array', items: { enum: COMPLIANCE_FRAMEWORKS } },
+  }),
+  mutation: section({
+    threshold: { type: 'number', minimum: 0, maximum: 100 },
+  }),
+  perf: section({
+    duration: { type: 'string' },
+    vus: { type: 'integer', minimum: 1 },
+    regressionThreshold: { type: 'number', minimum: 0 },
+    thresholds: section({
+      p95: { type: 'number', minimum: 0 },
+      errorRate: { type: 'number', minimum: 0, maximum: 1 },
+      throughput: { type: 'number', minimum: 0 },
+    }),
+  }),
+});
+
+/**
+ * Project Configuration Manager
+ *
+ * Loads the checked-in `.guardscan.yml` from the repository root. Settings
+ * resolve in this order (first wins):
+ *
+ *   1. CLI flags
+ *   2. .guardscan.yml (project)
+ *   3. ~/.guardscan/config.yml (user; provider and telemetry only)
+ *   4. Built-in defaults
+ *
+ * `-f/--files` replaces `include`, but `exclude` still applies.
+ */
+export class ProjectConfigManager {
+  private repoRoot: string = process.cwd();
+  private config: ProjectConfig = {};
+  private configPath?: string;
+  private includeMatcher?: ReturnType<typeof ignore>;
+  private excludeMatcher?: ReturnType<typeof ignore>;
+
+  /**
+   * Discover, parse and validate the project config. Missing file means defaults.
+   */
+  load(repoRoot: string = process.cwd()): ProjectConfig {
+    this.repoRoot = repoRoot;
+    this.config = {};
+    this.configPath = undefined;
+    this.includeMatcher = undefined;
+    this.excludeMatcher = undefined;
+
+    const configPath = PROJECT_CONFIG_FILES
+      .map(name => path.join(repoRoot, name))
+      .find(candidate => fs.existsSync(candidate));
+
+    if (!configPath) {
+      return this.config;
+    }
+
+    const fileName = path.basename(configPath);
+    let data: unknown;
+    try {
+      data = yaml.load(fs.readFileSync(configPath, 'utf-8'));
+    } catch (error: any) {
+      throw configError(`Invalid ${fileName}: ${error.message}`, error);
+    }
+
+    // An empty file is a valid (empty) config
+    if (data === undefined || data === null) {
+      this.configPath = configPath;
+      return this.config;
+    }
+
+    const errors = validateProjectConfig(data);
+    if (errors.length === 0) {
+      ((data as ProjectConfig).customRules || []).forEach((dir, index) => {
+        if (!fs.existsSync(path.resolve(repoRoot, dir))) {
+          errors.push(`customRules[${index}] directory not found: ${dir}`);
+        }
+      });
+      ((data as ProjectConfig).secrets?.detectors || []).forEach((file, index) => {
+        if (!fs.existsSync(path.resolve(repoRoot, file))) {
+          errors.push(`secrets.detectors[${index}] file not found: ${file}`);
+        }
+      });
+      ((data as ProjectConfig).redaction?.pii || []).forEach((pattern, index) => {
+        try {
+          new RegExp(pattern.regex);
+        } catch {
+          errors.push(`redaction.pii[${index}].regex is not a valid regular expression: ${pattern.regex}`);
+        }
+      });
+    }
+    if (errors.length > 0) {
+      throw configError(`Invalid ${fileName}:\n  - ${errors.join('\n  - ')}`);
+    }
+
+    this.config = data as ProjectConfig;
+    this.configPath = configPath;
+
+    if (this.config.include && this.config.include.length > 0) {
+      this.includeMatcher = ignore().add(this.config.include);
+    }
+    if (this.config.exclude && this.config.exclude.length > 0) {
+      this.excludeMatcher = ignore().add(this.config.exclude);
+    }
+
+    return this.config;
+  }
+
+  /**
+   * Currently loaded config (empty when no project file exists)
+   */
+  get(): ProjectConfig {
+    return this.config;
+  }
+
+  /**
+   * Path of the loaded config file, if any
+   */
+  getConfigPath(): string | undefined {
+    return this.configPath;
+  }
+
+  /**
+   * Scanners are enabled unless the project config turns them off
+   */
+  isScannerEnabled(scanner: ScannerId): boolean {
+    return this.config.scanners?.[scanner] !== false;
+  }
+
+  /**
+   * Check a file against include/exclude globs.
+   * Pass `ignoreInclude` when the CLI already selected files explicitly.
+   */
+  isPathIncluded(file: string, ignoreInclude: boolean = false): boolean {
+    const relative = this.toRelativePath(file);
+    if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) {
+      return true;
+    }
+
+    if (this.excludeMatcher && this.excludeMatcher.ignores(relative)) {
+      return false;
+    }
+    if (!ignoreInclude && this.includeMatcher && !this.includeMatcher.ignores(relative)) {
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Check a file against exclude globs only (used when enumerating files)
+   */
+  isPathExcluded(file: string): boolean {
+    return !this.isPathIncluded(file, true);
+  }
+
+  /**
+   * Drop items whose `file` falls outside include/exclude
+   */
+  filterByPath<T extends { file: string }>(items: T[], ignoreInclude: boolean = false): T[] {
+    if (!this.includeMatcher && !this.excludeMatcher) {
+      return items;
+    }
+    return items.filter(item => !item.file || this.isPathIncluded(item.file, ignoreInclude));
+  }
+
+  /**
+   * Apply per-rule severity overrides; `off` removes the item.
+   * Keys match rule IDs or categories ("SQL Injection" == "sql-injection").
+   */
+  applySeverityOverrides<T extends { severity: string }>(items: T[], idsOf: (item: T) => Array<string | undefined>): T[] {
+    const overrides = this.config.severityOverrides;
+    if (!overrides || Object.keys(overrides).length === 0) {
+      return items;
+    }
+
+    const normalized = new Map<string, SeverityOverride>();
+    for (const [id, severity] of Object.entries(overrides)) {
+      normalized.set(normalizeRuleId(id), severity);
+    }
+
+    const result: T[] = [];
+    for (const item of items) {
+      const override = idsOf(item)
+        .filter((id): id is string => !!id)
+        .map(id => normalized.get(normalizeRuleId(id)))
+        .find(value => value !== undefined);
+
+      if (override === 'off') {
+        continue;
+      }
+      result.push(override ? { ...item, severity: override } : item);
+    }
+    return result;
+  }
+
+  /**
+   * Project license policy decision for a license ID in a dependency scope.
+   * Entries may end in `*` ("GPL-*"); deny wins over review, review over allow.
+   */
+  getLicenseDecision(license: string, scope: DependencyScope = 'prod'): LicenseDecision | undefined {
+    return licenseRuleDecision(this.config.licensePolicy || {}, license, scope)?.decision;
+  }
+
+  /**
+   * Repository root the config was loaded from
+   */
+  getRepoRoot(): string {
+    return this.repoRoot;
+  }
+
+  /**
+   * Secret detector files, resolved against the repository root
+   */
+  getSecretDetectorFiles(): string[] {
+    return (this.config.secrets?.detectors || []).map(file => path.resolve(this.repoRoot, file));
+  }
+
+  /**
+   * Custom rule directories, resolved against the repository root
+   */
+  getCustomRuleDirs(): string[] {
+    return (this.config.customRules || []).map(dir => path.resolve(this.repoRoot, dir));
+  }
+
+  private toRelativePath(file: string): string {
+    const absolute = path.resolve(this.repoRoot, file);
+    return path.relative(this.repoRoot, absolute).split(path.sep).join('/');
+  }
+}
+
+/**
+ * Validate parsed YAML against the project config schema.
+ * Returns human-readable errors such as `scanners.iac must be a boolean (got "yes")`.
+ */
+export function validateProjectConfig(data: unknown): string[] {
+  return validateJsonSchema(PROJECT_CONFIG_SCHEMA, data);
+}
+
+export const projectConfigManager = new ProjectConfigManager();
@@ -0,0 +1,29 @@
+import { DependencyEcosystem } from './lockfile-parser';
+
+// purl types for each lockfile ecosystem (https://github.com/package-url/purl-spec)
+const PURL_ECOSYSTEMS: Record<string, DependencyEcosystem> = {
+  npm: 'npm',
+  pypi: 'pip',
+  golang: 'go',
+  gem: 'ruby',
+  cargo: 'cargo',
+  maven: 'maven',
+  composer: 'composer',
+  nuget: 'nuget',
+};
+
+/**
+ * Split a purl into its ecosystem, package name (as the registry spells it) and version
+ */
+export function parsePurl(purl: string): { ecosystem?: DependencyEcosystem; name: string; version?: string } | null {
+  const match = /^pkg:([a-zA-Z][a-zA-Z0-9.+-]*)\/([^?#]+?)(?:@([^?#/]+))?(?:[?#].*)?$/.exec(purl.trim());
+  if (!match) return null;
+
+  const type = match[1].toLowerCase();
+  const segments = match[2].split('/').filter(Boolean).map(segment => decodeURIComponent(segment));
+  const ecosystem = PURL_ECOSYSTEMS[type];
+  const last = segments.pop() || '';
+  // Maven keeps "group:artifact"; every other registry joins the namespace with "/"
+  const name = segments.length === 0 ? last : `${segments.join('/')}${ecosystem === 'maven' ? ':' : '/'}${last}`;
+  return { ecosystem, name, version: match[3] !== undefined ? decodeURIComponent(match[3]) : undefined };
+}
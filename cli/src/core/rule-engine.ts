@@ -2,6 +2,10 @@ import { execSync } from 'child_process';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as yaml from 'js-yaml';
+import { suppressionManager } from './suppressions';
+import { projectConfigManager } from './project-config';
+import { fileWalker } from './file-walker';
+import { DiffScope } from './diff-scope';
 
 export interface Rule {
   id: string;
@@ -48,7 +52,7 @@ export interface RuleViolation {
   category: string;
   file: string;
   line: number;
-  column?: number;
+  column?: number;  // 0-based for pattern matches, 1-based (as semgrep reports it) for semgrep rules
   message: string;
   suggestion?: string;
   autofix?: {
@@ -148,9 +152,11 @@ export class RuleEngine {
   }
 
   /**
-   * Run all enabled rules
+   * Run all enabled rules; a diff scope drops violations outside changed files/lines.
+   * `contents` replaces what is on disk (e.g. staged blobs); Semgrep only reads
+   * files from disk, so Semgrep rules are skipped then.
    */
-  async runRules(files: string[], ruleIds?: string[]): Promise<RuleResult> {
+  async runRules(files: string[], ruleIds?: string[], diffScope?: DiffScope, contents?: Map<string, string>): Promise<RuleResult> {
     const violations: RuleViolation[] = [];
     const rulesToRun = ruleIds
       ? Array.from(this.rules.values()).filter(r => ruleIds.includes(r.id))
@@ -159,24 +165,35 @@ export class RuleEngine {
     // Run regex-based rules
     for (const rule of rulesToRun) {
       if (rule.patterns) {
-        const ruleViolations = await this.runRegexRule(rule, files);
+        const ruleViolations = await this.runRegexRule(rule, files, contents);
         violations.push(...ruleViolations);
       }
     }
 
     // Run semgrep-based rules if available
     const semgrepRules = rulesToRun.filter(r => r.semgrep);
-    if (semgrepRules.length > 0 && this.isSemgrepAvailable()) {
+    if (semgrepRules.length > 0 && !contents && this.isSemgrepAvailable()) {
       const semgrepViolations = await this.runSemgrepRules(semgrepRules, files);
       violations.push(...semgrepViolations);
     }
 
+    const scoped = diffScope ? diffScope.filterFindings(violations) : violations;
+    const unsuppressed = suppressionManager.apply('rules', scoped, violation => ({
+      file: violation.file,
+      line: violation.line,
+      ids: [violation.ruleId, violation.category],
+      severity: violation.severity,
+      category: violation.ruleName,
+      description: violation.message,
+    }));
+    const activeViolations = projectConfigManager.applySeverityOverrides(unsuppressed, violation => [violation.ruleId]);
+
     // Build summary
     const result: RuleResult = {
-      totalViolations: violations.length,
-      violations,
-      rulesSummary: this.buildRulesSummary(violations),
-      severitySummary: this.buildSeveritySummary(violations),
+      totalViolations: activeViolations.length,
+      violations: activeViolations,
+      rulesSummary: this.buildRulesSummary(activeViolations),
+      severitySummary: this.buildSeveritySummary(activeViolations),
       timestamp: new Date().toISOString(),
     };
 
@@ -186,7 +203,7 @@ export class RuleEngine {
   /**
    * Run regex-based rule
    */
-  private async runRegexRule(rule: Rule, files: string[]): Promise<RuleViolation[]> {
+  private async runRegexRule(rule: Rule, files: string[], contents?: Map<string, string>): Promise<RuleViolation[]> {
     const violations: RuleViolation[] = [];
 
     for (const file of files) {
@@ -218,7 +235,8 @@ export class RuleEngine {
       }
 
       try {
-        const content = fs.readFileSync(file, 'utf-8');
+        const content = contents ? contents.get(file) ?? null : fileWalker.readFile(file);
+        if (content === null) continue;
         const lines = content.split('\n');
 
         for (const pattern of rule.patterns || []) {
@@ -451,6 +469,7 @@ export class RuleEngine {
         }
 
         fs.writeFileSync(file, lines.join('\n'));
+        fileWalker.invalidate(file);
       } catch (error) {
         console.error(`Failed to apply autofix to ${file}:`, error);
       }
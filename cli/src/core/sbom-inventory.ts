@@ -0,0 +1,125 @@
+import { LICENSE_SOURCES, LicenseFinding, licenseScanner } from './license-scanner';
+import { DependencyTree, PackageHash, buildDependencyTrees } from './dependency-graph';
+import { LockedDependency } from './lockfile-parser';
+import { dependencyScanner } from './dependency-scanner';
+import { licenseAlternatives, parseSpdxExpression } from './spdx-expression';
+import { SPDX_EXCEPTION_IDS, SPDX_LICENSE_IDS } from '../constants/spdx-license-list';
+
+const KNOWN_LICENSE_IDS = new Set(SPDX_LICENSE_IDS.map(id => id.toLowerCase()));
+const KNOWN_EXCEPTION_IDS = new Set(SPDX_EXCEPTION_IDS.map(id => id.toLowerCase()));
+
+/**
+ * One package in an SBOM, identified by purl
+ */
+export interface InventoryPackage {
+  purl: string;
+  source: LicenseFinding['source'];
+  name: string;
+  version: string;
+  dev?: boolean;
+  hashes: PackageHash[];
+  license?: string; // Normalized by the license scan
+  declaredLicense?: string; // As the package metadata states it
+  inGraph: boolean; // A lockfile recorded what it depends on
+  dependsOn: Set<string>; // purls
+}
+
+export interface SbomInventory {
+  packages: InventoryPackage[]; // Sorted by purl
+  direct: Set<string>; // purls the project depends on directly
+}
+
+/**
+ * Inputs for an inventory; trees and dependencies are read from the repository when omitted
+ */
+export interface SbomInventoryOptions {
+  repoPath: string;
+  findings: LicenseFinding[];
+  trees?: DependencyTree[];
+  dependencies?: LockedDependency[];
+}
+
+/**
+ * Everything an SBOM lists: lockfile graphs give packages, hashes and edges;
+ * lockfiles without a graph and license scan results add the remaining packages.
+ */
+export function collectSbomInventory(options: SbomInventoryOptions): SbomInventory {
+  const trees = options.trees || buildDependencyTrees(options.repoPath);
+  const dependencies = options.dependencies || dependencyScanner.listDependencies(options.repoPath);
+  const findings = new Map(options.findings.map(finding => [licenseScanner.generatePURL(finding), finding]));
+  const packages = new Map<string, InventoryPackage>();
+  const direct = new Set<string>();
+
+  const add = (source: LicenseFinding['source'], name: string, version: string, dev?: boolean, hashes: PackageHash[] = []): InventoryPackage => {
+    const purl = licenseScanner.generatePURL({ package: name, version, source });
+    const existing = packages.get(purl);
+    if (existing) {
+      // Reached from both prod and dev counts as prod
+      if (dev === false) existing.dev = false;
+      return existing;
+    }
+    const finding = findings.get(purl);
+    const pkg: InventoryPackage = {
+      purl,
+      source,
+      name,
+      version,
+      dev,
+      hashes,
+      license: finding?.license,
+      declaredLicense: finding?.declaredLicense,
+      inGraph: false,
+      dependsOn: new Set(),
+    };
+    packages.set(purl, pkg);
+    return pkg;
+  };
+
+  for (const tree of trees) {
+    const source = LICENSE_SOURCES[tree.ecosystem];
+    const byId = new Map(Array.from(tree.nodes.values()).map(node => [node.id, add(source, node.name, node.version, node.dev, node.hashes)]));
+    for (const edge of tree.direct) {
+      const pkg = byId.get(edge.id);
+      if (pkg) direct.add(pkg.purl);
+    }
+    for (const node of tree.nodes.values()) {
+      const pkg = byId.get(node.id)!;
+      pkg.inGraph = true;
+      for (const edge of node.dependencies) {
+        const child = byId.get(edge.id);
+        if (child) pkg.dependsOn.add(child.purl);
+      }
+    }
+  }
+
+  for (const dependency of dependencies) {
+    add(LICENSE_SOURCES[dependency.ecosystem], dependency.name, dependency.version, dependency.dev);
+  }
+  for (const finding of options.findings) {
+    add(finding.source, finding.package, finding.version);
+  }
+
+  return {
+    packages: Array.from(packages.values()).sort((a, b) => a.purl.localeCompare(b.purl)),
+    direct,
+  };
+}
+
+/**
+ * License IDs from the SPDX license list (or LicenseRef-s) joined by AND/OR/WITH,
+ * with balanced parentheses. "Apache" or "BSD" parse but are not SPDX IDs.
+ */
+export function isSpdxExpression(value: string): boolean {
+  const expression = parseSpdxExpression(value);
+  return !!expression && licenseAlternatives(expression).every(licenses => licenses.every(license =>
+    (/(^|:)LicenseRef-/.test(license.id) || KNOWN_LICENSE_IDS.has(license.id.toLowerCase()))
+    && (!license.exception || /^AdditionRef-/.test(license.exception) || KNOWN_EXCEPTION_IDS.has(license.exception.toLowerCase()))
+  ));
+}
+
+/**
+ * True for placeholders that mean no license information was found
+ */
+export function isUnknownLicense(license: string | undefined): boolean {
+  return !license || /^(unknown|noassertion)$/i.test(license.trim());
+}
@@ -0,0 +1,358 @@
+import { DependencyEcosystem, LockedDependency } from './lockfile-parser';
+import { LICENSE_SOURCES, LicenseFinding, licenseScanner } from './license-scanner';
+import { DependencyVulnerability, dependencyScanner } from './dependency-scanner';
+import { isUnknownLicense } from './sbom-inventory';
+import { compareGenericVersions, compareVersions } from './version-ranges';
+import { normalizePackageName } from './vuln-db';
+import { parsePurl } from './purl';
+import { configError } from '../utils/ci-gate';
+
+/**
+ * One package listed in an SBOM, whichever tool wrote it
+ */
+export interface SbomComponent {
+  name: string;
+  version: string;
+  ecosystem?: DependencyEcosystem; // From the purl; unset when it has none or an unsupported type
+  purl?: string;
+  license?: string; // SPDX expression or license name
+}
+
+export interface ParsedSbom {
+  file: string;
+  format: 'cyclonedx' | 'spdx';
+  name?: string;
+  components: SbomComponent[];
+}
+
+export interface SbomVersionChange {
+  component: SbomComponent; // As listed in the new SBOM
+  from: string;
+  to: string;
+}
+
+export interface SbomLicenseChange {
+  component: SbomComponent;
+  from?: string;
+  to?: string;
+}
+
+export interface SbomDiff {
+  added: SbomComponent[];
+  removed: SbomComponent[];
+  upgraded: SbomVersionChange[];
+  downgraded: SbomVersionChange[];
+  licenseChanges: SbomLicenseChange[];
+  newVulnerabilities: DependencyVulnerability[];
+  resolvedVulnerabilities: DependencyVulnerability[];
+}
+
+/**
+ * Read a CycloneDX (JSON or XML) or SPDX (JSON or tag-value) document.
+ * The package the document describes is left out of the components.
+ */
+export function parseSbom(content: string, file: string): ParsedSbom {
+  const text = content.replace(/^\uFEFF/, '').trim();
+
+  if (text.startsWith('{')) {
+    let document: any;
+    try {
+      document = JSON.parse(text);
+    } catch (error) {
+      throw configError(`${file} is not valid JSON: ${(error as Error).message}`);
+    }
+    if (document?.bomFormat === 'CycloneDX') return { file, ...parseCycloneDxJson(document) };
+    if (typeof document?.spdxVersion === 'string') return { file, ...parseSpdxJson(document) };
+  } else if (/<bom[\s>]/.test(text) && /cyclonedx\.org\/schema\/bom/.test(text)) {
+    return { file, ...parseCycloneDxXml(text) };
+  } else if (/^SPDXVersion:/m.test(text)) {
+    return { file, ...parseSpdxTagValue(text) };
+  }
+
+  throw configError(`${file} is not a CycloneDX or SPDX document`);
+}
+
+/**
+ * Compare two SBOMs. Packages are matched by ecosystem and registry-normalized name,
+ * so a version change is reported as an upgrade or downgrade rather than an add and remove.
+ * Vulnerabilities come from the offline advisory database.
+ */
+export function diffSboms(before: ParsedSbom, after: ParsedSbom): SbomDiff {
+  const diff: SbomDiff = {
+    added: [],
+    removed: [],
+    upgraded: [],
+    downgraded: [],
+    licenseChanges: [],
+    newVulnerabilities: [],
+    resolvedVulnerabilities: [],
+  };
+
+  const oldPackages = groupByPackage(before.components);
+  const newPackages = groupByPackage(after.components);
+
+  for (const [key, current] of newPackages) {
+    const previous = oldPackages.get(key);
+    if (!previous) {
+      diff.added.push(...current);
+      continue;
+    }
+
+    const oldVersions = new Set(previous.map(component => component.version));
+    const newVersions = new Set(current.map(component => component.version));
+    const compare = (a: SbomComponent, b: SbomComponent) => compareComponentVersions(a, a.version, b.version);
+    const gone = previous.filter(component => !newVersions.has(component.version)).sort(compare);
+    const arrived = current.filter(component => !oldVersions.has(component.version)).sort(compare);
+
+    // Pair versions that left with versions that arrived, lowest with lowest
+    const pairs = Math.min(gone.length, arrived.length);
+    for (let i = 0; i < pairs; i++) {
+      const change = { component: arrived[i], from: gone[i].version, to: arrived[i].version };
+      (compareComponentVersions(arrived[i], change.to, change.from) >= 0 ? diff.upgraded : diff.downgraded).push(change);
+    }
+    diff.removed.push(...gone.slice(pairs));
+    diff.added.push(...arrived.slice(pairs));
+
+    const oldLicense = knownLicense(latest(previous));
+    const newLicense = knownLicense(latest(current));
+    if (oldLicense !== newLicense) {
+      diff.licenseChanges.push({ component: latest(current), from: oldLicense, to: newLicense });
+    }
+  }
+  for (const [key, previous] of oldPackages) {
+    if (!newPackages.has(key)) diff.removed.push(...previous);
+  }
+
+  const advisoryKey = (vuln: DependencyVulnerability) =>
+    `${vuln.ecosystem}:${normalizePackageName(vuln.ecosystem, vuln.package)}:${vuln.id || vuln.title}`;
+  const oldVulnerabilities = dependencyScanner.matchDependencies(sbomDependencies(before));
+  const newVulnerabilities = dependencyScanner.matchDependencies(sbomDependencies(after));
+  const oldKeys = new Set(oldVulnerabilities.map(advisoryKey));
+  const newKeys = new Set(newVulnerabilities.map(advisoryKey));
+  diff.newVulnerabilities = newVulnerabilities.filter(vuln => !oldKeys.has(advisoryKey(vuln)));
+  diff.resolvedVulnerabilities = oldVulnerabilities.filter(vuln => !newKeys.has(advisoryKey(vuln)));
+
+  return diff;
+}
+
+/**
+ * SBOM components the vulnerability database can match: those with a supported purl type
+ */
+export function sbomDependencies(sbom: ParsedSbom): LockedDependency[] {
+  return sbom.components
+    .filter((component): component is SbomComponent & { ecosystem: DependencyEcosystem } => !!component.ecosystem)
+    .map(component => ({ name: component.name, version: component.version, ecosystem: component.ecosystem, file: sbom.file }));
+}
+
+/**
+ * License scan findings for SBOM components, ready for licenseScanner.evaluate()
+ */
+export function sbomLicenseFindings(sbom: ParsedSbom): LicenseFinding[] {
+  return sbom.components
+    .filter(component => component.ecosystem)
+    .map(component => {
+      const stated = knownLicense(component) || 'Unknown';
+      return {
+        package: component.name,
+        version: component.version,
+        ...licenseScanner.classifyLicense(stated),
+        declaredLicense: component.license,
+        risk: 'info' as const, // Set by evaluate()
+        description: `${component.ecosystem} package from SBOM: ${component.name}@${component.version}`,
+        source: LICENSE_SOURCES[component.ecosystem!],
+      };
+    });
+}
+
+function parseCycloneDxJson(document: any): Omit<ParsedSbom, 'file'> {
+  const components: SbomComponent[] = [];
+  const visit = (list: unknown) => {
+    if (!Array.isArray(list)) return;
+    for (const item of list) {
+      if (!item || typeof item.name !== 'string') continue;
+      const licenses = Array.isArray(item.licenses)
+        ? item.licenses
+          .map((choice: any) => choice?.expression || choice?.license?.id || choice?.license?.name)
+          .filter((value: unknown): value is string => typeof value === 'string' && value.length > 0)
+        : [];
+      components.push(component(
+        item.group ? `${item.group}${item.purl?.startsWith('pkg:maven/') ? ':' : '/'}${item.name}` : item.name,
+        item.version,
+        item.purl,
+        licenses.length > 1 ? licenses.map((license: string) => `(${license})`).join(' AND ') : licenses[0]
+      ));
+      // Nested components (e.g. bundled dependencies) are packages too
+      visit(item.components);
+    }
+  };
+  visit(document.components);
+  return { format: 'cyclonedx', name: document.metadata?.component?.name, components };
+}
+
+function parseCycloneDxXml(xml: string): Omit<ParsedSbom, 'file'> {
+  const withoutComments = xml.replace(/<!--[\s\S]*?-->/g, '');
+  const metadata = /<metadata>([\s\S]*?)<\/metadata>/.exec(withoutComments)?.[1] || '';
+  const body = withoutComments.replace(/<metadata>[\s\S]*?<\/metadata>/, '');
+  const components: SbomComponent[] = [];
+
+  // Each component's own fields come before any nested <components>
+  for (const match of body.matchAll(/<component\b[^>]*>([\s\S]*?)(?=<component\b|<\/component>|<\/components>)/g)) {
+    const fields = match[1].split(/<components>/)[0];
+    const name = xmlText(fields, 'name');
+    if (!name) continue;
+    const group = xmlText(fields, 'group');
+    const purl = xmlText(fields, 'purl');
+    const licenseBlock = /<licenses>([\s\S]*?)<\/licenses>/.exec(fields)?.[1] || '';
+    const licenses = Array.from(licenseBlock.matchAll(/<(expression|id|name)>([\s\S]*?)<\/\1>/g)).map(license => decodeXml(license[2].trim()));
+    components.push(component(
+      group ? `${group}${purl?.startsWith('pkg:maven/') ? ':' : '/'}${name}` : name,
+      xmlText(fields, 'version'),
+      purl,
+      licenses.length > 1 ? licenses.map(license => `(${license})`).join(' AND ') : licenses[0]
+    ));
+  }
+
+  const rootName = xmlText(metadata.replace(/<tools>[\s\S]*?<\/tools>/, ''), 'name');
+  return { format: 'cyclonedx', name: rootName, components };
+}
+
+function parseSpdxJson(document: any): Omit<ParsedSbom, 'file'> {
+  const described = describedElements(
+    Array.isArray(document.documentDescribes) ? document.documentDescribes : [],
+    (Array.isArray(document.relationships) ? document.relationships : []).map((relationship: any) => [
+      relationship?.spdxElementId,
+      relationship?.relationshipType,
+      relationship?.relatedSpdxElement,
+    ])
+  );
+
+  const components: SbomComponent[] = [];
+  for (const pkg of Array.isArray(document.packages) ? document.packages : []) {
+    if (!pkg || typeof pkg.name !== 'string' || described.has(pkg.SPDXID)) continue;
+    const purl = (Array.isArray(pkg.externalRefs) ? pkg.externalRefs : [])
+      .find((ref: any) => ref?.referenceType === 'purl')?.referenceLocator;
+    components.push(component(pkg.name, pkg.versionInfo, purl, spdxLicense(pkg.licenseConcluded, pkg.licenseDeclared)));
+  }
+  return { format: 'spdx', name: document.name, components };
+}
+
+function parseSpdxTagValue(text: string): Omit<ParsedSbom, 'file'> {
+  const packages: Array<Record<string, string>> = [];
+  const describes: string[] = [];
+  const relationships: Array<[string, string, string]> = [];
+  let documentName: string | undefined;
+  let current: Record<string, string> | undefined;
+
+  // Multi-line values are wrapped in <text>…</text>; none of the fields read here use them
+  const lines = text.replace(/<text>[\s\S]*?<\/text>/g, 'NOASSERTION').split(/\r?\n/);
+  for (const line of lines) {
+    const match = /^([A-Za-z]+):\s*(.*)$/.exec(line.trim());
+    if (!match) continue;
+    const [, tag, value] = match;
+
+    if (tag === 'PackageName') {
+      current = { PackageName: value };
+      packages.push(current);
+    } else if (tag === 'FileName' || tag === 'SnippetSPDXID' || tag === 'LicenseID') {
+      // Later sections belong to files, snippets and licenses, not the package
+      current = undefined;
+    } else if (tag === 'DocumentName') {
+      documentName = value;
+    } else if (tag === 'DocumentDescribes') {
+      describes.push(...value.split(',').map(id => id.trim()));
+    } else if (tag === 'Relationship') {
+      const [element, type, related] = value.split(/\s+/);
+      relationships.push([element, type, related]);
+    } else if (current && tag === 'ExternalRef') {
+      const [, type, locator] = value.split(/\s+/);
+      if (type === 'purl' && !current.purl) current.purl = locator;
+    } else if (current && !(tag in current)) {
+      current[tag] = value;
+    }
+  }
+
+  const described = describedElements(describes, relationships);
+  return {
+    format: 'spdx',
+    name: documentName,
+    components: packages
+      .filter(pkg => !described.has(pkg.SPDXID))
+      .map(pkg => component(pkg.PackageName, pkg.PackageVersion, pkg.purl, spdxLicense(pkg.PackageLicenseConcluded, pkg.PackageLicenseDeclared))),
+  };
+}
+
+/**
+ * SPDXIDs of the packages the document is about (the project itself)
+ */
+function describedElements(describes: string[], relationships: Array<[unknown, unknown, unknown]>): Set<string> {
+  const described = new Set(describes.filter(Boolean));
+  for (const [element, type, related] of relationships) {
+    if (element === 'SPDXRef-DOCUMENT' && type === 'DESCRIBES' && typeof related === 'string') described.add(related);
+    if (related === 'SPDXRef-DOCUMENT' && type === 'DESCRIBED_BY' && typeof element === 'string') described.add(element);
+  }
+  return described;
+}
+
+/**
+ * The concluded license when the document has one, otherwise the declared license
+ */
+function spdxLicense(concluded: unknown, declared: unknown): string | undefined {
+  for (const value of [concluded, declared]) {
+    if (typeof value === 'string' && value.trim() && !/^(NOASSERTION|NONE)$/.test(value.trim())) return value.trim();
+  }
+  return undefined;
+}
+
+function component(name: string, version: unknown, purl: unknown, license: string | undefined): SbomComponent {
+  const parsed = typeof purl === 'string' ? parsePurl(purl) : null;
+  return {
+    // The purl spells the name the way the registry does
+    name: parsed?.ecosystem ? parsed.name : name,
+    version: typeof version === 'string' && version ? version : parsed?.version || 'unknown',
+    ...(parsed?.ecosystem ? { ecosystem: parsed.ecosystem } : {}),
+    ...(typeof purl === 'string' ? { purl } : {}),
+    ...(license ? { license } : {}),
+  };
+}
+
+function groupByPackage(components: SbomComponent[]): Map<string, SbomComponent[]> {
+  const packages = new Map<string, SbomComponent[]>();
+  for (const item of components) {
+    const key = item.ecosystem
+      ? `${item.ecosystem}:${normalizePackageName(item.ecosystem, item.name)}`
+      : `:${item.name.toLowerCase()}`;
+    const versions = packages.get(key) || [];
+    // Tools list the same package once per lockfile or path; one entry per version is enough
+    if (!versions.some(existing => existing.version === item.version)) versions.push(item);
+    packages.set(key, versions);
+  }
+  return packages;
+}
+
+function compareComponentVersions(item: SbomComponent, a: string, b: string): number {
+  // Without a purl there is no ecosystem ordering to apply
+  return item.ecosystem ? compareVersions(item.ecosystem, a, b) : compareGenericVersions(a, b);
+}
+
+function latest(versions: SbomComponent[]): SbomComponent {
+  return versions.reduce((best, item) => (compareComponentVersions(item, item.version, best.version) > 0 ? item : best));
+}
+
+function knownLicense(item: SbomComponent): string | undefined {
+  return item.license && !isUnknownLicense(item.license) ? item.license : undefined;
+}
+
+function xmlText(xml: string, tag: string): string | undefined {
+  const match = new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`).exec(xml);
+  return match ? decodeXml(match[1].trim()) : undefined;
+}
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
@@ -0,0 +1,194 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { configManager } from './config';
+
+const packageJson = require('../../package.json');
+
+const CACHE_FORMAT_VERSION = 1;
+const PROJECT_SCOPE = '*';
+
+/**
+ * Scan cache statistics, reported in the report metadata
+ */
+export interface ScanCacheStats {
+  enabled: boolean;
+  hits: number;
+  misses: number;
+  entries: number;
+}
+
+interface ScanCacheEntry {
+  file: string;
+  hash: string;
+  version: string;
+  results: unknown[];
+}
+
+interface ScanCacheFile {
+  format: number;
+  cliVersion: string;
+  entries: Record<string, ScanCacheEntry>;
+}
+
+/**
+ * Incremental Scan Cache
+ *
+ * Persists per-file scanner results under the repo's cache directory, keyed by
+ * scanner ID and file and validated against the file's content hash and the
+ * scanner/rule-set version. Results are cached before suppressions, so
+ * `.guardscanignore` changes never require a rescan.
+ */
+export class ScanCache {
+  private enabled: boolean = false;
+  private cachePath?: string;
+  private entries: Map<string, ScanCacheEntry> = new Map();
+  private hits: number = 0;
+  private misses: number = 0;
+  private dirty: boolean = false;
+
+  /**
+   * Reset counters and load the cache for a repository
+   */
+  load(repoId: string, enabled: boolean = true): void {
+    this.enabled = enabled;
+    this.cachePath = path.join(configManager.getCacheDir(), repoId, 'scan-cache', 'results.json');
+    this.entries.clear();
+    this.hits = 0;
+    this.misses = 0;
+    this.dirty = false;
+
+    if (!enabled || !fs.existsSync(this.cachePath)) {
+      return;
+    }
+
+    try {
+      const data: ScanCacheFile = JSON.parse(fs.readFileSync(this.cachePath, 'utf-8'));
+      // A new CLI release may change any scanner, so start over
+      if (data.format !== CACHE_FORMAT_VERSION || data.cliVersion !== packageJson.version) {
+        this.dirty = true;
+        return;
+      }
+      for (const [key, entry] of Object.entries(data.entries || {})) {
+        this.entries.set(key, entry);
+      }
+    } catch {
+      // Corrupt cache: rebuild it from scratch
+      this.dirty = true;
+    }
+  }
+
+  /**
+   * Return cached results for a file, or scan it and remember the results
+   */
+  getOrScan<T>(scannerId: string, file: string, content: string, scan: () => T[], version: string = ''): T[] {
+    if (!this.enabled) {
+      return scan();
+    }
+    return this.lookup(`${scannerId}:${file}`, file, this.hash(content), version, scan);
+  }
+
+  /**
+   * Cache a cross-file analysis; any added, removed or changed file invalidates it
+   */
+  getOrScanProject<T>(scannerId: string, contents: Map<string, string>, scan: () => T[], version: string = ''): T[] {
+    if (!this.enabled) {
+      return scan();
+    }
+
+    const digest = crypto.createHash('sha256');
+    for (const file of Array.from(contents.keys()).sort()) {
+      digest.update(`${file}\0${this.hash(contents.get(file)!)}\0`);
+    }
+    return this.lookup(`${scannerId}:${PROJECT_SCOPE}`, PROJECT_SCOPE, digest.digest('hex'), version, scan);
+  }
+
+  /**
+   * Write the cache to disk, dropping entries for files that no longer exist
+   */
+  save(): void {
+    if (!this.enabled || !this.cachePath) {
+      return;
+    }
+
+    for (const [key, entry] of this.entries) {
+      if (entry.file !== PROJECT_SCOPE && !fs.existsSync(entry.file)) {
+        this.entries.delete(key);
+        this.dirty = true;
+      }
+    }
+    if (!this.dirty) {
+      return;
+    }
+
+    const data: ScanCacheFile = {
+      format: CACHE_FORMAT_VERSION,
+      cliVersion: packageJson.version,
+      entries: Object.fromEntries(this.entries),
+    };
+
+    try {
+      fs.mkdirSync(path.dirname(this.cachePath), { recursive: true });
+      fs.writeFileSync(this.cachePath, JSON.stringify(data), 'utf-8');
+      this.dirty = false;
+    } catch (error) {
+      console.warn(`Warning: Failed to write scan cache ${this.cachePath}:`, error);
+    }
+  }
+
+  /**
+   * Delete the on-disk cache for the loaded repository
+   */
+  clear(): void {
+    this.entries.clear();
+    if (this.cachePath && fs.existsSync(this.cachePath)) {
+      fs.rmSync(this.cachePath, { force: true });
+    }
+  }
+
+  getStats(): ScanCacheStats {
+    return {
+      enabled: this.enabled,
+      hits: this.hits,
+      misses: this.misses,
+      entries: this.entries.size,
+    };
+  }
+
+  private lookup<T>(key: string, file: string, hash: string, version: string, scan: () => T[]): T[] {
+    const entry = this.entries.get(key);
+    if (entry && entry.hash === hash && entry.version === version) {
+      this.hits++;
+      return this.copy(entry.results) as T[];
+    }
+
+    this.misses++;
+    const results = scan();
+    // Store a snapshot so later mutation of the returned findings can't leak into the cache
+    this.entries.set(key, { file, hash, version, results: this.copy(results) });
+    this.dirty = true;
+    return results;
+  }
+
+  private copy(results: unknown[]): unknown[] {
+    return JSON.parse(JSON.stringify(results));
+  }
+
+  private hash(content: string): string {
+    return crypto.createHash('sha256').update(content).digest('hex');
+  }
+}
+
+/**
+ * One-line summary for reports, e.g. "4980 hits, 20 misses (99.6% reused)"
+ */
+export function describeCacheStats(stats: ScanCacheStats): string {
+  if (!stats.enabled) {
+    return 'disabled (--no-cache)';
+  }
+  const total = stats.hits + stats.misses;
+  const reused = total > 0 ? ((stats.hits / total) * 100).toFixed(1) : '0.0';
+  return `${stats.hits} hits, ${stats.misses} misses (${reused}% reused)`;
+}
+
+export const scanCache = new ScanCache();
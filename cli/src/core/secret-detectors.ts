@@ -0,0 +1,184 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import yaml from 'js-yaml';
+import ignore from 'ignore';
+import { configError } from '../utils/ci-gate';
+import { validateJsonSchema } from './json-schema';
+import secretDetectorsSchema from '../schemas/secret-detectors.schema.json';
+
+export type SecretSeverity = 'critical' | 'high' | 'medium';
+
+/**
+ * A secret format: findings are regex matches in files that contain one of
+ * the keywords (case-insensitive). With `entropy`, matches whose secret is
+ * more predictable than that (e.g. "acme_live_000…") are dropped.
+ */
+export interface SecretDetector {
+  id: string;
+  name: string; // Reported as the finding type
+  regex: RegExp; // Global; a `(?<secret>…)` group narrows the match to the secret
+  severity: SecretSeverity;
+  recommendation: string;
+  keywords: string[]; // Lowercase; empty runs the regex on every file
+  entropy?: number;
+}
+
+/**
+ * Findings to leave out: secrets matching a regex, files matching a path glob
+ * (relative to the repository root) and exact finding fingerprints
+ */
+export interface SecretAllowlist {
+  regexes: RegExp[];
+  paths: string[];
+  fingerprints: string[];
+}
+
+export interface SecretRules {
+  detectors: SecretDetector[];
+  allowlist: SecretAllowlist;
+  version: string; // Changes whenever the rules do, for the scan cache
+}
+
+/**
+ * A detectors file as written in YAML
+ */
+interface SecretDetectorsFile {
+  detectors?: Array<{
+    id: string;
+    name?: string;
+    regex: string;
+    severity: SecretSeverity;
+    recommendation: string;
+    keywords?: string[];
+    entropy?: number;
+  }>;
+  allowlist?: {
+    regexes?: string[];
+    paths?: string[];
+    fingerprints?: string[];
+  };
+}
+
+const detector = (
+  id: string, name: string, regex: RegExp, severity: SecretSeverity, recommendation: string, keywords: string[]
+): SecretDetector => ({ id, name, regex, severity, recommendation, keywords });
+
+export const BUILTIN_SECRET_DETECTORS: SecretDetector[] = [
+  detector('aws-access-key', 'AWS Access Key', /AKIA[0-9A-Z]{16}/g, 'critical',
+    'Rotate AWS credentials immediately and use AWS Secrets Manager', ['akia']),
+  detector('aws-secret-access-key', 'AWS Secret Access Key', /aws[_-]?secret[_-]?access[_-]?key['":\s]*[=:]\s*['"](?<secret>[A-Za-z0-9/+=]{40})['"]/gi, 'critical',
+    'Rotate AWS credentials immediately and use AWS Secrets Manager', ['aws']),
+  detector('github-token', 'GitHub Token', /gh[pousr]_[A-Za-z0-9_]{36,}/g, 'critical',
+    'Revoke GitHub token and regenerate with minimal permissions', ['ghp_', 'gho_', 'ghu_', 'ghs_', 'ghr_']),
+  detector('github-pat', 'GitHub Personal Access Token', /ghp_[A-Za-z0-9]{36}/g, 'critical',
+    'Revoke GitHub PAT immediately', ['ghp_']),
+  detector('google-api-key', 'Google API Key', /AIza[0-9A-Za-z\\-_]{35}/g, 'high',
+    'Rotate Google API key and restrict API key usage', ['aiza']),
+  detector('gcp-service-account', 'GCP Service Account JSON', /"type":\s*"service_account"/g, 'critical',
+    'Remove service account JSON and use workload identity', ['service_account']),
+  detector('azure-storage-connection-string', 'Azure Storage Connection String', /DefaultEndpointsProtocol=https;AccountName=[^;]+;AccountKey=[A-Za-z0-9+/=]{88}/g, 'critical',
+    'Rotate Azure storage key immediately', ['accountkey=']),
+  detector('slack-token', 'Slack Token', /xox[baprs]-[0-9]{10,13}-[0-9]{10,13}-[a-zA-Z0-9]{24,32}/g, 'high',
+    'Revoke Slack token and regenerate', ['xox']),
+  detector('stripe-live-key', 'Stripe Live API Key', /sk_live_[0-9a-zA-Z]{24,}/g, 'critical',
+    'Rotate Stripe API key immediately', ['sk_live_']),
+  detector('private-key', 'Private Key', /-----BEGIN (RSA |OPENSSH |DSA |EC )?PRIVATE KEY-----/g, 'critical',
+    'Remove private key and regenerate keypair', ['private key-----']),
+  detector('jwt', 'JWT Token', /eyJ[A-Za-z0-9-_=]+\.eyJ[A-Za-z0-9-_=]+\.?[A-Za-z0-9-_.+/=]*/g, 'medium',
+    'Review if this is a valid token, invalidate if leaked', ['eyj']),
+  detector('generic-api-key', 'Generic API Key', /(api[_-]?key|apikey|api[_-]?secret|secret[_-]?key)['":\s]*[=:]\s*['"](?<secret>[A-Za-z0-9\-_]{20,})['"]/gi, 'high',
+    'Move to environment variables or secret management', ['api', 'secret']),
+  detector('database-connection-string', 'Database Connection String', /(mongodb|postgres|mysql|redis):\/\/[^:]+:[^@]+@[^/]+/gi, 'critical',
+    'Use environment variables for connection strings', ['mongodb', 'postgres', 'mysql', 'redis']),
+  detector('twilio-api-key', 'Twilio API Key', /SK[a-z0-9]{32}/g, 'high',
+    'Rotate Twilio credentials', ['sk']),
+  detector('sendgrid-api-key', 'SendGrid API Key', /SG\.[A-Za-z0-9\-_]{22}\.[A-Za-z0-9\-_]{43}/g, 'high',
+    'Rotate SendGrid API key', ['sg.']),
+  detector('mailchimp-api-key', 'MailChimp API Key', /[a-f0-9]{32}-us[0-9]{1,2}/g, 'high',
+    'Rotate MailChimp API key', ['-us']),
+];
+
+/**
+ * Built-in detectors plus those in the given YAML files. A file detector with
+ * a built-in ID replaces the built-in one; allowlists from all files add up.
+ */
+export function loadSecretRules(files: string[]): SecretRules {
+  const detectors = new Map(BUILTIN_SECRET_DETECTORS.map(item => [item.id, item]));
+  const allowlist: SecretAllowlist = { regexes: [], paths: [], fingerprints: [] };
+  const digest = crypto.createHash('sha256');
+
+  for (const file of files) {
+    const content = fs.readFileSync(file, 'utf-8');
+    digest.update(`${file}\0${content}\0`);
+    const parsed = parseSecretDetectorsFile(content, path.basename(file));
+
+    for (const item of parsed.detectors || []) {
+      detectors.set(item.id, {
+        id: item.id,
+        name: item.name || item.id,
+        regex: new RegExp(item.regex, 'g'),
+        severity: item.severity,
+        recommendation: item.recommendation,
+        keywords: (item.keywords || []).map(keyword => keyword.toLowerCase()),
+        entropy: item.entropy,
+      });
+    }
+    allowlist.regexes.push(...(parsed.allowlist?.regexes || []).map(regex => new RegExp(regex)));
+    allowlist.paths.push(...(parsed.allowlist?.paths || []));
+    allowlist.fingerprints.push(...(parsed.allowlist?.fingerprints || []));
+  }
+
+  return {
+    detectors: Array.from(detectors.values()),
+    allowlist,
+    version: files.length > 0 ? digest.digest('hex').slice(0, 16) : '',
+  };
+}
+
+/**
+ * Whether a secret is allowlisted; `file` is relative to the repository root
+ */
+export function isSecretAllowed(allowlist: SecretAllowlist, file: string, fingerprint: string, secret: string): boolean {
+  if (allowlist.fingerprints.includes(fingerprint)) return true;
+  if (allowlist.regexes.some(regex => regex.test(secret))) return true;
+  return allowlist.paths.length > 0 && isRelativePath(file) && ignore().add(allowlist.paths).ignores(file);
+}
+
+/**
+ * Stable ID of a secret value as found by one detector, wherever it appears
+ */
+export function secretFingerprint(detectorId: string, secret: string): string {
+  return crypto.createHash('sha256').update(`${detectorId}\0${secret}`).digest('hex').slice(0, 16);
+}
+
+function parseSecretDetectorsFile(content: string, fileName: string): SecretDetectorsFile {
+  let data: unknown;
+  try {
+    data = yaml.load(content) ?? {};
+  } catch (error: any) {
+    throw configError(`Invalid ${fileName}: ${error.message}`, error);
+  }
+
+  const errors = validateJsonSchema(secretDetectorsSchema, data);
+  const parsed = data as SecretDetectorsFile;
+  if (errors.length === 0) {
+    const checkRegex = (regex: string, location: string) => {
+      try {
+        new RegExp(regex);
+      } catch (error: any) {
+        errors.push(`${location} is not a valid regular expression: ${error.message}`);
+      }
+    };
+    (parsed.detectors || []).forEach((item, index) => checkRegex(item.regex, `detectors[${index}].regex`));
+    (parsed.allowlist?.regexes || []).forEach((regex, index) => checkRegex(regex, `allowlist.regexes[${index}]`));
+  }
+  if (errors.length > 0) {
+    throw configError(`Invalid ${fileName}:\n  - ${errors.join('\n  - ')}`);
+  }
+  return parsed;
+}
+
+function isRelativePath(file: string): boolean {
+  return !!file && !path.isAbsolute(file) && !file.startsWith('..');
+}
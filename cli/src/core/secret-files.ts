@@ -0,0 +1,302 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import yaml from 'js-yaml';
+import { fileWalker, WalkPolicy } from './file-walker';
+import { readTarEntries } from '../utils/tar-reader';
+import { readZipEntries } from '../utils/zip-reader';
+
+/**
+ * A line to scan, numbered as in the file (or archive entry) it came from
+ */
+export interface SecretLine {
+  text: string;
+  line: number;
+}
+
+/**
+ * Part of a file scanned on its own
+ */
+export interface SecretSection {
+  location?: string; // Where in the file, e.g. "cell 3", "config/.env" (archive entry) or "base64-encoded text"
+  lines: SecretLine[];
+  decoded?: boolean; // Decoded from base64; the encoded text already had the entropy checks
+  secretValue?: boolean; // A Kubernetes Secret value: a secret whatever its format
+}
+
+export interface SecretFileContent {
+  content: string; // Keys the scan cache; the text itself for text files
+  text?: string; // For inline suppression comments; undefined for archives
+  sections(): SecretSection[]; // Decoded on demand, so cached files are not unpacked
+}
+
+const ARCHIVE_FILE = /\.(zip|jar|war|ear|tgz|tar\.gz)$/i;
+export const MAX_ARCHIVE_SIZE = 20 * 1024 * 1024;
+// Entries larger than this, and whatever an archive holds past the total, are not scanned
+const MAX_ARCHIVE_ENTRY_SIZE = 2 * 1024 * 1024;
+const MAX_ARCHIVE_EXPANDED_SIZE = 100 * 1024 * 1024;
+
+const BINARY_SNIFF_BYTES = 8000;
+
+const BASE64_BLOB = /(?<![A-Za-z0-9+/_-])[A-Za-z0-9+/]{24,}={0,2}(?![A-Za-z0-9+/=_-])/g;
+const MIN_PRINTABLE_RATIO = 0.95;
+
+/**
+ * Files that only hold hashes and checksums, which look like secrets but never are
+ */
+const SECRET_IGNORED_FILES = [
+  '*.map',
+  'package-lock.json',
+  'yarn.lock',
+  'pnpm-lock.yaml',
+  '*.lock',
+  'go.sum',
+  '.DS_Store',
+];
+
+/**
+ * Secret detection walks more than the other scanners: dotenv files, logs,
+ * generated bundles, notebooks and archives. Files in .gitignore are still
+ * skipped, since they are never committed.
+ */
+export const SECRET_WALK_POLICY: WalkPolicy = {
+  name: 'secrets',
+  ignoredFiles: SECRET_IGNORED_FILES,
+  binaryFiles: ARCHIVE_FILE,
+  maxBinarySize: MAX_ARCHIVE_SIZE,
+};
+
+/**
+ * Absolute paths of the files secret detection scans
+ */
+export function listSecretFiles(repoRoot: string = process.cwd()): string[] {
+  return fileWalker.listPaths(repoRoot, { policy: SECRET_WALK_POLICY, includeGenerated: true });
+}
+
+/**
+ * Whether secret detection skips a repository path, e.g. a lockfile in a
+ * commit's diff, as the walk of the working tree would
+ */
+export function isSecretPathIgnored(repoRoot: string, relativePath: string): boolean {
+  return fileWalker.isPathIgnored(repoRoot, relativePath, SECRET_WALK_POLICY);
+}
+
+/**
+ * Read a file into the sections secret detection scans: notebook cells,
+ * archive entries, base64 blobs and Kubernetes Secret values are decoded
+ * first so the detectors see the secrets themselves. Returns null for
+ * unreadable files and binary files that are not archives.
+ */
+export function readSecretFile(file: string): SecretFileContent | null {
+  if (isArchiveFile(file)) {
+    try {
+      if (fs.statSync(file).size > MAX_ARCHIVE_SIZE) return null;
+      return parseSecretFile(file, fs.readFileSync(file));
+    } catch {
+      return null;
+    }
+  }
+
+  const text = fileWalker.readFile(file);
+  if (text === null) return null;
+  return { content: text, text, sections: () => textSections(path.basename(file), text) };
+}
+
+/**
+ * Like readSecretFile, for content that is not on disk (e.g. a staged blob)
+ */
+export function parseSecretFile(file: string, data: Buffer): SecretFileContent | null {
+  if (isArchiveFile(file)) {
+    if (data.length > MAX_ARCHIVE_SIZE) return null;
+    return {
+      content: crypto.createHash('sha256').update(data).digest('hex'),
+      sections: () => archiveSections(file, data),
+    };
+  }
+
+  if (data.subarray(0, BINARY_SNIFF_BYTES).includes(0)) return null;
+  const text = data.toString('utf-8');
+  return { content: text, text, sections: () => textSections(path.basename(file), text) };
+}
+
+export function isArchiveFile(file: string): boolean {
+  return ARCHIVE_FILE.test(file);
+}
+
+/**
+ * Sections of a text file: the file itself (or a notebook's cells), plus
+ * decoded base64 blobs and Kubernetes Secret values
+ */
+function textSections(name: string, text: string, location?: string): SecretSection[] {
+  const lines = text.split('\n').map((line, i) => ({ text: line, line: i + 1 }));
+  const sections = (name.toLowerCase().endsWith('.ipynb') && notebookSections(text)) || [{ lines }];
+  const decoded = [...base64Sections(sections), ...kubernetesSecretSections(text, lines)];
+  return [...sections, ...decoded].map(section => ({ ...section, location: joinLocation(location, section.location) }));
+}
+
+/**
+ * Jupyter notebook cells and outputs with the JSON escaping undone, each line
+ * numbered as the line of the .ipynb file that holds it
+ */
+function notebookSections(text: string): SecretSection[] | null {
+  let notebook: any;
+  try {
+    notebook = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  if (!Array.isArray(notebook?.cells)) return null;
+
+  const rawLines = text.split('\n');
+  let cursor = 0;
+  // Notebook JSON holds cells in order, so each line is found after the previous one
+  const locate = (line: string): number => {
+    const escaped = JSON.stringify(line);
+    for (const needle of [escaped.slice(0, -1), escaped.slice(1, -1)]) {
+      for (let i = cursor; i < rawLines.length; i++) {
+        if (rawLines[i].includes(needle)) {
+          cursor = i;
+          return i + 1;
+        }
+      }
+    }
+    return cursor + 1;
+  };
+  const section = (source: unknown, location: string): SecretSection | null => {
+    const value = Array.isArray(source) ? source.join('') : source;
+    if (typeof value !== 'string' || !value) return null;
+    return { location, lines: value.split('\n').map(line => ({ text: line, line: locate(line) })) };
+  };
+
+  const sections: SecretSection[] = [];
+  notebook.cells.forEach((cell: any, index: number) => {
+    const source = section(cell?.source, `cell ${index + 1}`);
+    if (source) sections.push(source);
+    for (const output of Array.isArray(cell?.outputs) ? cell.outputs : []) {
+      const printed = section(output?.text ?? output?.data?.['text/plain'], `cell ${index + 1} output`);
+      if (printed) sections.push(printed);
+    }
+  });
+  return sections;
+}
+
+/**
+ * Base64 blobs that decode to text, at the line of the blob
+ */
+function base64Sections(sections: SecretSection[]): SecretSection[] {
+  const decoded: SecretSection[] = [];
+  for (const section of sections) {
+    for (const { text, line } of section.lines) {
+      for (const match of text.matchAll(BASE64_BLOB)) {
+        const value = decodeBase64Text(match[0]);
+        if (value) {
+          decoded.push({
+            location: joinLocation(section.location, 'base64-encoded text'),
+            lines: value.split('\n').map(decodedLine => ({ text: decodedLine, line })),
+            decoded: true,
+          });
+        }
+      }
+    }
+  }
+  return decoded;
+}
+
+/**
+ * Values of Kubernetes Secret manifests (data is base64, stringData plain
+ * text), at the line of their key
+ */
+function kubernetesSecretSections(text: string, lines: SecretLine[]): SecretSection[] {
+  if (!/^kind:\s*["']?Secret["']?\s*$/m.test(text)) return [];
+  const documents: unknown[] = [];
+  try {
+    yaml.loadAll(text, document => documents.push(document));
+  } catch {
+    return [];
+  }
+
+  // Document start lines, to find each key below its own document's data map
+  const separators = lines.filter(line => /^---/.test(line.text)).map(line => line.line);
+  const firstContent = lines.find(line => line.text.trim() && !line.text.trim().startsWith('#'))?.line;
+  const starts = separators[0] === firstContent ? separators : [0, ...separators];
+  const sections: SecretSection[] = [];
+
+  documents.forEach((document: any, index) => {
+    if (document?.kind !== 'Secret') return;
+    const name = document.metadata?.name || 'unnamed';
+    const from = starts[Math.min(index, starts.length - 1)];
+
+    for (const field of ['data', 'stringData']) {
+      const values = document[field];
+      if (!values || typeof values !== 'object') continue;
+      const fieldLine = lines.find(line => line.line > from && new RegExp(`^\\s*${field}:`).test(line.text))?.line ?? from + 1;
+
+      for (const [key, raw] of Object.entries(values)) {
+        const value = field === 'data' ? decodeBase64Text(String(raw ?? '')) : String(raw ?? '');
+        if (!value) continue;
+        const keyPattern = new RegExp(`^\\s*["']?${key.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}["']?\\s*:`);
+        const line = lines.find(candidate => candidate.line > fieldLine && keyPattern.test(candidate.text))?.line ?? fieldLine;
+        sections.push({
+          location: `Secret ${name}, ${field}.${key}`,
+          lines: value.split('\n').map(valueLine => ({ text: valueLine, line })),
+          decoded: field === 'data',
+          secretValue: true,
+        });
+      }
+    }
+  });
+  return sections;
+}
+
+/**
+ * Text files inside a zip/jar or tar.gz archive; nested archives are not opened
+ */
+function archiveSections(file: string, archive: Buffer): SecretSection[] {
+  let entries: Array<{ name: string; size: number; read(): Buffer }>;
+  try {
+    entries = /\.(tgz|tar\.gz)$/i.test(file)
+      ? readTarEntries(zlib.gunzipSync(archive, { maxOutputLength: MAX_ARCHIVE_EXPANDED_SIZE }))
+      : readZipEntries(archive);
+  } catch {
+    return []; // Corrupt, encrypted or oversized archive
+  }
+
+  const sections: SecretSection[] = [];
+  let expanded = 0;
+  for (const entry of entries) {
+    if (entry.size > MAX_ARCHIVE_ENTRY_SIZE || isArchiveFile(entry.name)) continue;
+    expanded += entry.size;
+    if (expanded > MAX_ARCHIVE_EXPANDED_SIZE) break;
+
+    let data: Buffer;
+    try {
+      data = entry.read();
+    } catch {
+      continue;
+    }
+    if (data.subarray(0, BINARY_SNIFF_BYTES).includes(0)) continue; // Binary entry, e.g. a .class file
+    sections.push(...textSections(path.posix.basename(entry.name), data.toString('utf-8'), entry.name));
+  }
+  return sections;
+}
+
+/**
+ * Decode base64 that holds text; binary payloads (images, keys in DER) give undefined
+ */
+function decodeBase64Text(value: string): string | undefined {
+  const trimmed = value.trim();
+  if (!/^[A-Za-z0-9+/]+={0,2}$/.test(trimmed) || trimmed.length % 4 !== 0) return undefined;
+
+  const text = Buffer.from(trimmed, 'base64').toString('utf-8');
+  if (!text) return undefined;
+  let printable = 0;
+  for (const char of text) {
+    if ((char >= ' ' && char !== '\x7f' && char !== '\uFFFD') || char === '\n' || char === '\r' || char === '\t') printable++;
+  }
+  return printable / text.length >= MIN_PRINTABLE_RATIO ? text : undefined;
+}
+
+function joinLocation(outer: string | undefined, inner: string | undefined): string | undefined {
+  return [outer, inner].filter(Boolean).join(', ') || undefined;
+}
@@ -1,16 +1,100 @@
+import { execFileSync, spawn } from 'child_process';
 import * as fs from 'fs';
-import * as crypto from 'crypto';
-import { execSync } from 'child_process';
+import * as path from 'path';
+import * as readline from 'readline';
 import { SECURITY_CONSTANTS } from '../constants/security-constants';
+import { suppressionManager } from './suppressions';
+import { scanCache } from './scan-cache';
+import { projectConfigManager } from './project-config';
+import { configManager } from './config';
+import { repositoryManager } from './repository';
+import { configError } from '../utils/ci-gate';
+import { SecretDetector, SecretRules, isSecretAllowed, loadSecretRules, secretFingerprint } from './secret-detectors';
+import { SecretLine, SecretSection, isSecretPathIgnored, parseSecretFile, readSecretFile } from './secret-files';
+
+// Bump when secret patterns or entropy rules change so cached results are discarded
+const SECRET_RULES_VERSION = '3';
+
+// Bump when the layout of the history scan state changes
+const HISTORY_STATE_FORMAT = 2;
+
+// Starts the header line `git log` prints for each commit
+const COMMIT_MARKER = '\x1e';
+
+const GIT_MAX_BUFFER = 64 * 1024 * 1024;
+
+// Template values in Kubernetes Secret manifests: ${VAR}, {{ .Values.x }}, <password>
+const PLACEHOLDER_VALUE = /^(\$\{.*\}|\{\{.*\}\}|<.*>)$/s;
+
+// Whether the allowlist accepts a secret found in the file being scanned
+type AllowCheck = (fingerprint: string, secret: string) => boolean;
+
+interface DetectorMatch {
+  detector: SecretDetector;
+  match: string; // The whole match, e.g. `password = "hunter2"`
+  secret: string; // The secret within it
+  entropy: number;
+  fingerprint: string;
+}
+
+interface EntropyString {
+  string: string;
+  entropy: number;
+  level: 'high' | 'medium';
+  fingerprint: string;
+}
 
 export interface SecretFinding {
   type: string;
+  detector: string; // ID of the detector that fired, e.g. "aws-access-key"
   file: string;
   line: number;
   secret: string;
   entropy: number;
   severity: 'critical' | 'high' | 'medium';
   recommendation: string;
+  fingerprint: string; // Allowlist this to accept the secret wherever it appears
+  location?: string; // Where in the file, e.g. "cell 3" or "config/.env" inside an archive
+  // Git history findings only: the commit that added the secret
+  commit?: string;
+  author?: string;
+  date?: string; // ISO 8601 author date
+}
+
+/**
+ * An unmasked secret found in text (see findSecretValues)
+ */
+export interface SecretValue {
+  value: string;
+  detector: string;
+  type: string;
+  fingerprint: string;
+}
+
+export interface GitHistoryOptions {
+  since?: string; // Only commits after this ref (`<ref>..HEAD`)
+  commits?: string; // Revisions as `git log` takes them, e.g. "v1.2.0..main" or "main ^origin/main"
+  // Newest commits to scan when no range is given (default GIT_HISTORY_COMMIT_LIMIT, Infinity for all)
+  maxCommits?: number;
+  incremental?: boolean; // Scan all of history once, then only commits added since the last incremental run
+}
+
+/**
+ * What the incremental history scans covered so far, per repository
+ */
+interface HistoryScanState {
+  format: number;
+  version: string; // Secret rules version; other rules rescan the whole history
+  tips: string[]; // Ref tips scanned; their ancestors are skipped next time
+  findings: SecretFinding[]; // Everything found so far, reported again on every run
+}
+
+/**
+ * A commit adding a secret's line, with the lines around it, for inline suppressions
+ */
+interface HistorySighting {
+  line: number;
+  text: string;
 }
 
 export class SecretsDetector {
@@ -19,12 +103,16 @@ export class SecretsDetector {
    */
   async detectInFiles(files: string[]): Promise<SecretFinding[]> {
     const findings: SecretFinding[] = [];
+    const rules = this.loadRules();
 
     for (const file of files) {
       try {
-        const content = fs.readFileSync(file, 'utf-8');
-        const fileFindings = this.scanContent(file, content);
-        findings.push(...fileFindings);
+        const source = readSecretFile(file);
+        if (source === null) continue;
+        const fileFindings = scanCache.getOrScan(
+          'secrets', file, source.content, () => this.scanSections(file, source.sections(), rules), this.cacheVersion(rules)
+        );
+        findings.push(...this.applySuppressions(fileFindings, source.text));
       } catch {
         // Skip files that can't be read
       }
@@ -34,204 +122,451 @@ export class SecretsDetector {
   }
 
   /**
-   * Scan git history for secrets
+   * Detect secrets in content that is not on disk, such as staged blobs or a
+   * commit message; `file` is the path the content belongs to
    */
-  async scanGitHistory(repoPath: string = process.cwd()): Promise<SecretFinding[]> {
+  detectInContent(blobs: Array<{ file: string; data: Buffer }>): SecretFinding[] {
     const findings: SecretFinding[] = [];
+    const rules = this.loadRules();
+
+    for (const { file, data } of blobs) {
+      const source = parseSecretFile(file, data);
+      if (source === null) continue;
+      findings.push(...this.applySuppressions(this.scanSections(file, source.sections(), rules), source.text));
+    }
 
+    return findings;
+  }
+
+  /**
+   * Secret values in text, unmasked, so they can be redacted before the text
+   * leaves the machine. Runs the detectors and the high-entropy check;
+   * allowlisted secrets are left alone.
+   */
+  findSecretValues(text: string): SecretValue[] {
+    const rules = this.loadRules();
+    const lowered = text.toLowerCase();
+    const detectors = rules.detectors.filter(detector =>
+      detector.keywords.length === 0 || detector.keywords.some(keyword => lowered.includes(keyword)));
+    const allowed: AllowCheck = (fingerprint, secret) => isSecretAllowed(rules.allowlist, '', fingerprint, secret);
+
+    const values: SecretValue[] = [];
+    for (const line of text.split('\n')) {
+      for (const { detector, secret, fingerprint } of this.matchDetectors(line, detectors, allowed)) {
+        values.push({ value: secret, detector: detector.id, type: detector.name, fingerprint });
+      }
+      for (const { string, level, fingerprint } of this.entropyStrings(line, allowed)) {
+        if (level === 'high') {
+          values.push({ value: string, detector: 'high-entropy-string', type: 'High Entropy String', fingerprint });
+        }
+      }
+    }
+    return values;
+  }
+
+  /**
+   * Scan the lines added in git history for secrets, reported at the path and
+   * line they were added with the commit, author and date. A secret added
+   * again later (e.g. when its line is edited) is reported once, for the
+   * commit that introduced it. Without a range only the newest `maxCommits`
+   * commits are scanned. With `incremental`, commits reachable from the refs
+   * an earlier incremental run scanned are skipped, and what that run found
+   * is reported again.
+   */
+  async scanGitHistory(repoPath: string = process.cwd(), options: GitHistoryOptions = {}): Promise<SecretFinding[]> {
+    const repoInfo = repositoryManager.getRepoInfo(repoPath);
+    if (!repoInfo.isGit) return [];
+
+    const rules = this.loadRules();
+    const version = this.cacheVersion(rules);
+    const range = options.commits?.trim() || (options.since ? `${options.since}..HEAD` : undefined);
+    if (range) {
+      const revisions = range.split(/\s+/);
+      if (revisions.some(revision => revision.startsWith('-'))) {
+        throw configError(`Invalid commit range "${range}"`);
+      }
+      return this.walkHistory(repoPath, revisions, rules, range);
+    }
+
+    const tips = this.existingObjects(repoPath, this.refTips(repoPath));
+    if (!options.incremental) {
+      const maxCommits = options.maxCommits ?? SECURITY_CONSTANTS.GIT_HISTORY_COMMIT_LIMIT;
+      return tips.length > 0 ? this.walkHistory(repoPath, tips, rules, undefined, maxCommits) : [];
+    }
+
+    const statePath = path.join(configManager.getCacheDir(), repoInfo.repoId, 'secrets-history.json');
+    const state = this.loadHistoryState(statePath);
+    const current = state && state.version === version ? state : undefined;
+    const scanned = current ? this.existingObjects(repoPath, current.tips) : [];
+
+    const added = tips.length > 0
+      ? await this.walkHistory(repoPath, [...tips, ...scanned.map(sha => `^${sha}`)], rules)
+      : [];
+    // Earlier findings keep their introducing commit; a secret added again is not new.
+    // They were filtered when found, so only ignore-file entries added since can drop them.
+    const earlier = current ? this.applySuppressions(current.findings, '') : [];
+    const known = new Set(earlier.map(historyKey));
+    const findings = sortHistoryFindings([...earlier, ...added.filter(finding => !known.has(historyKey(finding)))]);
+
+    this.saveHistoryState(statePath, { format: HISTORY_STATE_FORMAT, version, tips, findings });
+    return findings;
+  }
+
+  /**
+   * Of the secrets found in history, those no longer present at HEAD in any
+   * of the files they were found in (including files they moved to), i.e.
+   * secrets that were deleted but stay readable in the repository's history
+   */
+  removedFromHead(repoPath: string, findings: SecretFinding[]): SecretFinding[] {
+    const rules = this.loadRules();
+    const atHead = new Set<string>();
+
+    for (const file of new Set(findings.map(finding => finding.file))) {
+      const relative = path.relative(repoPath, file).split(path.sep).join('/');
+      let content: string;
+      try {
+        content = execFileSync('git', ['show', `HEAD:${relative}`], {
+          cwd: repoPath,
+          encoding: 'utf-8',
+          maxBuffer: GIT_MAX_BUFFER,
+          stdio: ['ignore', 'pipe', 'ignore'],
+        });
+      } catch {
+        continue; // Deleted from HEAD
+      }
+      for (const finding of this.scanContent(file, content, rules)) {
+        atHead.add(finding.fingerprint);
+      }
+    }
+
+    return findings.filter(finding => !atHead.has(finding.fingerprint));
+  }
+
+  /**
+   * History findings for secrets the working-tree scan did not already
+   * report, so a secret still in the code is reported once
+   */
+  onlyInHistory(history: SecretFinding[], head: SecretFinding[]): SecretFinding[] {
+    const atHead = new Set(head.map(finding => finding.fingerprint));
+    return history.filter(finding => !atHead.has(finding.fingerprint));
+  }
+
+  /**
+   * Stream `git log -p` over the revisions and scan each commit's added lines.
+   * A secret is suppressed when any commit that added it carries an inline
+   * suppression on (or above) its line, or an ignore-file entry covers it.
+   */
+  private walkHistory(
+    repoPath: string,
+    revisions: string[],
+    rules: SecretRules,
+    range?: string,
+    maxCommits: number = Infinity
+  ): Promise<SecretFinding[]> {
+    const introduced = new Map<string, SecretFinding>();
+    const sightings = new Map<string, HistorySighting[]>();
+
+    return new Promise((resolve, reject) => {
+      const git = spawn('git', [
+        '-c', 'core.quotePath=false',
+        'log', '--stdin', '-p', '--unified=0', '--no-color', '--no-ext-diff',
+        '--src-prefix=a/', '--dst-prefix=b/',
+        `--format=${COMMIT_MARKER}%H%x1f%an <%ae>%x1f%aI`,
+        ...(Number.isFinite(maxCommits) ? [`--max-count=${maxCommits}`] : []),
+      ], { cwd: repoPath });
+
+      let stderr = '';
+      git.stderr.on('data', chunk => { stderr += chunk; });
+      git.on('error', reject);
+      git.stdin.on('error', () => { /* git exited early; reported on close */ });
+      git.stdin.end(revisions.map(revision => `${revision}\n`).join(''));
+
+      let commit: { hash: string; author: string; date: string } | undefined;
+      let file: string | undefined;
+      let inHeader = false;
+      let lineNum = 0;
+      let added: SecretLine[] = [];
+
+      // Scan the lines one commit added to one file; log order is newest first,
+      // so a later sighting of the same secret in the file is an older commit.
+      // Files the working-tree scan skips (lockfiles, ignored paths) are skipped
+      // here too; binary files have no added lines in the diff.
+      const flush = () => {
+        if (commit && file && added.length > 0 && !isSecretPathIgnored(repoPath, file)) {
+          const absolute = path.join(repoPath, file);
+          for (const finding of this.scanLines(absolute, added, rules)) {
+            const key = historyKey(finding);
+            introduced.set(key, { ...finding, commit: commit.hash, author: commit.author, date: commit.date });
+            if (!sightings.has(key)) sightings.set(key, []);
+            sightings.get(key)!.push({ line: finding.line, text: linesAround(added, finding.line) });
+          }
+        }
+        added = [];
+      };
+
+      const lines = readline.createInterface({ input: git.stdout, crlfDelay: Infinity });
+      lines.on('line', line => {
+        if (line.startsWith(COMMIT_MARKER)) {
+          flush();
+          const [hash, author, date] = line.slice(COMMIT_MARKER.length).split('\x1f');
+          commit = { hash, author, date };
+          file = undefined;
+        } else if (line.startsWith('diff --git ')) {
+          flush();
+          file = undefined;
+          inHeader = true;
+        } else if (inHeader && line.startsWith('+++ ')) {
+          file = parseDiffPath(line.slice(4));
+        } else if (line.startsWith('@@ ')) {
+          inHeader = false;
+          const hunk = /^@@ -\d+(?:,\d+)? \+(\d+)/.exec(line);
+          lineNum = hunk ? Number(hunk[1]) : 0;
+        } else if (!inHeader && file && line.startsWith('+')) {
+          added.push({ text: line.slice(1), line: lineNum++ });
+        }
+      });
+
+      git.on('close', code => {
+        flush();
+        if (code !== 0) {
+          const message = stderr.trim().split('\n')[0] || `git log exited with code ${code}`;
+          reject(range ? configError(`Invalid commit range "${range}": ${message}`) : new Error(message));
+          return;
+        }
+        // Suppressions are recorded once, for the first sighting that matches
+        const findings = Array.from(introduced.entries())
+          .filter(([key, finding]) => !sightings.get(key)!.some(sighting =>
+            this.applySuppressions([{ ...finding, line: sighting.line }], sighting.text).length === 0))
+          .map(([, finding]) => finding);
+        resolve(sortHistoryFindings(findings));
+      });
+    });
+  }
+
+  /**
+   * Commits every ref and HEAD point at
+   */
+  private refTips(repoPath: string): string[] {
+    const tips = execFileSync('git', ['for-each-ref', '--format=%(objectname)'], { cwd: repoPath, encoding: 'utf-8' })
+      .split('\n').filter(Boolean);
     try {
-      // Get all commits
-      const commits = execSync('git log --all --format=%H', {
+      tips.push(execFileSync('git', ['rev-parse', '--verify', '--quiet', 'HEAD'], {
         cwd: repoPath,
         encoding: 'utf-8',
-      }).split('\n').filter(Boolean).slice(0, SECURITY_CONSTANTS.GIT_HISTORY_COMMIT_LIMIT);
-
-      for (const commit of commits) {
-        try {
-          // Get diff for commit
-          const diff = execSync(`git show ${commit}`, {
-            cwd: repoPath,
-            encoding: 'utf-8',
-          });
-
-          const commitFindings = this.scanContent(`commit:${commit.substring(0, 8)}`, diff);
-          findings.push(...commitFindings);
-        } catch {
-          // Skip commits that error
-        }
-      }
+        stdio: ['ignore', 'pipe', 'ignore'],
+      }).trim());
     } catch {
-      // Git not available or not a git repo
+      // No commits yet
     }
+    return Array.from(new Set(tips));
+  }
 
-    return findings;
+  /**
+   * The object IDs that exist in the repository and name a commit or tag
+   * (refs scanned before may since have been force-pushed and pruned)
+   */
+  private existingObjects(repoPath: string, ids: string[]): string[] {
+    if (ids.length === 0) return [];
+    const output = execFileSync('git', ['cat-file', '--batch-check=%(objectname) %(objecttype)'], {
+      cwd: repoPath,
+      encoding: 'utf-8',
+      input: ids.join('\n') + '\n',
+    });
+    return output.split('\n')
+      .map(line => line.split(' '))
+      .filter(([, type]) => type === 'commit' || type === 'tag')
+      .map(([id]) => id);
+  }
+
+  private loadHistoryState(statePath: string): HistoryScanState | undefined {
+    try {
+      const state: HistoryScanState = JSON.parse(fs.readFileSync(statePath, 'utf-8'));
+      return state.format === HISTORY_STATE_FORMAT && Array.isArray(state.tips) && Array.isArray(state.findings) ? state : undefined;
+    } catch {
+      return undefined; // First run, or a corrupt state file: scan everything
+    }
+  }
+
+  private saveHistoryState(statePath: string, state: HistoryScanState): void {
+    fs.mkdirSync(path.dirname(statePath), { recursive: true });
+    fs.writeFileSync(statePath, JSON.stringify(state, null, 2));
+  }
+
+  /**
+   * Drop findings suppressed by .guardscanignore or an inline comment in `text`
+   */
+  private applySuppressions(findings: SecretFinding[], text?: string): SecretFinding[] {
+    return suppressionManager.apply('secrets', findings, finding => ({
+      file: finding.file,
+      line: finding.line,
+      ids: [finding.detector, finding.type, 'secret'],
+      severity: finding.severity,
+      category: `Secret Detection: ${finding.type}`,
+      description: `Potential secret detected (${finding.secret})`,
+    }), text);
+  }
+
+  /**
+   * Built-in detectors plus the project's detector files (secrets.detectors in .guardscan.yml)
+   */
+  private loadRules(): SecretRules {
+    return loadSecretRules(projectConfigManager.getSecretDetectorFiles());
+  }
+
+  /**
+   * Version of the rules, for the scan cache and the history scan state
+   */
+  private cacheVersion(rules: SecretRules): string {
+    return rules.version ? `${SECRET_RULES_VERSION}:${rules.version}` : SECRET_RULES_VERSION;
   }
 
   /**
    * Scan content for secrets
    */
-  private scanContent(file: string, content: string): SecretFinding[] {
+  private scanContent(file: string, content: string, rules: SecretRules): SecretFinding[] {
+    return this.scanLines(file, content.split('\n').map((text, i) => ({ text, line: i + 1 })), rules);
+  }
+
+  /**
+   * Scan the sections of a file (see readSecretFile); a secret found by
+   * several sections on the same line (e.g. a base64 blob and its decoded
+   * text) is reported once
+   */
+  private scanSections(file: string, sections: SecretSection[], rules: SecretRules): SecretFinding[] {
+    const findings: SecretFinding[] = [];
+    const seen = new Set<string>();
+
+    for (const section of sections) {
+      const sectionFindings = this.scanLines(file, section.lines, rules, !section.decoded && !section.secretValue);
+      if (section.secretValue && sectionFindings.length === 0) {
+        sectionFindings.push(...this.checkSecretValue(file, section.lines, rules));
+      }
+      for (const finding of sectionFindings) {
+        const key = `${finding.line}\0${finding.fingerprint}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+        findings.push(section.location ? { ...finding, location: section.location } : finding);
+      }
+    }
+
+    return findings.sort((a, b) => a.line - b.line);
+  }
+
+  /**
+   * Scan some of a file's lines for secrets; without `entropy`, only the detectors run
+   */
+  private scanLines(file: string, lines: SecretLine[], rules: SecretRules, entropy: boolean = true): SecretFinding[] {
     const findings: SecretFinding[] = [];
-    const lines = content.split('\n');
 
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i];
+    // Keyword pre-filter: skip detectors that cannot match anywhere in the lines
+    const lowered = lines.map(line => line.text).join('\n').toLowerCase();
+    const detectors = rules.detectors.filter(detector =>
+      detector.keywords.length === 0 || detector.keywords.some(keyword => lowered.includes(keyword)));
+
+    const relative = path.relative(projectConfigManager.getRepoRoot(), path.resolve(file)).split(path.sep).join('/');
+    const allowed: AllowCheck = (fingerprint, secret) => isSecretAllowed(rules.allowlist, relative, fingerprint, secret);
 
+    for (const { text, line } of lines) {
       // Check specific patterns first
-      findings.push(...this.checkPatterns(file, line, i + 1));
+      findings.push(...this.checkPatterns(file, text, line, detectors, allowed));
 
       // Check for high-entropy strings
-      findings.push(...this.checkEntropy(file, line, i + 1));
+      if (entropy) findings.push(...this.checkEntropy(file, text, line, allowed));
     }
 
     return findings;
   }
 
   /**
-   * Check for specific secret patterns
+   * Run the detectors whose keywords appear in the content on one line
    */
-  private checkPatterns(file: string, line: string, lineNum: number): SecretFinding[] {
-    const findings: SecretFinding[] = [];
-
-    const patterns = [
-      // AWS Access Key
-      {
-        pattern: /AKIA[0-9A-Z]{16}/g,
-        type: 'AWS Access Key',
-        severity: 'critical' as const,
-        recommendation: 'Rotate AWS credentials immediately and use AWS Secrets Manager',
-      },
-      // AWS Secret Key
-      {
-        pattern: /aws[_-]?secret[_-]?access[_-]?key['":\s]*[=:]\s*['"]([A-Za-z0-9/+=]{40})['"]/gi,
-        type: 'AWS Secret Access Key',
-        severity: 'critical' as const,
-        recommendation: 'Rotate AWS credentials immediately and use AWS Secrets Manager',
-      },
-      // GitHub Token
-      {
-        pattern: /gh[pousr]_[A-Za-z0-9_]{36,}/g,
-        type: 'GitHub Token',
-        severity: 'critical' as const,
-        recommendation: 'Revoke GitHub token and regenerate with minimal permissions',
-      },
-      // GitHub Classic Token
-      {
-        pattern: /ghp_[A-Za-z0-9]{36}/g,
-        type: 'GitHub Personal Access Token',
-        severity: 'critical' as const,
-        recommendation: 'Revoke GitHub PAT immediately',
-      },
-      // Google API Key
-      {
-        pattern: /AIza[0-9A-Za-z\\-_]{35}/g,
-        type: 'Google API Key',
-        severity: 'high' as const,
-        recommendation: 'Rotate Google API key and restrict API key usage',
-      },
-      // Google Cloud Service Account
-      {
-        pattern: /"type":\s*"service_account"/g,
-        type: 'GCP Service Account JSON',
-        severity: 'critical' as const,
-        recommendation: 'Remove service account JSON and use workload identity',
-      },
-      // Azure Connection String
-      {
-        pattern: /DefaultEndpointsProtocol=https;AccountName=[^;]+;AccountKey=[A-Za-z0-9+/=]{88}/g,
-        type: 'Azure Storage Connection String',
-        severity: 'critical' as const,
-        recommendation: 'Rotate Azure storage key immediately',
-      },
-      // Slack Token
-      {
-        pattern: /xox[baprs]-[0-9]{10,13}-[0-9]{10,13}-[a-zA-Z0-9]{24,32}/g,
-        type: 'Slack Token',
-        severity: 'high' as const,
-        recommendation: 'Revoke Slack token and regenerate',
-      },
-      // Stripe API Key
-      {
-        pattern: /sk_live_[0-9a-zA-Z]{24,}/g,
-        type: 'Stripe Live API Key',
-        severity: 'critical' as const,
-        recommendation: 'Rotate Stripe API key immediately',
-      },
-      // Private Key (RSA, SSH)
-      {
-        pattern: /-----BEGIN (RSA |OPENSSH |DSA |EC )?PRIVATE KEY-----/g,
-        type: 'Private Key',
-        severity: 'critical' as const,
-        recommendation: 'Remove private key and regenerate keypair',
-      },
-      // JWT Token
-      {
-        pattern: /eyJ[A-Za-z0-9-_=]+\.eyJ[A-Za-z0-9-_=]+\.?[A-Za-z0-9-_.+/=]*/g,
-        type: 'JWT Token',
-        severity: 'medium' as const,
-        recommendation: 'Review if this is a valid token, invalidate if leaked',
-      },
-      // Generic API Key patterns
-      {
-        pattern: /(api[_-]?key|apikey|api[_-]?secret|secret[_-]?key)['":\s]*[=:]\s*['"]([A-Za-z0-9\-_]{20,})['"]/gi,
-        type: 'Generic API Key',
-        severity: 'high' as const,
-        recommendation: 'Move to environment variables or secret management',
-      },
-      // Database Connection String
-      {
-        pattern: /(mongodb|postgres|mysql|redis):\/\/[^:]+:[^@]+@[^/]+/gi,
-        type: 'Database Connection String',
-        severity: 'critical' as const,
-        recommendation: 'Use environment variables for connection strings',
-      },
-      // Twilio API Key
-      {
-        pattern: /SK[a-z0-9]{32}/g,
-        type: 'Twilio API Key',
-        severity: 'high' as const,
-        recommendation: 'Rotate Twilio credentials',
-      },
-      // SendGrid API Key
-      {
-        pattern: /SG\.[A-Za-z0-9\-_]{22}\.[A-Za-z0-9\-_]{43}/g,
-        type: 'SendGrid API Key',
-        severity: 'high' as const,
-        recommendation: 'Rotate SendGrid API key',
-      },
-      // MailChimp API Key
-      {
-        pattern: /[a-f0-9]{32}-us[0-9]{1,2}/g,
-        type: 'MailChimp API Key',
-        severity: 'high' as const,
-        recommendation: 'Rotate MailChimp API key',
-      },
-    ];
+  private checkPatterns(file: string, line: string, lineNum: number, detectors: SecretDetector[], allowed: AllowCheck): SecretFinding[] {
+    return Array.from(this.matchDetectors(line, detectors, allowed), ({ detector, match, entropy, fingerprint }) => ({
+      type: detector.name,
+      detector: detector.id,
+      file,
+      line: lineNum,
+      secret: this.maskSecret(match),
+      entropy,
+      severity: detector.severity,
+      recommendation: detector.recommendation,
+      fingerprint,
+    }));
+  }
 
-    for (const pattern of patterns) {
-      const matches = line.matchAll(pattern.pattern);
-      for (const match of matches) {
-        findings.push({
-          type: pattern.type,
-          file,
-          line: lineNum,
-          secret: this.maskSecret(match[0]),
-          entropy: this.calculateEntropy(match[0]),
-          severity: pattern.severity,
-          recommendation: pattern.recommendation,
-        });
+  /**
+   * Detector matches on one line that pass the detector's entropy floor and the allowlist
+   */
+  private *matchDetectors(line: string, detectors: SecretDetector[], allowed: AllowCheck): Generator<DetectorMatch> {
+    for (const detector of detectors) {
+      for (const match of line.matchAll(detector.regex)) {
+        const secret = match.groups?.secret ?? match[0];
+        const entropy = this.calculateEntropy(secret);
+        const fingerprint = secretFingerprint(detector.id, secret);
+        if ((detector.entropy !== undefined && entropy < detector.entropy) || allowed(fingerprint, secret)) continue;
+
+        yield { detector, match: match[0], secret, entropy, fingerprint };
       }
     }
+  }
 
-    return findings;
+  /**
+   * A Kubernetes Secret value no detector recognized: still a secret, unless a placeholder
+   */
+  private checkSecretValue(file: string, lines: SecretLine[], rules: SecretRules): SecretFinding[] {
+    const value = lines.map(line => line.text).join('\n').trim();
+    if (!value || PLACEHOLDER_VALUE.test(value) || this.isSafePattern(value)) return [];
+
+    const fingerprint = secretFingerprint('kubernetes-secret', value);
+    const relative = path.relative(projectConfigManager.getRepoRoot(), path.resolve(file)).split(path.sep).join('/');
+    if (isSecretAllowed(rules.allowlist, relative, fingerprint, value)) return [];
+
+    return [{
+      type: 'Kubernetes Secret',
+      detector: 'kubernetes-secret',
+      file,
+      line: lines[0].line,
+      secret: this.maskSecret(value),
+      entropy: this.calculateEntropy(value),
+      severity: 'high',
+      recommendation: 'Keep Secret values out of the repository: use Sealed Secrets, SOPS or an external secret store',
+      fingerprint,
+    }];
   }
 
   /**
    * Check for high-entropy strings that might be secrets
    */
-  private checkEntropy(file: string, line: string, lineNum: number): SecretFinding[] {
-    const findings: SecretFinding[] = [];
+  private checkEntropy(file: string, line: string, lineNum: number, allowed: AllowCheck): SecretFinding[] {
+    return Array.from(this.entropyStrings(line, allowed), ({ string, entropy, level, fingerprint }) => level === 'high'
+      ? {
+        type: 'High Entropy String',
+        detector: 'high-entropy-string',
+        file,
+        line: lineNum,
+        secret: this.maskSecret(string),
+        entropy,
+        severity: 'high' as const,
+        recommendation: 'Review if this is a secret - high entropy detected',
+        fingerprint,
+      }
+      : {
+        type: 'Medium Entropy String',
+        detector: 'medium-entropy-string',
+        file,
+        line: lineNum,
+        secret: this.maskSecret(string),
+        entropy,
+        severity: 'medium' as const,
+        recommendation: 'Review if this is sensitive data',
+        fingerprint,
+      });
+  }
 
+  /**
+   * Quoted or assigned strings on one line whose entropy suggests a secret
+   */
+  private *entropyStrings(line: string, allowed: AllowCheck): Generator<EntropyString> {
     // Look for quoted strings or strings after = or :
     const stringPatterns = [
       /['"]([A-Za-z0-9+/=_-]{20,})['"]/g,
@@ -239,41 +574,20 @@ export class SecretsDetector {
     ];
 
     for (const pattern of stringPatterns) {
-      const matches = line.matchAll(pattern);
-      for (const match of matches) {
+      for (const match of line.matchAll(pattern)) {
         const string = match[1];
         const entropy = this.calculateEntropy(string);
-
-        if (entropy > SECURITY_CONSTANTS.HIGH_ENTROPY_THRESHOLD) {
-          // Skip if it looks like a hash or known safe pattern
-          if (this.isSafePattern(string)) continue;
-
-          findings.push({
-            type: 'High Entropy String',
-            file,
-            line: lineNum,
-            secret: this.maskSecret(string),
-            entropy,
-            severity: 'high',
-            recommendation: 'Review if this is a secret - high entropy detected',
-          });
-        } else if (entropy > SECURITY_CONSTANTS.MEDIUM_ENTROPY_THRESHOLD && string.length > 32) {
-          if (this.isSafePattern(string)) continue;
-
-          findings.push({
-            type: 'Medium Entropy String',
-            file,
-            line: lineNum,
-            secret: this.maskSecret(string),
-            entropy,
-            severity: 'medium',
-            recommendation: 'Review if this is sensitive data',
-          });
-        }
+        const level = entropy > SECURITY_CONSTANTS.HIGH_ENTROPY_THRESHOLD ? 'high'
+          : entropy > SECURITY_CONSTANTS.MEDIUM_ENTROPY_THRESHOLD && string.length > 32 ? 'medium'
+          : undefined;
+        // Skip if it looks like a hash or known safe pattern
+        if (!level || this.isSafePattern(string)) continue;
+
+        const fingerprint = secretFingerprint(`${level}-entropy-string`, string);
+        if (allowed(fingerprint, string)) continue;
+        yield { string, entropy, level, fingerprint };
       }
     }
-
-    return findings;
   }
 
   /**
@@ -330,4 +644,39 @@ export class SecretsDetector {
   }
 }
 
+/**
+ * Path from a `+++ b/path` diff header line (undefined for deleted files)
+ */
+function parseDiffPath(header: string): string | undefined {
+  let name = header.replace(/\t$/, '');
+  if (name.startsWith('"') && name.endsWith('"')) {
+    name = name.slice(1, -1).replace(/\\(["\\tn])/g, (_, char) => ({ t: '\t', n: '\n' } as Record<string, string>)[char] ?? char);
+  }
+  return name.startsWith('b/') ? name.slice(2) : undefined;
+}
+
+/**
+ * Identifies a secret in history: the same value in the same file is one finding
+ */
+function historyKey(finding: SecretFinding): string {
+  return `${finding.fingerprint}\0${finding.file}`;
+}
+
+function sortHistoryFindings(findings: SecretFinding[]): SecretFinding[] {
+  return findings.sort((a, b) =>
+    Date.parse(a.date!) - Date.parse(b.date!) || a.file.localeCompare(b.file) || a.line - b.line);
+}
+
+/**
+ * The file text a commit added, as far as an inline suppression for `line`
+ * needs it: that line and the one above, blank when the commit left them alone
+ */
+function linesAround(added: SecretLine[], line: number): string {
+  const lines = new Array<string>(line).fill('');
+  for (const { text, line: number } of added) {
+    if (number === line || number === line - 1) lines[number - 1] = text;
+  }
+  return lines.join('\n');
+}
+
 export const secretsDetector = new SecretsDetector();
@@ -0,0 +1,121 @@
+/**
+ * SPDX license expressions (SPDX 2.3 Annex D): license IDs and LicenseRef-s
+ * joined by AND and OR, `+` for "or any later version", WITH for exceptions,
+ * and parentheses. WITH binds tighter than AND, which binds tighter than OR.
+ */
+
+export interface SpdxLicense {
+  type: 'license';
+  id: string; // SPDX ID or [DocumentRef-x:]LicenseRef-y
+  orLater?: boolean; // "GPL-2.0+"
+  exception?: string; // "WITH Classpath-exception-2.0"
+}
+
+export interface SpdxCompound {
+  type: 'and' | 'or';
+  left: SpdxExpression;
+  right: SpdxExpression;
+}
+
+export type SpdxExpression = SpdxLicense | SpdxCompound;
+
+const LICENSE_ID = /^(DocumentRef-[A-Za-z0-9.-]+:)?(LicenseRef-)?[A-Za-z0-9][A-Za-z0-9.-]*$/;
+const EXCEPTION_ID = /^(AdditionRef-)?[A-Za-z0-9][A-Za-z0-9.-]*$/;
+
+/**
+ * Parse an expression; null when it is not valid SPDX syntax ("Apache 2.0", "MIT/X11").
+ * Operators are matched in upper or lower case, as the spec allows.
+ */
+export function parseSpdxExpression(value: string): SpdxExpression | null {
+  const tokens = value.match(/\(|\)|[^\s()]+/g) || [];
+  let position = 0;
+
+  const operator = (name: 'AND' | 'OR' | 'WITH') =>
+    position < tokens.length && (tokens[position] === name || tokens[position] === name.toLowerCase());
+
+  const parseLicense = (): SpdxExpression | null => {
+    const token = tokens[position];
+    if (token === undefined) return null;
+
+    if (token === '(') {
+      position++;
+      const inner = parseOr();
+      if (!inner || tokens[position] !== ')') return null;
+      position++;
+      return inner;
+    }
+
+    const orLater = token.endsWith('+');
+    const id = orLater ? token.slice(0, -1) : token;
+    if (!LICENSE_ID.test(id) || /^(AND|OR|WITH)$/i.test(id)) return null;
+    position++;
+
+    const license: SpdxLicense = { type: 'license', id, ...(orLater ? { orLater } : {}) };
+    if (operator('WITH')) {
+      position++;
+      const exception = tokens[position];
+      if (!exception || !EXCEPTION_ID.test(exception)) return null;
+      position++;
+      license.exception = exception;
+    }
+    return license;
+  };
+
+  const parseBinary = (type: 'and' | 'or', parseOperand: () => SpdxExpression | null) => (): SpdxExpression | null => {
+    let left = parseOperand();
+    while (left && operator(type === 'and' ? 'AND' : 'OR')) {
+      position++;
+      const right = parseOperand();
+      if (!right) return null;
+      left = { type, left, right };
+    }
+    return left;
+  };
+
+  const parseAnd = parseBinary('and', parseLicense);
+  const parseOr: () => SpdxExpression | null = parseBinary('or', parseAnd);
+
+  const expression = parseOr();
+  return expression && position === tokens.length ? expression : null;
+}
+
+/**
+ * Canonical text for an expression, with only the parentheses precedence needs
+ */
+export function formatSpdxExpression(expression: SpdxExpression): string {
+  if (expression.type === 'license') {
+    return `${expression.id}${expression.orLater ? '+' : ''}${expression.exception ? ` WITH ${expression.exception}` : ''}`;
+  }
+
+  const operand = (child: SpdxExpression) => expression.type === 'and' && child.type === 'or'
+    ? `(${formatSpdxExpression(child)})`
+    : formatSpdxExpression(child);
+  return `${operand(expression.left)} ${expression.type.toUpperCase()} ${operand(expression.right)}`;
+}
+
+/**
+ * The ways an expression can be satisfied: each alternative lists licenses that
+ * all apply together. "MIT OR (GPL-2.0-only AND BSD-3-Clause)" has two.
+ */
+export function licenseAlternatives(expression: SpdxExpression): SpdxLicense[][] {
+  switch (expression.type) {
+    case 'license':
+      return [[expression]];
+    case 'or':
+      return [...licenseAlternatives(expression.left), ...licenseAlternatives(expression.right)];
+    case 'and': {
+      const right = licenseAlternatives(expression.right);
+      return licenseAlternatives(expression.left).flatMap(left => right.map(alternative => [...left, ...alternative]));
+    }
+  }
+}
+
+/**
+ * Rewrite each license in an expression, keeping its structure
+ */
+export function mapSpdxLicenses(expression: SpdxExpression, map: (license: SpdxLicense) => SpdxLicense): SpdxExpression {
+  if (expression.type === 'license') {
+    return map(expression);
+  }
+  return { type: expression.type, left: mapSpdxLicenses(expression.left, map), right: mapSpdxLicenses(expression.right, map) };
+}
@@ -0,0 +1,258 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { fileWalker } from './file-walker';
+import { InventoryPackage, SbomInventoryOptions, collectSbomInventory, isSpdxExpression, isUnknownLicense } from './sbom-inventory';
+
+const packageJson = require('../../package.json');
+
+export const SPDX_VERSION = 'SPDX-2.3';
+const DOCUMENT_ID = 'SPDXRef-DOCUMENT';
+const ROOT_ID = 'SPDXRef-RootPackage';
+const NOASSERTION = 'NOASSERTION';
+
+const CHECKSUM_ALGORITHMS: Record<string, string> = {
+  'SHA-1': 'SHA1',
+  'SHA-256': 'SHA256',
+  'SHA-384': 'SHA384',
+  'SHA-512': 'SHA512',
+};
+
+export interface SpdxPackage {
+  SPDXID: string;
+  name: string;
+  versionInfo?: string;
+  downloadLocation: string;
+  filesAnalyzed: boolean;
+  packageVerificationCode?: {
+    packageVerificationCodeValue: string;
+    packageVerificationCodeExcludedFiles?: string[];
+  };
+  checksums?: Array<{ algorithm: string; checksumValue: string }>;
+  licenseConcluded: string;
+  licenseDeclared: string;
+  copyrightText: string;
+  externalRefs?: Array<{ referenceCategory: 'PACKAGE-MANAGER'; referenceType: 'purl'; referenceLocator: string }>;
+  primaryPackagePurpose?: 'APPLICATION' | 'LIBRARY';
+}
+
+export interface SpdxRelationship {
+  spdxElementId: string;
+  relationshipType: 'DESCRIBES' | 'DEPENDS_ON' | 'DEV_DEPENDENCY_OF';
+  relatedSpdxElement: string;
+  comment?: string;
+}
+
+export interface SpdxExtractedLicense {
+  licenseId: string;
+  extractedText: string;
+  name: string;
+}
+
+export interface SpdxDocument {
+  spdxVersion: string;
+  dataLicense: 'CC0-1.0';
+  SPDXID: string;
+  name: string;
+  documentNamespace: string;
+  creationInfo: {
+    created: string;
+    creators: string[];
+  };
+  documentDescribes: string[];
+  packages: SpdxPackage[];
+  relationships: SpdxRelationship[];
+  hasExtractedLicensingInfos?: SpdxExtractedLicense[];
+}
+
+/**
+ * Build an SPDX 2.3 document. The repository is the root package, with a
+ * verification code over its files; dependencies get purl external refs and
+ * DEPENDS_ON / DEV_DEPENDENCY_OF relationships from the lockfile graphs.
+ * `excludedFiles` (repository-relative) are left out of the verification code,
+ * typically the SBOM being written.
+ */
+export function buildSpdxDocument(options: SbomInventoryOptions & { projectName: string; excludedFiles?: string[] }): SpdxDocument {
+  const inventory = collectSbomInventory(options);
+  const extracted = new Map<string, SpdxExtractedLicense>();
+  const ids = new Map<string, string>();
+  const usedIds = new Set([DOCUMENT_ID, ROOT_ID]);
+
+  // Licenses that are not SPDX expressions are written as LicenseRef-s with the original text
+  const spdxLicense = (license: string | undefined): string => {
+    if (!license || isUnknownLicense(license)) return NOASSERTION;
+    const value = license.trim();
+    if (isSpdxExpression(value)) return value;
+    const licenseId = `LicenseRef-${value.replace(/[^A-Za-z0-9.-]+/g, '-').replace(/^-+|-+$/g, '') || 'unnamed'}`;
+    if (!extracted.has(licenseId)) extracted.set(licenseId, { licenseId, extractedText: value, name: value });
+    return licenseId;
+  };
+  const idFor = (pkg: InventoryPackage): string => {
+    let id = ids.get(pkg.purl);
+    if (!id) {
+      const base = `SPDXRef-Package-${pkg.source}-${pkg.name}-${pkg.version}`.replace(/[^A-Za-z0-9.]+/g, '-');
+      id = base;
+      for (let suffix = 2; usedIds.has(id); suffix++) id = `${base}-${suffix}`;
+      usedIds.add(id);
+      ids.set(pkg.purl, id);
+    }
+    return id;
+  };
+
+  const root = rootPackage(options.repoPath, options.projectName, options.excludedFiles || []);
+  root.licenseDeclared = spdxLicense(root.licenseDeclared);
+
+  const packages: SpdxPackage[] = [root, ...inventory.packages.map(pkg => ({
+    SPDXID: idFor(pkg),
+    name: pkg.name,
+    versionInfo: pkg.version,
+    downloadLocation: NOASSERTION,
+    filesAnalyzed: false,
+    ...(pkg.hashes.length
+      ? { checksums: pkg.hashes.map(hash => ({ algorithm: CHECKSUM_ALGORITHMS[hash.algorithm], checksumValue: hash.content })) }
+      : {}),
+    licenseConcluded: spdxLicense(pkg.license),
+    licenseDeclared: spdxLicense(pkg.declaredLicense),
+    copyrightText: NOASSERTION,
+    externalRefs: [{ referenceCategory: 'PACKAGE-MANAGER' as const, referenceType: 'purl' as const, referenceLocator: pkg.purl }],
+    primaryPackagePurpose: 'LIBRARY' as const,
+  }))];
+
+  const relationships: SpdxRelationship[] = [{ spdxElementId: DOCUMENT_ID, relationshipType: 'DESCRIBES', relatedSpdxElement: ROOT_ID }];
+  const byPurl = new Map(inventory.packages.map(pkg => [pkg.purl, pkg]));
+  const onRoot = (pkg: InventoryPackage, comment?: string): SpdxRelationship => ({
+    ...(pkg.dev
+      ? { spdxElementId: idFor(pkg), relationshipType: 'DEV_DEPENDENCY_OF' as const, relatedSpdxElement: ROOT_ID }
+      : { spdxElementId: ROOT_ID, relationshipType: 'DEPENDS_ON' as const, relatedSpdxElement: idFor(pkg) }),
+    ...(comment ? { comment } : {}),
+  });
+
+  for (const purl of Array.from(inventory.direct).sort()) {
+    relationships.push(onRoot(byPurl.get(purl)!));
+  }
+  const required = new Set(inventory.packages.flatMap(pkg => Array.from(pkg.dependsOn)));
+  for (const pkg of inventory.packages) {
+    for (const child of Array.from(pkg.dependsOn).sort()) {
+      relationships.push({ spdxElementId: idFor(pkg), relationshipType: 'DEPENDS_ON', relatedSpdxElement: idFor(byPurl.get(child)!) });
+    }
+    if (!inventory.direct.has(pkg.purl) && !required.has(pkg.purl)) {
+      relationships.push(onRoot(pkg, 'No lockfile dependency graph records how this package is reached'));
+    }
+  }
+
+  return {
+    spdxVersion: SPDX_VERSION,
+    dataLicense: 'CC0-1.0',
+    SPDXID: DOCUMENT_ID,
+    name: options.projectName,
+    documentNamespace: `https://spdx.org/spdxdocs/${encodeURIComponent(options.projectName)}-${uuidv4()}`,
+    creationInfo: {
+      // SPDX timestamps have no fractional seconds
+      created: new Date().toISOString().replace(/\.\d{3}Z$/, 'Z'),
+      creators: [`Tool: guardscan-${packageJson.version}`],
+    },
+    documentDescribes: [ROOT_ID],
+    packages,
+    relationships,
+    ...(extracted.size > 0 ? { hasExtractedLicensingInfos: Array.from(extracted.values()) } : {}),
+  };
+}
+
+/**
+ * Serialize a document in the SPDX 2.3 tag-value format
+ */
+export function spdxToTagValue(document: SpdxDocument): string {
+  const text = (value: string) => (value.includes('\n') ? `<text>${value}</text>` : value);
+  const lines: string[] = [
+    `SPDXVersion: ${document.spdxVersion}`,
+    `DataLicense: ${document.dataLicense}`,
+    `SPDXID: ${document.SPDXID}`,
+    `DocumentName: ${document.name}`,
+    `DocumentNamespace: ${document.documentNamespace}`,
+    ...document.creationInfo.creators.map(creator => `Creator: ${creator}`),
+    `Created: ${document.creationInfo.created}`,
+  ];
+
+  for (const pkg of document.packages) {
+    lines.push('', `##### Package: ${pkg.name}`, '');
+    lines.push(`PackageName: ${pkg.name}`, `SPDXID: ${pkg.SPDXID}`);
+    if (pkg.versionInfo) lines.push(`PackageVersion: ${pkg.versionInfo}`);
+    if (pkg.primaryPackagePurpose) lines.push(`PrimaryPackagePurpose: ${pkg.primaryPackagePurpose}`);
+    lines.push(`PackageDownloadLocation: ${pkg.downloadLocation}`, `FilesAnalyzed: ${pkg.filesAnalyzed}`);
+    if (pkg.packageVerificationCode) {
+      const excluded = pkg.packageVerificationCode.packageVerificationCodeExcludedFiles || [];
+      lines.push(`PackageVerificationCode: ${pkg.packageVerificationCode.packageVerificationCodeValue}${excluded.length ? ` (excludes: ${excluded.join(', ')})` : ''}`);
+    }
+    for (const checksum of pkg.checksums || []) {
+      lines.push(`PackageChecksum: ${checksum.algorithm}: ${checksum.checksumValue}`);
+    }
+    lines.push(
+      `PackageLicenseConcluded: ${pkg.licenseConcluded}`,
+      `PackageLicenseDeclared: ${pkg.licenseDeclared}`,
+      `PackageCopyrightText: ${text(pkg.copyrightText)}`
+    );
+    for (const ref of pkg.externalRefs || []) {
+      lines.push(`ExternalRef: ${ref.referenceCategory} ${ref.referenceType} ${ref.referenceLocator}`);
+    }
+  }
+
+  lines.push('', '##### Relationships', '');
+  for (const relationship of document.relationships) {
+    lines.push(`Relationship: ${relationship.spdxElementId} ${relationship.relationshipType} ${relationship.relatedSpdxElement}`);
+    if (relationship.comment) lines.push(`RelationshipComment: ${text(relationship.comment)}`);
+  }
+
+  if (document.hasExtractedLicensingInfos?.length) {
+    lines.push('', '##### Extracted Licenses');
+    for (const license of document.hasExtractedLicensingInfos) {
+      lines.push('', `LicenseID: ${license.licenseId}`, `ExtractedText: <text>${license.extractedText}</text>`, `LicenseName: ${license.name}`);
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * SPDX package verification code: SHA1 over the sorted SHA1s of every file in the package
+ */
+export function packageVerificationCode(repoPath: string, files: string[], excludedFiles: string[] = []): string {
+  const excluded = new Set(excludedFiles.map(file => path.normalize(file)));
+  const digests = files
+    .filter(file => !excluded.has(path.normalize(path.relative(repoPath, file))))
+    .map(file => crypto.createHash('sha1').update(fs.readFileSync(file)).digest('hex'))
+    .sort();
+  return crypto.createHash('sha1').update(digests.join('')).digest('hex');
+}
+
+/**
+ * The scanned repository as the described package, named and licensed from package.json when present
+ */
+function rootPackage(repoPath: string, projectName: string, excludedFiles: string[]): SpdxPackage {
+  let manifest: any = {};
+  const manifestPath = path.join(repoPath, 'package.json');
+  if (fs.existsSync(manifestPath)) {
+    try {
+      manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf-8'));
+    } catch {
+      // Unreadable manifest: no version or declared license
+    }
+  }
+
+  const files = fs.existsSync(repoPath) ? fileWalker.listPaths(repoPath, { includeGenerated: true }) : [];
+  return {
+    SPDXID: ROOT_ID,
+    name: projectName,
+    ...(typeof manifest.version === 'string' ? { versionInfo: manifest.version } : {}),
+    downloadLocation: NOASSERTION,
+    filesAnalyzed: true,
+    packageVerificationCode: {
+      packageVerificationCodeValue: packageVerificationCode(repoPath, files, excludedFiles),
+      ...(excludedFiles.length ? { packageVerificationCodeExcludedFiles: excludedFiles.map(file => `./${file}`) } : {}),
+    },
+    licenseConcluded: NOASSERTION,
+    licenseDeclared: typeof manifest.license === 'string' ? manifest.license : NOASSERTION,
+    copyrightText: NOASSERTION,
+    primaryPackagePurpose: 'APPLICATION',
+  };
+}
@@ -0,0 +1,347 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Finding } from '../utils/reporter';
+import { LEGITIMATE_NEAR_NAMES, POPULAR_PACKAGES } from '../constants/popular-packages';
+import { createDebugLogger } from '../utils/debug-logger';
+import { editDistance } from '../utils/edit-distance';
+import { fileWalker } from './file-walker';
+import { projectConfigManager } from './project-config';
+import { suppressionManager, findingTarget } from './suppressions';
+import { dependencyScanner } from './dependency-scanner';
+import { normalizePackageName } from './vuln-db';
+import { DependencyEcosystem } from './lockfile-parser';
+
+const logger = createDebugLogger('supply-chain');
+
+const CATEGORY = 'Supply Chain';
+const INSTALL_SCRIPTS = ['preinstall', 'install', 'postinstall'];
+const PUBLIC_NPM_REGISTRY = /^https?:\/\/registry\.(npmjs\.org|yarnpkg\.com)\/?$/i;
+const PUBLIC_PYPI_INDEX = /^https?:\/\/(pypi\.org|pypi\.python\.org)\/simple\/?$/i;
+const NPM_DEPENDENCY_FIELDS = ['dependencies', 'devDependencies', 'optionalDependencies', 'peerDependencies'];
+
+type PopularEcosystem = keyof typeof POPULAR_PACKAGES;
+
+/**
+ * A dependency name as declared in a manifest or lockfile
+ */
+interface DeclaredDependency {
+  name: string;
+  ecosystem: DependencyEcosystem;
+  file: string; // Relative to the repository root
+  line?: number;
+}
+
+/**
+ * Registry settings that decide where npm and pip resolve packages from
+ */
+interface RegistryPinning {
+  npmScopes: Set<string>; // "@acme" when .npmrc has "@acme:registry=..."
+  npmRegistry?: string;
+  pipIndex?: string;
+  pipExtraIndex: boolean;
+}
+
+const popularIndex = new Map<PopularEcosystem, Set<string>>(
+  (Object.keys(POPULAR_PACKAGES) as PopularEcosystem[]).map(ecosystem => [
+    ecosystem,
+    new Set(POPULAR_PACKAGES[ecosystem].map(name => normalizeForComparison(ecosystem, name))),
+  ])
+);
+
+const legitimateIndex = new Map<PopularEcosystem, Set<string>>(
+  (Object.keys(POPULAR_PACKAGES) as PopularEcosystem[]).map(ecosystem => [
+    ecosystem,
+    new Set((LEGITIMATE_NEAR_NAMES[ecosystem] || []).map(name => normalizeForComparison(ecosystem, name))),
+  ])
+);
+
+/**
+ * Supply Chain Scanner
+ *
+ * Looks at package names rather than versions: typosquats of popular packages,
+ * internal packages that would resolve from a public registry (dependency
+ * confusion), and installed npm packages that run install scripts.
+ */
+export class SupplyChainScanner {
+  async scan(repoPath: string = process.cwd()): Promise<Finding[]> {
+    const config = projectConfigManager.get().supplyChain || {};
+    const allowed = new Set(config.allow || []);
+    const dependencies = this.collectDependencies(repoPath).filter(dependency => !allowed.has(dependency.name));
+
+    const findings: Finding[] = [
+      ...this.checkTyposquats(dependencies),
+      ...this.checkDependencyConfusion(repoPath, dependencies, config.internalPackages || []),
+      ...this.checkInstallScripts(repoPath, allowed),
+    ];
+
+    return suppressionManager.apply('supplyChain', findings, findingTarget);
+  }
+
+  /**
+   * Manifest entries (with line numbers) plus lockfile entries not declared in a manifest
+   */
+  private collectDependencies(repoPath: string): DeclaredDependency[] {
+    const dependencies: DeclaredDependency[] = [];
+
+    for (const manifest of fileWalker.listPaths(repoPath, { pattern: /^package\.json$/ })) {
+      const content = fileWalker.readFile(manifest);
+      if (content === null) continue;
+      try {
+        const pkg = JSON.parse(content);
+        const lines = content.split('\n');
+        const names = new Set(NPM_DEPENDENCY_FIELDS.flatMap(field => Object.keys(pkg[field] || {})));
+        for (const name of names) {
+          const index = lines.findIndex(line => line.includes(`"${name}"`));
+          dependencies.push({ name, ecosystem: 'npm', file: path.relative(repoPath, manifest), line: index >= 0 ? index + 1 : undefined });
+        }
+      } catch (error) {
+        logger.warn('Could not parse package.json', { file: manifest, error: String(error) });
+      }
+    }
+
+    for (const requirements of fileWalker.listPaths(repoPath, { pattern: /^requirements.*\.txt$/ })) {
+      const content = fileWalker.readFile(requirements);
+      if (content === null) continue;
+      content.split('\n').forEach((line, index) => {
+        const match = line.trim().match(/^([A-Za-z0-9][A-Za-z0-9._-]*)/);
+        if (match) {
+          dependencies.push({ name: match[1], ecosystem: 'pip', file: path.relative(repoPath, requirements), line: index + 1 });
+        }
+      });
+    }
+
+    const seen = new Set(dependencies.map(dependency => `${dependency.ecosystem}:${normalizePackageName(dependency.ecosystem, dependency.name)}`));
+    for (const locked of dependencyScanner.listDependencies(repoPath)) {
+      const key = `${locked.ecosystem}:${normalizePackageName(locked.ecosystem, locked.name)}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      dependencies.push({ name: locked.name, ecosystem: locked.ecosystem, file: locked.file });
+    }
+
+    return dependencies;
+  }
+
+  /**
+   * Names one or two edits away from a popular package in the same ecosystem
+   */
+  private checkTyposquats(dependencies: DeclaredDependency[]): Finding[] {
+    const findings: Finding[] = [];
+
+    for (const dependency of dependencies) {
+      const target = findTyposquatTarget(dependency.ecosystem, dependency.name);
+      if (!target) continue;
+      findings.push({
+        severity: 'high',
+        category: CATEGORY,
+        file: dependency.file,
+        line: dependency.line,
+        ruleId: 'supply-chain/typosquat',
+        description: `${dependency.name} looks like a misspelling of the popular ${dependency.ecosystem} package ${target}`,
+        suggestion: `Confirm ${dependency.name} is intended; if you meant ${target}, replace it and rotate any secrets the install could have read`,
+      });
+    }
+
+    return findings;
+  }
+
+  /**
+   * Internal package names that npm or pip would look up on the public registry
+   */
+  private checkDependencyConfusion(repoPath: string, dependencies: DeclaredDependency[], internalPrefixes: string[]): Finding[] {
+    if (internalPrefixes.length === 0) {
+      return [];
+    }
+
+    const findings: Finding[] = [];
+    const pinning = readRegistryPinning(repoPath);
+    const reported = new Set<string>();
+
+    for (const dependency of dependencies) {
+      if (!isInternalPackage(dependency.name, internalPrefixes)) continue;
+      const key = `${dependency.ecosystem}:${dependency.name}`;
+      if (reported.has(key)) continue;
+
+      let problem: string | undefined;
+      let suggestion = '';
+      if (dependency.ecosystem === 'npm' && !isNpmPinned(dependency.name, pinning)) {
+        const scope = dependency.name.startsWith('@') ? dependency.name.split('/')[0] : undefined;
+        problem = `${dependency.name} is an internal package but no private registry is configured for it in .npmrc`;
+        suggestion = scope
+          ? `Add "${scope}:registry=<your private registry>" to .npmrc`
+          : 'Point "registry=" in .npmrc at your private registry, or move internal packages under a scope';
+      } else if (dependency.ecosystem === 'pip' && pinning.pipExtraIndex) {
+        problem = `${dependency.name} is an internal package but --extra-index-url lets pip pick a higher version from PyPI`;
+        suggestion = 'Use a single --index-url that proxies PyPI instead of --extra-index-url';
+      } else if (dependency.ecosystem === 'pip' && !pinning.pipIndex) {
+        problem = `${dependency.name} is an internal package but pip resolves it from PyPI because no private index is configured`;
+        suggestion = 'Set index-url in pip.conf or --index-url in the requirements file to your private index';
+      }
+
+      if (problem) {
+        reported.add(key);
+        findings.push({
+          severity: 'high',
+          category: CATEGORY,
+          file: dependency.file,
+          line: dependency.line,
+          ruleId: 'supply-chain/dependency-confusion',
+          description: problem,
+          suggestion,
+        });
+      }
+    }
+
+    return findings;
+  }
+
+  /**
+   * preinstall/install/postinstall scripts in installed npm packages
+   */
+  private checkInstallScripts(repoPath: string, allowed: Set<string>): Finding[] {
+    const findings: Finding[] = [];
+
+    for (const manifest of listInstalledPackages(path.join(repoPath, 'node_modules'))) {
+      let content: string;
+      let pkg: any;
+      try {
+        content = fs.readFileSync(manifest, 'utf-8');
+        pkg = JSON.parse(content);
+      } catch {
+        continue;
+      }
+      if (!pkg.name || allowed.has(pkg.name) || !pkg.scripts) continue;
+
+      const lines = content.split('\n');
+      for (const script of INSTALL_SCRIPTS) {
+        const command = pkg.scripts[script];
+        if (typeof command !== 'string') continue;
+        const index = lines.findIndex(line => line.includes(`"${script}"`));
+        findings.push({
+          severity: 'medium',
+          category: CATEGORY,
+          file: path.relative(repoPath, manifest),
+          line: index >= 0 ? index + 1 : undefined,
+          ruleId: 'supply-chain/install-script',
+          description: `${pkg.name}@${pkg.version || 'unknown'} runs a ${script} script: ${command}`,
+          suggestion: 'Review what the script does, or install with --ignore-scripts and allow-list packages that need it',
+        });
+      }
+    }
+
+    return findings;
+  }
+}
+
+/**
+ * Popular package a name imitates: 1 edit for names of 4+ characters, 2 for 10+.
+ * Known legitimate neighbours of popular packages never match.
+ */
+export function findTyposquatTarget(ecosystem: DependencyEcosystem, name: string): string | undefined {
+  const popular = popularIndex.get(ecosystem as PopularEcosystem);
+  if (!popular) return undefined;
+
+  const normalized = normalizeForComparison(ecosystem, name);
+  // Scoped npm names are owned by their scope and cannot squat unscoped ones
+  if (
+    popular.has(normalized) ||
+    legitimateIndex.get(ecosystem as PopularEcosystem)!.has(normalized) ||
+    (ecosystem === 'npm' && normalized.startsWith('@'))
+  ) {
+    return undefined;
+  }
+
+  for (const candidate of popular) {
+    const maxDistance = candidate.length >= 10 ? 2 : candidate.length >= 4 ? 1 : 0;
+    if (maxDistance === 0 || Math.abs(candidate.length - normalized.length) > maxDistance) continue;
+    if (editDistance(normalized, candidate) <= maxDistance) {
+      return candidate;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Registry name normalization, plus crates.io treating `-` and `_` as the same
+ */
+function normalizeForComparison(ecosystem: DependencyEcosystem, name: string): string {
+  const normalized = normalizePackageName(ecosystem, name).toLowerCase();
+  return ecosystem === 'cargo' ? normalized.replace(/-/g, '_') : normalized;
+}
+
+/**
+ * Configured entries are name prefixes; a trailing `*` is optional ("@acme/", "acme-*")
+ */
+function isInternalPackage(name: string, prefixes: string[]): boolean {
+  return prefixes.some(prefix => name.startsWith(prefix.replace(/\*$/, '')));
+}
+
+function isNpmPinned(name: string, pinning: RegistryPinning): boolean {
+  if (name.startsWith('@') && pinning.npmScopes.has(name.split('/')[0])) {
+    return true;
+  }
+  return !!pinning.npmRegistry && !PUBLIC_NPM_REGISTRY.test(pinning.npmRegistry);
+}
+
+/**
+ * Read .npmrc, pip.conf/pip.ini and requirements index options from the repository root
+ */
+function readRegistryPinning(repoPath: string): RegistryPinning {
+  const pinning: RegistryPinning = { npmScopes: new Set(), pipExtraIndex: false };
+  const read = (file: string) => fileWalker.readFile(path.join(repoPath, file));
+
+  for (const line of (read('.npmrc') || '').split('\n')) {
+    const scoped = line.match(/^\s*(@[^:\s]+):registry\s*=\s*(\S+)/);
+    if (scoped) {
+      pinning.npmScopes.add(scoped[1]);
+      continue;
+    }
+    const registry = line.match(/^\s*registry\s*=\s*(\S+)/);
+    if (registry) pinning.npmRegistry = registry[1];
+  }
+
+  const setIndex = (url: string) => {
+    if (!PUBLIC_PYPI_INDEX.test(url)) pinning.pipIndex = url;
+  };
+  for (const file of ['pip.conf', 'pip.ini']) {
+    for (const line of (read(file) || '').split('\n')) {
+      const option = line.match(/^\s*(index-url|extra-index-url)\s*=\s*(\S+)/);
+      if (option?.[1] === 'index-url') setIndex(option[2]);
+      if (option?.[1] === 'extra-index-url') pinning.pipExtraIndex = true;
+    }
+  }
+  for (const requirements of fileWalker.listPaths(repoPath, { pattern: /^requirements.*\.txt$/ })) {
+    for (const line of (fileWalker.readFile(requirements) || '').split('\n')) {
+      const option = line.trim().match(/^(--index-url|-i|--extra-index-url)[\s=]+(\S+)/);
+      if (option?.[1] === '--extra-index-url') pinning.pipExtraIndex = true;
+      else if (option) setIndex(option[2]);
+    }
+  }
+
+  return pinning;
+}
+
+/**
+ * package.json paths of top-level installed packages, including scoped ones
+ */
+function listInstalledPackages(nodeModules: string): string[] {
+  const manifests: string[] = [];
+  let entries: fs.Dirent[];
+  try {
+    entries = fs.readdirSync(nodeModules, { withFileTypes: true });
+  } catch {
+    return manifests;
+  }
+
+  for (const entry of entries) {
+    if (!entry.isDirectory() || entry.name.startsWith('.')) continue;
+    if (entry.name.startsWith('@')) {
+      manifests.push(...listInstalledPackages(path.join(nodeModules, entry.name)));
+      continue;
+    }
+    const manifest = path.join(nodeModules, entry.name, 'package.json');
+    if (fs.existsSync(manifest)) manifests.push(manifest);
+  }
+  return manifests;
+}
+
+export const supplyChainScanner = new SupplyChainScanner();
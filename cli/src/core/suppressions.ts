@@ -0,0 +1,318 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import ignore from 'ignore';
+import { Finding } from '../utils/reporter';
+import { normalizeRuleId, SourceLineCache } from '../utils/finding-identity';
+
+const IGNORE_FILE = '.guardscanignore';
+const INLINE_DIRECTIVE = /guardscan-ignore(-next-line|-line)?(?![\w-])(.*)$/;
+const EXPIRES_TOKEN = /^expires[=:](\d{4}-\d{2}-\d{2})$/i;
+const WILDCARD_IDS = ['*', 'all'];
+
+export interface Suppression {
+  source: 'inline' | 'file' | 'vex';
+  location: string;       // "src/app.ts:12", ".guardscanignore:3" or ".guardscan/vex.json"
+  ids: string[];          // Empty means every rule/category
+  pattern?: string;       // Path glob for file-based suppressions
+  reason?: string;
+  expires?: string;       // YYYY-MM-DD
+}
+
+export interface SuppressedFinding {
+  scanner: string;
+  severity: string;
+  category: string;
+  file: string;
+  line?: number;
+  description: string;
+  suppression: Suppression;
+}
+
+export interface SuppressionWarning {
+  location: string;
+  message: string;
+}
+
+/**
+ * What a scanner result looks like to the suppression matcher
+ */
+export interface SuppressionTarget {
+  file: string;
+  line?: number;
+  ids: Array<string | undefined>;  // Rule IDs, categories, types the finding answers to
+  severity: string;
+  category: string;
+  description: string;
+}
+
+interface IgnoreFileRule {
+  suppression: Suppression;
+  matcher: ReturnType<typeof ignore>;
+}
+
+/**
+ * Suppression Manager
+ *
+ * Honors inline `guardscan-ignore-next-line <ids> -- <reason>` /
+ * `guardscan-ignore-line` comments and a repo-level `.guardscanignore` file:
+ *
+ *   # <path glob> [rule-or-category ids] [expires=YYYY-MM-DD] [-- reason]
+ *   test/fixtures/**
+ *   src/legacy/** sql-injection,xss expires=2026-06-30 -- tracked in JIRA-123
+ *
+ * Suppressed results are kept for the report's "suppressed" section.
+ */
+export class SuppressionManager {
+  private repoRoot: string = process.cwd();
+  private fileRules: IgnoreFileRule[] = [];
+  private fileLines = new SourceLineCache();
+  private suppressed: SuppressedFinding[] = [];
+  private warnings = new Map<string, SuppressionWarning>();
+  private today: string = new Date().toISOString().substring(0, 10);
+
+  /**
+   * Reset state and load `.guardscanignore` from the repository root
+   */
+  load(repoRoot: string = process.cwd(), today: Date = new Date()): void {
+    this.repoRoot = repoRoot;
+    this.fileRules = [];
+    this.fileLines = new SourceLineCache(repoRoot);
+    this.suppressed = [];
+    this.warnings.clear();
+    this.today = today.toISOString().substring(0, 10);
+
+    const ignorePath = path.join(repoRoot, IGNORE_FILE);
+    if (!fs.existsSync(ignorePath)) {
+      return;
+    }
+
+    const lines = fs.readFileSync(ignorePath, 'utf-8').split('\n');
+    for (let i = 0; i < lines.length; i++) {
+      const rule = this.parseIgnoreLine(lines[i], `${IGNORE_FILE}:${i + 1}`);
+      if (!rule) continue;
+
+      this.fileRules.push(rule);
+      this.checkSuppression(rule.suppression);
+    }
+  }
+
+  /**
+   * Drop suppressed items from a scanner's results.
+   * Pass `content` when all items come from a single file already in memory.
+   */
+  apply<T>(scanner: string, items: T[], toTarget: (item: T) => SuppressionTarget, content?: string): T[] {
+    const kept: T[] = [];
+    const contentLines = content !== undefined ? content.split('\n') : undefined;
+
+    for (const item of items) {
+      const target = toTarget(item);
+      const suppression = this.findSuppression(scanner, target, contentLines);
+
+      if (suppression) {
+        this.suppressed.push({
+          scanner,
+          severity: target.severity,
+          category: target.category,
+          file: target.file,
+          line: target.line,
+          description: target.description,
+          suppression,
+        });
+      } else {
+        kept.push(item);
+      }
+    }
+
+    return kept;
+  }
+
+  /**
+   * Record a result that another mechanism (e.g. a VEX statement) suppressed,
+   * so it is reported alongside ignore-file and inline suppressions
+   */
+  record(scanner: string, target: SuppressionTarget, suppression: Suppression): void {
+    this.suppressed.push({
+      scanner,
+      severity: target.severity,
+      category: target.category,
+      file: target.file,
+      line: target.line,
+      description: target.description,
+      suppression,
+    });
+  }
+
+  /**
+   * Results suppressed since the last load()
+   */
+  getSuppressed(): SuppressedFinding[] {
+    return [...this.suppressed];
+  }
+
+  /**
+   * Suppressions missing a justification or past their expiry date
+   */
+  getWarnings(): SuppressionWarning[] {
+    return Array.from(this.warnings.values());
+  }
+
+  /**
+   * Find the first active suppression covering a target
+   */
+  private findSuppression(scanner: string, target: SuppressionTarget, contentLines?: string[]): Suppression | undefined {
+    const ids = [scanner, ...target.ids]
+      .filter((id): id is string => !!id)
+      .map(id => normalizeRuleId(id));
+
+    if (target.line) {
+      const lines = contentLines || this.fileLines.readLines(target.file);
+      if (lines) {
+        const candidates: Array<{ index: number; kinds: string[] }> = [
+          { index: target.line - 1, kinds: ['-line', ''] },
+          { index: target.line - 2, kinds: ['-next-line'] },
+        ];
+
+        for (const { index, kinds } of candidates) {
+          if (index < 0 || index >= lines.length) continue;
+
+          const suppression = this.parseInlineDirective(lines[index], kinds, `${this.toRelativePath(target.file)}:${index + 1}`);
+          if (suppression && this.matchesIds(suppression, ids) && this.checkSuppression(suppression)) {
+            return suppression;
+          }
+        }
+      }
+    }
+
+    const relativePath = this.toRelativePath(target.file);
+    if (relativePath.startsWith('..') || path.isAbsolute(relativePath)) {
+      return undefined;
+    }
+
+    for (const rule of this.fileRules) {
+      if (rule.matcher.ignores(relativePath) && this.matchesIds(rule.suppression, ids) && !this.isExpired(rule.suppression)) {
+        return rule.suppression;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Parse an inline directive on a source line
+   */
+  private parseInlineDirective(line: string, kinds: string[], location: string): Suppression | undefined {
+    const match = line.match(INLINE_DIRECTIVE);
+    if (!match || !kinds.includes(match[1] || '')) {
+      return undefined;
+    }
+
+    // Strip block comment terminators (*/, -->) before parsing
+    const body = match[2].replace(/\s*(\*\/|-->)\s*$/, '');
+    return { source: 'inline', location, ...this.parseDirectiveBody(body) };
+  }
+
+  /**
+   * Parse one `.guardscanignore` line
+   */
+  private parseIgnoreLine(line: string, location: string): IgnoreFileRule | undefined {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#')) {
+      return undefined;
+    }
+
+    const [pattern, ...rest] = trimmed.split(/\s+/);
+    const suppression: Suppression = {
+      source: 'file',
+      location,
+      pattern,
+      ...this.parseDirectiveBody(rest.join(' ')),
+    };
+
+    return { suppression, matcher: ignore().add(pattern) };
+  }
+
+  /**
+   * Parse "<ids> [expires=YYYY-MM-DD] [-- reason]"
+   */
+  private parseDirectiveBody(body: string): Pick<Suppression, 'ids' | 'reason' | 'expires'> {
+    const separator = body.indexOf('--');
+    const spec = separator >= 0 ? body.substring(0, separator) : body;
+    const reason = separator >= 0 ? body.substring(separator + 2).trim() : '';
+
+    const ids: string[] = [];
+    let expires: string | undefined;
+
+    for (const token of spec.split(/[\s,]+/).filter(Boolean)) {
+      const expiresMatch = token.match(EXPIRES_TOKEN);
+      if (expiresMatch) {
+        expires = expiresMatch[1];
+      } else if (!WILDCARD_IDS.includes(token.toLowerCase())) {
+        ids.push(token);
+      }
+    }
+
+    return {
+      ids,
+      reason: reason || undefined,
+      expires,
+    };
+  }
+
+  /**
+   * Check whether a suppression's IDs cover any of the target's IDs
+   */
+  private matchesIds(suppression: Suppression, targetIds: string[]): boolean {
+    if (suppression.ids.length === 0) {
+      return true;
+    }
+    return suppression.ids.some(id => targetIds.includes(normalizeRuleId(id)));
+  }
+
+  /**
+   * Record warnings for a suppression; returns false if it has expired
+   */
+  private checkSuppression(suppression: Suppression): boolean {
+    if (!suppression.reason) {
+      this.addWarning(suppression.location, 'Suppression has no justification (add "-- <reason>")');
+    }
+
+    if (this.isExpired(suppression)) {
+      this.addWarning(suppression.location, `Suppression expired on ${suppression.expires} and is no longer applied`);
+      return false;
+    }
+
+    return true;
+  }
+
+  private isExpired(suppression: Suppression): boolean {
+    return !!suppression.expires && suppression.expires < this.today;
+  }
+
+  private addWarning(location: string, message: string): void {
+    const key = `${location}\0${message}`;
+    if (!this.warnings.has(key)) {
+      this.warnings.set(key, { location, message });
+    }
+  }
+
+  private toRelativePath(file: string): string {
+    const absolute = path.resolve(this.repoRoot, file);
+    return path.relative(this.repoRoot, absolute).split(path.sep).join('/');
+  }
+}
+
+/**
+ * Suppression target for the shared Finding shape
+ */
+export function findingTarget(finding: Finding): SuppressionTarget {
+  return {
+    file: finding.file,
+    line: finding.line,
+    ids: [finding.ruleId, finding.category],
+    severity: finding.severity,
+    category: finding.category,
+    description: finding.description,
+  };
+}
+
+export const suppressionManager = new SuppressionManager();
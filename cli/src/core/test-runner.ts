@@ -1,6 +1,7 @@
 import { execSync } from 'child_process';
 import * as fs from 'fs';
 import * as path from 'path';
+import { fileWalker } from './file-walker';
 
 export interface TestResult {
   framework: string;
@@ -85,7 +86,7 @@ export class TestRunner {
     ];
 
     const hasTestFiles = testPatterns.some(pattern =>
-      this.findFiles(repoPath, pattern).length > 0
+      fileWalker.listFiles(repoPath, { pattern, maxDepth: 5 }).length > 0
     );
 
     if (hasTestFiles) {
@@ -191,7 +192,7 @@ export class TestRunner {
     ];
 
     return pythonTestPatterns.some(pattern =>
-      this.findFiles(repoPath, pattern).length > 0
+      fileWalker.listFiles(repoPath, { pattern, maxDepth: 5 }).length > 0
     );
   }
 
@@ -421,42 +422,6 @@ export class TestRunner {
       return null;
     }
   }
-
-  /**
-   * Find files matching pattern
-   */
-  private findFiles(dir: string, pattern: RegExp, maxDepth: number = 5): string[] {
-    const files: string[] = [];
-
-    const search = (currentDir: string, depth: number) => {
-      if (depth > maxDepth) return;
-
-      try {
-        const items = fs.readdirSync(currentDir);
-        for (const item of items) {
-          // Skip common directories that don't contain tests
-          if (item === 'node_modules' || item === '.git' || item === 'dist' ||
-              item === 'build' || item === '.next' || item === 'coverage') {
-            continue;
-          }
-
-          const fullPath = path.join(currentDir, item);
-          const stat = fs.statSync(fullPath);
-
-          if (stat.isDirectory()) {
-            search(fullPath, depth + 1);
-          } else if (pattern.test(item)) {
-            files.push(fullPath);
-          }
-        }
-      } catch {
-        // Skip directories we can't read
-      }
-    };
-
-    search(dir, 0);
-    return files;
-  }
 }
 
 export const testRunner = new TestRunner();
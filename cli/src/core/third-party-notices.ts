@@ -0,0 +1,302 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { LicenseFinding } from './license-scanner';
+import { findPackageDirectory, identifyLicenseText, licenseFiles } from './license-text';
+import { licenseAlternatives, parseSpdxExpression } from './spdx-expression';
+
+export type NoticesFormat = 'markdown' | 'text' | 'html';
+
+/**
+ * Attribution for one production dependency
+ */
+export interface NoticePackage {
+  package: string;
+  version: string;
+  license: string; // The license the product uses the package under
+  copyrights: string[];
+  notices: Array<{ file: string; text: string }>; // NOTICE files, reproduced verbatim
+  licenseTexts: number[]; // IDs of the entries in ThirdPartyNotices.licenseTexts
+}
+
+/**
+ * A license text shared by every package whose copy is identical once
+ * copyright lines are taken out
+ */
+export interface NoticeLicenseText {
+  id: number;
+  license: string;
+  text: string;
+  packages: string[]; // name@version
+}
+
+/**
+ * Attribution the license requires but the installed package does not provide
+ */
+export interface MissingNotice {
+  package: string;
+  version: string;
+  license: string;
+  notice: 'license text' | 'NOTICE file';
+  reason: string;
+}
+
+export interface ThirdPartyNotices {
+  product: string;
+  packages: NoticePackage[];
+  licenseTexts: NoticeLicenseText[];
+  missing: MissingNotice[];
+  unverified: MissingNotice[]; // Attribution that could not be checked, reported as warnings
+}
+
+export interface ThirdPartyNoticesOptions {
+  repoPath: string;
+  product: string;
+  findings: LicenseFinding[];
+}
+
+// Public-domain style licenses that ask for no attribution
+const NO_ATTRIBUTION = new Set(['0BSD', 'CC0-1.0', 'Unlicense', 'WTFPL']);
+// Ecosystems installed into a per-user cache rather than the repository: a
+// missing copy is a warning, since the build may never have run on this machine
+const UNVERIFIABLE_SOURCES: Record<string, string> = {
+  maven: 'Maven packages are jars in the local repository, so their license files cannot be read',
+  nuget: 'the package is not in the NuGet global packages folder (run `dotnet restore`), so it cannot be checked',
+};
+const NOTICE_FILE = /^notice([-._].*)?$/i;
+const COPYRIGHT_LINE = /^\s*((Copyright|COPYRIGHT|\(c\)|\(C\)|©)\s*(\(c\)|\(C\)|©|\d{4})|Copyright\s+[A-Z])/;
+// Template lines ("Copyright [yyyy] [name of copyright owner]") and the license's own copyright
+const NOT_A_COPYRIGHT = /[<[{](year|yyyy)|free software foundation/i;
+
+/**
+ * Collect attribution for the production dependencies: copyright lines, NOTICE
+ * files and license texts from the installed packages. Identical license texts
+ * are listed once. Dual-licensed packages only contribute the texts of the
+ * alternative the license policy chose.
+ */
+export function buildThirdPartyNotices(options: ThirdPartyNoticesOptions): ThirdPartyNotices {
+  const packages: NoticePackage[] = [];
+  const licenseTexts: NoticeLicenseText[] = [];
+  const missing: MissingNotice[] = [];
+  const unverified: MissingNotice[] = [];
+
+  const findings = options.findings
+    .filter(finding => !finding.dev)
+    .sort((a, b) => a.package.localeCompare(b.package) || a.version.localeCompare(b.version));
+
+  for (const finding of findings) {
+    const license = finding.policy?.license || finding.license;
+    const licenses = licenseIds(license);
+    const packageDir = findPackageDirectory(options.repoPath, finding.source, finding.package, finding.version);
+    const entry: NoticePackage = { package: finding.package, version: finding.version, license, copyrights: [], notices: [], licenseTexts: [] };
+    packages.push(entry);
+
+    const requiresText = licenses.length === 0 || licenses.some(id => !NO_ATTRIBUTION.has(id));
+    const requiresNotice = licenses.includes('Apache-2.0');
+    const fail = (notice: MissingNotice['notice'], reason: string) =>
+      missing.push({ package: finding.package, version: finding.version, license, notice, reason });
+
+    if (!packageDir && UNVERIFIABLE_SOURCES[finding.source]) {
+      const warn = (notice: MissingNotice['notice']) =>
+        unverified.push({ package: finding.package, version: finding.version, license, notice, reason: UNVERIFIABLE_SOURCES[finding.source] });
+      if (requiresText) warn('license text');
+      if (requiresNotice) warn('NOTICE file');
+      continue;
+    }
+    if (!packageDir) {
+      if (requiresText) fail('license text', 'the package is not installed, so its license files cannot be read');
+      if (requiresNotice) fail('NOTICE file', 'the package is not installed, so it cannot be checked for a NOTICE file');
+      continue;
+    }
+
+    const texts = chosenLicenseTexts(packageDir, licenses);
+    if (texts.length === 0 && requiresText) {
+      fail('license text', `no LICENSE or COPYING file in ${path.relative(options.repoPath, packageDir).split(path.sep).join('/')}`);
+    }
+    for (const { text, license: textLicense } of texts) {
+      const { copyrights, body } = splitCopyrights(text);
+      entry.copyrights.push(...copyrights.filter(line => !entry.copyrights.includes(line)));
+      if (!body) continue;
+
+      let shared = licenseTexts.find(existing => existing.text === body);
+      if (!shared) {
+        shared = { id: licenseTexts.length + 1, license: textLicense || license, text: body, packages: [] };
+        licenseTexts.push(shared);
+      }
+      shared.packages.push(`${finding.package}@${finding.version}`);
+      if (!entry.licenseTexts.includes(shared.id)) entry.licenseTexts.push(shared.id);
+    }
+
+    entry.notices = fs.readdirSync(packageDir)
+      .filter(name => NOTICE_FILE.test(name) && fs.statSync(path.join(packageDir, name)).isFile())
+      .sort()
+      .map(file => ({ file, text: normalizeText(fs.readFileSync(path.join(packageDir, file), 'utf-8')) }));
+  }
+
+  return { product: options.product, packages, licenseTexts, missing, unverified };
+}
+
+/**
+ * Render the notices as a THIRD_PARTY_NOTICES document
+ */
+export function renderThirdPartyNotices(notices: ThirdPartyNotices, format: NoticesFormat): string {
+  switch (format) {
+    case 'markdown':
+      return renderMarkdown(notices);
+    case 'text':
+      return renderText(notices);
+    case 'html':
+      return renderHtml(notices);
+  }
+}
+
+/**
+ * License files of the package, narrowed to those of the licenses in use when
+ * they can be told apart (LICENSE-MIT and LICENSE-APACHE for "MIT")
+ */
+function chosenLicenseTexts(packageDir: string, licenses: string[]): Array<{ text: string; license?: string }> {
+  const texts = licenseFiles(packageDir).map(file => {
+    const text = normalizeText(fs.readFileSync(path.join(packageDir, file), 'utf-8'));
+    return { text, license: identifyLicenseText(text)?.license };
+  });
+  const chosen = texts.filter(text => text.license && licenses.includes(text.license));
+  return chosen.length > 0 ? chosen : texts;
+}
+
+function licenseIds(license: string): string[] {
+  const expression = parseSpdxExpression(license);
+  const alternatives = expression ? licenseAlternatives(expression) : [];
+  return alternatives.length > 0 ? Array.from(new Set(alternatives[0].map(item => item.id))) : [];
+}
+
+/**
+ * Separate the copyright lines, which differ per package, from the license text
+ */
+function splitCopyrights(text: string): { copyrights: string[]; body: string } {
+  const copyrights: string[] = [];
+  const body = text.split('\n').filter(line => {
+    if (!COPYRIGHT_LINE.test(line) || NOT_A_COPYRIGHT.test(line)) return true;
+    copyrights.push(line.trim());
+    return false;
+  });
+  return { copyrights, body: normalizeText(body.join('\n')) };
+}
+
+function normalizeText(text: string): string {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map(line => line.trimEnd())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+function renderMarkdown(notices: ThirdPartyNotices): string {
+  const fence = (text: string) => {
+    const longest = Math.max(2, ...(text.match(/`+/g) || []).map(run => run.length));
+    const marker = '`'.repeat(longest + 1);
+    return `${marker}text\n${text}\n${marker}`;
+  };
+  const lines = ['# Third-Party Notices', '', introduction(notices), '', '## Packages', ''];
+
+  for (const pkg of notices.packages) {
+    lines.push(`### ${pkg.package}@${pkg.version}`, '', `License: ${pkg.license}`, '');
+    if (pkg.copyrights.length > 0) {
+      lines.push(...pkg.copyrights.map(line => `    ${line}`), '');
+    }
+    for (const notice of pkg.notices) {
+      lines.push(`${notice.file}:`, '', fence(notice.text), '');
+    }
+    if (pkg.licenseTexts.length > 0) {
+      lines.push(`License text: ${pkg.licenseTexts.map(id => `[${licenseTitle(notices, id)}](#license-${id})`).join(', ')}`, '');
+    }
+  }
+
+  lines.push('## License Texts', '');
+  for (const text of notices.licenseTexts) {
+    lines.push(`### <a id="license-${text.id}"></a>${text.id}. ${text.license}`, '', `Used by: ${text.packages.join(', ')}`, '', fence(text.text), '');
+  }
+  return lines.join('\n');
+}
+
+function renderText(notices: ThirdPartyNotices): string {
+  const heading = (title: string, underline: string) => [title, underline.repeat(title.length)];
+  const lines = [...heading('THIRD-PARTY NOTICES', '='), '', introduction(notices), ''];
+
+  for (const pkg of notices.packages) {
+    lines.push(...heading(`${pkg.package}@${pkg.version}`, '-'), `License: ${pkg.license}`);
+    lines.push(...pkg.copyrights);
+    for (const notice of pkg.notices) {
+      lines.push('', `${notice.file}:`, notice.text);
+    }
+    if (pkg.licenseTexts.length > 0) {
+      lines.push(`License text: ${pkg.licenseTexts.map(id => `[${licenseTitle(notices, id)}]`).join(', ')}`);
+    }
+    lines.push('');
+  }
+
+  lines.push(...heading('LICENSE TEXTS', '='), '');
+  for (const text of notices.licenseTexts) {
+    lines.push(...heading(`[${text.id}. ${text.license}]`, '-'), `Used by: ${text.packages.join(', ')}`, '', text.text, '');
+  }
+  return lines.join('\n');
+}
+
+function renderHtml(notices: ThirdPartyNotices): string {
+  const lines = [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '  <meta charset="utf-8">',
+    `  <title>Third-Party Notices - ${escapeHtml(notices.product)}</title>`,
+    '</head>',
+    '<body>',
+    '  <h1>Third-Party Notices</h1>',
+    `  <p>${escapeHtml(introduction(notices))}</p>`,
+    '  <h2>Packages</h2>',
+  ];
+
+  for (const pkg of notices.packages) {
+    lines.push('  <section>', `    <h3>${escapeHtml(`${pkg.package}@${pkg.version}`)}</h3>`, `    <p>License: ${escapeHtml(pkg.license)}</p>`);
+    if (pkg.copyrights.length > 0) {
+      lines.push(`    <p>${pkg.copyrights.map(escapeHtml).join('<br>\n')}</p>`);
+    }
+    for (const notice of pkg.notices) {
+      lines.push(`    <p>${escapeHtml(notice.file)}:</p>`, `    <pre>${escapeHtml(notice.text)}</pre>`);
+    }
+    if (pkg.licenseTexts.length > 0) {
+      const links = pkg.licenseTexts.map(id => `<a href="#license-${id}">${escapeHtml(licenseTitle(notices, id))}</a>`);
+      lines.push(`    <p>License text: ${links.join(', ')}</p>`);
+    }
+    lines.push('  </section>');
+  }
+
+  lines.push('  <h2>License Texts</h2>');
+  for (const text of notices.licenseTexts) {
+    lines.push(
+      `  <section id="license-${text.id}">`,
+      `    <h3>${text.id}. ${escapeHtml(text.license)}</h3>`,
+      `    <p>Used by: ${escapeHtml(text.packages.join(', '))}</p>`,
+      `    <pre>${escapeHtml(text.text)}</pre>`,
+      '  </section>'
+    );
+  }
+  lines.push('</body>', '</html>', '');
+  return lines.join('\n');
+}
+
+function introduction(notices: ThirdPartyNotices): string {
+  return `${notices.product} includes the third-party software listed below. Each package's copyright notices and NOTICE files are reproduced with it; the license texts follow.`;
+}
+
+function licenseTitle(notices: ThirdPartyNotices, id: number): string {
+  return `${id}. ${notices.licenseTexts[id - 1].license}`;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
@@ -0,0 +1,222 @@
+import * as semver from 'semver';
+import { DependencyEcosystem } from './lockfile-parser';
+
+/**
+ * OSV affected range (https://ossf.github.io/osv-schema/#affectedranges-field)
+ */
+export interface OsvRange {
+  type: 'SEMVER' | 'ECOSYSTEM' | 'GIT';
+  events: OsvRangeEvent[];
+}
+
+export interface OsvRangeEvent {
+  introduced?: string;
+  fixed?: string;
+  last_affected?: string;
+  limit?: string;
+}
+
+/**
+ * Compare two versions using the ecosystem's ordering rules.
+ * Returns a negative number, zero or a positive number like Array.sort comparators.
+ */
+export function compareVersions(ecosystem: DependencyEcosystem, a: string, b: string): number {
+  switch (ecosystem) {
+    case 'npm':
+    case 'cargo':
+      return compareSemver(a, b);
+    case 'go':
+      // Go modules use a "v" prefix; OSV records Go versions without it
+      return compareSemver(a.replace(/^v/, ''), b.replace(/^v/, ''));
+    case 'pip':
+      return comparePep440(a, b);
+    case 'ruby':
+      return compareGemVersions(a, b);
+    case 'maven':
+      return compareGenericVersions(a, b, MAVEN_QUALIFIER_ORDER);
+    default:
+      return compareGenericVersions(a, b);
+  }
+}
+
+/**
+ * Whether a version falls in any OSV range or explicit version list of an affected entry
+ */
+export function isVersionAffected(
+  ecosystem: DependencyEcosystem,
+  version: string,
+  ranges: OsvRange[] = [],
+  versions: string[] = []
+): boolean {
+  if (versions.some(v => compareVersions(ecosystem, v, version) === 0)) {
+    return true;
+  }
+  return ranges.some(range => range.type !== 'GIT' && isInRange(ecosystem, version, range.events));
+}
+
+/**
+ * OSV range evaluation: walk the events in version order, toggling "affected"
+ * on introduced and off on fixed / past last_affected
+ */
+function isInRange(ecosystem: DependencyEcosystem, version: string, events: OsvRangeEvent[]): boolean {
+  const eventVersion = (event: OsvRangeEvent) =>
+    event.introduced ?? event.fixed ?? event.last_affected ?? event.limit ?? '0';
+  const compare = (a: string, b: string) => (a === '0' ? (b === '0' ? 0 : -1) : b === '0' ? 1 : compareVersions(ecosystem, a, b));
+
+  const sorted = [...events].sort((a, b) => compare(eventVersion(a), eventVersion(b)));
+  let affected = false;
+
+  for (const event of sorted) {
+    if (event.introduced !== undefined && compare(version, event.introduced) >= 0) {
+      affected = true;
+    } else if (event.fixed !== undefined && compare(version, event.fixed) >= 0) {
+      affected = false;
+    } else if (event.last_affected !== undefined && compare(version, event.last_affected) > 0) {
+      affected = false;
+    } else if (event.limit !== undefined && compare(version, event.limit) >= 0) {
+      affected = false;
+    }
+  }
+
+  return affected;
+}
+
+function compareSemver(a: string, b: string): number {
+  const va = semver.valid(a, { loose: true });
+  const vb = semver.valid(b, { loose: true });
+  if (va && vb) {
+    return semver.compare(va, vb, { loose: true });
+  }
+  return compareGenericVersions(a, b);
+}
+
+interface Pep440Version {
+  epoch: number;
+  release: number[];
+  pre?: [number, number];
+  post?: number;
+  dev?: number;
+  local?: string;
+}
+
+const PEP440_PATTERN = /^v?(?:(\d+)!)?(\d+(?:\.\d+)*)(?:[-_.]?(a|alpha|b|beta|c|rc|pre|preview)[-_.]?(\d+)?)?(?:-(\d+)|[-_.]?(post|rev|r)[-_.]?(\d+)?)?(?:[-_.]?(dev)[-_.]?(\d+)?)?(?:\+([a-z0-9]+(?:[-_.][a-z0-9]+)*))?$/;
+const PEP440_PRE_ORDER: Record<string, number> = { a: 0, alpha: 0, b: 1, beta: 1, c: 2, rc: 2, pre: 2, preview: 2 };
+
+function parsePep440(version: string): Pep440Version | undefined {
+  const match = version.trim().toLowerCase().match(PEP440_PATTERN);
+  if (!match) return undefined;
+
+  const release = match[2].split('.').map(Number);
+  // 1.0 == 1.0.0
+  while (release.length > 1 && release[release.length - 1] === 0) release.pop();
+
+  return {
+    epoch: match[1] ? parseInt(match[1]) : 0,
+    release,
+    pre: match[3] ? [PEP440_PRE_ORDER[match[3]], parseInt(match[4] || '0')] : undefined,
+    post: match[5] !== undefined ? parseInt(match[5]) : match[6] ? parseInt(match[7] || '0') : undefined,
+    dev: match[8] ? parseInt(match[9] || '0') : undefined,
+    local: match[10],
+  };
+}
+
+/**
+ * PEP 440 ordering: epoch, release, pre-release, post-release, dev-release, local
+ */
+function comparePep440(a: string, b: string): number {
+  const va = parsePep440(a);
+  const vb = parsePep440(b);
+  if (!va || !vb) return compareGenericVersions(a, b);
+
+  if (va.epoch !== vb.epoch) return va.epoch - vb.epoch;
+
+  const release = compareNumberLists(va.release, vb.release);
+  if (release !== 0) return release;
+
+  // A dev release of a final version sorts before its pre-releases: 1.0.dev0 < 1.0a1 < 1.0
+  const preKey = (v: Pep440Version): number[] =>
+    v.pre ? v.pre : v.post === undefined && v.dev !== undefined ? [-1, 0] : [Infinity, 0];
+  const pre = compareNumberLists(preKey(va), preKey(vb));
+  if (pre !== 0) return pre;
+
+  const post = compareNumbers(va.post ?? -1, vb.post ?? -1);
+  if (post !== 0) return post;
+
+  const dev = compareNumbers(va.dev ?? Infinity, vb.dev ?? Infinity);
+  if (dev !== 0) return dev;
+
+  return compareGenericVersions(va.local || '', vb.local || '');
+}
+
+/**
+ * RubyGems ordering (Gem::Version): letters start a pre-release segment, so 1.0.0.rc1 < 1.0.0
+ */
+function compareGemVersions(a: string, b: string): number {
+  const segments = (v: string) => (v.trim().match(/\d+|[a-z]+/gi) || []).map(s => (/^\d/.test(s) ? Number(s) : s));
+  const sa = segments(a);
+  const sb = segments(b);
+
+  for (let i = 0; i < Math.max(sa.length, sb.length); i++) {
+    const x = sa[i] ?? 0;
+    const y = sb[i] ?? 0;
+    if (x === y) continue;
+    if (typeof x === 'number' && typeof y === 'number') return x - y;
+    if (typeof x === 'string' && typeof y === 'string') return x < y ? -1 : 1;
+    return typeof x === 'string' ? -1 : 1;
+  }
+
+  return 0;
+}
+
+const GENERIC_QUALIFIER_ORDER: Record<string, number> = {
+  dev: -5, snapshot: -5, alpha: -4, a: -4, beta: -3, b: -3, milestone: -2, m: -2, rc: -1, cr: -1,
+  '': 0, final: 0, ga: 0, release: 0, patch: 1, p: 1, pl: 1, sp: 1,
+};
+
+// Maven's ComparableVersion puts snapshots after release candidates
+const MAVEN_QUALIFIER_ORDER: Record<string, number> = {
+  alpha: -5, a: -5, beta: -4, b: -4, milestone: -3, m: -3, rc: -2, cr: -2, snapshot: -1,
+  '': 0, final: 0, ga: 0, release: 0, sp: 1,
+};
+
+/**
+ * Fallback ordering for dotted versions with optional qualifiers (Composer, NuGet and unknown formats)
+ */
+export function compareGenericVersions(
+  a: string,
+  b: string,
+  qualifierOrder: Record<string, number> = GENERIC_QUALIFIER_ORDER
+): number {
+  const tokens = (v: string) => v.trim().toLowerCase().replace(/^v/, '').match(/\d+|[a-z]+/g) || [];
+  const ta = tokens(a);
+  const tb = tokens(b);
+
+  for (let i = 0; i < Math.max(ta.length, tb.length); i++) {
+    // Missing trailing segments count as zero: 1.0 == 1.0.0
+    const x = ta[i] ?? (/^\d/.test(tb[i]) ? '0' : undefined);
+    const y = tb[i] ?? (/^\d/.test(ta[i]) ? '0' : undefined);
+    if (x === y || Number(x) === Number(y)) continue;
+
+    const rank = (token: string | undefined) =>
+      token === undefined ? 0 : /^\d/.test(token) ? Infinity : qualifierOrder[token] ?? -0.5;
+    const rx = rank(x);
+    const ry = rank(y);
+    if (rx === Infinity && ry === Infinity) return Number(x) - Number(y);
+    if (rx !== ry) return rx < ry ? -1 : 1;
+    if (x !== undefined && y !== undefined) return x < y ? -1 : 1;
+  }
+
+  return 0;
+}
+
+function compareNumberLists(a: number[], b: number[]): number {
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    const result = compareNumbers(a[i] ?? 0, b[i] ?? 0);
+    if (result !== 0) return result;
+  }
+  return 0;
+}
+
+function compareNumbers(a: number, b: number): number {
+  return a === b ? 0 : a < b ? -1 : 1;
+}
@@ -0,0 +1,336 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { DependencyEcosystem } from './lockfile-parser';
+import { DependencyVulnerability } from './dependency-scanner';
+import { CycloneDxBom } from './cyclonedx';
+import { parsePurl } from './purl';
+import { compareVersions } from './version-ranges';
+import { normalizePackageName } from './vuln-db';
+import { configError } from '../utils/ci-gate';
+
+const packageJson = require('../../package.json');
+
+/**
+ * Triage decisions live in the repository as an OpenVEX document
+ */
+export const VEX_FILE = path.join('.guardscan', 'vex.json');
+export const OPENVEX_CONTEXT = 'https://openvex.dev/ns/v0.2.0';
+
+export const VEX_STATUSES = ['not_affected', 'affected', 'fixed', 'under_investigation'] as const;
+export type VexStatus = typeof VEX_STATUSES[number];
+
+export const VEX_JUSTIFICATIONS = [
+  'component_not_present',
+  'vulnerable_code_not_present',
+  'vulnerable_code_not_in_execute_path',
+  'vulnerable_code_cannot_be_controlled_by_adversary',
+  'inline_mitigations_already_exist',
+] as const;
+export type VexJustification = typeof VEX_JUSTIFICATIONS[number];
+
+export interface VexProduct {
+  '@id': string; // purl; without a version it covers every version
+  versions?: string; // GuardScan extension: vers range, e.g. "vers:npm/>=1.0.0|<1.2.3"
+}
+
+export interface VexStatement {
+  vulnerability: { name: string; aliases?: string[] };
+  products: VexProduct[];
+  status: VexStatus;
+  justification?: VexJustification;
+  impact_statement?: string;
+  action_statement?: string;
+  timestamp?: string;
+}
+
+export interface OpenVexDocument {
+  '@context': string;
+  '@id': string;
+  author: string;
+  timestamp: string;
+  last_updated?: string;
+  version: number;
+  statements: VexStatement[];
+}
+
+export interface VexStatementInput {
+  vulnerability: string;
+  product: string; // purl
+  versions?: string;
+  status: string;
+  justification?: string;
+  impact?: string;
+  action?: string;
+}
+
+/**
+ * A CycloneDX VEX: vulnerabilities whose `affects` point into an SBOM through bom-links
+ */
+export interface CycloneDxVex extends Omit<CycloneDxBom, 'components' | 'dependencies'> {
+  vulnerabilities: Array<{
+    id: string;
+    analysis: {
+      state: string;
+      justification?: string;
+      response?: string[];
+      detail?: string;
+      lastUpdated?: string;
+    };
+    affects: Array<{ ref: string }>;
+  }>;
+}
+
+// OpenVEX status and justification to CycloneDX impact analysis
+const CYCLONEDX_STATES: Record<VexStatus, string> = {
+  not_affected: 'not_affected',
+  affected: 'exploitable',
+  fixed: 'resolved',
+  under_investigation: 'in_triage',
+};
+
+const CYCLONEDX_JUSTIFICATIONS: Record<VexJustification, string> = {
+  component_not_present: 'code_not_present',
+  vulnerable_code_not_present: 'code_not_present',
+  vulnerable_code_not_in_execute_path: 'code_not_reachable',
+  vulnerable_code_cannot_be_controlled_by_adversary: 'requires_environment',
+  inline_mitigations_already_exist: 'protected_by_mitigating_control',
+};
+
+/**
+ * Read the repository's VEX statements; null when there are none
+ */
+export function loadVexDocument(repoPath: string): OpenVexDocument | null {
+  const vexPath = path.join(repoPath, VEX_FILE);
+  if (!fs.existsSync(vexPath)) return null;
+
+  let document: any;
+  try {
+    document = JSON.parse(fs.readFileSync(vexPath, 'utf-8'));
+  } catch (error) {
+    throw configError(`${VEX_FILE} is not valid JSON: ${(error as Error).message}`);
+  }
+  if (!document || !Array.isArray(document.statements)) {
+    throw configError(`${VEX_FILE} is not an OpenVEX document (no statements)`);
+  }
+  return document as OpenVexDocument;
+}
+
+/**
+ * Check a triage decision against the OpenVEX rules and turn it into a statement
+ */
+export function createVexStatement(input: VexStatementInput, now: Date = new Date()): VexStatement {
+  const status = input.status as VexStatus;
+  if (!VEX_STATUSES.includes(status)) {
+    throw configError(`Invalid VEX status "${input.status}". Expected one of: ${VEX_STATUSES.join(', ')}`);
+  }
+  const justification = input.justification as VexJustification | undefined;
+  if (justification !== undefined && !VEX_JUSTIFICATIONS.includes(justification)) {
+    throw configError(`Invalid VEX justification "${input.justification}". Expected one of: ${VEX_JUSTIFICATIONS.join(', ')}`);
+  }
+  if (status === 'not_affected' && !justification && !input.impact) {
+    throw configError('A not_affected statement needs a justification or an impact statement');
+  }
+  if (status === 'affected' && !input.action) {
+    throw configError('An affected statement needs an action statement');
+  }
+
+  const purl = parsePurl(input.product);
+  if (!purl) {
+    throw configError(`Invalid package purl "${input.product}"`);
+  }
+  if (input.versions !== undefined) {
+    if (purl.version !== undefined) {
+      throw configError('Give either a purl with a version or a version range, not both');
+    }
+    if (!parseVers(input.versions)) {
+      throw configError(`Invalid version range "${input.versions}". Expected a vers range such as "vers:npm/>=1.0.0|<1.2.3"`);
+    }
+  }
+
+  return {
+    vulnerability: { name: input.vulnerability.trim() },
+    products: [{ '@id': input.product, ...(input.versions !== undefined ? { versions: input.versions } : {}) }],
+    status,
+    ...(justification ? { justification } : {}),
+    ...(input.impact ? { impact_statement: input.impact } : {}),
+    ...(input.action ? { action_statement: input.action } : {}),
+    timestamp: now.toISOString(),
+  };
+}
+
+/**
+ * Append a statement to the repository's VEX document, creating it when needed
+ */
+export function addVexStatement(repoPath: string, statement: VexStatement, author: string): OpenVexDocument {
+  const now = statement.timestamp || new Date().toISOString();
+  const existing = loadVexDocument(repoPath);
+  const document: OpenVexDocument = existing
+    ? { ...existing, last_updated: now, version: (existing.version || 0) + 1, statements: [...existing.statements, statement] }
+    : {
+      '@context': OPENVEX_CONTEXT,
+      '@id': `https://openvex.dev/docs/guardscan/${uuidv4()}`,
+      author,
+      timestamp: now,
+      version: 1,
+      statements: [statement],
+    };
+
+  const vexPath = path.join(repoPath, VEX_FILE);
+  fs.mkdirSync(path.dirname(vexPath), { recursive: true });
+  fs.writeFileSync(vexPath, JSON.stringify(document, null, 2) + '\n');
+  return document;
+}
+
+/**
+ * The statement that applies to a vulnerable package version. Statements are
+ * matched by vulnerability ID (or alias), purl and version; later statements
+ * supersede earlier ones, as OpenVEX specifies.
+ */
+export function findVexStatement(
+  document: OpenVexDocument,
+  target: { ids: Array<string | undefined>; ecosystem: DependencyEcosystem; name: string; version: string }
+): VexStatement | undefined {
+  const ids = new Set(target.ids.filter((id): id is string => !!id).map(id => id.toUpperCase()));
+  for (let i = document.statements.length - 1; i >= 0; i--) {
+    const statement = document.statements[i];
+    const names = [statement.vulnerability?.name, ...(statement.vulnerability?.aliases || [])];
+    if (!names.some(name => typeof name === 'string' && ids.has(name.toUpperCase()))) continue;
+    if ((statement.products || []).some(product => productMatches(product, target.ecosystem, target.name, target.version))) {
+      return statement;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * IDs a dependency vulnerability answers to in VEX statements
+ */
+export function vulnerabilityIds(vuln: DependencyVulnerability): Array<string | undefined> {
+  return [vuln.id, vuln.cve, ...(vuln.aliases || [])];
+}
+
+/**
+ * Whether a version falls in a vers range (https://github.com/package-url/purl-spec/blob/master/VERSION-RANGE-SPEC.rst)
+ */
+export function isVersionInVers(vers: string, ecosystem: DependencyEcosystem, version: string): boolean {
+  const parsed = parseVers(vers);
+  if (!parsed) return false;
+  if (parsed.all) return true;
+
+  const compare = (a: string, b: string) => compareVersions(ecosystem, a, b);
+  if (parsed.constraints.some(c => c.comparator === '=' && compare(version, c.version) === 0)) return true;
+  if (parsed.constraints.some(c => c.comparator === '!=' && compare(version, c.version) === 0)) return false;
+
+  const satisfies = (c: VersConstraint) => {
+    const order = compare(version, c.version);
+    return c.comparator === '<' ? order < 0 : c.comparator === '<=' ? order <= 0 : c.comparator === '>' ? order > 0 : order >= 0;
+  };
+  const isLower = (c: VersConstraint) => c.comparator === '>' || c.comparator === '>=';
+  const ranges = parsed.constraints
+    .filter(c => c.comparator !== '=' && c.comparator !== '!=')
+    .sort((a, b) => compare(a.version, b.version));
+  if (ranges.length === 0) return false;
+
+  // Unbounded ends, then each ">= lower | < upper" interval
+  if (!isLower(ranges[0]) && satisfies(ranges[0])) return true;
+  if (isLower(ranges[ranges.length - 1]) && satisfies(ranges[ranges.length - 1])) return true;
+  for (let i = 0; i < ranges.length - 1; i++) {
+    if (isLower(ranges[i]) && !isLower(ranges[i + 1]) && satisfies(ranges[i]) && satisfies(ranges[i + 1])) return true;
+  }
+  return false;
+}
+
+/**
+ * OpenVEX export for an SBOM: every stored statement that applies to one of its
+ * packages, with products narrowed to the exact package versions
+ */
+export function buildOpenVexExport(document: OpenVexDocument, purls: string[]): OpenVexDocument {
+  const statements = document.statements.flatMap(statement => {
+    const products = matchingPurls(statement, purls).map(purl => ({ '@id': purl }));
+    return products.length > 0 ? [{ ...statement, products }] : [];
+  });
+  return {
+    '@context': OPENVEX_CONTEXT,
+    '@id': `https://openvex.dev/docs/guardscan/${uuidv4()}`,
+    author: document.author,
+    timestamp: new Date().toISOString(),
+    version: 1,
+    statements,
+  };
+}
+
+/**
+ * CycloneDX VEX for a BOM: one vulnerability per stored statement that applies
+ * to its components, linked to them by bom-link
+ */
+export function buildCycloneDxVex(document: OpenVexDocument, bom: CycloneDxBom): CycloneDxVex {
+  const bomLink = `urn:cdx:${bom.serialNumber.replace(/^urn:uuid:/, '')}/${bom.version}`;
+  const refs = new Map(bom.components.filter(component => component.purl).map(component => [component.purl!, component['bom-ref']]));
+
+  const vulnerabilities = document.statements.flatMap(statement => {
+    const affects = matchingPurls(statement, Array.from(refs.keys())).map(purl => ({ ref: `${bomLink}#${refs.get(purl)}` }));
+    if (affects.length === 0) return [];
+    const detail = statement.impact_statement || statement.action_statement;
+    return [{
+      id: statement.vulnerability.name,
+      analysis: {
+        state: CYCLONEDX_STATES[statement.status],
+        ...(statement.justification ? { justification: CYCLONEDX_JUSTIFICATIONS[statement.justification] } : {}),
+        ...(statement.status === 'affected' ? { response: ['update'] } : {}),
+        ...(detail ? { detail } : {}),
+        ...(statement.timestamp ? { lastUpdated: statement.timestamp } : {}),
+      },
+      affects,
+    }];
+  });
+
+  return {
+    $schema: bom.$schema,
+    bomFormat: 'CycloneDX',
+    specVersion: bom.specVersion,
+    serialNumber: `urn:uuid:${uuidv4()}`,
+    version: 1,
+    metadata: {
+      timestamp: new Date().toISOString(),
+      tools: { components: [{ type: 'application', name: 'guardscan', version: packageJson.version }] },
+      component: bom.metadata.component,
+    },
+    vulnerabilities,
+  };
+}
+
+interface VersConstraint {
+  comparator: '<' | '<=' | '>' | '>=' | '=' | '!=';
+  version: string;
+}
+
+function parseVers(vers: string): { all: boolean; constraints: VersConstraint[] } | null {
+  const match = /^vers:[a-z0-9.+-]+\/(.+)$/i.exec(vers.trim());
+  if (!match) return null;
+  if (match[1].trim() === '*') return { all: true, constraints: [] };
+
+  const constraints: VersConstraint[] = [];
+  for (const part of match[1].split('|')) {
+    const constraint = /^\s*(<=|>=|!=|<|>|=)?\s*([^\s<>=!|]+)\s*$/.exec(part);
+    if (!constraint) return null;
+    constraints.push({ comparator: (constraint[1] || '=') as VersConstraint['comparator'], version: decodeURIComponent(constraint[2]) });
+  }
+  return { all: false, constraints };
+}
+
+function productMatches(product: VexProduct, ecosystem: DependencyEcosystem, name: string, version: string): boolean {
+  const purl = typeof product?.['@id'] === 'string' ? parsePurl(product['@id']) : null;
+  if (!purl || purl.ecosystem !== ecosystem) return false;
+  if (normalizePackageName(ecosystem, purl.name) !== normalizePackageName(ecosystem, name)) return false;
+  if (purl.version !== undefined) return compareVersions(ecosystem, purl.version, version) === 0;
+  return product.versions ? isVersionInVers(product.versions, ecosystem, version) : true;
+}
+
+function matchingPurls(statement: VexStatement, purls: string[]): string[] {
+  return purls.filter(purl => {
+    const parsed = parsePurl(purl);
+    return !!parsed?.ecosystem && parsed.version !== undefined &&
+      (statement.products || []).some(product => productMatches(product, parsed.ecosystem!, parsed.name, parsed.version!));
+  });
+}
@@ -0,0 +1,390 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { configManager } from './config';
+import { DependencyEcosystem, LockedDependency } from './lockfile-parser';
+import { OsvRange, isVersionAffected } from './version-ranges';
+import { readZipEntries } from '../utils/zip-reader';
+
+const DB_FORMAT_VERSION = 1;
+
+/**
+ * OSV ecosystem names for the ecosystems GuardScan matches offline
+ */
+export const OSV_ECOSYSTEMS: Record<string, DependencyEcosystem> = {
+  'npm': 'npm',
+  'PyPI': 'pip',
+  'Go': 'go',
+  'RubyGems': 'ruby',
+  'crates.io': 'cargo',
+  'Packagist': 'composer',
+  'Maven': 'maven',
+  'NuGet': 'nuget',
+};
+
+export type AdvisorySeverity = 'critical' | 'high' | 'medium' | 'low';
+
+/**
+ * One advisory as it applies to one package, reduced to what matching needs
+ */
+export interface VulnDbAdvisory {
+  id: string;
+  aliases: string[];
+  summary: string;
+  severity: AdvisorySeverity;
+  ranges: OsvRange[];
+  versions: string[];
+  fixed: string[];
+  functions?: string[]; // Affected functions/symbols, when the advisory lists them
+  modified?: string;
+}
+
+export interface VulnDbStatus {
+  importedAt: string;
+  sources: string[];
+  ecosystems: Partial<Record<DependencyEcosystem, { packages: number; advisories: number }>>;
+}
+
+export interface VulnDbImportResult {
+  records: number;
+  skipped: number;
+  withdrawn: number;
+  ecosystems: Partial<Record<DependencyEcosystem, number>>;
+}
+
+interface VulnDbMeta extends VulnDbStatus {
+  format: number;
+}
+
+type PackageIndex = Record<string, VulnDbAdvisory[]>;
+
+/**
+ * Offline Vulnerability Database
+ *
+ * Stores advisories imported from OSV-format JSON dumps under
+ * ~/.guardscan/vulndb, one index per ecosystem keyed by package name, so
+ * dependencies can be matched without network access or audit tools.
+ */
+export class VulnDatabase {
+  private indexes: Map<DependencyEcosystem, PackageIndex> = new Map();
+
+  /**
+   * Import OSV records from a directory (JSON files and .zip dumps, recursively) or a single .zip/.json file
+   */
+  importFrom(source: string): VulnDbImportResult {
+    if (!fs.existsSync(source)) {
+      throw new Error(`Advisory source not found: ${source}`);
+    }
+
+    const result: VulnDbImportResult = { records: 0, skipped: 0, withdrawn: 0, ecosystems: {} };
+    const updates = new Map<DependencyEcosystem, PackageIndex>();
+    const withdrawn = new Set<string>();
+
+    const addRecord = (raw: string) => {
+      let record: any;
+      try {
+        record = JSON.parse(raw);
+      } catch {
+        result.skipped++;
+        return;
+      }
+      for (const osv of Array.isArray(record) ? record : [record]) {
+        this.collect(osv, updates, withdrawn, result);
+      }
+    };
+
+    for (const file of this.listSourceFiles(source)) {
+      if (file.endsWith('.zip')) {
+        for (const entry of readZipEntries(fs.readFileSync(file))) {
+          if (entry.name.endsWith('.json')) addRecord(entry.read().toString('utf-8'));
+        }
+      } else {
+        addRecord(fs.readFileSync(file, 'utf-8'));
+      }
+    }
+
+    this.merge(updates, withdrawn);
+    this.writeMeta(source);
+    return result;
+  }
+
+  /**
+   * Whether advisories have been imported, optionally for a specific ecosystem
+   */
+  isAvailable(ecosystem?: DependencyEcosystem): boolean {
+    const status = this.getStatus();
+    if (!status) return false;
+    return ecosystem ? (status.ecosystems[ecosystem]?.advisories ?? 0) > 0 : true;
+  }
+
+  getStatus(): VulnDbStatus | null {
+    const metaPath = path.join(this.getDbDir(), 'meta.json');
+    if (!fs.existsSync(metaPath)) return null;
+
+    try {
+      const meta: VulnDbMeta = JSON.parse(fs.readFileSync(metaPath, 'utf-8'));
+      if (meta.format !== DB_FORMAT_VERSION) return null;
+      return { importedAt: meta.importedAt, sources: meta.sources, ecosystems: meta.ecosystems };
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Advisories affecting a locked dependency version
+   */
+  findVulnerabilities(dependency: LockedDependency): VulnDbAdvisory[] {
+    const index = this.loadIndex(dependency.ecosystem);
+    const advisories = index[normalizePackageName(dependency.ecosystem, dependency.name)] || [];
+    return advisories.filter(advisory =>
+      isVersionAffected(dependency.ecosystem, dependency.version, advisory.ranges, advisory.versions)
+    );
+  }
+
+  /**
+   * Drop cached indexes so the next lookup rereads them from disk
+   */
+  reset(): void {
+    this.indexes.clear();
+  }
+
+  private getDbDir(): string {
+    return path.join(configManager.getConfigDir(), 'vulndb');
+  }
+
+  private getIndexPath(ecosystem: DependencyEcosystem): string {
+    return path.join(this.getDbDir(), `${ecosystem}.json`);
+  }
+
+  private listSourceFiles(source: string): string[] {
+    if (!fs.statSync(source).isDirectory()) {
+      return [source];
+    }
+
+    const files: string[] = [];
+    for (const entry of fs.readdirSync(source, { withFileTypes: true })) {
+      const fullPath = path.join(source, entry.name);
+      if (entry.isDirectory()) {
+        files.push(...this.listSourceFiles(fullPath));
+      } else if (entry.name.endsWith('.json') || entry.name.endsWith('.zip')) {
+        files.push(fullPath);
+      }
+    }
+    return files.sort();
+  }
+
+  /**
+   * Convert one OSV record into per-package advisories
+   */
+  private collect(
+    osv: any,
+    updates: Map<DependencyEcosystem, PackageIndex>,
+    withdrawn: Set<string>,
+    result: VulnDbImportResult
+  ): void {
+    if (!osv || typeof osv.id !== 'string' || !Array.isArray(osv.affected)) {
+      result.skipped++;
+      return;
+    }
+    result.records++;
+
+    if (osv.withdrawn) {
+      withdrawn.add(osv.id);
+      result.withdrawn++;
+      return;
+    }
+
+    const aliases: string[] = Array.isArray(osv.aliases) ? osv.aliases : [];
+    const severity = advisorySeverity(osv);
+
+    for (const affected of osv.affected) {
+      // Ecosystems may carry a suffix, e.g. "Debian:11"
+      const ecosystem = OSV_ECOSYSTEMS[String(affected.package?.ecosystem || '').split(':')[0]];
+      const name = affected.package?.name;
+      if (!ecosystem || !name) continue;
+
+      const ranges: OsvRange[] = (affected.ranges || []).filter((range: OsvRange) => range.type !== 'GIT');
+      const fixed = ranges.flatMap(range => range.events.filter(e => e.fixed).map(e => e.fixed!));
+
+      const functions = affectedFunctions(affected);
+
+      const index = updates.get(ecosystem) || {};
+      updates.set(ecosystem, index);
+      const key = normalizePackageName(ecosystem, name);
+      (index[key] = index[key] || []).push({
+        id: osv.id,
+        aliases,
+        summary: osv.summary || String(osv.details || '').split('\n')[0] || osv.id,
+        severity,
+        ranges,
+        versions: Array.isArray(affected.versions) ? affected.versions : [],
+        fixed: Array.from(new Set(fixed)),
+        ...(functions.length > 0 ? { functions } : {}),
+        modified: osv.modified,
+      });
+      result.ecosystems[ecosystem] = (result.ecosystems[ecosystem] || 0) + 1;
+    }
+  }
+
+  /**
+   * Merge imported advisories into the on-disk indexes; re-imported IDs replace older copies
+   */
+  private merge(updates: Map<DependencyEcosystem, PackageIndex>, withdrawn: Set<string>): void {
+    fs.mkdirSync(this.getDbDir(), { recursive: true });
+    const ecosystems = withdrawn.size > 0 ? Object.values(OSV_ECOSYSTEMS) : Array.from(updates.keys());
+
+    for (const ecosystem of ecosystems) {
+      const index = this.readIndex(ecosystem);
+      const imported = updates.get(ecosystem) || {};
+
+      for (const [name, advisories] of Object.entries(index)) {
+        index[name] = advisories.filter(a => !withdrawn.has(a.id));
+      }
+      for (const [name, advisories] of Object.entries(imported)) {
+        const ids = new Set(advisories.map(a => a.id));
+        index[name] = [...(index[name] || []).filter(a => !ids.has(a.id)), ...advisories];
+      }
+      for (const name of Object.keys(index)) {
+        if (index[name].length === 0) delete index[name];
+      }
+
+      if (Object.keys(index).length > 0 || fs.existsSync(this.getIndexPath(ecosystem))) {
+        fs.writeFileSync(this.getIndexPath(ecosystem), JSON.stringify(index), 'utf-8');
+      }
+    }
+
+    this.reset();
+  }
+
+  private writeMeta(source: string): void {
+    const previous = this.getStatus();
+    const meta: VulnDbMeta = {
+      format: DB_FORMAT_VERSION,
+      importedAt: new Date().toISOString(),
+      sources: Array.from(new Set([...(previous?.sources || []), path.resolve(source)])),
+      ecosystems: {},
+    };
+
+    for (const ecosystem of Object.values(OSV_ECOSYSTEMS)) {
+      const index = this.loadIndex(ecosystem);
+      const packages = Object.keys(index).length;
+      if (packages === 0) continue;
+      meta.ecosystems[ecosystem] = {
+        packages,
+        advisories: new Set(Object.values(index).flatMap(list => list.map(a => a.id))).size,
+      };
+    }
+
+    fs.writeFileSync(path.join(this.getDbDir(), 'meta.json'), JSON.stringify(meta, null, 2), 'utf-8');
+  }
+
+  private loadIndex(ecosystem: DependencyEcosystem): PackageIndex {
+    let index = this.indexes.get(ecosystem);
+    if (!index) {
+      index = this.readIndex(ecosystem);
+      this.indexes.set(ecosystem, index);
+    }
+    return index;
+  }
+
+  private readIndex(ecosystem: DependencyEcosystem): PackageIndex {
+    const indexPath = this.getIndexPath(ecosystem);
+    if (!fs.existsSync(indexPath)) return {};
+    try {
+      return JSON.parse(fs.readFileSync(indexPath, 'utf-8'));
+    } catch (error) {
+      console.warn(`Warning: Ignoring corrupt vulnerability index ${indexPath}:`, (error as Error).message);
+      return {};
+    }
+  }
+}
+
+/**
+ * Registry name normalization: PyPI treats "-", "_" and "." alike and, like Packagist and NuGet, ignores case
+ */
+export function normalizePackageName(ecosystem: DependencyEcosystem, name: string): string {
+  switch (ecosystem) {
+    case 'pip':
+      return name.toLowerCase().replace(/[-_.]+/g, '-');
+    case 'composer':
+    case 'nuget':
+      return name.toLowerCase();
+    default:
+      return name;
+  }
+}
+
+/**
+ * Affected symbols from the places OSV producers put them: Go's imports[].symbols,
+ * RustSec's affects.functions and the affected_functions lists used by other databases
+ */
+function affectedFunctions(affected: any): string[] {
+  const specific = affected.ecosystem_specific || {};
+  const candidates: unknown[] = [
+    ...(Array.isArray(specific.imports) ? specific.imports.flatMap((imp: any) => imp?.symbols || []) : []),
+    ...(specific.affects?.functions || []),
+    ...(specific.affected_functions || []),
+    ...(affected.database_specific?.affected_functions || []),
+  ];
+  return Array.from(new Set(candidates.filter((fn): fn is string => typeof fn === 'string' && fn.length > 0)));
+}
+
+/**
+ * Severity from GHSA-style database_specific.severity, falling back to the CVSS v3 base score
+ */
+function advisorySeverity(osv: any): AdvisorySeverity {
+  const label = String(osv.database_specific?.severity || osv.affected?.[0]?.ecosystem_specific?.severity || '').toLowerCase();
+  if (label === 'critical') return 'critical';
+  if (label === 'high') return 'high';
+  if (label === 'moderate' || label === 'medium') return 'medium';
+  if (label === 'low') return 'low';
+
+  for (const entry of osv.severity || []) {
+    const score = entry.type === 'CVSS_V3' ? cvss3BaseScore(String(entry.score)) : undefined;
+    if (score !== undefined) {
+      if (score >= 9) return 'critical';
+      if (score >= 7) return 'high';
+      if (score >= 4) return 'medium';
+      return 'low';
+    }
+  }
+
+  return 'medium';
+}
+
+const CVSS3_WEIGHTS: Record<string, Record<string, number>> = {
+  AV: { N: 0.85, A: 0.62, L: 0.55, P: 0.2 },
+  AC: { L: 0.77, H: 0.44 },
+  UI: { N: 0.85, R: 0.62 },
+  C: { H: 0.56, L: 0.22, N: 0 },
+  I: { H: 0.56, L: 0.22, N: 0 },
+  A: { H: 0.56, L: 0.22, N: 0 },
+};
+
+/**
+ * CVSS v3.x base score from a vector such as "CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:H/A:H"
+ */
+function cvss3BaseScore(vector: string): number | undefined {
+  const metrics: Record<string, string> = {};
+  for (const part of vector.split('/')) {
+    const [key, value] = part.split(':');
+    metrics[key] = value;
+  }
+
+  const changed = metrics.S === 'C';
+  const pr = { N: 0.85, L: changed ? 0.68 : 0.62, H: changed ? 0.5 : 0.27 }[metrics.PR as 'N' | 'L' | 'H'];
+  const weights = ['AV', 'AC', 'UI', 'C', 'I', 'A'].map(key => CVSS3_WEIGHTS[key][metrics[key]]);
+  if (pr === undefined || weights.some(w => w === undefined)) return undefined;
+
+  const [av, ac, ui, c, i, a] = weights;
+  const iss = 1 - (1 - c) * (1 - i) * (1 - a);
+  const impact = changed ? 7.52 * (iss - 0.029) - 3.25 * Math.pow(iss - 0.02, 15) : 6.42 * iss;
+  if (impact <= 0) return 0;
+
+  const exploitability = 8.22 * av * ac * pr * ui;
+  const roundUp = (n: number) => Math.ceil(n * 10) / 10;
+  return changed
+    ? roundUp(Math.min(1.08 * (impact + exploitability), 10))
+    : roundUp(Math.min(impact + exploitability, 10));
+}
+
+export const vulnDatabase = new VulnDatabase();
@@ -16,6 +16,9 @@ import { exec } from 'child_process';
 import { promisify } from 'util';
 import { AIProvider } from '../providers/base';
 import { AICache } from '../core/ai-cache';
+import { GitDiff, parseUnifiedDiff } from '../core/diff-scope';
+
+export { GitDiff, DiffHunk, DiffChange } from '../core/diff-scope';
 
 const execAsync = promisify(exec);
 
@@ -38,39 +41,6 @@ export type ReviewCategory =
   | 'accessibility'
   | 'best-practice';
 
-/**
- * Git Diff
- */
-export interface GitDiff {
-  file: string;
-  oldPath?: string;
-  newPath?: string;
-  status: 'added' | 'modified' | 'deleted' | 'renamed';
-  hunks: DiffHunk[];
-  additions: number;
-  deletions: number;
-}
-
-/**
- * Diff Hunk (section of changed code)
- */
-export interface DiffHunk {
-  oldStart: number;
-  oldLines: number;
-  newStart: number;
-  newLines: number;
-  changes: DiffChange[];
-}
-
-/**
- * Single line change
- */
-export interface DiffChange {
-  type: 'add' | 'delete' | 'context';
-  lineNumber: number;
-  content: string;
-}
-
 /**
  * Review Comment
  */
@@ -213,7 +183,7 @@ export class CodeReviewEngine {
       const { stdout } = await execAsync(command, { cwd: this.repoPath });
 
       // Parse diff output
-      const parsed = this.parseDiff(stdout);
+      const parsed = parseUnifiedDiff(stdout);
       diffs.push(...parsed);
     } catch (error: any) {
       console.warn('Git diff failed:', error.message);
@@ -290,101 +260,6 @@ export class CodeReviewEngine {
     return this.parseAssessmentResponse(response.content, comments);
   }
 
-  /**
-   * Parse git diff output
-   */
-  private parseDiff(diffOutput: string): GitDiff[] {
-    const diffs: GitDiff[] = [];
-    const files = diffOutput.split('diff --git');
-
-    for (const fileContent of files) {
-      if (!fileContent.trim()) continue;
-
-      const diff = this.parseFileDiff(fileContent);
-      if (diff) {
-        diffs.push(diff);
-      }
-    }
-
-    return diffs;
-  }
-
-  /**
-   * Parse single file diff
-   */
-  private parseFileDiff(content: string): GitDiff | null {
-    const lines = content.split('\n');
-
-    // Extract file paths
-    const fileMatch = lines[0]?.match(/a\/(.+) b\/(.+)/);
-    if (!fileMatch) return null;
-
-    const oldPath = fileMatch[1];
-    const newPath = fileMatch[2];
-
-    // Determine status
-    let status: GitDiff['status'] = 'modified';
-    if (content.includes('new file mode')) status = 'added';
-    if (content.includes('deleted file mode')) status = 'deleted';
-    if (oldPath !== newPath) status = 'renamed';
-
-    // Parse hunks
-    const hunks: DiffHunk[] = [];
-    let currentHunk: DiffHunk | null = null;
-
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i];
-
-      // Hunk header: @@ -oldStart,oldLines +newStart,newLines @@
-      const hunkMatch = line.match(/^@@ -(\d+),(\d+) \+(\d+),(\d+) @@/);
-      if (hunkMatch) {
-        if (currentHunk) hunks.push(currentHunk);
-        currentHunk = {
-          oldStart: parseInt(hunkMatch[1]),
-          oldLines: parseInt(hunkMatch[2]),
-          newStart: parseInt(hunkMatch[3]),
-          newLines: parseInt(hunkMatch[4]),
-          changes: []
-        };
-        continue;
-      }
-
-      // Changes within hunk
-      if (currentHunk && (line[0] === '+' || line[0] === '-' || line[0] === ' ')) {
-        const type = line[0] === '+' ? 'add' : line[0] === '-' ? 'delete' : 'context';
-        const lineNumber = type === 'delete'
-          ? currentHunk.oldStart + currentHunk.changes.filter(c => c.type !== 'add').length
-          : currentHunk.newStart + currentHunk.changes.filter(c => c.type !== 'delete').length;
-
-        currentHunk.changes.push({
-          type,
-          lineNumber,
-          content: line.substring(1)
-        });
-      }
-    }
-
-    if (currentHunk) hunks.push(currentHunk);
-
-    // Count additions/deletions
-    const additions = hunks.reduce((sum, h) =>
-      sum + h.changes.filter(c => c.type === 'add').length, 0
-    );
-    const deletions = hunks.reduce((sum, h) =>
-      sum + h.changes.filter(c => c.type === 'delete').length, 0
-    );
-
-    return {
-      file: newPath,
-      oldPath: oldPath !== newPath ? oldPath : undefined,
-      newPath,
-      status,
-      hunks,
-      additions,
-      deletions
-    };
-  }
-
   /**
    * Build review prompt for AI
    */
@@ -3,6 +3,7 @@ import * as path from 'path';
 import { AIProvider, AIMessage } from '../providers/base';
 import { CodebaseIndexer } from '../core/codebase-indexer';
 import { AICache } from '../core/ai-cache';
+import { isOutboundDryRun } from '../utils/error-handler';
 import { ASTParser, ParsedFile, ParsedFunction, ParsedClass } from '../core/ast-parser';
 
 export type DocumentationType = 'readme' | 'api' | 'architecture' | 'contributing' | 'changelog';
@@ -827,6 +828,7 @@ Return ONLY the Mermaid code, no explanation or markdown formatting.`,
         description: `${type.charAt(0).toUpperCase() + type.slice(1)} diagram showing project structure`,
       };
     } catch (error) {
+      if (isOutboundDryRun(error)) throw error;
       console.error(`Failed to generate ${type} diagram:`, error);
       return null;
     }
@@ -4,6 +4,7 @@ import { ASTParser, ParsedFunction } from '../core/ast-parser';
 import { ContextBuilder } from '../core/context-builder';
 import { CodebaseIndexer } from '../core/codebase-indexer';
 import { AICache } from '../core/ai-cache';
+import { isOutboundDryRun } from '../utils/error-handler';
 
 /**
  * Security issue interface
@@ -116,6 +117,7 @@ export class FixSuggestionsGenerator {
             const fix = await this.generateFix(issue);
             return { issue, fix };
           } catch (error) {
+            if (isOutboundDryRun(error)) throw error;
             console.warn(`Failed to generate fix for ${issue.file}:${issue.line}:`, error);
             return null;
           }
@@ -243,8 +245,8 @@ IMPORTANT: Respond ONLY with valid JSON. No markdown, no code blocks, just JSON.
       // Ensure all required fields exist
       return {
         explanation: fix.explanation || 'No explanation provided',
-        fixedCode: fix.fixedCode || fix.fix || '',
-        alternatives: fix.alternatives || [],
+        fixedCode: this.provider.restoreRedacted(fix.fixedCode || fix.fix || ''),
+        alternatives: (fix.alternatives || []).map((alternative: string) => this.provider.restoreRedacted(alternative)),
         bestPractices: fix.bestPractices || [],
         confidence: fix.confidence || 0.7,
         testable: fix.testable !== false,
@@ -697,7 +697,7 @@ Return JSON format with migrated code, changes, and any issues.`;
         return {
           file: filePath,
           originalContent,
-          migratedContent: parsed.migratedCode || originalContent,
+          migratedContent: parsed.migratedCode ? this.aiProvider.restoreRedacted(parsed.migratedCode) : originalContent,
           changes: parsed.changes || [],
           issues: parsed.issues || [],
           success: true,
@@ -10,6 +10,7 @@ import * as path from 'path';
 import { AIProvider } from '../providers/base';
 import { ASTParser, ParsedFunction, ParsedClass } from '../core/ast-parser';
 import { CodebaseIndexer } from '../core/codebase-indexer';
+import { isOutboundDryRun } from '../utils/error-handler';
 import { AICache } from '../core/ai-cache';
 
 // ============================================================================
@@ -538,6 +539,7 @@ export class RefactoringSuggestionsEngine {
         const filePatterns = await this.suggestPatterns(file);
         patterns.push(...filePatterns);
       } catch (error) {
+        if (isOutboundDryRun(error)) throw error;
         console.error(`Error getting patterns for ${file}:`, error);
       }
     }
@@ -645,6 +647,11 @@ Provide refactored code in JSON format:
   private parseRefactoredResponse(response: string, file: string, smell: CodeSmell): RefactoredCode {
     try {
       const parsed = JSON.parse(response);
+      for (const refactoredFile of parsed.refactored?.files || []) {
+        if (typeof refactoredFile?.content === 'string') {
+          refactoredFile.content = this.aiProvider.restoreRedacted(refactoredFile.content);
+        }
+      }
       return {
         original: {
           file,
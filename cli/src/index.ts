@@ -6,7 +6,13 @@ import { runCommand } from "./commands/run";
 import { scanCommand } from "./commands/scan";
 import { securityCommand } from "./commands/security";
 import { testCommand } from "./commands/test";
-import { sbomCommand } from "./commands/sbom";
+import { sbomCommand, sbomDiffCommand, sbomScanCommand } from "./commands/sbom";
+import { vulndbImportCommand, vulndbStatusCommand } from "./commands/vulndb";
+import { depsWhyCommand } from "./commands/deps";
+import { vexAddCommand, vexListCommand } from "./commands/vex";
+import { licensesNoticesCommand } from "./commands/licenses";
+import { secretsHistoryCommand } from "./commands/secrets";
+import { hooksInstallCommand, hooksRunCommand, hooksUninstallCommand } from "./commands/hooks";
 import { perfCommand } from "./commands/perf";
 import { mutationCommand } from "./commands/mutation";
 import { rulesCommand } from "./commands/rules";
@@ -22,6 +28,7 @@ import { refactorCommand } from "./commands/refactor";
 import { threatModelCommand } from "./commands/threat-model";
 import { migrateCommand } from "./commands/migrate";
 import { reviewCommand } from "./commands/review";
+import { outboundAudit } from "./core/outbound-redaction";
 import { checkForUpdates } from "./utils/version";
 import { displayLogo } from "./utils/ascii-art";
 
@@ -34,7 +41,17 @@ program
     "GuardScan - Privacy-first AI Code Review CLI with comprehensive security scanning"
   )
   .version(packageJson.version)
-  .option("--no-telemetry", "Disable telemetry for this command");
+  .option("--no-telemetry", "Disable telemetry for this command")
+  .option("--show-outbound", "Print each AI request, after redaction, instead of sending it");
+
+// Every AI request a command makes is redacted and logged under its name
+program.hook("preAction", (_program, actionCommand) => {
+  const names: string[] = [];
+  for (let command: Command | null = actionCommand; command && command !== program; command = command.parent) {
+    names.unshift(command.name());
+  }
+  outboundAudit.begin(names.join(" "), { showOutbound: !!program.opts().showOutbound });
+});
 
 program
   .command("init")
@@ -65,6 +82,13 @@ program
   .option("--coverage", "Include code coverage analysis")
   .option("--licenses", "Include license compliance scanning")
   .option("--no-cloud", "Skip cloud credit validation")
+  .option("--format <format>", "Report format (markdown or sarif)", "markdown")
+  .option("--baseline <file>", "Compare findings against a saved baseline (new, unchanged, fixed)")
+  .option("--baseline-save <file>", "Save current findings as a baseline")
+  .option("--fail-on <severity>", "Exit 1 when findings at or above severity exceed --max-findings (critical, high, medium, low)")
+  .option("--max-findings <n>", "Number of counted findings allowed before failing (default: 0)")
+  .option("--no-cache", "Rescan every file instead of reusing cached results for unchanged files")
+  .option("--reachable-only", "Drop dependency vulnerabilities in packages that are never imported or whose affected functions are never called")
   .action(scanCommand);
 
 program
@@ -75,6 +99,16 @@ program
   .option("--ai-fix", "Generate AI-powered fix suggestions")
   .option("--interactive", "Interactively review and apply fixes")
   .option("--debug", "Enable verbose debug logging")
+  .option("--format <format>", "Report format (markdown or sarif)", "markdown")
+  .option("--baseline <file>", "Compare findings against a saved baseline (new, unchanged, fixed)")
+  .option("--baseline-save <file>", "Save current findings as a baseline")
+  .option("--fail-on <severity>", "Exit 1 when findings at or above severity exceed --max-findings (critical, high, medium, low)")
+  .option("--max-findings <n>", "Number of counted findings allowed before failing (default: 0)")
+  .option("--no-cache", "Rescan every file instead of reusing cached results for unchanged files")
+  .option("--changed-since <ref>", "Only scan files changed since a git ref (merge base with the working tree)")
+  .option("--staged", "Only scan files staged for commit")
+  .option("--changed-lines-only", "With --changed-since/--staged, keep only findings on added or modified lines")
+  .option("--reachable-only", "Drop dependency vulnerabilities in packages that are never imported or whose affected functions are never called")
   .action((options) => {
     // Set GUARDSCAN_DEBUG environment variable if --debug flag is present
     if (options.debug) {
@@ -91,15 +125,122 @@ program
   .option("--smells", "Detect code smells only")
   .option("--lint", "Run linters only")
   .option("--all", "Run all quality checks")
+  .option("--changed-since <ref>", "Only scan files changed since a git ref (merge base with the working tree)")
+  .option("--staged", "Only scan files staged for commit")
+  .option("--changed-lines-only", "With --changed-since/--staged, keep only findings on added or modified lines")
   .action(testCommand);
 
-program
+const sbom = program
   .command("sbom")
   .description("Generate Software Bill of Materials (SBOM)")
   .option("-o, --output <path>", "Output file path")
-  .option("-f, --format <format>", "SBOM format (spdx or cyclonedx)", "spdx")
+  .option("-f, --format <format>", "SBOM format (spdx, spdx-tag-value, cyclonedx or cyclonedx-xml)", "spdx")
+  .option("--vex", "Also write a VEX document (CycloneDX VEX or OpenVEX) from the repository's VEX statements")
   .action(sbomCommand);
 
+sbom
+  .command("diff <old> <new>")
+  .description("Compare two CycloneDX or SPDX SBOMs: package, version, license and vulnerability changes")
+  .option("--fail-on <severity>", "Exit 1 when newly vulnerable components at or above severity exceed --max-findings (critical, high, medium, low)")
+  .option("--max-findings <n>", "Number of counted findings allowed before failing (default: 0)")
+  .action(sbomDiffCommand);
+
+sbom
+  .command("scan <file>")
+  .description("Check a CycloneDX or SPDX SBOM for vulnerabilities and license policy violations")
+  .option("--fail-on <severity>", "Exit 1 when findings at or above severity exceed --max-findings (critical, high, medium, low)")
+  .option("--max-findings <n>", "Number of counted findings allowed before failing (default: 0)")
+  .action(sbomScanCommand);
+
+const vulndb = program
+  .command("vulndb")
+  .description("Manage the offline vulnerability database used for dependency scanning");
+
+vulndb
+  .command("import <source>")
+  .description("Import OSV advisories from a directory or .zip dump")
+  .action(vulndbImportCommand);
+
+vulndb
+  .command("status")
+  .description("Show imported ecosystems and advisory counts")
+  .action(vulndbStatusCommand);
+
+const vex = program
+  .command("vex")
+  .description("Record whether dependency vulnerabilities affect this project (OpenVEX statements in .guardscan/vex.json)");
+
+vex
+  .command("add <vulnerability>")
+  .description("Add a VEX statement for a CVE or advisory ID")
+  .option("--package <purl>", "Package the statement covers, e.g. pkg:npm/lodash or pkg:npm/lodash@4.17.20")
+  .option("--versions <range>", "Version range as a vers string, e.g. \"vers:npm/>=4.0.0|<4.17.21\" (default: every version)")
+  .option("--status <status>", "not_affected, affected, fixed or under_investigation")
+  .option("--justification <justification>", "Why it is not_affected: component_not_present, vulnerable_code_not_present, vulnerable_code_not_in_execute_path, vulnerable_code_cannot_be_controlled_by_adversary or inline_mitigations_already_exist")
+  .option("--impact <statement>", "Free-text explanation of why the vulnerability does not affect the project")
+  .option("--action <statement>", "What to do about an affected vulnerability")
+  .option("--author <author>", "Statement author (default: git user.name and user.email)")
+  .action(vexAddCommand);
+
+vex
+  .command("list")
+  .description("List the recorded VEX statements")
+  .action(vexListCommand);
+
+const licenses = program
+  .command("licenses")
+  .description("Produce license compliance artifacts for dependencies");
+
+licenses
+  .command("notices")
+  .description("Write a THIRD_PARTY_NOTICES file with the copyright notices, NOTICE files and license texts of production dependencies")
+  .option("-o, --output <path>", "Output file path (default: THIRD_PARTY_NOTICES.md, .txt or .html)")
+  .option("-f, --format <format>", "Notices format (markdown, text or html)", "markdown")
+  .action(licensesNoticesCommand);
+
+const secrets = program
+  .command("secrets")
+  .description("Inspect secrets committed to the repository");
+
+secrets
+  .command("history")
+  .description("List secrets added in git history that have since been deleted from HEAD")
+  .option("--since <ref>", "Only scan commits after this ref (<ref>..HEAD)")
+  .option("--commits <range>", "Only scan this revision range, e.g. v1.2.0..main")
+  .option("--all", "Scan every commit instead of the most recent 100")
+  .option("--incremental", "Scan every commit once, then only commits added since the last incremental run")
+  .action(secretsHistoryCommand);
+
+const hooks = program
+  .command("hooks")
+  .description("Block secrets and high-severity rule violations before they are committed or pushed");
+
+hooks
+  .command("install")
+  .description("Install pre-commit, commit-msg and pre-push hooks (or add them to .pre-commit-config.yaml / husky)")
+  .option("--force", "Replace existing git hooks, keeping them as <hook>.pre-guardscan and running them first")
+  .action(hooksInstallCommand);
+
+hooks
+  .command("uninstall")
+  .description("Remove the GuardScan hooks and restore hooks they replaced")
+  .action(hooksUninstallCommand);
+
+// Called by the installed hooks
+hooks
+  .command("run <hook> [args...]", { hidden: true })
+  .action(hooksRunCommand);
+
+const deps = program
+  .command("deps")
+  .description("Inspect the dependency graph recorded in lockfiles");
+
+deps
+  .command("why <package>")
+  .description("Show the dependency chains that install a package (name or name@version)")
+  .option("--all", "List every path instead of the first few")
+  .action(depsWhyCommand);
+
 program
   .command("perf")
   .description("Run performance testing")
@@ -108,8 +249,8 @@ program
   .option("--web <url>", "Run Lighthouse audit on URL")
   .option("--baseline", "Save results as baseline")
   .option("--compare", "Compare with baseline")
-  .option("--duration <duration>", "Test duration (e.g., 30s, 1m)", "30s")
-  .option("--vus <number>", "Virtual users", "10")
+  .option("--duration <duration>", "Test duration (e.g., 30s, 1m; default: 30s)")
+  .option("--vus <number>", "Virtual users (default: 10)")
   .option("--url <url>", "Target URL for load/stress test")
   .action(perfCommand);
 
@@ -121,7 +262,7 @@ program
     "Mutation framework (stryker, mutmut, pitest, auto)",
     "auto"
   )
-  .option("--threshold <number>", "Minimum mutation score (0-100)", "80")
+  .option("--threshold <number>", "Minimum mutation score (0-100, default: 80)")
   .option("--files <files>", "Comma-separated list of files to mutate")
   .option("--test-command <command>", "Custom test command")
   .option("--timeout <ms>", "Timeout per test in milliseconds", "5000")
@@ -140,6 +281,12 @@ program
     "--export <rule:path>",
     "Export a rule to file (format: ruleId:outputPath)"
   )
+  .option("--format <format>", "Results format (json or sarif)", "json")
+  .option("--fail-on <severity>", "Exit 1 when findings at or above severity exceed --max-findings (critical, high, medium, low)")
+  .option("--max-findings <n>", "Number of counted findings allowed before failing (default: 0)")
+  .option("--changed-since <ref>", "Only scan files changed since a git ref (merge base with the working tree)")
+  .option("--staged", "Only scan files staged for commit")
+  .option("--changed-lines-only", "With --changed-since/--staged, keep only findings on added or modified lines")
   .action(rulesCommand);
 
 program
@@ -317,6 +464,8 @@ program
   )
   .option("--report", "Generate full detailed report")
   .option("-o, --output <path>", "Save report to file")
+  .option("--fail-on <severity>", "Exit 1 when findings at or above severity exceed --max-findings (critical, high, medium, low)")
+  .option("--max-findings <n>", "Number of counted findings allowed before failing (default: 0)")
   .action(reviewCommand);
 
 // Display logo when showing help or version
@@ -1,3 +1,5 @@
+import { OutboundRedactor, outboundAudit } from '../core/outbound-redaction';
+
 export interface AIMessage {
   role: 'system' | 'user' | 'assistant';
   content: string;
@@ -40,6 +42,7 @@ export interface ProviderCapabilities {
 export abstract class AIProvider {
   protected apiKey?: string;
   protected apiEndpoint?: string;
+  private redactor = new OutboundRedactor();
 
   constructor(apiKey?: string, apiEndpoint?: string) {
     this.apiKey = apiKey;
@@ -47,9 +50,25 @@ export abstract class AIProvider {
   }
 
   /**
-   * Send messages to AI and get response
+   * Send messages to AI and get response. Secrets and PII are replaced with
+   * placeholders first, whichever provider is used; see restoreRedacted.
+   */
+  async chat(messages: AIMessage[], options?: ChatOptions): Promise<AIResponse> {
+    return this.send(outboundAudit.prepare(this.getName(), messages, this.redactor, options?.model), options);
+  }
+
+  /**
+   * Put values redacted from earlier requests back into generated code
+   * (fixes, refactorings, migrations) before it is shown or applied
    */
-  abstract chat(messages: AIMessage[], options?: ChatOptions): Promise<AIResponse>;
+  restoreRedacted(text: string): string {
+    return this.redactor.restore(text);
+  }
+
+  /**
+   * Send already redacted messages to the provider's API
+   */
+  protected abstract send(messages: AIMessage[], options?: ChatOptions): Promise<AIResponse>;
 
   /**
    * Check if provider is available (has required credentials)
@@ -72,13 +91,14 @@ export abstract class AIProvider {
   abstract getCapabilities(): ProviderCapabilities;
 
   /**
-   * Generate embedding for text
+   * Generate embedding for text. Like chat, the text is redacted and logged first.
    * @param text - Text to embed
    * @param model - Optional embedding model (provider-specific)
    * @returns Embedding vector
    */
   async generateEmbedding(text: string, model?: string): Promise<number[]> {
-    throw new Error(`${this.getName()} does not support embeddings`);
+    const [outbound] = outboundAudit.prepareEmbedding(this.getName(), [text], this.redactor, model);
+    return this.embed(outbound, model);
   }
 
   /**
@@ -88,11 +108,25 @@ export abstract class AIProvider {
    * @returns Array of embedding vectors
    */
   async generateBulkEmbeddings(texts: string[], model?: string): Promise<number[][]> {
+    return this.embedBulk(outboundAudit.prepareEmbedding(this.getName(), texts, this.redactor, model), model);
+  }
+
+  /**
+   * Embed already redacted text with the provider's API
+   */
+  protected async embed(text: string, model?: string): Promise<number[]> {
+    throw new Error(`${this.getName()} does not support embeddings`);
+  }
+
+  /**
+   * Embed already redacted texts (batch)
+   */
+  protected async embedBulk(texts: string[], model?: string): Promise<number[][]> {
     // Default implementation: sequential calls
     // Providers can override with batch API
     const embeddings: number[][] = [];
     for (const text of texts) {
-      const embedding = await this.generateEmbedding(text, model);
+      const embedding = await this.embed(text, model);
       embeddings.push(embedding);
     }
     return embeddings;
@@ -7,6 +7,7 @@ import {
   ProviderCapabilities,
   CostEstimate
 } from './base';
+import { isOutboundDryRun } from '../utils/error-handler';
 
 export class ClaudeProvider extends AIProvider {
   private client: Anthropic;
@@ -22,7 +23,7 @@ export class ClaudeProvider extends AIProvider {
     }
   }
 
-  async chat(messages: AIMessage[], options?: ChatOptions): Promise<AIResponse> {
+  protected async send(messages: AIMessage[], options?: ChatOptions): Promise<AIResponse> {
     // Separate system messages from user/assistant messages
     const systemMessages = messages.filter(m => m.role === 'system');
     const conversationMessages = messages.filter(m => m.role !== 'system');
@@ -67,7 +68,8 @@ export class ClaudeProvider extends AIProvider {
     try {
       await this.chat([{ role: 'user', content: 'test' }], { maxTokens: 10 });
       return true;
-    } catch {
+    } catch (error) {
+      if (isOutboundDryRun(error)) throw error;
       return false;
     }
   }
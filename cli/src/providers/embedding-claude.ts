@@ -9,6 +9,7 @@
 import { BaseEmbeddingProvider, EmbeddingProvider } from '../core/embeddings';
 import { OllamaEmbeddingProvider } from './embedding-ollama';
 import { LMStudioEmbeddingProvider } from './embedding-lmstudio';
+import { isOutboundDryRun } from '../utils/error-handler';
 
 export class ClaudeEmbeddingProvider extends BaseEmbeddingProvider {
   private fallbackProvider: EmbeddingProvider;
@@ -30,10 +31,21 @@ export class ClaudeEmbeddingProvider extends BaseEmbeddingProvider {
     }
   }
 
+  // The fallback provider redacts and logs requests itself; going through
+  // the base class as well would log each request twice
   async generateEmbedding(text: string): Promise<number[]> {
+    return this.embed(text);
+  }
+
+  async generateBulkEmbeddings(texts: string[]): Promise<number[][]> {
+    return this.embedBulk(texts);
+  }
+
+  protected async embed(text: string): Promise<number[]> {
     try {
       return await this.fallbackProvider.generateEmbedding(text);
     } catch (error: any) {
+      if (isOutboundDryRun(error)) throw error;
       const providerName = this.fallbackType === 'ollama' ? 'Ollama' : 'LM Studio';
       if (error.message?.includes('ECONNREFUSED') || error.message?.includes('Cannot connect')) {
         throw new Error(
@@ -45,10 +57,11 @@ export class ClaudeEmbeddingProvider extends BaseEmbeddingProvider {
     }
   }
 
-  async generateBulkEmbeddings(texts: string[]): Promise<number[][]> {
+  protected async embedBulk(texts: string[]): Promise<number[][]> {
     try {
       return await this.fallbackProvider.generateBulkEmbeddings(texts);
     } catch (error: any) {
+      if (isOutboundDryRun(error)) throw error;
       throw new Error(`Claude bulk embedding generation failed (via ${this.fallbackType}): ${error.message}`);
     }
   }
@@ -65,6 +78,7 @@ export class ClaudeEmbeddingProvider extends BaseEmbeddingProvider {
     try {
       return await this.fallbackProvider.testConnection();
     } catch (error) {
+      if (isOutboundDryRun(error)) throw error;
       return false;
     }
   }
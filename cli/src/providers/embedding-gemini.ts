@@ -7,6 +7,7 @@
 
 import { GoogleGenerativeAI } from '@google/generative-ai';
 import { BaseEmbeddingProvider } from '../core/embeddings';
+import { isOutboundDryRun } from '../utils/error-handler';
 
 export class GeminiEmbeddingProvider extends BaseEmbeddingProvider {
   private client: GoogleGenerativeAI;
@@ -24,7 +25,7 @@ export class GeminiEmbeddingProvider extends BaseEmbeddingProvider {
     this.client = new GoogleGenerativeAI(key);
   }
 
-  async generateEmbedding(text: string): Promise<number[]> {
+  protected async embed(text: string): Promise<number[]> {
     try {
       const model = this.client.getGenerativeModel({ model: this.model });
       const result = await model.embedContent(text);
@@ -42,7 +43,7 @@ export class GeminiEmbeddingProvider extends BaseEmbeddingProvider {
     }
   }
 
-  async generateBulkEmbeddings(texts: string[]): Promise<number[][]> {
+  protected async embedBulk(texts: string[]): Promise<number[][]> {
     if (texts.length === 0) return [];
 
     const batches = this.chunk(texts, 50);
@@ -85,6 +86,7 @@ export class GeminiEmbeddingProvider extends BaseEmbeddingProvider {
       await this.generateEmbedding('test');
       return true;
     } catch (error) {
+      if (isOutboundDryRun(error)) throw error;
       return false;
     }
   }
@@ -9,6 +9,7 @@
 
 import axios, { AxiosInstance } from 'axios';
 import { BaseEmbeddingProvider } from '../core/embeddings';
+import { isOutboundDryRun } from '../utils/error-handler';
 
 export interface LMStudioEmbeddingResponse {
   embedding: number[];
@@ -28,7 +29,7 @@ export class LMStudioEmbeddingProvider extends BaseEmbeddingProvider {
     });
   }
 
-  async generateEmbedding(text: string): Promise<number[]> {
+  protected async embed(text: string): Promise<number[]> {
     try {
       const response = await this.client.post<LMStudioEmbeddingResponse>(
         '/v1/embeddings',
@@ -62,7 +63,7 @@ export class LMStudioEmbeddingProvider extends BaseEmbeddingProvider {
     }
   }
 
-  async generateBulkEmbeddings(texts: string[]): Promise<number[][]> {
+  protected async embedBulk(texts: string[]): Promise<number[][]> {
     if (texts.length === 0) return [];
 
     // LM Studio doesn't support bulk requests, so we process in parallel
@@ -73,7 +74,7 @@ export class LMStudioEmbeddingProvider extends BaseEmbeddingProvider {
     for (let i = 0; i < texts.length; i += concurrency) {
       const batch = texts.slice(i, i + concurrency);
       const batchEmbeddings = await Promise.all(
-        batch.map(text => this.generateEmbedding(text))
+        batch.map(text => this.embed(text))
       );
       allEmbeddings.push(...batchEmbeddings);
     }
@@ -96,6 +97,7 @@ export class LMStudioEmbeddingProvider extends BaseEmbeddingProvider {
       await this.generateEmbedding('test');
       return true;
     } catch (error) {
+      if (isOutboundDryRun(error)) throw error;
       return false;
     }
   }
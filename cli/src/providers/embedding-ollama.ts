@@ -8,6 +8,7 @@
 
 import axios, { AxiosInstance } from 'axios';
 import { BaseEmbeddingProvider } from '../core/embeddings';
+import { isOutboundDryRun } from '../utils/error-handler';
 
 export interface OllamaEmbeddingResponse {
   embedding: number[];
@@ -27,7 +28,7 @@ export class OllamaEmbeddingProvider extends BaseEmbeddingProvider {
     });
   }
 
-  async generateEmbedding(text: string): Promise<number[]> {
+  protected async embed(text: string): Promise<number[]> {
     try {
       const response = await this.client.post<OllamaEmbeddingResponse>(
         '/api/embeddings',
@@ -60,7 +61,7 @@ export class OllamaEmbeddingProvider extends BaseEmbeddingProvider {
     }
   }
 
-  async generateBulkEmbeddings(texts: string[]): Promise<number[][]> {
+  protected async embedBulk(texts: string[]): Promise<number[][]> {
     if (texts.length === 0) return [];
 
     // Ollama doesn't support bulk requests, so we process in parallel
@@ -71,7 +72,7 @@ export class OllamaEmbeddingProvider extends BaseEmbeddingProvider {
     for (let i = 0; i < texts.length; i += concurrency) {
       const batch = texts.slice(i, i + concurrency);
       const batchEmbeddings = await Promise.all(
-        batch.map(text => this.generateEmbedding(text))
+        batch.map(text => this.embed(text))
       );
       allEmbeddings.push(...batchEmbeddings);
     }
@@ -94,6 +95,7 @@ export class OllamaEmbeddingProvider extends BaseEmbeddingProvider {
       await this.generateEmbedding('test');
       return true;
     } catch (error) {
+      if (isOutboundDryRun(error)) throw error;
       return false;
     }
   }
@@ -7,6 +7,7 @@
 
 import OpenAI from 'openai';
 import { BaseEmbeddingProvider } from '../core/embeddings';
+import { isOutboundDryRun } from '../utils/error-handler';
 
 export class OpenAIEmbeddingProvider extends BaseEmbeddingProvider {
   private client: OpenAI;
@@ -20,7 +21,7 @@ export class OpenAIEmbeddingProvider extends BaseEmbeddingProvider {
     });
   }
 
-  async generateEmbedding(text: string): Promise<number[]> {
+  protected async embed(text: string): Promise<number[]> {
     try {
       const response = await this.client.embeddings.create({
         model: this.model,
@@ -34,7 +35,7 @@ export class OpenAIEmbeddingProvider extends BaseEmbeddingProvider {
     }
   }
 
-  async generateBulkEmbeddings(texts: string[]): Promise<number[][]> {
+  protected async embedBulk(texts: string[]): Promise<number[][]> {
     if (texts.length === 0) return [];
 
     // OpenAI allows up to 2048 inputs per request, but we'll use 100 for safety
@@ -74,6 +75,7 @@ export class OpenAIEmbeddingProvider extends BaseEmbeddingProvider {
       await this.generateEmbedding('test');
       return true;
     } catch (error) {
+      if (isOutboundDryRun(error)) throw error;
       return false;
     }
   }
@@ -24,7 +24,7 @@ export class GeminiProvider extends AIProvider {
     }
   }
 
-  async chat(
+  protected async send(
     messages: AIMessage[],
     options?: ChatOptions
   ): Promise<AIResponse> {
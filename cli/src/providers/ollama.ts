@@ -17,7 +17,7 @@ export class OllamaProvider extends AIProvider {
     this.endpoint = endpoint || process.env.OLLAMA_ENDPOINT || 'http://localhost:11434';
   }
 
-  async chat(messages: AIMessage[], options?: ChatOptions): Promise<AIResponse> {
+  protected async send(messages: AIMessage[], options?: ChatOptions): Promise<AIResponse> {
     const response = await axios.post(`${this.endpoint}/api/chat`, {
       model: options?.model || this.defaultModel,
       messages: messages.map(msg => ({
@@ -63,7 +63,7 @@ export class OllamaProvider extends AIProvider {
   /**
    * Generate embedding using Ollama's API
    */
-  async generateEmbedding(text: string, model?: string): Promise<number[]> {
+  protected async embed(text: string, model?: string): Promise<number[]> {
     const embeddingModel = model || this.defaultModel;
 
     const response = await axios.post(`${this.endpoint}/api/embeddings`, {
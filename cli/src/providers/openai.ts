@@ -7,6 +7,7 @@ import {
   ProviderCapabilities,
   CostEstimate
 } from './base';
+import { isOutboundDryRun } from '../utils/error-handler';
 
 export class OpenAIProvider extends AIProvider {
   private client: OpenAI;
@@ -23,7 +24,7 @@ export class OpenAIProvider extends AIProvider {
     }
   }
 
-  async chat(messages: AIMessage[], options?: ChatOptions): Promise<AIResponse> {
+  protected async send(messages: AIMessage[], options?: ChatOptions): Promise<AIResponse> {
     const response = await this.client.chat.completions.create({
       model: options?.model || this.defaultModel,
       messages: messages.map(msg => ({
@@ -69,7 +70,8 @@ export class OpenAIProvider extends AIProvider {
     try {
       await this.chat([{ role: 'user', content: 'test' }], { maxTokens: 10 });
       return true;
-    } catch {
+    } catch (error) {
+      if (isOutboundDryRun(error)) throw error;
       return false;
     }
   }
@@ -87,7 +89,7 @@ export class OpenAIProvider extends AIProvider {
   /**
    * Generate embedding using OpenAI's API
    */
-  async generateEmbedding(text: string, model?: string): Promise<number[]> {
+  protected async embed(text: string, model?: string): Promise<number[]> {
     const embeddingModel = model || this.defaultEmbeddingModel;
 
     const response = await this.client.embeddings.create({
@@ -101,7 +103,7 @@ export class OpenAIProvider extends AIProvider {
   /**
    * Generate embeddings in batch (more efficient)
    */
-  async generateBulkEmbeddings(texts: string[], model?: string): Promise<number[][]> {
+  protected async embedBulk(texts: string[], model?: string): Promise<number[][]> {
     const embeddingModel = model || this.defaultEmbeddingModel;
 
     const response = await this.client.embeddings.create({
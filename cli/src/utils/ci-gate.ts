@@ -0,0 +1,181 @@
+import chalk from 'chalk';
+import { GuardScanError } from './error-handler';
+
+/**
+ * Process exit codes for CI use. Each code means exactly one thing.
+ */
+export const EXIT_CODES = {
+  SUCCESS: 0,
+  THRESHOLD_EXCEEDED: 1,   // Findings counted toward --fail-on / --max-findings exceed the limit
+  SCANNER_ERROR: 2,        // A scanner or the command itself failed at runtime
+  CONFIG_ERROR: 3,         // Invalid flags, config or input files
+} as const;
+
+export const CONFIG_ERROR_CODE = 'CONFIG_ERROR';
+
+export type GateSeverity = 'critical' | 'high' | 'medium' | 'low';
+
+const GATE_SEVERITIES: GateSeverity[] = ['critical', 'high', 'medium', 'low'];
+const SEVERITY_RANK: Record<string, number> = { info: 0, low: 1, medium: 2, high: 3, critical: 4 };
+
+export interface GateOptions {
+  failOn?: string;
+  maxFindings?: string | number;
+}
+
+export interface CIGate {
+  failOn?: GateSeverity;
+  maxFindings: number;
+}
+
+export type GateStatus = 'pass' | 'fail' | 'error';
+
+export interface GateSummary {
+  command: string;
+  status: GateStatus;
+  exitCode: number;
+  findings: number;
+  counted: number;
+  failOn: GateSeverity | null;
+  maxFindings: number | null;
+  baseline: boolean;
+  severity: Record<string, number>;
+  scannerErrors: string[];
+  error?: string;
+}
+
+/**
+ * Build a configuration error (exit code 3)
+ */
+export function configError(message: string, cause?: Error): GuardScanError {
+  return new GuardScanError(message, CONFIG_ERROR_CODE, cause);
+}
+
+/**
+ * Parse --fail-on / --max-findings. Returns undefined when neither flag is set.
+ * --fail-on alone fails on any finding at or above the severity;
+ * --max-findings alone counts findings of every severity.
+ */
+export function parseGateOptions(options: GateOptions): CIGate | undefined {
+  if (options.failOn === undefined && options.maxFindings === undefined) {
+    return undefined;
+  }
+
+  let failOn: GateSeverity | undefined;
+  if (options.failOn !== undefined) {
+    const value = String(options.failOn).toLowerCase() as GateSeverity;
+    if (!GATE_SEVERITIES.includes(value)) {
+      throw configError(`Invalid --fail-on value "${options.failOn}". Expected one of: ${GATE_SEVERITIES.join(', ')}`);
+    }
+    failOn = value;
+  }
+
+  let maxFindings = 0;
+  if (options.maxFindings !== undefined) {
+    const raw = String(options.maxFindings).trim();
+    maxFindings = Number(raw);
+    if (!/^\d+$/.test(raw) || !Number.isSafeInteger(maxFindings)) {
+      throw configError(`Invalid --max-findings value "${options.maxFindings}". Expected a non-negative integer`);
+    }
+  }
+
+  return { failOn, maxFindings };
+}
+
+/**
+ * Evaluate findings against the gate. When `newFindings` is given (baseline
+ * comparison), only those count toward the threshold.
+ * Precedence is deterministic: scanner errors (2) win over an exceeded threshold (1),
+ * since partial results cannot prove the threshold holds.
+ */
+export function evaluateGate(
+  command: string,
+  gate: CIGate | undefined,
+  findings: Array<{ severity: string }>,
+  options: { scannerErrors?: string[]; newFindings?: Array<{ severity: string }> } = {}
+): GateSummary {
+  const scannerErrors = options.scannerErrors || [];
+  const gated = options.newFindings || findings;
+  const severity: Record<string, number> = { critical: 0, high: 0, medium: 0, low: 0, info: 0 };
+  for (const finding of findings) {
+    severity[finding.severity] = (severity[finding.severity] || 0) + 1;
+  }
+
+  const minRank = gate?.failOn ? SEVERITY_RANK[gate.failOn] : 0;
+  const counted = gate
+    ? gated.filter(f => (SEVERITY_RANK[f.severity] ?? 0) >= minRank).length
+    : 0;
+
+  let exitCode: number = EXIT_CODES.SUCCESS;
+  if (gate && scannerErrors.length > 0) {
+    exitCode = EXIT_CODES.SCANNER_ERROR;
+  } else if (gate && counted > gate.maxFindings) {
+    exitCode = EXIT_CODES.THRESHOLD_EXCEEDED;
+  }
+
+  return {
+    command,
+    status: exitCode === EXIT_CODES.SUCCESS ? 'pass' : exitCode === EXIT_CODES.THRESHOLD_EXCEEDED ? 'fail' : 'error',
+    exitCode,
+    findings: findings.length,
+    counted,
+    failOn: gate?.failOn || null,
+    maxFindings: gate ? gate.maxFindings : null,
+    baseline: !!options.newFindings,
+    severity,
+    scannerErrors,
+  };
+}
+
+/**
+ * Summary for a command that aborted before producing findings
+ */
+export function errorSummary(command: string, gate: CIGate | undefined, error: unknown): GateSummary {
+  return {
+    command,
+    status: 'error',
+    exitCode: exitCodeForError(error),
+    findings: 0,
+    counted: 0,
+    failOn: gate?.failOn || null,
+    maxFindings: gate ? gate.maxFindings : null,
+    baseline: false,
+    severity: {},
+    scannerErrors: [],
+    error: error instanceof Error ? error.message : String(error),
+  };
+}
+
+/**
+ * Map a fatal command error to its exit code
+ */
+export function exitCodeForError(error: unknown): number {
+  return error instanceof GuardScanError && error.code === CONFIG_ERROR_CODE
+    ? EXIT_CODES.CONFIG_ERROR
+    : EXIT_CODES.SCANNER_ERROR;
+}
+
+/**
+ * Write the one-line machine-readable summary to stderr
+ */
+export function emitGateSummary(summary: GateSummary): void {
+  process.stderr.write(`guardscan-summary ${JSON.stringify(summary)}\n`);
+}
+
+/**
+ * Print the gate outcome for humans; silent when no gate is configured
+ */
+export function displayGateResult(summary: GateSummary): void {
+  if (summary.maxFindings === null) {
+    return;
+  }
+
+  const threshold = `${summary.failOn || 'any'} severity, max ${summary.maxFindings}`;
+  if (summary.scannerErrors.length > 0) {
+    console.log(chalk.red(`\n✗ CI gate error: scanner(s) failed: ${summary.scannerErrors.join(', ')}`));
+  } else if (summary.status === 'fail') {
+    console.log(chalk.red(`\n✗ CI gate failed: ${summary.counted} finding(s) counted (${threshold})`));
+  } else {
+    console.log(chalk.green(`\n✓ CI gate passed: ${summary.counted} finding(s) counted (${threshold})`));
+  }
+}
@@ -3,6 +3,9 @@ import { createDebugLogger } from './debug-logger';
 
 const logger = createDebugLogger('error-handler');
 
+// Thrown once --show-outbound has printed an AI request instead of sending it
+export const OUTBOUND_DRY_RUN_CODE = 'OUTBOUND_DRY_RUN';
+
 export class GuardScanError extends Error {
   constructor(
     message: string,
@@ -14,6 +17,14 @@ export class GuardScanError extends Error {
   }
 }
 
+/**
+ * Whether an error is the stop signal of a --show-outbound dry run, which
+ * callers that fall back on AI failures must rethrow rather than handle
+ */
+export function isOutboundDryRun(error: unknown): error is GuardScanError {
+  return error instanceof GuardScanError && error.code === OUTBOUND_DRY_RUN_CODE;
+}
+
 export function logError(context: string, error: unknown): void {
   const err = error instanceof Error ? error : new Error(String(error));
   console.error(`[${context}] Error:`, err.message);
@@ -39,6 +50,12 @@ export function handleCommandError(
   context: string,
   exitCode: number = 1
 ): never {
+  // A dry run that stopped where it should, not a failure
+  if (isOutboundDryRun(error)) {
+    console.log(chalk.gray(`\n${error.message}`));
+    process.exit(0);
+  }
+
   // Log error with debug logger
   const errorData = error instanceof Error 
     ? { message: error.message, code: (error as any).code, stack: error.stack }
@@ -0,0 +1,64 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Finding identity helpers
+ *
+ * Shared by SARIF fingerprints, finding baselines, suppressions and
+ * severity overrides so they agree on what counts as the same finding.
+ */
+
+/**
+ * Normalize rule IDs and categories for comparison ("SQL Injection" == "sql-injection")
+ */
+export function normalizeRuleId(id: string): string {
+  return id.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Fingerprint anchor: whitespace-normalized line content, or the fallback
+ * (usually the message) when the source line can't be read
+ */
+export function fingerprintAnchor(lineContent: string | undefined, fallback: string): string {
+  return lineContent !== undefined
+    ? lineContent.replace(/\s+/g, ' ').trim()
+    : fallback;
+}
+
+/**
+ * Per-file line cache for resolving finding locations to source text
+ */
+export class SourceLineCache {
+  private files = new Map<string, string[] | null>();
+
+  constructor(private readonly repoRoot: string = process.cwd()) {}
+
+  /**
+   * Read a file's lines; null if it can't be read
+   */
+  readLines(file: string): string[] | null {
+    const absolute = path.resolve(this.repoRoot, file);
+
+    if (!this.files.has(absolute)) {
+      try {
+        this.files.set(absolute, fs.readFileSync(absolute, 'utf-8').split('\n'));
+      } catch {
+        this.files.set(absolute, null);
+      }
+    }
+
+    return this.files.get(absolute)!;
+  }
+
+  /**
+   * Read a single 1-based line from a file
+   */
+  readLine(file: string, line: number): string | undefined {
+    const lines = this.readLines(file);
+    return lines ? lines[line - 1] : undefined;
+  }
+
+  clear(): void {
+    this.files.clear();
+  }
+}
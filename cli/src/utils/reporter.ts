@@ -4,12 +4,21 @@ import { marked } from 'marked';
 import { LOCResult } from '../core/loc-counter';
 import { RepositoryInfo } from '../core/repository';
 import { chartGenerator, SeveritySummary, ComplexityData } from './chart-generator';
+import { SarifReporter } from './sarif';
+import { configError } from './ci-gate';
+import { BaselineComparison } from '../core/finding-baseline';
+import { SuppressedFinding, SuppressionWarning } from '../core/suppressions';
+import { ScanCacheStats, describeCacheStats } from '../core/scan-cache';
+import { Reachability } from '../core/dependency-scanner';
 
 export interface ReviewResult {
   summary: string;
   findings: Finding[];
   recommendations: string[];
   metadata: ReviewMetadata;
+  baseline?: BaselineComparison;
+  suppressed?: SuppressedFinding[];
+  suppressionWarnings?: SuppressionWarning[];
 }
 
 export interface Finding {
@@ -17,8 +26,14 @@ export interface Finding {
   category: string;
   file: string;
   line?: number;
+  column?: number;
+  ruleId?: string;
   description: string;
   suggestion?: string;
+  reachability?: Reachability; // Dependency findings only
+  // Git history secret findings only: the commit that added the secret and the secret's fingerprint
+  commit?: string;
+  fingerprint?: string;
 }
 
 export interface ReviewMetadata {
@@ -28,8 +43,11 @@ export interface ReviewMetadata {
   provider: string;
   model: string;
   durationMs: number;
+  cache?: ScanCacheStats;
 }
 
+export type ReportFileFormat = 'markdown' | 'html' | 'sarif';
+
 export class Reporter {
   /**
    * Generate Markdown report
@@ -48,7 +66,11 @@ export class Reporter {
     markdown += `- **Timestamp:** ${new Date(metadata.timestamp).toLocaleString()}\n`;
     markdown += `- **AI Provider:** ${metadata.provider}\n`;
     markdown += `- **Model:** ${metadata.model}\n`;
-    markdown += `- **Duration:** ${(metadata.durationMs / 1000).toFixed(2)}s\n\n`;
+    markdown += `- **Duration:** ${(metadata.durationMs / 1000).toFixed(2)}s\n`;
+    if (metadata.cache) {
+      markdown += `- **Scan Cache:** ${describeCacheStats(metadata.cache)}\n`;
+    }
+    markdown += '\n';
 
     // LOC Stats
     markdown += '## Code Statistics\n\n';
@@ -62,6 +84,11 @@ export class Reporter {
     markdown += '## Summary\n\n';
     markdown += summary + '\n\n';
 
+    // Baseline comparison
+    if (result.baseline) {
+      markdown += this.generateBaselineSection(result.baseline);
+    }
+
     // Findings
     if (findings.length > 0) {
       markdown += '## Findings\n\n';
@@ -81,6 +108,9 @@ export class Reporter {
           if (finding.line) {
             markdown += ` (Line ${finding.line})`;
           }
+          if (finding.reachability) {
+            markdown += ` | **Reachability:** ${finding.reachability}`;
+          }
           markdown += '\n\n';
           markdown += `${finding.description}\n\n`;
           if (finding.suggestion) {
@@ -93,6 +123,12 @@ export class Reporter {
       markdown += '✅ No issues found!\n\n';
     }
 
+    // Suppressed findings
+    if ((result.suppressed && result.suppressed.length > 0) ||
+        (result.suppressionWarnings && result.suppressionWarnings.length > 0)) {
+      markdown += this.generateSuppressedSection(result.suppressed || [], result.suppressionWarnings || []);
+    }
+
     // Recommendations
     if (recommendations.length > 0) {
       markdown += '## Recommendations\n\n';
@@ -109,6 +145,60 @@ export class Reporter {
     return markdown;
   }
 
+  /**
+   * Generate "new since baseline" section
+   */
+  private generateBaselineSection(baseline: BaselineComparison): string {
+    let markdown = '## 🆕 New Since Baseline\n\n';
+    markdown += `- **Baseline:** \`${baseline.baselinePath}\`\n`;
+    markdown += `- **New:** ${baseline.newFindings.length}\n`;
+    markdown += `- **Unchanged:** ${baseline.unchangedFindings.length}\n`;
+    markdown += `- **Fixed:** ${baseline.fixedEntries.length}\n\n`;
+
+    if (baseline.newFindings.length === 0) {
+      markdown += '✅ No new findings since baseline.\n\n';
+      return markdown;
+    }
+
+    for (const finding of baseline.newFindings) {
+      const icon = this.getSeverityIcon(finding.severity);
+      const location = finding.line ? `${finding.file}:${finding.line}` : finding.file;
+      markdown += `- ${icon} **${finding.category}** \`${location}\` - ${finding.description}\n`;
+    }
+    markdown += '\n';
+
+    return markdown;
+  }
+
+  /**
+   * Generate suppressed findings section
+   */
+  private generateSuppressedSection(suppressed: SuppressedFinding[], warnings: SuppressionWarning[]): string {
+    let markdown = `## 🔇 Suppressed (${suppressed.length})\n\n`;
+
+    for (const item of suppressed) {
+      const location = item.line ? `${item.file}:${item.line}` : item.file;
+      const reason = item.suppression.reason || '_no justification given_';
+      markdown += `- **${item.category}** \`${location}\` - ${item.description}\n`;
+      markdown += `  - Suppressed by \`${item.suppression.location}\`: ${reason}`;
+      if (item.suppression.expires) {
+        markdown += ` (expires ${item.suppression.expires})`;
+      }
+      markdown += '\n';
+    }
+    markdown += '\n';
+
+    if (warnings.length > 0) {
+      markdown += '### ⚠️ Suppression Warnings\n\n';
+      for (const warning of warnings) {
+        markdown += `- \`${warning.location}\`: ${warning.message}\n`;
+      }
+      markdown += '\n';
+    }
+
+    return markdown;
+  }
+
   /**
    * Generate HTML report from markdown with charts
    */
@@ -283,20 +373,17 @@ export class Reporter {
    */
   saveReport(
     result: ReviewResult,
-    format: 'markdown' | 'html' = 'markdown',
+    format: ReportFileFormat = 'markdown',
     outputPath?: string,
     reportType?: string
   ): string {
-    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-
-    // Generate command-specific filename
-    const reportPrefix = this.getReportPrefix(reportType);
-    const defaultFilename = `${reportPrefix}-${timestamp}.${format === 'markdown' ? 'md' : 'html'}`;
-    const filepath = outputPath || path.join(process.cwd(), defaultFilename);
+    const filepath = outputPath || this.getDefaultReportPath(format, reportType);
 
     let content: string;
     if (format === 'markdown') {
       content = this.generateMarkdown(result);
+    } else if (format === 'sarif') {
+      content = JSON.stringify(new SarifReporter(result.metadata.repoInfo.path).fromReviewResult(result), null, 2);
     } else {
       content = this.generateHTML(result) as any; // Will be resolved
     }
@@ -305,6 +392,22 @@ export class Reporter {
     return filepath;
   }
 
+  /**
+   * Get default report path in the current directory for a format and report type
+   */
+  getDefaultReportPath(format: ReportFileFormat, reportType?: string): string {
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const extensions: Record<ReportFileFormat, string> = {
+      markdown: 'md',
+      html: 'html',
+      sarif: 'sarif',
+    };
+
+    // Generate command-specific filename
+    const reportPrefix = this.getReportPrefix(reportType);
+    return path.join(process.cwd(), `${reportPrefix}-${timestamp}.${extensions[format]}`);
+  }
+
   /**
    * Get report filename prefix based on report type
    */
@@ -377,3 +480,17 @@ export class Reporter {
 }
 
 export const reporter = new Reporter();
+
+/**
+ * Parse a --format option value into a report format
+ */
+export function parseReportFormat(
+  value: string | undefined,
+  allowed: ReportFileFormat[] = ['markdown', 'sarif']
+): ReportFileFormat {
+  const format = (value || 'markdown').toLowerCase() as ReportFileFormat;
+  if (!allowed.includes(format)) {
+    throw configError(`Invalid report format "${value}". Expected one of: ${allowed.join(', ')}`);
+  }
+  return format;
+}
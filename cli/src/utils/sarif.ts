@@ -0,0 +1,354 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { ReviewResult, Finding } from './reporter';
+import { ruleEngine, Rule, RuleResult, RuleViolation } from '../core/rule-engine';
+import { fingerprintAnchor, normalizeRuleId, SourceLineCache } from './finding-identity';
+
+const packageJson = require('../../package.json');
+
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+const SARIF_VERSION = '2.1.0';
+const FINGERPRINT_KEY = 'guardscan/v1';
+// Code quality categories from scan/run and the rule engine; these are not security alerts
+const NON_SECURITY_CATEGORY = /^(code smell|code complexity|code quality|maintainability|performance|best[- ]practices|style|linting)\b/i;
+
+type Severity = Finding['severity'];
+
+/**
+ * SARIF 2.1.0 log (subset of the spec that GuardScan emits)
+ */
+export interface SarifLog {
+  $schema: string;
+  version: string;
+  runs: SarifRun[];
+}
+
+export interface SarifRun {
+  tool: {
+    driver: {
+      name: string;
+      version: string;
+      informationUri: string;
+      rules: SarifRuleDescriptor[];
+    };
+  };
+  originalUriBaseIds: Record<string, { uri: string }>;
+  results: SarifResult[];
+  invocations?: Array<{ executionSuccessful: boolean; endTimeUtc?: string }>;
+}
+
+export interface SarifRuleDescriptor {
+  id: string;
+  name: string;
+  shortDescription: { text: string };
+  fullDescription?: { text: string };
+  help?: { text: string };
+  helpUri?: string;
+  defaultConfiguration: { level: SarifLevel };
+  properties: {
+    tags: string[];
+    'security-severity'?: string;
+  };
+}
+
+export interface SarifResult {
+  ruleId: string;
+  ruleIndex: number;
+  level: SarifLevel;
+  message: { text: string };
+  locations: Array<{
+    physicalLocation: {
+      artifactLocation: { uri: string; uriBaseId: string };
+      region?: { startLine: number; startColumn?: number };
+    };
+  }>;
+  partialFingerprints: Record<string, string>;
+  baselineState?: 'new' | 'unchanged';
+  properties?: { reachability?: string };
+}
+
+export type SarifLevel = 'error' | 'warning' | 'note' | 'none';
+
+/**
+ * Normalized input shared by findings and rule violations
+ */
+interface SarifEntry {
+  ruleId: string;
+  ruleName: string;
+  severity: Severity;
+  file: string;
+  line?: number;
+  column?: number;
+  message: string;
+  suggestion?: string;
+  rule?: Rule;
+  category: string;
+  baselineState?: 'new' | 'unchanged';
+  reachability?: string;
+}
+
+export class SarifReporter {
+  private lines: SourceLineCache;
+
+  constructor(private readonly repoRoot: string = process.cwd()) {
+    this.lines = new SourceLineCache(repoRoot);
+  }
+
+  /**
+   * Build a SARIF log from a review/scan result.
+   * Findings whose rule ID matches a loaded rule pick up its CWE/OWASP metadata.
+   */
+  fromReviewResult(result: ReviewResult, rules: Rule[] = ruleEngine.getRules()): SarifLog {
+    const knownRules = new Map(rules.map(rule => [rule.id, rule]));
+    const newFindings = result.baseline ? new Set(result.baseline.newFindings) : undefined;
+
+    const entries = result.findings.map(finding => {
+      const ruleId = normalizeRuleId(finding.ruleId || finding.category) || 'finding';
+      return {
+        ruleId,
+        ruleName: finding.category,
+        severity: finding.severity,
+        file: finding.file,
+        line: finding.line,
+        column: finding.column,
+        message: finding.description,
+        suggestion: finding.suggestion,
+        rule: knownRules.get(ruleId),
+        category: finding.category,
+        baselineState: newFindings
+          ? (newFindings.has(finding) ? 'new' as const : 'unchanged' as const)
+          : undefined,
+        reachability: finding.reachability,
+      };
+    });
+
+    return this.buildLog(entries, result.metadata.timestamp);
+  }
+
+  /**
+   * Build a SARIF log from a rule engine result
+   */
+  fromRuleResult(result: RuleResult, rules: Rule[] = ruleEngine.getRules()): SarifLog {
+    const knownRules = new Map(rules.map(rule => [rule.id, rule]));
+
+    const entries = result.violations.map((violation: RuleViolation) => {
+      const rule = knownRules.get(violation.ruleId);
+      return {
+        ruleId: violation.ruleId,
+        ruleName: violation.ruleName,
+        severity: violation.severity,
+        file: violation.file,
+        line: violation.line,
+        column: this.toSarifColumn(violation, rule),
+        message: violation.message,
+        suggestion: violation.suggestion,
+        rule,
+        category: violation.category,
+      };
+    });
+
+    return this.buildLog(entries, result.timestamp);
+  }
+
+  /**
+   * Save SARIF log to file
+   */
+  save(log: SarifLog, filepath: string): string {
+    fs.writeFileSync(filepath, JSON.stringify(log, null, 2), 'utf-8');
+    return filepath;
+  }
+
+  /**
+   * Assemble the SARIF run from normalized entries
+   */
+  private buildLog(entries: SarifEntry[], timestamp: string): SarifLog {
+    const descriptors: SarifRuleDescriptor[] = [];
+    const ruleIndex = new Map<string, number>();
+    const results: SarifResult[] = [];
+
+    for (const entry of entries) {
+      if (!ruleIndex.has(entry.ruleId)) {
+        ruleIndex.set(entry.ruleId, descriptors.length);
+        descriptors.push(this.buildRuleDescriptor(entry));
+      }
+
+      const uri = this.toArtifactUri(entry.file);
+      const region = entry.line
+        ? {
+            startLine: entry.line,
+            ...(entry.column !== undefined ? { startColumn: Math.max(1, entry.column) } : {}),
+          }
+        : undefined;
+
+      results.push({
+        ruleId: entry.ruleId,
+        ruleIndex: ruleIndex.get(entry.ruleId)!,
+        level: this.toLevel(entry.severity),
+        message: { text: entry.message },
+        locations: [{
+          physicalLocation: {
+            artifactLocation: { uri, uriBaseId: 'SRCROOT' },
+            ...(region ? { region } : {}),
+          },
+        }],
+        partialFingerprints: {
+          [FINGERPRINT_KEY]: this.fingerprint(entry, uri),
+        },
+        ...(entry.baselineState ? { baselineState: entry.baselineState } : {}),
+        ...(entry.reachability ? { properties: { reachability: entry.reachability } } : {}),
+      });
+    }
+
+    return {
+      $schema: SARIF_SCHEMA,
+      version: SARIF_VERSION,
+      runs: [{
+        tool: {
+          driver: {
+            name: 'GuardScan',
+            version: packageJson.version,
+            informationUri: packageJson.homepage,
+            rules: descriptors,
+          },
+        },
+        originalUriBaseIds: {
+          SRCROOT: { uri: this.toFileUri(this.repoRoot) },
+        },
+        results,
+        invocations: [{ executionSuccessful: true, endTimeUtc: timestamp }],
+      }],
+    };
+  }
+
+  /**
+   * Build a rule descriptor, tagging CWE/OWASP identifiers where known
+   */
+  private buildRuleDescriptor(entry: SarifEntry): SarifRuleDescriptor {
+    const rule = entry.rule;
+    const security = this.isSecurityCategory(entry);
+    const tags = new Set<string>(security ? ['security'] : []);
+
+    if (rule) {
+      tags.add(rule.category.toLowerCase());
+      for (const cwe of rule.metadata?.cwe || []) {
+        tags.add(`external/cwe/${cwe.toLowerCase()}`);
+      }
+      for (const owasp of rule.metadata?.owasp || []) {
+        tags.add(`external/owasp/${owasp.toLowerCase()}`);
+      }
+    } else {
+      const owaspMatch = entry.category.match(/OWASP\s+(A\d{2})/i);
+      if (owaspMatch) {
+        tags.add(`external/owasp/${owaspMatch[1].toLowerCase()}:2021`);
+      }
+    }
+
+    const descriptor: SarifRuleDescriptor = {
+      id: entry.ruleId,
+      name: rule?.name || entry.ruleName,
+      shortDescription: { text: rule?.name || entry.ruleName },
+      defaultConfiguration: { level: this.toLevel(rule?.severity || entry.severity) },
+      properties: {
+        tags: Array.from(tags),
+        ...(security ? { 'security-severity': this.toSecuritySeverity(rule?.severity || entry.severity) } : {}),
+      },
+    };
+
+    if (rule?.description) {
+      descriptor.fullDescription = { text: rule.description };
+    }
+    if (entry.suggestion) {
+      descriptor.help = { text: entry.suggestion };
+    }
+    if (rule?.metadata?.references?.length) {
+      descriptor.helpUri = rule.metadata.references[0];
+    }
+
+    return descriptor;
+  }
+
+  /**
+   * Whether an entry is a security finding. Known rules decide by their
+   * category; free-form categories are security unless they name code quality.
+   */
+  private isSecurityCategory(entry: SarifEntry): boolean {
+    if (entry.rule) {
+      return entry.rule.category.toLowerCase() === 'security';
+    }
+    return !NON_SECURITY_CATEGORY.test(entry.category);
+  }
+
+  /**
+   * Stable fingerprint: rule + file + whitespace-normalized line content.
+   * Falls back to the message when the line can't be read, so pseudo-files
+   * like "dependencies" still fingerprint deterministically.
+   */
+  private fingerprint(entry: SarifEntry, uri: string): string {
+    const lineContent = entry.line ? this.lines.readLine(entry.file, entry.line) : undefined;
+    const anchor = fingerprintAnchor(lineContent, entry.message);
+
+    return crypto
+      .createHash('sha256')
+      .update(`${entry.ruleId}\0${uri}\0${anchor}`)
+      .digest('hex')
+      .substring(0, 32);
+  }
+
+  /**
+   * Convert a file path to a repo-relative URI
+   */
+  private toArtifactUri(file: string): string {
+    const absolute = path.resolve(this.repoRoot, file);
+    const relative = path.relative(this.repoRoot, absolute);
+    const uri = relative.startsWith('..') ? absolute : relative;
+    return uri.split(path.sep).map(encodeURIComponent).join('/');
+  }
+
+  /**
+   * SARIF columns are 1-based; RuleEngine reports pattern matches 0-based and
+   * passes semgrep's 1-based columns through
+   */
+  private toSarifColumn(violation: RuleViolation, rule?: Rule): number | undefined {
+    if (violation.column === undefined) return undefined;
+    return rule?.semgrep && !rule.patterns ? violation.column : violation.column + 1;
+  }
+
+  /**
+   * Convert a directory to a file:// URI with trailing slash
+   */
+  private toFileUri(dir: string): string {
+    const normalized = path.resolve(dir).split(path.sep).join('/');
+    const prefixed = normalized.startsWith('/') ? normalized : `/${normalized}`;
+    return `file://${encodeURI(prefixed)}${prefixed.endsWith('/') ? '' : '/'}`;
+  }
+
+  /**
+   * Map GuardScan severity to SARIF level
+   */
+  private toLevel(severity: Severity): SarifLevel {
+    switch (severity) {
+      case 'critical':
+      case 'high':
+        return 'error';
+      case 'medium':
+        return 'warning';
+      default:
+        return 'note';
+    }
+  }
+
+  /**
+   * Map GuardScan severity to a GitHub code scanning security-severity score
+   */
+  private toSecuritySeverity(severity: Severity): string {
+    const scores: Record<Severity, string> = {
+      critical: '9.5',
+      high: '8.0',
+      medium: '5.5',
+      low: '3.0',
+      info: '0.0',
+    };
+    return scores[severity];
+  }
+}
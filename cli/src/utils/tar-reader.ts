@@ -0,0 +1,68 @@
+const BLOCK_SIZE = 512;
+
+export interface TarEntry {
+  name: string;
+  size: number;
+  read(): Buffer;
+}
+
+/**
+ * Minimal tar archive reader (ustar, GNU long names and pax paths)
+ *
+ * Lists the regular files of an uncompressed tar; gunzip .tar.gz/.tgz first.
+ */
+export function readTarEntries(archive: Buffer): TarEntry[] {
+  const entries: TarEntry[] = [];
+  let offset = 0;
+  let longName: string | undefined;
+
+  while (offset + BLOCK_SIZE <= archive.length) {
+    const header = archive.subarray(offset, offset + BLOCK_SIZE);
+    // Two zero blocks end the archive; one is enough to stop
+    if (header.every(byte => byte === 0)) break;
+
+    const size = readOctal(header, 124, 12);
+    const type = String.fromCharCode(header[156] || 0x30);
+    const dataStart = offset + BLOCK_SIZE;
+    if (size < 0 || dataStart + size > archive.length) {
+      throw new Error('Invalid tar archive: truncated entry');
+    }
+    offset = dataStart + Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE;
+
+    const data = () => archive.subarray(dataStart, dataStart + size);
+    switch (type) {
+      case 'L': // GNU long name for the next entry
+        longName = trimNul(data().toString('utf-8'));
+        continue;
+      case 'x': // pax extended header; only the path is used
+        longName = /(?:^|\n)\d+ path=([^\n]*)\n/.exec(data().toString('utf-8'))?.[1] ?? longName;
+        continue;
+      case '0':
+      case '\0': {
+        const prefix = readString(header, 345, 155);
+        const name = longName ?? (prefix ? `${prefix}/${readString(header, 0, 100)}` : readString(header, 0, 100));
+        entries.push({ name, size, read: () => Buffer.from(data()) });
+        break;
+      }
+    }
+    longName = undefined;
+  }
+
+  return entries;
+}
+
+function readString(header: Buffer, start: number, length: number): string {
+  return trimNul(header.toString('utf-8', start, start + length));
+}
+
+function readOctal(header: Buffer, start: number, length: number): number {
+  // Sizes of 8GB and more use base-256; such entries are too large to scan anyway
+  if (header[start] & 0x80) return -1;
+  const value = readString(header, start, length).trim();
+  return value ? parseInt(value, 8) : 0;
+}
+
+function trimNul(value: string): string {
+  const end = value.indexOf('\0');
+  return end === -1 ? value : value.slice(0, end);
+}
@@ -0,0 +1,120 @@
+import * as zlib from 'zlib';
+
+const EOCD_SIGNATURE = 0x06054b50;
+const ZIP64_EOCD_LOCATOR_SIGNATURE = 0x07064b50;
+const ZIP64_EOCD_SIGNATURE = 0x06064b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const ZIP64_EXTRA_FIELD = 0x0001;
+const MAX_UINT32 = 0xffffffff;
+
+export interface ZipEntry {
+  name: string;
+  size: number;
+  /** Decompress the entry; only stored and deflated entries are supported */
+  read(): Buffer;
+}
+
+/**
+ * Minimal ZIP archive reader (stored/deflate, ZIP64 aware)
+ *
+ * Enough to read advisory dumps and archives without pulling in a dependency.
+ * Entries are decompressed lazily so large archives can be streamed entry by entry.
+ */
+export function readZipEntries(archive: Buffer): ZipEntry[] {
+  let { entryCount, directoryOffset } = readEndOfCentralDirectory(archive);
+  const entries: ZipEntry[] = [];
+  let offset = directoryOffset;
+
+  while (entryCount-- > 0) {
+    if (archive.readUInt32LE(offset) !== CENTRAL_HEADER_SIGNATURE) {
+      throw new Error('Invalid ZIP archive: corrupt central directory');
+    }
+
+    const method = archive.readUInt16LE(offset + 10);
+    let compressedSize = archive.readUInt32LE(offset + 20);
+    let size = archive.readUInt32LE(offset + 24);
+    const nameLength = archive.readUInt16LE(offset + 28);
+    const extraLength = archive.readUInt16LE(offset + 30);
+    const commentLength = archive.readUInt16LE(offset + 32);
+    let localOffset = archive.readUInt32LE(offset + 42);
+    const name = archive.toString('utf-8', offset + 46, offset + 46 + nameLength);
+
+    // ZIP64 extra field carries the real values of fields set to 0xFFFFFFFF, in this order
+    if (size === MAX_UINT32 || compressedSize === MAX_UINT32 || localOffset === MAX_UINT32) {
+      const extra = findExtraField(archive, offset + 46 + nameLength, extraLength, ZIP64_EXTRA_FIELD);
+      if (extra !== undefined) {
+        let cursor = extra;
+        if (size === MAX_UINT32) { size = Number(archive.readBigUInt64LE(cursor)); cursor += 8; }
+        if (compressedSize === MAX_UINT32) { compressedSize = Number(archive.readBigUInt64LE(cursor)); cursor += 8; }
+        if (localOffset === MAX_UINT32) { localOffset = Number(archive.readBigUInt64LE(cursor)); }
+      }
+    }
+
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) continue;
+
+    entries.push({
+      name,
+      size,
+      read: () => readEntryData(archive, name, method, localOffset, compressedSize, size),
+    });
+  }
+
+  return entries;
+}
+
+function readEndOfCentralDirectory(archive: Buffer): { entryCount: number; directoryOffset: number } {
+  // The EOCD record is at least 22 bytes and may be followed by a comment of up to 64KB
+  const searchStart = Math.max(0, archive.length - 22 - 0xffff);
+  for (let offset = archive.length - 22; offset >= searchStart; offset--) {
+    if (archive.readUInt32LE(offset) !== EOCD_SIGNATURE) continue;
+
+    let entryCount = archive.readUInt16LE(offset + 10);
+    let directoryOffset = archive.readUInt32LE(offset + 16);
+
+    const locator = offset - 20;
+    if (locator >= 0 && archive.readUInt32LE(locator) === ZIP64_EOCD_LOCATOR_SIGNATURE) {
+      const zip64Offset = Number(archive.readBigUInt64LE(locator + 8));
+      if (archive.readUInt32LE(zip64Offset) === ZIP64_EOCD_SIGNATURE) {
+        entryCount = Number(archive.readBigUInt64LE(zip64Offset + 32));
+        directoryOffset = Number(archive.readBigUInt64LE(zip64Offset + 48));
+      }
+    }
+
+    return { entryCount, directoryOffset };
+  }
+
+  throw new Error('Invalid ZIP archive: end of central directory not found');
+}
+
+function findExtraField(archive: Buffer, start: number, length: number, headerId: number): number | undefined {
+  let offset = start;
+  while (offset + 4 <= start + length) {
+    const id = archive.readUInt16LE(offset);
+    const size = archive.readUInt16LE(offset + 2);
+    if (id === headerId) return offset + 4;
+    offset += 4 + size;
+  }
+  return undefined;
+}
+
+function readEntryData(archive: Buffer, name: string, method: number, localOffset: number, compressedSize: number, size: number): Buffer {
+  if (archive.readUInt32LE(localOffset) !== LOCAL_HEADER_SIGNATURE) {
+    throw new Error(`Invalid ZIP archive: corrupt local header for ${name}`);
+  }
+
+  const dataStart = localOffset + 30 + archive.readUInt16LE(localOffset + 26) + archive.readUInt16LE(localOffset + 28);
+  const data = archive.subarray(dataStart, dataStart + compressedSize);
+
+  switch (method) {
+    case 0:
+      return Buffer.from(data);
+    case 8:
+      // Entries that inflate past their declared size (zip bombs) fail instead of exhausting memory
+      return zlib.inflateRawSync(data, { maxOutputLength: Math.max(size, 1) });
+    default:
+      throw new Error(`Unsupported ZIP compression method ${method} for ${name}`);
+  }
+}